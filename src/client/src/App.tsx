@@ -16,42 +16,60 @@ import {
 import { getVSCodeApi } from "./actions/vscodeApiActions/getVSCodeApi";
 import { logIntoAzureAction } from "./actions/azureActions/logIntoAzure";
 import {
-  updateOutputPathAction
+  updateOutputPathAction,
+  updateProjectNameAction
 } from "./actions/wizardSelectionActions/updateProjectNameAndPath";
 
 import { setValidations } from "./actions/wizardSelectionActions/setValidations";
 import {
   updateTemplateGenerationStatusMessageAction,
-  updateTemplateGenerationStatusAction
+  updateTemplateGenerationStatusAction,
+  updateTemplateGenerationProgressAction,
+  updatePostGenerationTasksAction
 } from "./actions/wizardInfoActions/updateGenStatusActions";
 import {
   selectPagesAction
 } from "./actions/wizardSelectionActions/selectPages";
 import { getVersionsDataAction } from "./actions/wizardInfoActions/getVersionData";
+import { updateEngineStatusAction } from "./actions/wizardInfoActions/updateEngineStatus";
+import { setExistingProjectAction } from "./actions/wizardInfoActions/addToProjectActions";
+import { setVisitedWizardPageAction } from "./actions/wizardInfoActions/setVisitedWizardPage";
+import { setSelectedFrontendFrameworkAction } from "./actions/wizardSelectionActions/selectedFrontendFramework";
+import { setSelectedBackendFrameworkAction } from "./actions/wizardSelectionActions/selectedBackEndFramework";
+import { selectLanguageAction } from "./actions/wizardSelectionActions/selectLanguage";
 
 import appStyles from "./appStyles.module.css";
 import { IVersions } from "./types/version";
 import { getVSCodeApiSelector } from "./selectors/vscodeApiSelector";
 import { IVSCodeObject } from "./reducers/vscodeApiReducer";
 import { IServiceStatus } from "./reducers/generationStatus/genStatus";
+import { IGenerationProgress } from "./reducers/generationStatus/genProgress";
+import { IPostGenerationTask } from "./types/postGeneration";
 import { ISelected } from "./types/selected";
+import { EngineStatus } from "./types/engineStatus";
+import { IExistingProject } from "./types/existingProject";
 import { AppState } from "./reducers";
 import { IOption } from "./types/option";
 import { setPreviewStatusAction } from "./actions/wizardContentActions/setPreviewStatus";
 import { ThunkDispatch } from "redux-thunk";
 import RootAction from "./actions/ActionType";
 import { getPagesOptionsAction } from "./actions/wizardContentActions/getPagesOptions";
-import { getPages, getFrameworks, getUserStatus, getTemplateInfo } from "./utils/extensionService/extensionService";
+import {
+  getPages, getFrameworks, getUserStatus, getTemplateInfo, getExistingProject
+} from "./utils/extensionService/extensionService";
 
 import { setBackendFrameworksAction } from "./actions/wizardContentActions/setBackendFrameworks";
 import { setFrontendFrameworksAction } from "./actions/wizardContentActions/setFrontendFrameworks";
 import { parseFrameworksPayload } from "./utils/parseFrameworksPayload";
+import { withLanguageSuffix } from "./utils/languages";
+import { getFrontendLanguagesSelector, getProjectLanguageSelector, getSelectedLanguage } from "./selectors/languageSelector";
 
 import Loadable from "react-loadable";
 import PageDetails from "./containers/PageDetails";
 import { MODAL_TYPES } from "./actions/modalActions/typeKeys";
 import RightSidebar from "./containers/RightSidebar";
 import TopNavBar from "./components/TopNavBar";
+import EngineStatusBanner from "./containers/EngineStatusBanner";
 
 const PageSelectFrameworks = Loadable({
   loader: () => import(/* webpackChunkName: "PageSelectFrameworks" */  "./containers/PageSelectFrameworks"),
@@ -81,6 +99,10 @@ const AppServiceModal = Loadable({
   loader: () => import(/* webpackChunkName: "AppServiceModal" */  "./containers/AppServiceModal"),
   loading:() => <div/>
 });
+const AddToProjectModal = Loadable({
+  loader: () => import(/* webpackChunkName: "AddToProjectModal" */  "./containers/AddToProjectModal"),
+  loading:() => <div/>
+});
 const ViewLicensesModal = Loadable({
   loader: () => import(/* webpackChunkName: "ViewLicensesModal" */  "./containers/ViewLicensesModal"),
   loading:() => <div/>
@@ -102,19 +124,33 @@ interface IDispatchProps {
   setValidations: (validations: any) => void;
   updateTemplateGenStatusMessage: (status: string) => any;
   updateTemplateGenStatus: (isGenerated: IServiceStatus) => any;
+  updateTemplateGenProgress: (progress: IGenerationProgress) => any;
+  updatePostGenTasks: (tasks: IPostGenerationTask[]) => any;
+  updateEngineStatus: (status: EngineStatus) => any;
   getVersionsData: (versions: IVersions) => any;
   getPages: (pages: IOption[]) => any;
   setPreviewStatus: (isPreview: boolean) => void;
   setPages: (pages: ISelected[]) => void;
   setBackendFrameworks: (frameworks: IOption[]) => any;
   setFrontendFrameworks: (frameworks: IOption[]) => any;
+  setExistingProject: (project: IExistingProject) => any;
+  selectFrontendFramework: (framework: ISelected) => any;
+  selectBackendFramework: (framework: ISelected) => any;
+  selectLanguage: (language: string) => any;
+  updateProjectName: (projectName: string) => any;
+  setRouteVisited: (route: string) => any;
 }
 
 interface IStateProps {
   vscode: IVSCodeObject;
   frontendOptions: IOption[];
+  backendOptions: IOption[];
+  existingProject: IExistingProject | null;
   selectedFrontend: ISelected;
   selectedBackend: ISelected;
+  selectedLanguage: string;
+  frontendLanguages: string[];
+  projectLanguage?: string;
   selectedPages: ISelected[];
   isPreview: boolean;
   modalState: any;
@@ -124,7 +160,8 @@ type Props = IDispatchProps & IStateProps & RouteComponentProps;
 
 const App = (props: Props) => {
   const { selectedFrontend, selectedBackend, vscode, selectedPages, setPages, frontendOptions,
-    isPreview, setFrontendFrameworks, setBackendFrameworks, modalState, logIntoAzure } = props;
+    isPreview, setFrontendFrameworks, setBackendFrameworks, modalState, logIntoAzure,
+    backendOptions, existingProject, selectedLanguage, frontendLanguages, projectLanguage } = props;
   const [isLoaded, setIsLoaded] = React.useState(false);
   const promisesLoading: Array<any> = new Array<any>();
 
@@ -183,11 +220,24 @@ const App = (props: Props) => {
       });
       props.setPreviewStatus(message.payload.preview);
     });
+
+    getExistingProject(vscode).then((event)=>{
+      const { project } = event.data.payload;
+      if (project) {
+        props.setExistingProject(project);
+      }
+    });
   },[props.vscode]);
 
+  React.useEffect(()=>{
+    if (existingProject && frontendOptions.length > 0 && backendOptions.length > 0) {
+      loadExistingProject(existingProject);
+    }
+  },[existingProject, frontendOptions, backendOptions]);
+
   React.useEffect(()=>{
     loadPages();
-  },[selectedFrontend, selectedBackend]);
+  },[selectedFrontend, selectedBackend, projectLanguage]);
 
   function getFrameworksListAndSetToStore(){
     getFrameworks(vscode, isPreview).then((event: any)=>{
@@ -210,15 +260,50 @@ const App = (props: Props) => {
   }
 
   const loadPages = () => {
-    getPages(vscode, selectedFrontend.internalName, selectedBackend.internalName).then((event)=>{
+    getPages(vscode, selectedFrontend.internalName, selectedBackend.internalName, projectLanguage).then((event)=>{
       props.getPages(event.data.payload.pages);
       selectedPages.map((selectedPage)=>{
-        selectedPage.internalName = `wts.Page.${selectedFrontend.internalName}.${selectedPage.defaultName ? selectedPage.defaultName.replace(" ",""):""}`;
+        selectedPage.internalName = withLanguageSuffix(
+          `wts.Page.${selectedFrontend.internalName}.${selectedPage.defaultName ? selectedPage.defaultName.replace(" ",""):""}`,
+          frontendLanguages,
+          selectedLanguage
+        );
       });
       setPages(selectedPages);
     });
   }
 
+  /**
+   * Selects the frameworks of the project pages and features are added to, new
+   * pages start from an empty selection on the pages step.
+   */
+  function loadExistingProject(project: IExistingProject){
+    const toSelected = (option: IOption): ISelected => ({
+      title: option.title as string,
+      internalName: option.internalName,
+      version: option.version,
+      author: option.author,
+      licenses: option.licenses
+    });
+    const frontend = frontendOptions.find((option)=>option.internalName === project.frontendFramework);
+    const backend = backendOptions.find((option)=>option.internalName === project.backendFramework);
+    if (frontend) {
+      props.selectFrontendFramework(toSelected(frontend));
+    }
+    if (backend) {
+      props.selectBackendFramework(toSelected(backend));
+    }
+    if (project.language) {
+      props.selectLanguage(project.language);
+    }
+    props.updateProjectName(project.projectName);
+    props.updateOutputPath(project.path);
+    setPages([]);
+    props.setRouteVisited(ROUTES.SELECT_FRAMEWORKS);
+    props.setRouteVisited(ROUTES.SELECT_PAGES);
+    props.history.push(ROUTES.SELECT_PAGES);
+  }
+
   function messageEventsFromExtension(){
     window.addEventListener("message", event => {
       const message = event.data;
@@ -236,6 +321,15 @@ const App = (props: Props) => {
         case EXTENSION_COMMANDS.GEN_STATUS:
           props.updateTemplateGenStatus(message.payload);
           break;
+        case EXTENSION_COMMANDS.GEN_PROGRESS:
+          props.updateTemplateGenProgress(message.payload);
+          break;
+        case EXTENSION_COMMANDS.POST_GEN_TASKS:
+          props.updatePostGenTasks(message.payload.tasks);
+          break;
+        case EXTENSION_COMMANDS.ENGINE_STATUS:
+          props.updateEngineStatus(message.payload.status);
+          break;
       }
     });
   }
@@ -245,6 +339,7 @@ const App = (props: Props) => {
     <React.Fragment>
       {isLoaded && (<Header />)}
       {isLoaded && (<TopNavBar />)}
+      {isLoaded && (<EngineStatusBanner />)}
 
       {isLoaded && (<div className={appStyles.container}>
         {(modalState.modalType === MODAL_TYPES.PRIVACY_MODAL) && (<RedirectModal />)}
@@ -252,6 +347,7 @@ const App = (props: Props) => {
         {(modalState.modalType === MODAL_TYPES.APP_SERVICE_MODAL) && (<AppServiceModal/>)}
         {(modalState.modalType === MODAL_TYPES.COSMOS_DB_MODAL) && (<CosmosResourceModal/>)}
         {(modalState.modalType === MODAL_TYPES.POST_GEN_MODAL) && (<PostGenerationModal/>)}
+        {(modalState.modalType === MODAL_TYPES.ADD_TO_PROJECT_MODAL) && (<AddToProjectModal/>)}
 
         <main
           className={classnames(appStyles.centerView, {
@@ -321,6 +417,15 @@ const mapDispatchToProps = (
   updateTemplateGenStatus: (isGenerated: IServiceStatus) => {
     dispatch(updateTemplateGenerationStatusAction(isGenerated));
   },
+  updateTemplateGenProgress: (progress: IGenerationProgress) => {
+    dispatch(updateTemplateGenerationProgressAction(progress));
+  },
+  updatePostGenTasks: (tasks: IPostGenerationTask[]) => {
+    dispatch(updatePostGenerationTasksAction(tasks));
+  },
+  updateEngineStatus: (status: EngineStatus) => {
+    dispatch(updateEngineStatusAction(status));
+  },
   getPages: (pages: IOption[]) => {
     dispatch(getPagesOptionsAction(pages));
   },
@@ -338,14 +443,37 @@ const mapDispatchToProps = (
   },
   setFrontendFrameworks: (frameworks: IOption[]) => {
     dispatch(setFrontendFrameworksAction(frameworks));
+  },
+  setExistingProject: (project: IExistingProject) => {
+    dispatch(setExistingProjectAction(project));
+  },
+  selectFrontendFramework: (framework: ISelected) => {
+    dispatch(setSelectedFrontendFrameworkAction(framework));
+  },
+  selectBackendFramework: (framework: ISelected) => {
+    dispatch(setSelectedBackendFrameworkAction(framework));
+  },
+  selectLanguage: (language: string) => {
+    dispatch(selectLanguageAction(language));
+  },
+  updateProjectName: (projectName: string) => {
+    dispatch(updateProjectNameAction(projectName, { isValid: true, error: "", isDirty: false }));
+  },
+  setRouteVisited: (route: string) => {
+    dispatch(setVisitedWizardPageAction(route));
   }
 });
 
 const mapStateToProps = (state: AppState): IStateProps => ({
   vscode: getVSCodeApiSelector(state),
   selectedFrontend: state.selection.frontendFramework,
+  selectedLanguage: getSelectedLanguage(state),
+  frontendLanguages: getFrontendLanguagesSelector(state),
+  projectLanguage: getProjectLanguageSelector(state),
   selectedBackend: state.selection.backendFramework,
   frontendOptions: state.wizardContent.frontendOptions,
+  backendOptions: state.wizardContent.backendOptions,
+  existingProject: state.addToProject.existingProject,
   selectedPages: state.selection.pages,
   isPreview:  state.wizardContent.previewStatus,
   modalState: state.modals.openModal
@@ -108,6 +108,17 @@ const openAddPagesModalAction = () => {
   };
 };
 
+const openAddToProjectModalAction = () => {
+  return (dispatch: Dispatch<ModalActionType>) => {
+    dispatch(
+      openModalAction({
+        modalType: MODAL_TYPES.ADD_TO_PROJECT_MODAL,
+        modalData: null
+      })
+    );
+  };
+};
+
 export {
   closeModalAction,
   openAzureLoginModalAction,
@@ -117,5 +128,6 @@ export {
   openRedirectModalAction,
   openViewLicensesModalAction,
   openAppServiceModalAction,
-  openAddPagesModalAction
+  openAddPagesModalAction,
+  openAddToProjectModalAction
 };
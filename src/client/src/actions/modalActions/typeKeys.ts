@@ -6,7 +6,8 @@ export enum MODAL_TYPES {
   PRIVACY_MODAL = "PRIVACY_MODAL",
   VIEW_LICENSES_MODAL = "VIEW_LICENSES_MODAL",
   APP_SERVICE_MODAL = "APP_SERVICE_MODAL",
-  ADD_PAGES_MODAL = "ADD_PAGES_MODAL"
+  ADD_PAGES_MODAL = "ADD_PAGES_MODAL",
+  ADD_TO_PROJECT_MODAL = "ADD_TO_PROJECT_MODAL"
 }
 
 export enum MODAL_TYPEKEYS {
@@ -24,6 +25,7 @@ export type ModalType =
   | MODAL_TYPES.APP_SERVICE_MODAL
   | MODAL_TYPES.ADD_PAGES_MODAL
   | MODAL_TYPES.AZURE_LOGIN_MODAL
+  | MODAL_TYPES.ADD_TO_PROJECT_MODAL
 
 export interface ModalState {
   modalType: ModalType;
@@ -32,7 +32,8 @@ function getApiTemplateInfoFromJson(items: any[]): IApiTemplateInfo[] {
     svgUrl: val.icon,
     tags: val.tags,
     defaultName: val.defaultName,
-    author: val.author
+    author: val.author,
+    templateSource: val.templateSource
   })).sort((a: IApiTemplateInfo, b: IApiTemplateInfo) => a.position - b.position);
 
   return listItems;
@@ -49,7 +50,8 @@ function getOptionalFromApiTemplateInfo(items: IApiTemplateInfo[]): IOption[] {
     title: val.displayName,
     defaultName: val.defaultName,
     isValidTitle: true,
-    author: val.author
+    author: val.author,
+    templateSource: val.templateSource
   }));
 }
 
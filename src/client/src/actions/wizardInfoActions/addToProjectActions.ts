@@ -0,0 +1,29 @@
+import { WIZARD_INFO_TYPEKEYS } from "./typeKeys";
+import { IExistingProject } from "../../types/existingProject";
+import { ITemplateInfo } from "../../types/templateInfo";
+
+export interface ISetExistingProject {
+  type: WIZARD_INFO_TYPEKEYS.SET_EXISTING_PROJECT;
+  payload: IExistingProject;
+}
+
+export interface ISelectAddToProjectServices {
+  type: WIZARD_INFO_TYPEKEYS.SELECT_ADD_TO_PROJECT_SERVICES;
+  payload: ITemplateInfo[];
+}
+
+const setExistingProjectAction = (
+  project: IExistingProject
+): ISetExistingProject => ({
+  type: WIZARD_INFO_TYPEKEYS.SET_EXISTING_PROJECT,
+  payload: project
+});
+
+const selectAddToProjectServicesAction = (
+  services: ITemplateInfo[]
+): ISelectAddToProjectServices => ({
+  type: WIZARD_INFO_TYPEKEYS.SELECT_ADD_TO_PROJECT_SERVICES,
+  payload: services
+});
+
+export { setExistingProjectAction, selectAddToProjectServicesAction };
@@ -6,6 +6,11 @@ export enum WIZARD_INFO_TYPEKEYS {
   SET_DETAILS_PAGE_INFO = "WTS/details/SET_DETAILS_PAGE_INFO",
   UPDATE_TEMPLATE_GENERATION_STATUS_MESSAGE = "WTS/postgen/UPDATE_TEMPLATE_GENERATION_STATUS_MESSAGE",
   UPDATE_TEMPLATE_GENERATION_STATUS = "WTS/postgen/UPDATE_TEMPLATE_GENERATION_STATUS",
+  UPDATE_TEMPLATE_GENERATION_PROGRESS = "WTS/postgen/UPDATE_TEMPLATE_GENERATION_PROGRESS",
+  UPDATE_POST_GENERATION_TASKS = "WTS/postgen/UPDATE_POST_GENERATION_TASKS",
+  UPDATE_ENGINE_STATUS = "WTS/engine/UPDATE_ENGINE_STATUS",
+  SET_EXISTING_PROJECT = "WTS/addToProject/SET_EXISTING_PROJECT",
+  SELECT_ADD_TO_PROJECT_SERVICES = "WTS/addToProject/SELECT_ADD_TO_PROJECT_SERVICES",
   RESET_WIZARD = "RESET_WIZARD",
   UPDATE_DEPENDENCY_INFO = "WTS/dependency/UPDATE_DEPENDENCY_INFO",
   UPDATE_CREATE_PROJECT_BUTTON = "UPDATE_CREATE_PROJECT_BUTTON",
@@ -0,0 +1,16 @@
+import { WIZARD_INFO_TYPEKEYS } from "./typeKeys";
+import { EngineStatus } from "../../types/engineStatus";
+
+export interface IUpdateEngineStatus {
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_ENGINE_STATUS;
+  payload: EngineStatus;
+}
+
+const updateEngineStatusAction = (
+  status: EngineStatus
+): IUpdateEngineStatus => ({
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_ENGINE_STATUS,
+  payload: status
+});
+
+export { updateEngineStatusAction };
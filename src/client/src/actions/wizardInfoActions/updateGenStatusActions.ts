@@ -1,5 +1,7 @@
 import { WIZARD_INFO_TYPEKEYS } from "./typeKeys";
 import { IServiceStatus } from "../../reducers/generationStatus/genStatus";
+import { IGenerationProgress } from "../../reducers/generationStatus/genProgress";
+import { IPostGenerationTask } from "../../types/postGeneration";
 
 export interface IUpdateGenStatusMessage {
   type: WIZARD_INFO_TYPEKEYS.UPDATE_TEMPLATE_GENERATION_STATUS_MESSAGE;
@@ -11,6 +13,16 @@ export interface IUpdateGenStatus {
   payload: IServiceStatus;
 }
 
+export interface IUpdateGenProgress {
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_TEMPLATE_GENERATION_PROGRESS;
+  payload: IGenerationProgress;
+}
+
+export interface IUpdatePostGenTasks {
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_POST_GENERATION_TASKS;
+  payload: IPostGenerationTask[];
+}
+
 const updateTemplateGenerationStatusMessageAction = (status: string): IUpdateGenStatusMessage => ({
   type: WIZARD_INFO_TYPEKEYS.UPDATE_TEMPLATE_GENERATION_STATUS_MESSAGE,
   payload: status
@@ -23,7 +35,23 @@ const updateTemplateGenerationStatusAction = (
   payload: isGenerated
 });
 
+const updateTemplateGenerationProgressAction = (
+  progress: IGenerationProgress
+): IUpdateGenProgress => ({
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_TEMPLATE_GENERATION_PROGRESS,
+  payload: progress
+});
+
+const updatePostGenerationTasksAction = (
+  tasks: IPostGenerationTask[]
+): IUpdatePostGenTasks => ({
+  type: WIZARD_INFO_TYPEKEYS.UPDATE_POST_GENERATION_TASKS,
+  payload: tasks
+});
+
 export {
   updateTemplateGenerationStatusMessageAction,
-  updateTemplateGenerationStatusAction
+  updateTemplateGenerationStatusAction,
+  updateTemplateGenerationProgressAction,
+  updatePostGenerationTasksAction
 };
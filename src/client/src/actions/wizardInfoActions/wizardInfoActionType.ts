@@ -5,11 +5,18 @@ import { ISetPage } from "./setPageWizardPage";
 import { IUpdateCreateProjectButton } from "./updateCreateProjectButton";
 import {
   IUpdateGenStatusMessage,
-  IUpdateGenStatus
+  IUpdateGenStatus,
+  IUpdateGenProgress,
+  IUpdatePostGenTasks
 } from "./updateGenStatusActions";
 import { IResetWizard } from "./resetWizardAction";
 import { IUpdateDependencyInfo } from "./updateDependencyInfo";
 import { IEnableQuickStart } from "./enableQuickStartAction";
+import { IUpdateEngineStatus } from "./updateEngineStatus";
+import {
+  ISetExistingProject,
+  ISelectAddToProjectServices
+} from "./addToProjectActions";
 
 type WizardInfoType =
   | IVersionData
@@ -20,8 +27,13 @@ type WizardInfoType =
   | IUpdateGenStatus
   | IResetWizard
   | IUpdateGenStatusMessage
+  | IUpdateGenProgress
+  | IUpdatePostGenTasks
   | IUpdateDependencyInfo
   | IUpdateCreateProjectButton
-  | IEnableQuickStart;
+  | IEnableQuickStart
+  | IUpdateEngineStatus
+  | ISetExistingProject
+  | ISelectAddToProjectServices;
 
 export default WizardInfoType;
@@ -0,0 +1,16 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "./typeKeys";
+
+export interface ISelectFeatureToggleAction {
+  type: WIZARD_SELECTION_TYPEKEYS.SELECT_FEATURE_TOGGLE;
+  payload: {
+    identity: string;
+    selected: boolean;
+  };
+}
+
+const selectFeatureToggleAction = (identity: string, selected: boolean): ISelectFeatureToggleAction => ({
+  type: WIZARD_SELECTION_TYPEKEYS.SELECT_FEATURE_TOGGLE,
+  payload: { identity, selected }
+});
+
+export { selectFeatureToggleAction };
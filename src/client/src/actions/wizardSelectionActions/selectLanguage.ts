@@ -0,0 +1,13 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "./typeKeys";
+
+export interface ISelectLanguageAction {
+  type: WIZARD_SELECTION_TYPEKEYS.SELECT_LANGUAGE;
+  payload: string;
+}
+
+const selectLanguageAction = (language: string): ISelectLanguageAction => ({
+  type: WIZARD_SELECTION_TYPEKEYS.SELECT_LANGUAGE,
+  payload: language
+});
+
+export { selectLanguageAction };
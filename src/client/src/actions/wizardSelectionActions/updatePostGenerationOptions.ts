@@ -0,0 +1,16 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "./typeKeys";
+import { IPostGenerationOptions } from "../../types/postGeneration";
+
+export interface IUpdatePostGenerationOptionsAction {
+  type: WIZARD_SELECTION_TYPEKEYS.UPDATE_POST_GENERATION_OPTIONS;
+  payload: IPostGenerationOptions;
+}
+
+const updatePostGenerationOptionsAction = (
+  options: IPostGenerationOptions
+): IUpdatePostGenerationOptionsAction => ({
+  type: WIZARD_SELECTION_TYPEKEYS.UPDATE_POST_GENERATION_OPTIONS,
+  payload: options
+});
+
+export { updatePostGenerationOptionsAction };
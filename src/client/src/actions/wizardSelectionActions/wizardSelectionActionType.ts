@@ -1,5 +1,6 @@
 import { ISelectBackendAction } from "./selectedBackEndFramework";
 import { ISelectFrontendAction } from "./selectedFrontendFramework";
+import { ISelectLanguageAction } from "./selectLanguage";
 import {
   ISelectPagesAction,
   IResetPagesAction,
@@ -12,10 +13,13 @@ import {
   IUpdateProjectNameActionType,
   IUpdateProjectPathActionType
 } from "./updateProjectNameAndPath";
+import { IUpdatePostGenerationOptionsAction } from "./updatePostGenerationOptions";
+import { ISelectFeatureToggleAction } from "./selectFeatureToggle";
 
 type WizardSelectionActionType =
   | ISelectBackendAction
   | ISelectFrontendAction
+  | ISelectLanguageAction
   | ISelectPagesAction
   | ISelectPageAction
   | ISelectProjectTypeAction
@@ -23,6 +27,8 @@ type WizardSelectionActionType =
   | IValidationsAction
   | IUpdateProjectNameActionType
   | IUpdateProjectPathActionType
-  | IResetPagesAction;
+  | IResetPagesAction
+  | IUpdatePostGenerationOptionsAction
+  | ISelectFeatureToggleAction;
 
 export default WizardSelectionActionType;
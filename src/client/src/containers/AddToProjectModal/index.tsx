@@ -0,0 +1,224 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { ThunkDispatch } from "redux-thunk";
+import classnames from "classnames";
+import { InjectedIntlProps, injectIntl } from "react-intl";
+
+import { AppState } from "../../reducers";
+import styles from "./styles.module.css";
+import buttonStyles from "../../css/buttonStyles.module.css";
+import asModal from "../../components/Modal";
+import RootAction from "../../actions/ActionType";
+import { closeModalAction } from "../../actions/modalActions/modalActions";
+import {
+  setExistingProjectAction
+} from "../../actions/wizardInfoActions/addToProjectActions";
+import { selectPagesAction } from "../../actions/wizardSelectionActions/selectPages";
+import { ReactComponent as Cancel } from "../../assets/cancel.svg";
+import { isAddToProjectModalOpenSelector } from "../../selectors/modalSelector";
+import { getVSCodeApiSelector } from "../../selectors/vscodeApiSelector";
+import { rootSelector } from "../../selectors/generationSelector";
+import { MODAL_TYPES } from "../../actions/modalActions/typeKeys";
+import { KEY_EVENTS } from "../../utils/constants";
+import {
+  applyAddToProjectChanges,
+  getAddToProjectChanges
+} from "../../utils/extensionService/extensionService";
+import { IVSCodeObject } from "../../reducers/vscodeApiReducer";
+import { IExistingProject, IProjectFileChange } from "../../types/existingProject";
+import { ITemplateInfo } from "../../types/templateInfo";
+import messages from "./messages";
+
+interface IStateProps {
+  isModalOpen: boolean;
+  vscode: IVSCodeObject;
+  existingProject: IExistingProject | null;
+  pages: ITemplateInfo[];
+  services: ITemplateInfo[];
+}
+
+interface IDispatchProps {
+  closeModal: () => any;
+  setExistingProject: (project: IExistingProject) => any;
+  resetSelectedPages: () => any;
+}
+
+type Props = IStateProps & InjectedIntlProps & IDispatchProps;
+
+const AddToProjectModal = (props: Props) => {
+  const {
+    intl,
+    closeModal,
+    vscode,
+    existingProject,
+    pages,
+    services,
+    setExistingProject,
+    resetSelectedPages
+  } = props;
+  const { formatMessage } = intl;
+  const [changes, setChanges] = React.useState<IProjectFileChange[]>();
+  const [selectedPaths, setSelectedPaths] = React.useState<string[]>([]);
+  const [shownChange, setShownChange] = React.useState<IProjectFileChange>();
+  const [isApplying, setApplying] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  React.useEffect(() => {
+    getAddToProjectChanges(pages, services, vscode).then((event: any) => {
+      const { payload } = event.data;
+      if (payload.error) {
+        setError(payload.error);
+        return;
+      }
+      const fileChanges: IProjectFileChange[] = payload.changes;
+      setChanges(fileChanges);
+      // Conflicts are only applied when the user picks them
+      setSelectedPaths(
+        fileChanges
+          .filter(change => change.status !== "conflict")
+          .map(change => change.path)
+      );
+      setShownChange(fileChanges[0]);
+    });
+  }, []);
+
+  const togglePath = (filePath: string) => {
+    setSelectedPaths(
+      selectedPaths.indexOf(filePath) === -1
+        ? selectedPaths.concat(filePath)
+        : selectedPaths.filter(selectedPath => selectedPath !== filePath)
+    );
+  };
+
+  const applyChanges = () => {
+    setApplying(true);
+    applyAddToProjectChanges(selectedPaths, vscode).then((event: any) => {
+      const { payload } = event.data;
+      if (payload.project) {
+        setExistingProject(payload.project);
+      }
+      resetSelectedPages();
+      closeModal();
+    });
+  };
+
+  const cancelKeyDownHandler = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (event.key === KEY_EVENTS.ENTER || event.key === KEY_EVENTS.SPACE) {
+      event.preventDefault();
+      event.stopPropagation();
+      closeModal();
+    }
+  };
+
+  return (
+    <div>
+      <div className={styles.headerContainer}>
+        <div className={styles.title}>{formatMessage(messages.title)}</div>
+        <Cancel
+          tabIndex={0}
+          aria-label={formatMessage(messages.cancelAriaLabel)}
+          className={styles.cancelIcon}
+          onClick={closeModal}
+          onKeyDown={cancelKeyDownHandler}
+        />
+      </div>
+      {error && (
+        <p className={styles.error} role="alert">
+          {formatMessage(messages.error, { error })}
+        </p>
+      )}
+      {!changes && !error && (
+        <p>
+          {formatMessage(messages.loading, {
+            projectName: existingProject ? existingProject.projectName : ""
+          })}
+        </p>
+      )}
+      {changes && changes.length === 0 && <p>{formatMessage(messages.noChanges)}</p>}
+      {changes && changes.length > 0 && (
+        <ul className={styles.changeList}>
+          {changes.map(change => (
+            <li key={change.path} className={styles.change}>
+              <input
+                type="checkbox"
+                aria-label={change.path}
+                checked={selectedPaths.indexOf(change.path) !== -1}
+                onChange={() => togglePath(change.path)}
+              />
+              <button
+                className={classnames(styles.filePath, {
+                  [styles.selectedFile]: shownChange === change
+                })}
+                onClick={() => setShownChange(change)}
+              >
+                {change.path}
+              </button>
+              <span
+                className={classnames(styles.status, {
+                  [styles.conflict]: change.status === "conflict"
+                })}
+              >
+                {formatMessage(messages[change.status])}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {shownChange && (
+        <div className={styles.diff}>
+          {shownChange.isBinary ? (
+            <p>{formatMessage(messages.binaryFile)}</p>
+          ) : (
+            shownChange.diff.map((line, index) => (
+              <div
+                key={index}
+                className={classnames(styles.diffLine, {
+                  [styles.addedLine]: line.type === "added",
+                  [styles.removedLine]: line.type === "removed"
+                })}
+              >
+                {`${line.type === "added" ? "+" : line.type === "removed" ? "-" : " "} ${line.text}`}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+      <div className={styles.footerContainer}>
+        <button
+          className={classnames(buttonStyles.buttonHighlighted, styles.button)}
+          disabled={!changes || selectedPaths.length === 0 || isApplying}
+          onClick={applyChanges}
+        >
+          {formatMessage(messages.apply)}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  isModalOpen: isAddToProjectModalOpenSelector(state),
+  vscode: getVSCodeApiSelector(state),
+  existingProject: state.addToProject.existingProject,
+  pages: rootSelector(state).pages,
+  services: state.addToProject.services
+});
+
+const mapDispatchToProps = (
+  dispatch: ThunkDispatch<AppState, void, RootAction>
+): IDispatchProps => ({
+  closeModal: () => {
+    dispatch(closeModalAction());
+  },
+  setExistingProject: (project: IExistingProject) => {
+    dispatch(setExistingProjectAction(project));
+  },
+  resetSelectedPages: () => {
+    dispatch(selectPagesAction([]));
+  }
+});
+
+export default connect(
+  mapStateToProps,
+  mapDispatchToProps
+)(asModal(injectIntl(AddToProjectModal), MODAL_TYPES.ADD_TO_PROJECT_MODAL));
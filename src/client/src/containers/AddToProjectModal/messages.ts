@@ -0,0 +1,45 @@
+import { defineMessages } from "react-intl";
+
+const messages = defineMessages({
+  title: {
+    id: "addToProjectModal.title",
+    defaultMessage: "Review Changes"
+  },
+  loading: {
+    id: "addToProjectModal.loading",
+    defaultMessage: "Generating the changes for {projectName}..."
+  },
+  error: {
+    id: "addToProjectModal.error",
+    defaultMessage: "The changes could not be generated: {error}"
+  },
+  noChanges: {
+    id: "addToProjectModal.noChanges",
+    defaultMessage: "The selected pages and features do not change any file."
+  },
+  added: {
+    id: "addToProjectModal.added",
+    defaultMessage: "New file"
+  },
+  modified: {
+    id: "addToProjectModal.modified",
+    defaultMessage: "Merged with your changes"
+  },
+  conflict: {
+    id: "addToProjectModal.conflict",
+    defaultMessage: "Conflict, review before applying"
+  },
+  binaryFile: {
+    id: "addToProjectModal.binaryFile",
+    defaultMessage: "Binary file, no diff available."
+  },
+  apply: {
+    id: "addToProjectModal.apply",
+    defaultMessage: "Apply Selected Changes"
+  },
+  cancelAriaLabel: {
+    id: "addToProjectModal.cancelAriaLabel",
+    defaultMessage: "Close"
+  }
+});
+export default messages;
@@ -17,6 +17,7 @@ describe("RuntimeStackInfo", () => {
   const cases = [
     [WIZARD_CONTENT_INTERNAL_NAMES.NODE, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
     [WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
+    [WIZARD_CONTENT_INTERNAL_NAMES.NEST, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
     [WIZARD_CONTENT_INTERNAL_NAMES.FLASK, WIZARD_CONTENT_INTERNAL_NAMES.PYTHON],
   ];
 
@@ -11,6 +11,7 @@ import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
 const backendFrameworkNameToAppServiceRuntimeStack: Map<string, string> = new Map([
   [WIZARD_CONTENT_INTERNAL_NAMES.NODE, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
   [WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
+  [WIZARD_CONTENT_INTERNAL_NAMES.NEST, WIZARD_CONTENT_INTERNAL_NAMES.NODE],
   [WIZARD_CONTENT_INTERNAL_NAMES.FLASK, WIZARD_CONTENT_INTERNAL_NAMES.PYTHON],
 ]);
 
@@ -134,6 +134,18 @@ const CosmosResourceModal = (props: Props) => {
     SQL: {
       label: "SQL",
       value: COSMOS_APIS.SQL
+    },
+    TABLE: {
+      label: "Table",
+      value: COSMOS_APIS.TABLE
+    },
+    GREMLIN: {
+      label: "Gremlin (graph)",
+      value: COSMOS_APIS.GREMLIN
+    },
+    CASSANDRA: {
+      label: "Cassandra",
+      value: COSMOS_APIS.CASSANDRA
     }
   };
 
@@ -150,7 +162,13 @@ const CosmosResourceModal = (props: Props) => {
           label: ""
         }
       ],
-      api: [FORM_CONSTANTS.MONGO, FORM_CONSTANTS.SQL],
+      api: [
+        FORM_CONSTANTS.MONGO,
+        FORM_CONSTANTS.SQL,
+        FORM_CONSTANTS.TABLE,
+        FORM_CONSTANTS.GREMLIN,
+        FORM_CONSTANTS.CASSANDRA
+      ],
       subscription: props.subscriptions,
       resourceGroup: props.subscriptionData.resourceGroups
     });
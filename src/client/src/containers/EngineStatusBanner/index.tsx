@@ -0,0 +1,38 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { injectIntl, InjectedIntlProps } from "react-intl";
+
+import Notification from "../../components/Notification";
+import { AppState } from "../../reducers";
+import { EngineStatus } from "../../types/engineStatus";
+import { strings } from "./strings";
+import styles from "./styles.module.css";
+
+interface IStateProps {
+  engineStatus: EngineStatus;
+}
+
+type Props = IStateProps & InjectedIntlProps;
+
+const EngineStatusBanner = ({ engineStatus, intl }: Props) => {
+  if (engineStatus === "connected") {
+    return null;
+  }
+  return (
+    <div className={styles.banner} role="alert">
+      <Notification
+        showWarning={true}
+        text={intl.formatMessage(
+          engineStatus === "failed" ? strings.failed : strings.reconnecting
+        )}
+        altMessage={intl.formatMessage(strings.iconAltMessage)}
+      />
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  engineStatus: state.engineStatus
+});
+
+export default connect(mapStateToProps)(injectIntl(EngineStatusBanner));
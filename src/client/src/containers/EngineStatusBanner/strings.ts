@@ -0,0 +1,18 @@
+import { defineMessages } from "react-intl";
+
+export const strings = defineMessages({
+  reconnecting: {
+    id: "engineStatusBanner.reconnecting",
+    defaultMessage:
+      "The generation engine stopped unexpectedly. Reconnecting, your selections are kept..."
+  },
+  failed: {
+    id: "engineStatusBanner.failed",
+    defaultMessage:
+      "The generation engine could not be restarted. Close and reopen the wizard to try again."
+  },
+  iconAltMessage: {
+    id: "engineStatusBanner.iconAltMessage",
+    defaultMessage: "Warning icon"
+  }
+});
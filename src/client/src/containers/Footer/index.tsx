@@ -35,8 +35,13 @@ import {
 import { setVisitedWizardPageAction } from "../../actions/wizardInfoActions/setVisitedWizardPage";
 import { setPageWizardPageAction } from "../../actions/wizardInfoActions/setPageWizardPage";
 import { updateCreateProjectButtonAction } from "../../actions/wizardInfoActions/updateCreateProjectButton";
-import { openPostGenModalAction } from "../../actions/modalActions/modalActions";
+import {
+  openPostGenModalAction,
+  openAddToProjectModalAction
+} from "../../actions/modalActions/modalActions";
 import { getVSCodeApiSelector } from "../../selectors/vscodeApiSelector";
+import { getPostGenerationOptionsSelector } from "../../selectors/postGenerationSelector";
+import { IPostGenerationOptions } from "../../types/postGeneration";
 
 import {
   FormattedMessage,
@@ -64,6 +69,7 @@ interface IDispatchProps {
   setRouteVisited: (route: string) => void;
   setPage: (route: string) => void;
   openPostGenModal: () => any;
+  openAddToProjectModal: () => any;
   updateCreateProjectButton: (enable: boolean) => any;
 }
 
@@ -80,6 +86,9 @@ interface IStateProps {
   isEnableNextPage: boolean;
   functionNames?: IFunctionName[];
   enableCreateProjectButton: boolean;
+  isAddingToProject: boolean;
+  hasAddToProjectSelection: boolean;
+  postGenerationOptions: IPostGenerationOptions | null;
 }
 
 type Props = RouteComponentProps &
@@ -111,7 +120,8 @@ class Footer extends React.Component<Props> {
       selectedAppService,
       appService,
       vscode,
-      openPostGenModal
+      openPostGenModal,
+      postGenerationOptions
     } = this.props;
     e.preventDefault();
     vscode.postMessage({
@@ -126,7 +136,8 @@ class Footer extends React.Component<Props> {
         selectedFunctions,
         functions,
         selectedAppService,
-        appService
+        appService,
+        postGeneration: postGenerationOptions
       }
     });
     const { pathname } = this.props.location;
@@ -206,13 +217,41 @@ class Footer extends React.Component<Props> {
       isVisited,
       intl,
       updateCreateProjectButton,
-      enableCreateProjectButton
+      enableCreateProjectButton,
+      isAddingToProject,
+      hasAddToProjectSelection,
+      openAddToProjectModal
     } = this.props;
     const { pathname } = location;
     const { showFrameworks } = isVisited;
     if (this.isReviewAndGenerate()) {
       updateCreateProjectButton(true);
     }
+    if (isAddingToProject) {
+      // The frameworks of an existing project are fixed, only pages and features are added
+      return (
+        <nav aria-label={intl.formatMessage(messages.navAriaLabel)}>
+          {pathname === ROUTES.SELECT_PAGES && (
+            <div className={styles.footer}>
+              <div />
+              <div className={styles.buttonContainer}>
+                <button
+                  disabled={!hasAddToProjectSelection}
+                  className={classnames(styles.button, {
+                    [buttonStyles.buttonDark]: !hasAddToProjectSelection,
+                    [buttonStyles.buttonHighlighted]: hasAddToProjectSelection,
+                    [styles.disabledOverlay]: !hasAddToProjectSelection
+                  })}
+                  onClick={openAddToProjectModal}
+                >
+                  {intl.formatMessage(messages.reviewChanges)}
+                </button>
+              </div>
+            </div>
+          )}
+        </nav>
+      );
+    }
     return (
       <nav aria-label={intl.formatMessage(messages.navAriaLabel)}>
         {pathname !== ROUTES.PAGE_DETAILS && (
@@ -312,7 +351,11 @@ const mapStateToProps = (state: AppState): IStateProps => ({
   functions: getAzureFunctionsOptionsSelector(state),
   isVisited: getIsVisitedRoutesSelector(state),
   isEnableNextPage: isEnableNextPage(state),
-  enableCreateProjectButton: state.wizardContent.createProjectButton
+  enableCreateProjectButton: state.wizardContent.createProjectButton,
+  isAddingToProject: state.addToProject.existingProject !== null,
+  hasAddToProjectSelection:
+    state.selection.pages.length > 0 || state.addToProject.services.length > 0,
+  postGenerationOptions: getPostGenerationOptionsSelector(state)
 }); 
 
 const mapDispatchToProps = (
@@ -327,6 +370,9 @@ const mapDispatchToProps = (
   openPostGenModal: () => {
     dispatch(openPostGenModalAction());
   },
+  openAddToProjectModal: () => {
+    dispatch(openAddToProjectModalAction());
+  },
   updateCreateProjectButton: (enable: boolean) => {
     dispatch(updateCreateProjectButtonAction(enable));
   }
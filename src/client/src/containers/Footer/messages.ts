@@ -4,6 +4,10 @@ const messages = defineMessages({
   navAriaLabel: {
     id: "footer.navAriaLabel",
     defaultMessage: "Navigate between pages and create project"
+  },
+  reviewChanges: {
+    id: "footer.reviewChanges",
+    defaultMessage: "Review Changes"
   }
 });
 export default messages;
\ No newline at end of file
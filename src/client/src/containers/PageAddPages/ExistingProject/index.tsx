@@ -0,0 +1,106 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { Dispatch } from "redux";
+import { InjectedIntlProps, injectIntl } from "react-intl";
+
+import styles from "./styles.module.css";
+import messages from "./messages";
+import { AppState } from "../../../reducers";
+import RootAction from "../../../actions/ActionType";
+import { selectAddToProjectServicesAction } from "../../../actions/wizardInfoActions/addToProjectActions";
+import { IExistingProject } from "../../../types/existingProject";
+import { ITemplateInfo } from "../../../types/templateInfo";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
+
+const COSMOS_SERVICE_NAME = "Cosmos";
+const COSMOS_OPTIONS = [
+  { identity: "", message: messages.noCosmos },
+  { identity: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_MONGO, message: messages.cosmosMongo },
+  { identity: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_SQL, message: messages.cosmosSql },
+  { identity: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_TABLE, message: messages.cosmosTable },
+  { identity: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_GREMLIN, message: messages.cosmosGremlin },
+  { identity: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_CASSANDRA, message: messages.cosmosCassandra }
+];
+
+interface IStateProps {
+  existingProject: IExistingProject | null;
+  services: ITemplateInfo[];
+}
+
+interface IDispatchProps {
+  selectServices: (services: ITemplateInfo[]) => any;
+}
+
+type Props = IStateProps & IDispatchProps & InjectedIntlProps;
+
+const ExistingProject = ({ existingProject, services, selectServices, intl }: Props) => {
+  if (!existingProject) {
+    return null;
+  }
+  const { formatMessage } = intl;
+  const hasCosmos = existingProject.services.some(service =>
+    COSMOS_OPTIONS.some(option => option.identity === service.identity)
+  );
+  const selectedCosmos = services.length > 0 ? services[0].identity : "";
+
+  return (
+    <div className={styles.container}>
+      <p>
+        {formatMessage(messages.addingTo, {
+          projectName: existingProject.projectName,
+          frontendFramework: existingProject.frontendFramework,
+          backendFramework: existingProject.backendFramework
+        })}
+      </p>
+      {existingProject.pages.length > 0 && (
+        <p className={styles.existingPages}>
+          {formatMessage(messages.existingPages, {
+            pages: existingProject.pages.map(page => page.name).join(", ")
+          })}
+        </p>
+      )}
+      {hasCosmos ? (
+        <p>{formatMessage(messages.cosmosIncluded)}</p>
+      ) : (
+        <fieldset className={styles.cosmosOptions}>
+          <legend>{formatMessage(messages.cosmosTitle)}</legend>
+          {COSMOS_OPTIONS.map(option => (
+            <label key={option.identity}>
+              <input
+                type="radio"
+                name="existingProjectCosmos"
+                checked={selectedCosmos === option.identity}
+                onChange={() =>
+                  selectServices(
+                    option.identity
+                      ? [{ name: COSMOS_SERVICE_NAME, identity: option.identity }]
+                      : []
+                  )
+                }
+              />
+              {formatMessage(option.message)}
+            </label>
+          ))}
+        </fieldset>
+      )}
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  existingProject: state.addToProject.existingProject,
+  services: state.addToProject.services
+});
+
+const mapDispatchToProps = (
+  dispatch: Dispatch<RootAction>
+): IDispatchProps => ({
+  selectServices: (services: ITemplateInfo[]) => {
+    dispatch(selectAddToProjectServicesAction(services));
+  }
+});
+
+export default connect(
+  mapStateToProps,
+  mapDispatchToProps
+)(injectIntl(ExistingProject));
@@ -0,0 +1,45 @@
+import { defineMessages } from "react-intl";
+
+const messages = defineMessages({
+  addingTo: {
+    id: "existingProject.addingTo",
+    defaultMessage: "Adding to {projectName} ({frontendFramework}, {backendFramework})"
+  },
+  existingPages: {
+    id: "existingProject.existingPages",
+    defaultMessage: "Existing pages: {pages}"
+  },
+  cosmosTitle: {
+    id: "existingProject.cosmosTitle",
+    defaultMessage: "Cosmos DB data access"
+  },
+  cosmosIncluded: {
+    id: "existingProject.cosmosIncluded",
+    defaultMessage: "The project already includes Cosmos DB data access."
+  },
+  noCosmos: {
+    id: "existingProject.noCosmos",
+    defaultMessage: "None"
+  },
+  cosmosMongo: {
+    id: "existingProject.cosmosMongo",
+    defaultMessage: "MongoDB API"
+  },
+  cosmosSql: {
+    id: "existingProject.cosmosSql",
+    defaultMessage: "SQL API"
+  },
+  cosmosTable: {
+    id: "existingProject.cosmosTable",
+    defaultMessage: "Table API"
+  },
+  cosmosGremlin: {
+    id: "existingProject.cosmosGremlin",
+    defaultMessage: "Gremlin (graph) API"
+  },
+  cosmosCassandra: {
+    id: "existingProject.cosmosCassandra",
+    defaultMessage: "Cassandra API"
+  }
+});
+export default messages;
@@ -100,6 +100,13 @@ const PageCard = (props: Props) => {
       <div className={styles.description}>
         {page.body}
       </div>
+      <div className={styles.templateSource} title={page.templateSource}>
+        {intl.formatMessage(messages.templateSource, {
+          source: page.templateSource
+            ? page.templateSource.split(/[\\/]/).pop()
+            : intl.formatMessage(messages.builtInTemplateSource)
+        })}
+      </div>
       <div className={styles.gridLayoutCardFooter}>
       <div>
           {!isModal && (
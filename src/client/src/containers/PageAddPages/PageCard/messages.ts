@@ -5,6 +5,14 @@ const messages = defineMessages({
   Preview: {
       id: "pageCard.details",
       defaultMessage: "Preview"
+    },
+  templateSource: {
+      id: "pageCard.templateSource",
+      defaultMessage: "Source: {source}"
+    },
+  builtInTemplateSource: {
+      id: "pageCard.builtInTemplateSource",
+      defaultMessage: "Built-in"
     }
   });
 
@@ -4,6 +4,7 @@ import { injectIntl } from "react-intl";
 
 import messages from "./messages";
 import PageCard from "./PageCard";
+import ExistingProject from "./ExistingProject";
 import styles from "./styles.module.css";
 import classnames from "classnames";
 import Notification from "../../components/Notification";
@@ -18,6 +19,7 @@ const PageAddPages = (props: Props) => {
   return (
     <div>
       <h1 className={styles.title}>{intl.formatMessage(messages.pagesTitleQuestion)}</h1>
+      {!isModal && <ExistingProject />}
       <div
           className={classnames(styles.description, {
             [styles.borderGreen]: !pageOutOfBounds,
@@ -0,0 +1,197 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { ThunkDispatch } from "redux-thunk";
+import { RouteComponentProps, withRouter } from "react-router";
+import { injectIntl, InjectedIntlProps } from "react-intl";
+import classnames from "classnames";
+
+import RootAction from "../../../actions/ActionType";
+import { setSelectedFrontendFrameworkAction } from "../../../actions/wizardSelectionActions/selectedFrontendFramework";
+import { setSelectedBackendFrameworkAction } from "../../../actions/wizardSelectionActions/selectedBackEndFramework";
+import { selectLanguageAction } from "../../../actions/wizardSelectionActions/selectLanguage";
+import { selectPagesAction } from "../../../actions/wizardSelectionActions/selectPages";
+import { selectFeatureToggleAction } from "../../../actions/wizardSelectionActions/selectFeatureToggle";
+import { setVisitedWizardPageAction } from "../../../actions/wizardInfoActions/setVisitedWizardPage";
+import { saveCosmosDbSettingsAction } from "../../../actions/azureActions/saveCosmosDbSettings";
+import { saveAppServiceSettingsAction } from "../../../actions/azureActions/appServiceActions";
+import { ISelectedAppService } from "../../../reducers/wizardSelectionReducers/services/appServiceReducer";
+
+import { getVSCodeApiSelector } from "../../../selectors/vscodeApiSelector";
+import { isEnableNextPage } from "../../../selectors/wizardSelectionSelector/wizardSelectionSelector";
+import { getPages, importRecipe } from "../../../utils/extensionService/extensionService";
+
+import { AppState } from "../../../reducers";
+import { IVSCodeObject } from "../../../reducers/vscodeApiReducer";
+import { ISelected } from "../../../types/selected";
+import { IOption } from "../../../types/option";
+import { IProjectRecipe } from "../../../types/projectRecipe";
+import {
+  FEATURE_TOGGLES,
+  LANGUAGES,
+  ROUTES,
+  ROUTES_ARRAY,
+  WIZARD_CONTENT_INTERNAL_NAMES
+} from "../../../utils/constants";
+
+import buttonStyles from "../../../css/buttonStyles.module.css";
+import styles from "./styles.module.css";
+import messages from "./messages";
+
+interface IStateProps {
+  vscode: IVSCodeObject;
+  frontendOptions: IOption[];
+  backendOptions: IOption[];
+  isEnableNextPage: boolean;
+}
+
+interface IDispatchProps {
+  selectFrontendFramework: (framework: ISelected) => void;
+  selectBackendFramework: (backendFramework: ISelected) => void;
+  selectLanguage: (language: string) => void;
+  selectPages: (pages: ISelected[]) => void;
+  saveCosmosOptions: (cosmosOptions: any) => void;
+  saveAppServiceOptions: (appServiceOptions: ISelectedAppService) => void;
+  selectFeatureToggle: (identity: string, selected: boolean) => void;
+  setRouteVisited: (route: string) => void;
+}
+
+type Props = IStateProps & IDispatchProps & RouteComponentProps & InjectedIntlProps;
+
+const toSelected = (option: IOption): ISelected => ({
+  title: option.title as string,
+  internalName: option.internalName,
+  version: option.version,
+  author: option.author,
+  licenses: option.licenses
+});
+
+const toDropdownOption = (value: string) => ({ label: value, value });
+
+const ImportRecipe = (props: Props) => {
+  const { vscode, frontendOptions, backendOptions, intl, history } = props;
+  const [error, setError] = React.useState("");
+
+  /**
+   * Selects what the recipe lists; the pages get the details of their
+   * templates from the pages available for the frameworks of the recipe.
+   */
+  const applyRecipe = (recipe: IProjectRecipe, pageTemplates: any[]) => {
+    const frontend = frontendOptions.find(option => option.internalName === recipe.frontendFramework.identity);
+    const backend = backendOptions.find(option => option.internalName === recipe.backendFramework.identity);
+    if (!frontend || !backend) {
+      setError(intl.formatMessage(messages.frameworksUnavailable));
+      return;
+    }
+    props.selectFrontendFramework(toSelected(frontend));
+    props.selectBackendFramework(toSelected(backend));
+    props.selectLanguage(recipe.language || LANGUAGES.JAVASCRIPT);
+    props.selectPages(recipe.pages.map(page => {
+      const template = pageTemplates.find(pageTemplate => pageTemplate.templateId === page.identity) || {};
+      return {
+        title: page.name,
+        id: page.name,
+        internalName: page.identity,
+        defaultName: template.defaultName,
+        isValidTitle: true,
+        isHome: page.name === recipe.homeName,
+        routePath: page.routePath,
+        isValidRoutePath: true,
+        licenses: template.licenses,
+        author: template.author
+      };
+    }));
+
+    const { cosmosDB, appService, features = [] } = recipe.services;
+    if (cosmosDB) {
+      props.saveCosmosOptions({
+        subscription: toDropdownOption(cosmosDB.subscription),
+        resourceGroup: toDropdownOption(cosmosDB.resourceGroup),
+        accountName: toDropdownOption(cosmosDB.accountName),
+        api: toDropdownOption(cosmosDB.api),
+        internalName: toDropdownOption(WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB)
+      });
+    }
+    if (appService) {
+      props.saveAppServiceOptions({
+        ...appService,
+        internalName: WIZARD_CONTENT_INTERNAL_NAMES.APP_SERVICE
+      });
+    }
+    FEATURE_TOGGLES.forEach(({ identity }) =>
+      props.selectFeatureToggle(identity, features.some(feature => feature.identity === identity))
+    );
+    ROUTES_ARRAY.forEach(route => props.setRouteVisited(route));
+    history.push(ROUTES.REVIEW_AND_GENERATE);
+  };
+
+  const loadRecipe = () => {
+    setError("");
+    importRecipe(vscode).then((event) => {
+      const { recipe } = event.data.payload;
+      if (event.data.payload.error) {
+        setError(event.data.payload.error);
+      } else if (recipe) {
+        getPages(vscode, recipe.frontendFramework.identity, recipe.backendFramework.identity, recipe.language).then((pagesEvent) => {
+          applyRecipe(recipe, pagesEvent.data.payload.pages);
+        });
+      }
+    });
+  };
+
+  return (
+    <div>
+      <p className={styles.description}>{intl.formatMessage(messages.description)}</p>
+      <button
+        className={classnames(buttonStyles.buttonDark, styles.importRecipe)}
+        onClick={loadRecipe}
+        disabled={!props.isEnableNextPage}
+      >
+        {intl.formatMessage(messages.importRecipe)}
+      </button>
+      {error && (<div className={styles.error}>{error}</div>)}
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  vscode: getVSCodeApiSelector(state),
+  frontendOptions: state.wizardContent.frontendOptions,
+  backendOptions: state.wizardContent.backendOptions,
+  isEnableNextPage: isEnableNextPage(state)
+});
+
+const mapDispatchToProps = (
+  dispatch: ThunkDispatch<AppState, void, RootAction>
+): IDispatchProps => ({
+  selectFrontendFramework: (framework: ISelected) => {
+    dispatch(setSelectedFrontendFrameworkAction(framework));
+  },
+  selectBackendFramework: (backendFramework: ISelected) => {
+    dispatch(setSelectedBackendFrameworkAction(backendFramework));
+  },
+  selectLanguage: (language: string) => {
+    dispatch(selectLanguageAction(language));
+  },
+  selectPages: (pages: ISelected[]) => {
+    dispatch(selectPagesAction(pages));
+  },
+  saveCosmosOptions: (cosmosOptions: any) => {
+    dispatch(saveCosmosDbSettingsAction(cosmosOptions));
+  },
+  saveAppServiceOptions: (appServiceOptions: ISelectedAppService) => {
+    dispatch(saveAppServiceSettingsAction(appServiceOptions));
+  },
+  selectFeatureToggle: (identity: string, selected: boolean) => {
+    dispatch(selectFeatureToggleAction(identity, selected));
+  },
+  setRouteVisited: (route: string) => {
+    dispatch(setVisitedWizardPageAction(route));
+  }
+});
+
+export default withRouter(
+  connect(
+    mapStateToProps,
+    mapDispatchToProps
+  )(injectIntl(ImportRecipe))
+);
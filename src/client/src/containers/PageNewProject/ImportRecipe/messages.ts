@@ -0,0 +1,18 @@
+import { defineMessages } from "react-intl";
+
+const messages = defineMessages({
+  description: {
+    id: "importRecipe.description",
+    defaultMessage: "Start from the selection saved in a recipe file with \"Export Recipe\"."
+  },
+  importRecipe: {
+    id: "importRecipe.button",
+    defaultMessage: "Import Recipe"
+  },
+  frameworksUnavailable: {
+    id: "importRecipe.frameworksUnavailable",
+    defaultMessage: "The frameworks of the recipe are not available."
+  }
+});
+
+export default messages;
@@ -0,0 +1,9 @@
+import { getPagesSelection, PAGES_SELECTION } from "./defaultSelection";
+
+describe("quick start selection", () => {
+  it("selects the blank page of the frontend framework", () => {
+    expect(getPagesSelection("Svelte")).toEqual([{ ...PAGES_SELECTION[0], internalName: "wts.Page.Svelte.Blank" }]);
+    expect(getPagesSelection("Angular")[0].internalName).toBe("wts.Page.Angular.Blank");
+    expect(getPagesSelection("React")).toEqual(PAGES_SELECTION);
+  });
+});
@@ -1,4 +1,5 @@
 import { ISelected } from "../../../types/selected";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
 
 const FRONT_END_SELECTION: ISelected = {
   author: "Facebook",
@@ -35,8 +36,26 @@ const PAGES_SELECTION: ISelected[] = [
   }
 ];
 
+const BLANK_PAGE_BY_FRONTEND: { [frontendFramework: string]: string } = {
+  [WIZARD_CONTENT_INTERNAL_NAMES.REACT]: WIZARD_CONTENT_INTERNAL_NAMES.REACT_BLANK_PAGE,
+  [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR]: WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR_BLANK_PAGE,
+  [WIZARD_CONTENT_INTERNAL_NAMES.VUE]: WIZARD_CONTENT_INTERNAL_NAMES.VUE_BLANK_PAGE,
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE]: WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_BLANK_PAGE
+};
+
+/**
+ * The blank page of the frontend framework the project is generated with,
+ * which is the React one unless a framework was picked before.
+ */
+const getPagesSelection = (frontendFramework: string): ISelected[] =>
+  PAGES_SELECTION.map(page => ({
+    ...page,
+    internalName: BLANK_PAGE_BY_FRONTEND[frontendFramework] || page.internalName
+  }));
+
 export {
   FRONT_END_SELECTION,
   BACK_END_SELECTION,
-  PAGES_SELECTION
+  PAGES_SELECTION,
+  getPagesSelection
 };
@@ -26,7 +26,7 @@ import quickStartWand from "../../../assets/quickStartWand.svg";
 import {
   FRONT_END_SELECTION,
   BACK_END_SELECTION,
-  PAGES_SELECTION
+  getPagesSelection
 } from "./defaultSelection";
 
 import { getAllFrameworks, getAllPages } from "./loadWizardContent";
@@ -39,6 +39,7 @@ interface IStateProps {
   vscode: IVSCodeObject;
   isPreview: boolean;
   isEnableNextPage: boolean;
+  selectedFrontend: ISelected;
 }
 
 interface IDispatchProps {
@@ -61,16 +62,19 @@ class QuickStart extends Component<Props> {
       selectPages,
       history,
       setRouteVisited,
-      enableQuickStart
+      enableQuickStart,
+      selectedFrontend
     } = this.props;
+    // Keeps the frontend framework when one was picked before coming back here
+    const frontendFramework = selectedFrontend.internalName ? selectedFrontend : FRONT_END_SELECTION;
 
     sendTelemetry(vscode, EXTENSION_COMMANDS.TRACK_PRESS_QUICKSTART);
     enableQuickStart();
     getAllFrameworks(vscode, isPreview);
-    getAllPages(vscode);
-    selectFrontendFramework(FRONT_END_SELECTION);
+    getAllPages(vscode, frontendFramework.internalName);
+    selectFrontendFramework(frontendFramework);
     selectBackendFramework(BACK_END_SELECTION);
-    selectPages(PAGES_SELECTION);
+    selectPages(getPagesSelection(frontendFramework.internalName));
     ROUTES_ARRAY.forEach(route => setRouteVisited(route));
     history.push(ROUTES.REVIEW_AND_GENERATE);
   };
@@ -117,7 +121,8 @@ const mapStateToProps = (state: AppState): IStateProps => {
   return {
     isPreview: previewStatus,
     vscode: getVSCodeApiSelector(state),
-    isEnableNextPage: isEnableNextPage(state)
+    isEnableNextPage: isEnableNextPage(state),
+    selectedFrontend: state.selection.frontendFramework
   };
 };
 
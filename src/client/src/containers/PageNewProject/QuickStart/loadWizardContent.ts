@@ -1,6 +1,6 @@
 import { IVSCodeObject } from "../../../reducers/vscodeApiReducer";
 
-import { FRONT_END_SELECTION, BACK_END_SELECTION } from "./defaultSelection";
+import { BACK_END_SELECTION } from "./defaultSelection";
 import {
   EXTENSION_MODULES,
   EXTENSION_COMMANDS,
@@ -18,13 +18,13 @@ const getAllFrameworks = (vscode: IVSCodeObject, isPreview: boolean) => {
   });
 };
 
-const getAllPages = (vscode: IVSCodeObject) => {
+const getAllPages = (vscode: IVSCodeObject, frontendFramework: string) => {
   vscode.postMessage({
     module: EXTENSION_MODULES.CORETS,
     command: EXTENSION_COMMANDS.GET_PAGES,
     payload: {
       projectType: WIZARD_CONTENT_INTERNAL_NAMES.FULL_STACK_APP,
-      frontendFramework: FRONT_END_SELECTION.internalName,
+      frontendFramework,
       backendFramework: BACK_END_SELECTION.internalName
     }
   });
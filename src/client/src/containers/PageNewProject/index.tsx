@@ -3,6 +3,7 @@ import styles from "./styles.module.css";
 
 import ProjectNameAndOutput from "./ProjectNameAndOutput";
 import QuickStart from "./QuickStart";
+import ImportRecipe from "./ImportRecipe";
 import { FormattedMessage } from "react-intl";
 
 const NewProject = () => {
@@ -28,6 +29,9 @@ const NewProject = () => {
         <div className={styles.quickStartContainer}>
           <QuickStart />
         </div>
+        <div className={styles.importRecipeContainer}>
+          <ImportRecipe />
+        </div>
       </div>
     </div>
   );
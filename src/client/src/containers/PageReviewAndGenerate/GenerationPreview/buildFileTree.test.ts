@@ -0,0 +1,27 @@
+import { buildFileTree, formatFileSize } from "./buildFileTree";
+
+describe("buildFileTree", () => {
+  it("nests files under their folders", () => {
+    const readme = { path: "README.md", size: 10, templates: [] };
+    const app = { path: "src/App.jsx", size: 20, templates: ["wts.Proj.React"] };
+    const grid = { path: "src/components/Grid/index.jsx", size: 30, templates: [] };
+
+    const tree = buildFileTree([readme, app, grid]);
+
+    expect(tree.files).toEqual([readme]);
+    expect(tree.folders).toHaveLength(1);
+    expect(tree.folders[0].path).toBe("src");
+    expect(tree.folders[0].files).toEqual([app]);
+    expect(tree.folders[0].folders[0].folders[0]).toEqual({
+      name: "Grid",
+      path: "src/components/Grid",
+      folders: [],
+      files: [grid]
+    });
+  });
+
+  it("formats sizes in bytes and kilobytes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2.0 KB");
+  });
+});
@@ -0,0 +1,31 @@
+import { IFileTreeFolder, IManifestFile } from "../../../types/generationPreview";
+
+/**
+ * Groups the flat list of manifest files, whose paths use forward slashes, into
+ * nested folders. Folders and files keep the order of the manifest.
+ */
+export const buildFileTree = (files: IManifestFile[]): IFileTreeFolder => {
+  const root: IFileTreeFolder = { name: "", path: "", folders: [], files: [] };
+  for (const file of files) {
+    const folderNames = file.path.split("/").slice(0, -1);
+    let folder = root;
+    for (const folderName of folderNames) {
+      const folderPath = folder.path ? `${folder.path}/${folderName}` : folderName;
+      let child = folder.folders.find(subfolder => subfolder.name === folderName);
+      if (!child) {
+        child = { name: folderName, path: folderPath, folders: [], files: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.files.push(file);
+  }
+  return root;
+};
+
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) {
+    return `${size} B`;
+  }
+  return `${(size / 1024).toFixed(1)} KB`;
+};
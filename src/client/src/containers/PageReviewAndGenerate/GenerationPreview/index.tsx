@@ -0,0 +1,166 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import classnames from "classnames";
+import { InjectedIntlProps, injectIntl } from "react-intl";
+
+import styles from "./styles.module.css";
+import buttonStyles from "../../../css/buttonStyles.module.css";
+
+import { AppState } from "../../../reducers";
+import { IVSCodeObject } from "../../../reducers/vscodeApiReducer";
+import { getVSCodeApiSelector } from "../../../selectors/vscodeApiSelector";
+import { rootSelector } from "../../../selectors/generationSelector";
+import {
+  getGenerationPreview,
+  getGenerationPreviewFile
+} from "../../../utils/extensionService/extensionService";
+import {
+  IFileTreeFolder,
+  IGenerationManifest,
+  IManifestFile
+} from "../../../types/generationPreview";
+import { buildFileTree, formatFileSize } from "./buildFileTree";
+import messages from "./messages";
+
+interface IStateProps {
+  vscode: IVSCodeObject;
+  engine: any;
+}
+
+interface IFilePreview {
+  path: string;
+  content?: string;
+  isBinary: boolean;
+  isTruncated: boolean;
+}
+
+type Props = IStateProps & InjectedIntlProps;
+
+const GenerationPreview = ({ vscode, engine, intl }: Props) => {
+  const { formatMessage } = intl;
+  const [manifest, setManifest] = React.useState<IGenerationManifest>();
+  const [isLoading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const [expandedFolders, setExpandedFolders] = React.useState<string[]>([]);
+  const [filePreview, setFilePreview] = React.useState<IFilePreview>();
+
+  const loadPreview = () => {
+    setLoading(true);
+    setError("");
+    setFilePreview(undefined);
+    getGenerationPreview(engine, vscode).then((event: any) => {
+      const { payload } = event.data;
+      setLoading(false);
+      if (payload.error) {
+        setError(payload.error);
+        return;
+      }
+      setManifest(payload.manifest);
+      setExpandedFolders([]);
+    });
+  };
+
+  const toggleFolder = (folderPath: string) => {
+    setExpandedFolders(
+      expandedFolders.indexOf(folderPath) === -1
+        ? expandedFolders.concat(folderPath)
+        : expandedFolders.filter(expanded => expanded !== folderPath)
+    );
+  };
+
+  const showFile = (file: IManifestFile) => {
+    getGenerationPreviewFile(file.path, vscode).then((event: any) => {
+      const { payload } = event.data;
+      if (payload.error) {
+        setError(payload.error);
+        return;
+      }
+      setFilePreview({ ...payload, path: file.path });
+    });
+  };
+
+  const renderFolder = (folder: IFileTreeFolder): JSX.Element => (
+    <ul className={styles.tree}>
+      {folder.folders.map(subfolder => {
+        const isExpanded = expandedFolders.indexOf(subfolder.path) !== -1;
+        return (
+          <li key={subfolder.path}>
+            <button
+              className={styles.folder}
+              aria-expanded={isExpanded}
+              onClick={() => toggleFolder(subfolder.path)}
+            >
+              {`${isExpanded ? "-" : "+"} ${subfolder.name}/`}
+            </button>
+            {isExpanded && renderFolder(subfolder)}
+          </li>
+        );
+      })}
+      {folder.files.map(file => (
+        <li key={file.path}>
+          <button
+            className={classnames(styles.file, {
+              [styles.selectedFile]: filePreview && filePreview.path === file.path
+            })}
+            onClick={() => showFile(file)}
+          >
+            {file.path.split("/").pop()}
+          </button>
+          <span className={styles.fileDetails}>
+            {formatFileSize(file.size)}
+            {file.templates.length > 0 &&
+              ` - ${formatMessage(messages.templates, {
+                templates: file.templates.join(", ")
+              })}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className={styles.container}>
+      <button
+        className={buttonStyles.buttonDark}
+        onClick={loadPreview}
+        disabled={isLoading}
+      >
+        {formatMessage(isLoading ? messages.loading : messages.previewFiles)}
+      </button>
+      {error && (
+        <p className={styles.error} role="alert">
+          {formatMessage(messages.error, { error })}
+        </p>
+      )}
+      {manifest && !isLoading && (
+        <div>
+          <p className={styles.summary}>
+            {formatMessage(messages.summary, {
+              fileCount: manifest.files.length,
+              projectPath: manifest.projectPath
+            })}
+          </p>
+          {renderFolder(buildFileTree(manifest.files))}
+        </div>
+      )}
+      {filePreview && (
+        <div>
+          <p className={styles.summary}>{filePreview.path}</p>
+          {filePreview.isBinary ? (
+            <p>{formatMessage(messages.binaryFile)}</p>
+          ) : (
+            <pre className={styles.filePreview}>{filePreview.content}</pre>
+          )}
+          {filePreview.isTruncated && <p>{formatMessage(messages.truncated)}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  vscode: getVSCodeApiSelector(state),
+  engine: rootSelector(state)
+});
+
+export default connect(mapStateToProps)(injectIntl(GenerationPreview));
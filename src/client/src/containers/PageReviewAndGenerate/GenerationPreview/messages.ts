@@ -0,0 +1,33 @@
+import { defineMessages } from "react-intl";
+
+const messages = defineMessages({
+  previewFiles: {
+    id: "generationPreview.previewFiles",
+    defaultMessage: "Preview Files"
+  },
+  loading: {
+    id: "generationPreview.loading",
+    defaultMessage: "Generating preview..."
+  },
+  error: {
+    id: "generationPreview.error",
+    defaultMessage: "The preview could not be generated: {error}"
+  },
+  summary: {
+    id: "generationPreview.summary",
+    defaultMessage: "{fileCount} files will be created in {projectPath}"
+  },
+  templates: {
+    id: "generationPreview.templates",
+    defaultMessage: "From: {templates}"
+  },
+  binaryFile: {
+    id: "generationPreview.binaryFile",
+    defaultMessage: "Binary file, no preview available."
+  },
+  truncated: {
+    id: "generationPreview.truncated",
+    defaultMessage: "The file is too large, only its beginning is shown."
+  }
+});
+export default messages;
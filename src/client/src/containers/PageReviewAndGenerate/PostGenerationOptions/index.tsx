@@ -0,0 +1,103 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { InjectedIntlProps, injectIntl } from "react-intl";
+
+import styles from "./styles.module.css";
+
+import { AppState } from "../../../reducers";
+import { IVSCodeObject } from "../../../reducers/vscodeApiReducer";
+import { getVSCodeApiSelector } from "../../../selectors/vscodeApiSelector";
+import { getPostGenerationOptionsSelector } from "../../../selectors/postGenerationSelector";
+import { updatePostGenerationOptionsAction } from "../../../actions/wizardSelectionActions/updatePostGenerationOptions";
+import { getPostGenerationOptions } from "../../../utils/extensionService/extensionService";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
+import {
+  IPostGenerationOptions,
+  OpenProjectTarget
+} from "../../../types/postGeneration";
+import messages from "./messages";
+
+interface IStateProps {
+  vscode: IVSCodeObject;
+  options: IPostGenerationOptions | null;
+  backendFramework: string;
+}
+
+interface IDispatchProps {
+  updateOptions: (options: IPostGenerationOptions) => any;
+}
+
+type Props = IStateProps & IDispatchProps & InjectedIntlProps;
+
+type PostGenerationToggle = "installDependencies" | "createVirtualEnv" | "gitInit" | "openReadme";
+
+const openProjectTargets: OpenProjectTarget[] = ["none", "currentWindow", "newWindow"];
+
+const PostGenerationOptions = ({ vscode, options, backendFramework, updateOptions, intl }: Props) => {
+  const { formatMessage } = intl;
+
+  // The defaults come from the wts.postGeneration settings the first time the page is shown
+  React.useEffect(() => {
+    if (!options) {
+      getPostGenerationOptions(vscode).then((event: any) => {
+        updateOptions(event.data.payload.options);
+      });
+    }
+  }, []);
+
+  if (!options) {
+    return null;
+  }
+
+  const toggles: PostGenerationToggle[] = ["installDependencies", "gitInit", "openReadme"];
+  if (backendFramework === WIZARD_CONTENT_INTERNAL_NAMES.FLASK) {
+    toggles.splice(1, 0, "createVirtualEnv");
+  }
+
+  return (
+    <div className={styles.container}>
+      <h2 className={styles.title}>{formatMessage(messages.title)}</h2>
+      {toggles.map(toggle => (
+        <label key={toggle} className={styles.option}>
+          <input
+            type="checkbox"
+            checked={options[toggle]}
+            onChange={() => updateOptions({ ...options, [toggle]: !options[toggle] })}
+          />
+          {formatMessage(messages[toggle])}
+        </label>
+      ))}
+      <div role="radiogroup" aria-label={formatMessage(messages.openProject)} className={styles.openProject}>
+        <span>{formatMessage(messages.openProject)}</span>
+        {openProjectTargets.map(target => (
+          <label key={target} className={styles.option}>
+            <input
+              type="radio"
+              name="openProject"
+              checked={options.openProject === target}
+              onChange={() => updateOptions({ ...options, openProject: target })}
+            />
+            {formatMessage(messages[target])}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const mapStateToProps = (state: AppState): IStateProps => ({
+  vscode: getVSCodeApiSelector(state),
+  options: getPostGenerationOptionsSelector(state),
+  backendFramework: state.selection.backendFramework.internalName
+});
+
+const mapDispatchToProps = (dispatch: any): IDispatchProps => ({
+  updateOptions: (options: IPostGenerationOptions) => {
+    dispatch(updatePostGenerationOptionsAction(options));
+  }
+});
+
+export default connect(
+  mapStateToProps,
+  mapDispatchToProps
+)(injectIntl(PostGenerationOptions));
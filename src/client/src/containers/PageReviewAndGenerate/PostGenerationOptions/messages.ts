@@ -0,0 +1,42 @@
+import { defineMessages } from "react-intl";
+
+const messages = defineMessages({
+  title: {
+    id: "postGenerationOptions.title",
+    defaultMessage: "After Generation"
+  },
+  installDependencies: {
+    id: "postGenerationOptions.installDependencies",
+    defaultMessage: "Install the frontend and backend dependencies"
+  },
+  createVirtualEnv: {
+    id: "postGenerationOptions.createVirtualEnv",
+    defaultMessage: "Create a Python virtual environment"
+  },
+  gitInit: {
+    id: "postGenerationOptions.gitInit",
+    defaultMessage: "Initialize a Git repository and make an initial commit"
+  },
+  openReadme: {
+    id: "postGenerationOptions.openReadme",
+    defaultMessage: "Open the README"
+  },
+  openProject: {
+    id: "postGenerationOptions.openProject",
+    defaultMessage: "Open the project"
+  },
+  none: {
+    id: "postGenerationOptions.none",
+    defaultMessage: "Don't open"
+  },
+  currentWindow: {
+    id: "postGenerationOptions.currentWindow",
+    defaultMessage: "In the current window"
+  },
+  newWindow: {
+    id: "postGenerationOptions.newWindow",
+    defaultMessage: "In a new window"
+  }
+});
+
+export default messages;
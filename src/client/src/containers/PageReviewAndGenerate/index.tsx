@@ -13,6 +13,14 @@ import { AppState } from "../../reducers";
 import RootAction from "../../actions/ActionType";
 import messages from "./messages";
 import AddPagesModal from "./AddPagesModal";
+import GenerationPreview from "./GenerationPreview";
+import PostGenerationOptions from "./PostGenerationOptions";
+import { IVSCodeObject } from "../../reducers/vscodeApiReducer";
+import { IRecipeSelection } from "../../types/projectRecipe";
+import { getVSCodeApiSelector } from "../../selectors/vscodeApiSelector";
+import { getRecipeSelectionSelector } from "../../selectors/projectRecipeSelector";
+import { getProjectName } from "../../selectors/wizardSelectionSelector/wizardSelectionSelector";
+import { exportRecipe } from "../../utils/extensionService/extensionService";
 
 interface IDispatchProps {
   openViewLicensesModal: () => any;
@@ -20,14 +28,21 @@ interface IDispatchProps {
 
 interface IStateProps {
   quickStartEnabled: boolean;
+  vscode: IVSCodeObject;
+  recipeSelection: IRecipeSelection;
+  projectName: string;
 }
 
 type Props = IDispatchProps & IStateProps & InjectedIntlProps;
 
 const ReviewAndGenerate = (props: Props) => {
-  const { intl, openViewLicensesModal, quickStartEnabled } = props;
+  const { intl, openViewLicensesModal, quickStartEnabled, vscode, recipeSelection, projectName } = props;
   const { formatMessage } = intl;
 
+  const saveRecipe = () => {
+    exportRecipe(recipeSelection, projectName, vscode);
+  };
+
   return (
     <div className={styles.container}>
       <AddPagesModal/>
@@ -47,14 +62,25 @@ const ReviewAndGenerate = (props: Props) => {
           >
             {formatMessage(messages.viewLicenses)}
           </button>
+          <button
+            className={classnames(buttonStyles.buttonDark, styles.button, styles.exportRecipe)}
+            onClick={saveRecipe}
+          >
+            {formatMessage(messages.exportRecipe)}
+          </button>
         </div>
+        <PostGenerationOptions />
+        <GenerationPreview />
       </div>
     </div>
   );
 };
 
 const mapStateToProps = (state: AppState): IStateProps => ({
-  quickStartEnabled: state.wizardContent.enableQuickStart
+  quickStartEnabled: state.wizardContent.enableQuickStart,
+  vscode: getVSCodeApiSelector(state),
+  recipeSelection: getRecipeSelectionSelector(state),
+  projectName: getProjectName(state)
 });
 
 const mapDispatchToProps = (
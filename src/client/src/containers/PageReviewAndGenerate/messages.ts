@@ -5,6 +5,10 @@ const messages = defineMessages({
     id: "licenses.viewLicenses",
     defaultMessage: "View Licenses"
   },
+  exportRecipe: {
+    id: "reviewAndGenerate.exportRecipe",
+    defaultMessage: "Export Recipe"
+  },
   launchYourProject: {
     id: "instructionHeading.launchYourProject",
     defaultMessage: "Launch Your Project"
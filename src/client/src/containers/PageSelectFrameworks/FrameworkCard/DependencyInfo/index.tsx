@@ -52,9 +52,11 @@ const frameworkNameToDependencyMap: Map<string, IDependency> = new Map([
   [WIZARD_CONTENT_INTERNAL_NAMES.REACT, dependencies.Node],
   [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR, dependencies.Node],
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE, dependencies.Node],
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE, dependencies.Node],
   [WIZARD_CONTENT_INTERNAL_NAMES.FLASK, dependencies.Python],
   [WIZARD_CONTENT_INTERNAL_NAMES.NODE, dependencies.Node],
-  [WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER, dependencies.Node]
+  [WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER, dependencies.Node],
+  [WIZARD_CONTENT_INTERNAL_NAMES.NEST, dependencies.Node]
 ]);
 
 interface IProps {
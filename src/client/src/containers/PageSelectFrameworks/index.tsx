@@ -1,9 +1,11 @@
 import * as React from "react";
+import classnames from "classnames";
 import { connect } from "react-redux";
 import { IStateProps, IDispatchProps } from "./interfaces";
 import {mapStateToProps, mapDispatchToProps} from "./store";
 import FrameworkCard from "./FrameworkCard";
 import styles from "./styles.module.css";
+import buttonStyles from "../../css/buttonStyles.module.css";
 import { InjectedIntlProps, injectIntl } from "react-intl";
 import messages from "./messages";
 import { EXTENSION_COMMANDS, EXTENSION_MODULES } from "../../utils/constants";
@@ -11,7 +13,7 @@ import { EXTENSION_COMMANDS, EXTENSION_MODULES } from "../../utils/constants";
 type Props = IStateProps & IDispatchProps & InjectedIntlProps;
 
 const SelectFrameworks = (props: Props) => {
-  const { frontendOptions, backendOptions, intl } = props;
+  const { frontendOptions, backendOptions, frontendLanguages, projectLanguage, selectLanguage, intl } = props;
   React.useEffect(()=>{
     getDependencyInfoAndSetToStore();
   },[]);
@@ -53,6 +55,27 @@ const SelectFrameworks = (props: Props) => {
           );
         })}
       </div>
+      {frontendLanguages.length > 1 && (
+        <React.Fragment>
+          <h1 className={styles.title}>{intl.formatMessage(messages.languageTitle)}</h1>
+          <div className={styles.languages} role="radiogroup">
+            {frontendLanguages.map((language) => (
+              <button
+                key={language}
+                role="radio"
+                aria-checked={language === projectLanguage}
+                className={classnames(styles.language, {
+                  [buttonStyles.buttonHighlighted]: language === projectLanguage,
+                  [buttonStyles.buttonDark]: language !== projectLanguage
+                })}
+                onClick={() => selectLanguage(language)}
+              >
+                {language}
+              </button>
+            ))}
+          </div>
+        </React.Fragment>
+      )}
       <h1 className={styles.title}>{intl.formatMessage(messages.backendTitle)}</h1>
       <div className={styles.flexContainer}>
         {backendOptions.map((framework) => {
@@ -3,12 +3,15 @@ import { IVSCodeObject } from "../../reducers/vscodeApiReducer";
 
 interface IDispatchProps {
   updateDependencyInfo: (dependencyInfo: IDependencyInfo) => any;
+  selectLanguage: (language: string) => any;
 }
 
 interface IStateProps {
   vscode: IVSCodeObject;
   frontendOptions: IOption[];
   backendOptions: IOption[];
+  frontendLanguages: string[];
+  projectLanguage?: string;
 }
 
 export { IStateProps, IDispatchProps };
\ No newline at end of file
@@ -9,6 +9,10 @@ const messages = defineMessages({
   backendTitle: {
     id: "pageSelectFramework.backendTitle",
     defaultMessage: "Select a back-end framework"
+  },
+  languageTitle: {
+    id: "pageSelectFramework.languageTitle",
+    defaultMessage: "Select a language"
   }
 });
 export default messages;
\ No newline at end of file
@@ -13,7 +13,8 @@ describe("PageSelectFramework", () => {
     expect(mapStateToPropsInstance.vscode !== undefined).toBeTruthy();
     expect(mapStateToPropsInstance.frontendOptions !== undefined).toBeTruthy();
     expect(mapStateToPropsInstance.backendOptions !== undefined).toBeTruthy();
+    expect(mapStateToPropsInstance.frontendLanguages).toEqual([]);
 
-    expect(counterAttributes).toBe(3);
+    expect(counterAttributes).toBe(5);
   });
 });
\ No newline at end of file
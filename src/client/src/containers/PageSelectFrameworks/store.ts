@@ -4,6 +4,8 @@ import { getVSCodeApiSelector } from "../../selectors/vscodeApiSelector";
 import { ThunkDispatch } from "redux-thunk";
 import RootAction from "../../actions/ActionType";
 import { updateDependencyInfoAction, IDependencyInfo } from "../../actions/wizardInfoActions/updateDependencyInfo";
+import { selectLanguageAction } from "../../actions/wizardSelectionActions/selectLanguage";
+import { getFrontendLanguagesSelector, getProjectLanguageSelector } from "../../selectors/languageSelector";
 
 
 const mapDispatchToProps = (
@@ -12,6 +14,9 @@ const mapDispatchToProps = (
   updateDependencyInfo: (dependencyInfo: IDependencyInfo) => {
     dispatch(updateDependencyInfoAction(dependencyInfo));
   },
+  selectLanguage: (language: string) => {
+    dispatch(selectLanguageAction(language));
+  },
 });
 
 const mapStateToProps = (state: AppState): IStateProps => {
@@ -19,6 +24,8 @@ const mapStateToProps = (state: AppState): IStateProps => {
   return {
     frontendOptions,
     backendOptions,
+    frontendLanguages: getFrontendLanguagesSelector(state),
+    projectLanguage: getProjectLanguageSelector(state),
     vscode: getVSCodeApiSelector(state)
   };
 };
@@ -25,6 +25,8 @@ import {
 } from "../../utils/constants";
 import { getVSCodeApiSelector } from "../../selectors/vscodeApiSelector";
 import { IVSCodeObject } from "../../reducers/vscodeApiReducer";
+import { IGenerationItemProgress } from "../../reducers/generationStatus/genProgress";
+import { IPostGenerationTask } from "../../types/postGeneration";
 
 import { AppState } from "../../reducers";
 import { injectIntl, InjectedIntlProps } from "react-intl";
@@ -52,6 +54,10 @@ interface IStateProps {
   isTemplatesFailed: boolean;
   isServicesDeployed: boolean;
   templateGenStatus: string;
+  generationPercentage: number;
+  generationItems: IGenerationItemProgress[];
+  generationLog: string[];
+  postGenTasks: IPostGenerationTask[];
   isModalOpen: boolean;
   serviceStatus: PostGenSelectors.IAzureServiceStatus;
   isServicesSelected: boolean;
@@ -74,6 +80,10 @@ const PostGenerationModal = ({
   isTemplateGenerated,
   isServicesDeployed,
   templateGenStatus,
+  generationPercentage,
+  generationItems,
+  generationLog,
+  postGenTasks,
   outputPath,
   vscode,
   intl,
@@ -83,10 +93,20 @@ const PostGenerationModal = ({
   history
 }: Props) => {
   const { formatMessage } = intl;
+  const [isCancelRequested, setIsCancelRequested] = React.useState(false);
+  const [isLogExpanded, setIsLogExpanded] = React.useState(false);
+  const [expandedTasks, setExpandedTasks] = React.useState<string[]>([]);
   let serviceFailed = false;
   const templateGenerated = isTemplateGenerated && !isTemplatesFailed;
   const templateGenerationInProgress =
     !isTemplateGenerated && !isTemplatesFailed;
+  const hasGenerationItems = generationItems.length > 0;
+  const showGenerationPercentage = templateGenerationInProgress && hasGenerationItems;
+  const generationLogText = generationLog.join("\n");
+  const isGenerationCancelled = isCancelRequested && isTemplatesFailed;
+  const canCancelGeneration =
+    !isCancelRequested &&
+    (templateGenerationInProgress || (templateGenerated && !isServicesDeployed));
 
   const LinkRenderer = (props: any) => (
     <a href={props.href} className={styles.link} onKeyUp={keyUpHandler}>
@@ -113,6 +133,33 @@ const PostGenerationModal = ({
     }
   };
 
+  const toggleTaskOutput = (taskId: string) => {
+    setExpandedTasks(
+      expandedTasks.indexOf(taskId) === -1
+        ? expandedTasks.concat(taskId)
+        : expandedTasks.filter(expanded => expanded !== taskId)
+    );
+  };
+
+  const retryTask = (taskId: string) => {
+    vscode.postMessage({
+      module: EXTENSION_MODULES.GENERATE,
+      command: EXTENSION_COMMANDS.RETRY_POST_GEN_TASK,
+      track: true,
+      payload: { taskId }
+    });
+  };
+
+  const cancelGeneration = () => {
+    setIsCancelRequested(true);
+    vscode.postMessage({
+      module: EXTENSION_MODULES.GENERATE,
+      command: EXTENSION_COMMANDS.CANCEL_GENERATION,
+      track: true,
+      payload: {}
+    });
+  };
+
   const openProjectOrRestartWizardMessage = () => {
     if (isTemplatesFailed) {
       return formatMessage(messages.restartWizard);
@@ -175,7 +222,11 @@ const PostGenerationModal = ({
   const renderTemplatesError = () => {
     return (
       <div className={styles.sectionLine}>
-        {formatMessage(messages.failedToGenerate)}
+        {formatMessage(
+          isGenerationCancelled
+            ? messages.generationCancelled
+            : messages.failedToGenerate
+        )}
       </div>
     );
   };
@@ -184,7 +235,10 @@ const PostGenerationModal = ({
     return (
       <div className={styles.checkmarkStatusRow}>
         <React.Fragment>
-          <div>{formatMessage(messages.projectCreation)}</div>
+          <div>
+            {formatMessage(messages.projectCreation)}
+            {showGenerationPercentage && ` (${generationPercentage}%)`}
+          </div>
           {templateGenerationInProgress && (
             <div role="img" aria-label="project creation in progress">
               <Spinner className={styles.spinner} />
@@ -205,6 +259,32 @@ const PostGenerationModal = ({
     );
   };
 
+  const renderItemState = (state: string, label: string) => {
+    switch (state) {
+      case "generating":
+      case "running":
+        return (
+          <div role="img" aria-label={`${label} in progress`}>
+            <Spinner className={styles.spinner} />
+          </div>
+        );
+      case "done":
+        return (
+          <div role="img" aria-label={`${label} done`}>
+            <Checkmark className={styles.iconCheck} />
+          </div>
+        );
+      case "failed":
+        return (
+          <div role="img" aria-label={`${label} failed`}>
+            <ErrorRed className={styles.iconError} />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
   const renderServiceError = () => {
     if (isTemplatesFailed) {
       return (
@@ -324,23 +404,108 @@ const PostGenerationModal = ({
       </div>
 
       <div className={styles.section}>
-        {templateGenerationInProgress && (
+        {isCancelRequested && !isTemplatesFailed && (
+          <div className={styles.sectionLine}>
+            {formatMessage(messages.cancelling)}
+          </div>
+        )}
+        {!isCancelRequested && templateGenerationInProgress && (
           <div className={styles.sectionLine}>{templateGenStatus}</div>
         )}
-        {templateGenerated && postGenMessage()}
+        {!isCancelRequested && templateGenerated && postGenMessage()}
         {isTemplatesFailed && renderTemplatesError()}
-        {isServicesSelected && renderServiceError()}
+        {isServicesSelected && !isGenerationCancelled && renderServiceError()}
       </div>
 
       <div className={classnames(styles.section, styles.checkmarkSection)}>
         <div className={styles.containerWithMargin}>
           {renderTemplatesStatus()}
+          {hasGenerationItems && (
+            <ul className={styles.itemList}>
+              {generationItems.map((item: IGenerationItemProgress) => (
+                <li
+                  className={classnames(styles.itemRow, {
+                    [styles.pendingItem]: item.state === "pending"
+                  })}
+                  key={item.id}
+                >
+                  <div className={styles.itemName}>
+                    {item.name}
+                    <span className={styles.itemKind}>
+                      {formatMessage(messages[item.kind])}
+                    </span>
+                  </div>
+                  <div className={styles.inLine}>
+                    {item.state !== "pending" && (
+                      <span className={styles.itemElapsed}>
+                        {formatMessage(messages.elapsedSeconds, {
+                          seconds: (item.elapsedMs / 1000).toFixed(1)
+                        })}
+                      </span>
+                    )}
+                    {renderItemState(item.state, `${item.name} generation`)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          {generationLogText && (
+            <div className={styles.logSection}>
+              <button
+                className={styles.logToggle}
+                aria-expanded={isLogExpanded}
+                onClick={() => setIsLogExpanded(!isLogExpanded)}
+              >
+                {formatMessage(isLogExpanded ? messages.hideLog : messages.showLog)}
+              </button>
+              {isLogExpanded && (
+                <pre className={styles.log}>{generationLogText}</pre>
+              )}
+            </div>
+          )}
           {isServicesSelected && renderServiceStatus()}
+          {postGenTasks.map((task: IPostGenerationTask) => {
+            const title = formatMessage(messages[task.id]);
+            const isOutputExpanded = expandedTasks.indexOf(task.id) !== -1;
+            return (
+              <div className={styles.task} key={task.id}>
+                <div className={styles.checkmarkStatusRow}>
+                  <div>{title}</div>
+                  {renderItemState(task.state, title)}
+                </div>
+                {task.state === "failed" && (
+                  <div className={styles.taskError}>
+                    <span role="alert">{task.error}</span>
+                    <button
+                      className={styles.logToggle}
+                      onClick={() => retryTask(task.id)}
+                    >
+                      {formatMessage(messages.retry)}
+                    </button>
+                  </div>
+                )}
+                {task.output.length > 0 && (
+                  <div className={styles.logSection}>
+                    <button
+                      className={styles.logToggle}
+                      aria-expanded={isOutputExpanded}
+                      onClick={() => toggleTaskOutput(task.id)}
+                    >
+                      {formatMessage(isOutputExpanded ? messages.hideOutput : messages.showOutput)}
+                    </button>
+                    {isOutputExpanded && (
+                      <pre className={styles.log}>{task.output.join("\n")}</pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
 
       <div className={styles.footerContainer}>
-        {(isTemplatesFailed || serviceFailed) && (
+        {(isTemplatesFailed || serviceFailed) && !isGenerationCancelled && (
           <a
             className={styles.link}
             href={WEB_TEMPLATE_STUDIO_LINKS.ISSUES}
@@ -359,13 +524,22 @@ const PostGenerationModal = ({
           </button>
         )}
 
+        {canCancelGeneration && (
+          <button
+            className={classnames(styles.button, buttonStyles.buttonDark)}
+            onClick={cancelGeneration}
+          >
+            {formatMessage(messages.cancel)}
+          </button>
+        )}
+
         <button
           className={classnames(styles.button, {
             [buttonStyles.buttonDark]: templateGenerationInProgress,
             [buttonStyles.buttonHighlighted]: !templateGenerationInProgress
           })}
           onClick={handleOpenProjectOrRestartWizard}
-          disabled={templateGenerationInProgress}
+          disabled={templateGenerationInProgress || (isCancelRequested && !isTemplatesFailed)}
         >
           {openProjectOrRestartWizardMessage()}
         </button>
@@ -385,6 +559,10 @@ const mapStateToProps = (state: AppState): IStateProps => ({
   outputPath: getOutputPath(state),
   serviceStatus: PostGenSelectors.servicesToDeploySelector(state),
   templateGenStatus: PostGenSelectors.getSyncStatusSelector(state),
+  generationPercentage: PostGenSelectors.getGenerationPercentageSelector(state),
+  generationItems: PostGenSelectors.getGenerationItemsSelector(state),
+  generationLog: PostGenSelectors.getGenerationLogSelector(state),
+  postGenTasks: PostGenSelectors.getPostGenerationTasksSelector(state),
   vscode: getVSCodeApiSelector(state),
   projectName: getProjectName(state)
 });
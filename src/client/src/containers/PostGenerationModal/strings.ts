@@ -85,8 +85,80 @@ export const strings = defineMessages({
     id: "postGenerationModal.seeReadMeSuffix",
     defaultMessage: " to get instructions."
   },
+  cancel: {
+    id: "postGenerationModal.cancel",
+    defaultMessage: "Cancel"
+  },
+  cancelling: {
+    id: "postGenerationModal.cancelling",
+    defaultMessage: "Cancelling project creation and removing generated files..."
+  },
+  generationCancelled: {
+    id: "postGenerationModal.generationCancelled",
+    defaultMessage: "Project creation was cancelled. Files written to the project folder have been removed."
+  },
   templateGeneration: {
     id: "postGenerationModal.templateGeneration",
     defaultMessage: "Template Generation"
+  },
+  showLog: {
+    id: "postGenerationModal.showLog",
+    defaultMessage: "Show log"
+  },
+  hideLog: {
+    id: "postGenerationModal.hideLog",
+    defaultMessage: "Hide log"
+  },
+  elapsedSeconds: {
+    id: "postGenerationModal.elapsedSeconds",
+    defaultMessage: "{seconds}s"
+  },
+  project: {
+    id: "postGenerationModal.project",
+    defaultMessage: "Project"
+  },
+  page: {
+    id: "postGenerationModal.page",
+    defaultMessage: "Page"
+  },
+  feature: {
+    id: "postGenerationModal.feature",
+    defaultMessage: "Feature"
+  },
+  composition: {
+    id: "postGenerationModal.composition",
+    defaultMessage: "Composition"
+  },
+  gitInit: {
+    id: "postGenerationModal.gitInit",
+    defaultMessage: "Git Repository"
+  },
+  createVirtualEnv: {
+    id: "postGenerationModal.createVirtualEnv",
+    defaultMessage: "Python Virtual Environment"
+  },
+  installDependencies: {
+    id: "postGenerationModal.installDependencies",
+    defaultMessage: "Dependencies"
+  },
+  openReadme: {
+    id: "postGenerationModal.openReadme",
+    defaultMessage: "Open README"
+  },
+  openProject: {
+    id: "postGenerationModal.openProject",
+    defaultMessage: "Open Project"
+  },
+  showOutput: {
+    id: "postGenerationModal.showOutput",
+    defaultMessage: "Show output"
+  },
+  hideOutput: {
+    id: "postGenerationModal.hideOutput",
+    defaultMessage: "Hide output"
+  },
+  retry: {
+    id: "postGenerationModal.retry",
+    defaultMessage: "Retry"
   }
 });
@@ -3,6 +3,7 @@ import * as React from "react";
 import { connect } from "react-redux";
 import Loadable from "react-loadable";
 import { ReactComponent as CloseSVG } from "../../../../../assets/cancel.svg";
+import { ReactComponent as HomeSVG } from "../../../../../assets/homepage.svg";
 import { getSvg } from "../../../../../utils/getSvgUrl";
 import { ISelected } from "../../../../../types/selected";
 import styles from "./styles.module.css";
@@ -15,6 +16,7 @@ import { ThunkDispatch } from "redux-thunk";
 import RootAction from "../../../../../actions/ActionType";
 import { selectPageAction, selectPagesAction } from "../../../../../actions/wizardSelectionActions/selectPages";
 import { validateItemName } from "../../../../../utils/validations/itemName/itemName";
+import { getDefaultRoutePath, getHomePage, validateRoutePath } from "../../../../../utils/validations/routePath/routePath";
 import { getValidations } from "../../../../../selectors/wizardSelectionSelector/wizardSelectionSelector";
 import { IValidations } from "../../../../../reducers/wizardSelectionReducers/setValidations";
 
@@ -35,6 +37,7 @@ interface IStateProps {
 interface ISortablePageListProps {
   selectedPages: Array<ISelected>;
   validations: IValidations;
+  frontendFramework: string;
 }
 
 interface ISortableDispatchProps {
@@ -54,7 +57,8 @@ const DraggablePage = ({
   selectedPages,
   updatePage,
   customInputStyle,
-  selectPages
+  selectPages,
+  frontendFramework
 }: Props) => {
   React.useEffect(()=>{
     const hasFocusOnLasPage = selectedPages.length>1 && !page.isDirty && selectedPages.length === idx;
@@ -88,6 +92,7 @@ const DraggablePage = ({
   const handleCloseClick = (idx: number) => {
     const pagesWithOmittedIdx: ISelected[] = [...selectedPages];
     pagesWithOmittedIdx.splice(idx, 1);
+    validateRoutePaths(pagesWithOmittedIdx);
     selectPages(pagesWithOmittedIdx);
   };
 
@@ -95,6 +100,40 @@ const DraggablePage = ({
     idx && handleCloseClick && handleCloseClick(idx - 1); // correction for idx + 1 to prevent 0th falsey behaviour
   };
 
+  // The routes of the other pages depend on the home page and on the names of
+  // the pages, so all of them are checked again when one changes
+  const validateRoutePaths = (pages: ISelected[]) => {
+    const homePage = getHomePage(pages);
+    pages.forEach(selPage => {
+      const validationResult = validateRoutePath(selPage.routePath || "", selPage, pages, frontendFramework);
+      selPage.isValidRoutePath = selPage === homePage || validationResult.isValid;
+      selPage.routePathError = validationResult.error;
+    });
+  };
+
+  const handleSetHome = () => {
+    selectedPages.forEach(selPage => {
+      selPage.isHome = selPage === page;
+    });
+    page.routePath = "";
+    validateRoutePaths(selectedPages);
+    selectPages([...selectedPages]);
+  };
+
+  const handleHomeKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (event.key === KEY_EVENTS.ENTER || event.key === KEY_EVENTS.SPACE) {
+      handleSetHome();
+    }
+  };
+
+  const handleRoutePathChange = (newRoutePath: string) => {
+    page.routePath = newRoutePath;
+    validateRoutePaths(selectedPages);
+    updatePage(page);
+  };
+
+  const isHome = getHomePage(selectedPages) === page;
+
   const [validValue, setValidValue] = React.useState<string>(page ? page.title:"");
   const inputRef = React.createRef<HTMLInputElement>();
 
@@ -103,6 +142,7 @@ const DraggablePage = ({
     const validationResult = await validateItemName(newTitle, validations.itemNameValidationConfig, selectedPages);
     page.error = validationResult.error;
     page.isValidTitle = validationResult.isValid;
+    validateRoutePaths(selectedPages);
     updatePage(page);
   };
 
@@ -161,8 +201,44 @@ const DraggablePage = ({
               {intl.formatMessage(page.error)}
             </div>
           )}
+          {page && !isHome && (
+            <div
+              className={classnames({
+                [styles.pagesTextContainer]: true,
+                [styles.routeContainer]: true
+              })}
+            >
+              <span className={styles.routePrefix}>/</span>
+              <input
+                aria-label={intl.formatMessage(messages.changeRoutePath)}
+                className={classnames(styles.input)}
+                value={page.routePath || ""}
+                placeholder={getDefaultRoutePath(frontendFramework, page.title)}
+                onChange={e => handleRoutePathChange(e.target.value)}
+              />
+            </div>
+          )}
+          {page && !isHome && page.isValidRoutePath===false && page.routePathError && (
+            <div
+              className={classnames({
+                [styles.errorTextContainer]: true,
+                [styles.textContainer]: true
+              })}
+            >
+              {intl.formatMessage(page.routePathError)}
+            </div>
+          )}
 
         </div>
+        <HomeSVG
+          tabIndex={isHome ? -1 : 0}
+          onClick={handleSetHome}
+          onKeyDown={handleHomeKeyDown}
+          className={classnames(styles.homeIcon, {
+            [styles.homeIconSelected]: isHome
+          })}
+          aria-label={intl.formatMessage(isHome ? messages.homePage : messages.setHomePage)}
+        />
         {(totalCount !== undefined ? totalCount > 1 : true) && (
           <CloseSVG
             tabIndex={0}
@@ -179,7 +255,8 @@ const DraggablePage = ({
 
 const mapStateToProps = (state: AppState) => ({
   selectedPages: state.selection.pages,
-  validations: getValidations(state)
+  validations: getValidations(state),
+  frontendFramework: state.selection.frontendFramework.internalName
 });
 
 const mapDispatchToProps = (
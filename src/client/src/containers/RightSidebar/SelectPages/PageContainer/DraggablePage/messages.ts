@@ -13,6 +13,18 @@ const messages = defineMessages({
   deleteItem: {
     id: "draggableSidebarItem.deleteItem",
     defaultMessage: "Delete item"
+  },
+  setHomePage: {
+    id: "draggableSidebarItem.setHomePage",
+    defaultMessage: "Make this the home page"
+  },
+  homePage: {
+    id: "draggableSidebarItem.homePage",
+    defaultMessage: "Home page"
+  },
+  changeRoutePath: {
+    id: "draggableSidebarItem.changeRoutePath",
+    defaultMessage: "Change Page Route"
   }
 });
 export default messages;
\ No newline at end of file
@@ -23,6 +23,8 @@ import { IVSCodeObject } from "../../../reducers/vscodeApiReducer";
 import { getVSCodeApiSelector } from "../../../selectors/vscodeApiSelector";
 import { sendTelemetry, resetAllPages } from "../../../utils/extensionService/extensionService";
 import { SelectionState } from "../../../reducers/wizardSelectionReducers";
+import { getFrontendLanguagesSelector } from "../../../selectors/languageSelector";
+import { withLanguageSuffix } from "../../../utils/languages";
 
 interface IStateProps {
   pathname: string;
@@ -42,6 +44,7 @@ const SelectPages = (props: Props) => {
 
   const selection: SelectionState = useSelector((state: AppState) => state.selection);
   const selectedPages: any[] = useSelector((state: AppState) => state.selection.pages);
+  const frontendLanguages: string[] = useSelector(getFrontendLanguagesSelector);
   const vscode: IVSCodeObject = useSelector((state: AppState) => getVSCodeApiSelector(state));
   const dispatch = useDispatch();
 
@@ -51,13 +54,13 @@ const SelectPages = (props: Props) => {
   }
 
   const resetAllPagesEvent = () => {
-    const { pages, frontendFramework } = selection;
+    const { pages, frontendFramework, language } = selection;
     resetAllPages(vscode, frontendFramework.internalName, pages.length).then(()=>{
       dispatch(resetPagesAction());
       const PAGES_SELECTION: ISelected[] = [
         {
           title: "Blank",
-          internalName: `wts.Page.${frontendFramework.internalName}.Blank`,
+          internalName: withLanguageSuffix(`wts.Page.${frontendFramework.internalName}.Blank`, frontendLanguages, language),
           id: "Blank",
           defaultName: "Blank",
           isValidTitle: true,
@@ -0,0 +1,53 @@
+import * as React from "react";
+import { connect } from "react-redux";
+import { injectIntl, InjectedIntlProps } from "react-intl";
+
+import { selectFeatureToggleAction } from "../../../../actions/wizardSelectionActions/selectFeatureToggle";
+
+import styles from "./styles.module.css";
+import { featureToggleMessages } from "./messages";
+
+interface IProps {
+  identity: string;
+  isSelected: boolean;
+  showNote: boolean;
+}
+
+interface IDispatchProps {
+  selectFeatureToggle: (identity: string, selected: boolean) => any;
+}
+
+type Props = IProps & IDispatchProps & InjectedIntlProps;
+
+const FeatureToggleSelection = ({ identity, isSelected, showNote, selectFeatureToggle, intl }: Props) => {
+  const { formatMessage } = intl;
+  const { title, option, note } = featureToggleMessages[identity];
+
+  return (
+    <React.Fragment>
+      <div className={styles.headerContainer}>{formatMessage(title)}</div>
+      <label className={styles.option}>
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => selectFeatureToggle(identity, !isSelected)}
+        />
+        {formatMessage(option)}
+      </label>
+      {isSelected && showNote && (
+        <div className={styles.note}>{formatMessage(note)}</div>
+      )}
+    </React.Fragment>
+  );
+};
+
+const mapDispatchToProps = (dispatch: any): IDispatchProps => ({
+  selectFeatureToggle: (identity: string, selected: boolean) => {
+    dispatch(selectFeatureToggleAction(identity, selected));
+  }
+});
+
+export default connect(
+  null,
+  mapDispatchToProps
+)(injectIntl(FeatureToggleSelection));
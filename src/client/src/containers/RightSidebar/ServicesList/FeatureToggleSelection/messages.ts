@@ -0,0 +1,71 @@
+import { defineMessages, FormattedMessage } from "react-intl";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../../utils/constants";
+
+const messages = defineMessages({
+  dockerTitle: {
+    id: "docker.originalTitle",
+    defaultMessage: "Docker"
+  },
+  addDocker: {
+    id: "dockerSelection.addDocker",
+    defaultMessage: "Add a Dockerfile and a docker-compose file"
+  },
+  withMongo: {
+    id: "dockerSelection.withMongo",
+    defaultMessage: "docker-compose also runs a local MongoDB for Cosmos DB"
+  },
+  continuousIntegrationTitle: {
+    id: "continuousIntegration.originalTitle",
+    defaultMessage: "Continuous Integration"
+  },
+  addWorkflow: {
+    id: "continuousIntegrationSelection.addWorkflow",
+    defaultMessage: "Add a GitHub Actions workflow that lints, tests and builds the app"
+  },
+  withAppService: {
+    id: "continuousIntegrationSelection.withAppService",
+    defaultMessage: "Pushes to master are deployed to the App Service"
+  },
+  authenticationTitle: {
+    id: "authentication.originalTitle",
+    defaultMessage: "Authentication"
+  },
+  addAuthentication: {
+    id: "authenticationSelection.addAuthentication",
+    defaultMessage: "Add OpenID Connect sign in and protect the API with access tokens"
+  },
+  mockIdentityProvider: {
+    id: "authenticationSelection.mockIdentityProvider",
+    defaultMessage: "A mock identity provider runs with the app until you configure yours"
+  }
+});
+
+export interface IFeatureToggleMessages {
+  title: FormattedMessage.MessageDescriptor;
+  option: FormattedMessage.MessageDescriptor;
+  note: FormattedMessage.MessageDescriptor;
+}
+
+/**
+ * The header, checkbox label and note of each feature toggle, by template
+ * identity.
+ */
+export const featureToggleMessages: { [identity: string]: IFeatureToggleMessages } = {
+  [WIZARD_CONTENT_INTERNAL_NAMES.DOCKER]: {
+    title: messages.dockerTitle,
+    option: messages.addDocker,
+    note: messages.withMongo
+  },
+  [WIZARD_CONTENT_INTERNAL_NAMES.CONTINUOUS_INTEGRATION]: {
+    title: messages.continuousIntegrationTitle,
+    option: messages.addWorkflow,
+    note: messages.withAppService
+  },
+  [WIZARD_CONTENT_INTERNAL_NAMES.AUTHENTICATION]: {
+    title: messages.authenticationTitle,
+    option: messages.addAuthentication,
+    note: messages.mockIdentityProvider
+  }
+};
+
+export default messages;
@@ -4,6 +4,9 @@ import ServicesList from "./index";
 import { Provider } from "react-redux";
 import AppServiceSelection from "./AppServiceSelection";
 import CosmosDBSelection from "./CosmosDBSelection";
+import FeatureToggleSelection from "./FeatureToggleSelection";
+import { WIZARD_SELECTION_TYPEKEYS } from "../../../actions/wizardSelectionActions/typeKeys";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
 
 const mockStore = configureMockStore();
 
@@ -35,6 +38,11 @@ const emptyAppService = {
   }
 };
 
+const selectedFrameworks = {
+  frontendFramework: { internalName: "React" },
+  backendFramework: { internalName: "Node" }
+};
+
 const mockVsCode = {
   vscodeObject:{
     postMessage: jest.fn()
@@ -50,6 +58,7 @@ describe("ServicesList", () => {
     beforeEach(() => {
       store = mockStore({
         selection: {
+          ...selectedFrameworks,
           services: {
             appService: emptyAppService
           }
@@ -80,6 +89,7 @@ describe("ServicesList", () => {
 
       store = mockStore({
         selection: {
+          ...selectedFrameworks,
           services: {
             appService: appService
           }
@@ -108,6 +118,7 @@ describe("ServicesList", () => {
     beforeEach(() => {
       store = mockStore({
         selection: {
+          ...selectedFrameworks,
           services: {
             cosmosDB: emptyCosmosDB
           }
@@ -138,6 +149,7 @@ describe("ServicesList", () => {
 
       store = mockStore({
         selection: {
+          ...selectedFrameworks,
           services: {
             cosmosDB: cosmosDB
           }
@@ -161,4 +173,92 @@ describe("ServicesList", () => {
       expect(cosmosDBComponent).toHaveLength(1);
     });
   });
+
+  const nest = { backendFramework: { internalName: "Nest" } };
+  const svelte = { frontendFramework: { internalName: "Svelte" } };
+
+  // The services a note is about, none when it is shown for every selection,
+  // and the frameworks without templates for the feature
+  describe.each([
+    [
+      WIZARD_CONTENT_INTERNAL_NAMES.DOCKER,
+      "local MongoDB",
+      { cosmosDB: { ...emptyCosmosDB, selection: [{ api: "MongoDB", accountName: "" }] } },
+      []
+    ],
+    [
+      WIZARD_CONTENT_INTERNAL_NAMES.CONTINUOUS_INTEGRATION,
+      "deployed to the App Service",
+      { appService: { ...emptyAppService, selection: {} } },
+      []
+    ],
+    [WIZARD_CONTENT_INTERNAL_NAMES.AUTHENTICATION, "mock identity provider", undefined, [nest, svelte]]
+  ])("When the %s toggle is in the services of the store", (
+    identity: string,
+    note: string,
+    services: any,
+    unsupportedFrameworks: any[]
+  ) => {
+    const mountWithServices = (otherServices: any, featureToggles: any, frameworks: any = {}) => {
+      store = mockStore({
+        selection: {
+          ...selectedFrameworks,
+          ...frameworks,
+          services: {
+            ...otherServices,
+            featureToggles
+          }
+        },
+        vscode: mockVsCode
+      });
+
+      wrapper = mountWithIntl(
+        <Provider store={store}>
+          <ServicesList {...props} />
+        </Provider>
+      ).children();
+    };
+
+    const findToggle = () =>
+      wrapper.find(FeatureToggleSelection).filterWhere((toggle: any) => toggle.prop("identity") === identity);
+
+    it("Should select the feature when its checkbox is checked", () => {
+      mountWithServices({}, {});
+      expect(wrapper.find(FeatureToggleSelection)).toHaveLength(3);
+
+      findToggle().find("input[type='checkbox']").simulate("change");
+      expect(store.getActions()).toEqual([
+        { type: WIZARD_SELECTION_TYPEKEYS.SELECT_FEATURE_TOGGLE, payload: { identity, selected: true } }
+      ]);
+    });
+
+    it("Should hide the feature for the frameworks without templates for it", () => {
+      unsupportedFrameworks.forEach(frameworks => {
+        mountWithServices({}, {}, frameworks);
+        expect(findToggle()).toHaveLength(0);
+      });
+    });
+
+    it("Should show the feature for the frameworks with templates for it", () => {
+      [nest, svelte]
+        .filter(frameworks => unsupportedFrameworks.indexOf(frameworks) === -1)
+        .forEach(frameworks => {
+          mountWithServices({}, {}, frameworks);
+          expect(findToggle()).toHaveLength(1);
+        });
+    });
+
+    it("Should only show the note of the feature once selected with the services it mentions", () => {
+      mountWithServices(services, {});
+      expect(findToggle().text()).not.toContain(note);
+
+      if (services) {
+        mountWithServices({}, { [identity]: true });
+        expect(findToggle().text()).not.toContain(note);
+      }
+
+      mountWithServices(services, { [identity]: true });
+      expect(findToggle().text()).toContain(note);
+    });
+  });
 });
@@ -1,37 +1,57 @@
 import { connect } from "react-redux";
 import { AppState } from "../../../reducers";
-import { getServicesSelector } from "../../../selectors/servicesSelector";
+import { getAvailableFeatureTogglesSelector, getServicesSelector } from "../../../selectors/servicesSelector";
 import React from "react";
 import { injectIntl, InjectedIntlProps } from "react-intl";
 import messages from "./strings";
 import styles from "./styles.module.css";
 import CosmosDBSelection from "./CosmosDBSelection";
 import AppServiceSelection from "./AppServiceSelection";
+import FeatureToggleSelection from "./FeatureToggleSelection";
 import { ServiceState } from "../../../reducers/wizardSelectionReducers/services";
+import { IFeatureToggle } from "../../../types/featureToggle";
+import { COSMOS_APIS, WIZARD_CONTENT_INTERNAL_NAMES } from "../../../utils/constants";
 import _ from "lodash";
 
 interface IProps {
   services: ServiceState;
+  featureToggles: IFeatureToggle[];
 }
 
 type Props = IProps & InjectedIntlProps;
 
-function ServicesList({ services, intl }: Props) {
+function ServicesList({ services, featureToggles, intl }: Props) {
   const { formatMessage } = intl;
   const hasAppService = services.appService && services.appService.selection;
   const hasCosmos = services.cosmosDB && !_.isEmpty(services.cosmosDB.selection);
+  const hasCosmosMongo = hasCosmos && services.cosmosDB.selection[0].api === COSMOS_APIS.MONGO;
+  const showsNote: { [identity: string]: boolean } = {
+    [WIZARD_CONTENT_INTERNAL_NAMES.DOCKER]: !!hasCosmosMongo,
+    [WIZARD_CONTENT_INTERNAL_NAMES.CONTINUOUS_INTEGRATION]: !!hasAppService,
+    [WIZARD_CONTENT_INTERNAL_NAMES.AUTHENTICATION]: true
+  };
 
   return (
     <div className={styles.servicesSection}>
       <div className={styles.title}>{formatMessage(messages.services)}</div>
       {hasAppService && <AppServiceSelection appServiceSelection={services.appService} />}
       {hasCosmos && <CosmosDBSelection cosmosSelection={services.cosmosDB} />}
+      {services.featureToggles &&
+        featureToggles.map(({ identity }) => (
+          <FeatureToggleSelection
+            key={identity}
+            identity={identity}
+            isSelected={!!services.featureToggles[identity]}
+            showNote={showsNote[identity]}
+          />
+        ))}
     </div>
   );
 }
 
 const mapStateToProps = (state: AppState): IProps => ({
-  services: getServicesSelector(state)
+  services: getServicesSelector(state),
+  featureToggles: getAvailableFeatureTogglesSelector(state)
 });
 
 export default connect(mapStateToProps)(injectIntl(ServicesList));
@@ -103,7 +103,7 @@ const RightSidebar = (props: Props)=>{
         <ProjectDetails/>
         <SelectFrameworks/>
         {showPages && (<SelectPages pathname={pathname}/>)}
-        {hasServices && <ServicesList />}
+        {(showPages || hasServices) && <ServicesList />}
         <div className={styles.container}>
           {pathname !== ROUTES.REVIEW_AND_GENERATE && (
             <div className={styles.buttonContainer}>
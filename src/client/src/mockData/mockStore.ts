@@ -76,6 +76,7 @@ export const getInitialState = (): AppState => {
         version: '',
         author: ''
       },
+      language: 'JavaScript',
       pages: [],
       services: {
         azureFunctions: {
@@ -117,7 +118,8 @@ export const getInitialState = (): AppState => {
               defaultMessage: 'App Service'
             }
           }
-        }
+        },
+        featureToggles: {}
       },
       outputPathObject: {
         outputPath: '/generic_output_path'
@@ -145,7 +147,8 @@ export const getInitialState = (): AppState => {
           validateEmptyNames: true,
           validateExistingNames: true
         }
-      }
+      },
+      postGenerationOptions: null
     },
     azureProfileData: {
       isLoggedIn: false,
@@ -194,7 +197,13 @@ export const getInitialState = (): AppState => {
           success: false,
           failure: false
         }
-      }
+      },
+      genProgress: {
+        percentage: 0,
+        items: [],
+        log: []
+      },
+      postGenTasks: []
     },
     versions: {
       templatesVersion: '0.0.1',
@@ -202,6 +211,11 @@ export const getInitialState = (): AppState => {
     },
     dependencyInfo: {
       dependencies: {}
+    },
+    engineStatus: "connected",
+    addToProject: {
+      existingProject: null,
+      services: []
     }
   };
   return initialState;
@@ -315,7 +329,8 @@ export const addFrontEndFrameworksOptions = (store: AppState)=>{
       title: 'React',
       version: '16.8.4',
       latestVersion: "0.0.1",
-      latestVersionLoaded: true
+      latestVersionLoaded: true,
+      languages: ['JavaScript', 'TypeScript']
     },
     {
       author: 'Google',
@@ -329,7 +344,8 @@ export const addFrontEndFrameworksOptions = (store: AppState)=>{
       title: 'Angular',
       version: '7.2.0',
       latestVersion: "0.0.1",
-      latestVersionLoaded: true
+      latestVersionLoaded: true,
+      languages: ['TypeScript']
     },
     {
       author: 'Evan You',
@@ -343,7 +359,8 @@ export const addFrontEndFrameworksOptions = (store: AppState)=>{
       title: 'Vue.js',
       version: '2.6.6',
       latestVersion: "0.0.1",
-      latestVersionLoaded: true
+      latestVersionLoaded: true,
+      languages: ['JavaScript', 'TypeScript']
     }
   ];
   return store;
@@ -158,6 +158,37 @@ const mockVsCodeApi = () => ({
                       type: "frontend"
                     }
                   },
+                  {
+                    name: "Svelte",
+                    displayName: "Svelte",
+                    summary: "JavaScript framework",
+                    description:
+                      "Svelte is a component framework that compiles your components into small, framework-less JavaScript at build time instead of interpreting them in the browser. Svelte updates the page when the state of a component changes without a virtual DOM.\r\n\r\nMore information about Svelte can be found [here](https://svelte.dev/).\r\n",
+                    author: "Rich Harris",
+                    order: 1,
+                    metadataType: "Framework",
+                    licenses:
+                      "[Svelte](https://github.com/sveltejs/svelte/blob/master/LICENSE.md)  \n[Svelte Routing](https://github.com/EmilTholin/svelte-routing/blob/master/LICENSE)",
+                    licenseTerms: [
+                      {
+                        text: "Svelte",
+                        url: "https://github.com/sveltejs/svelte/blob/master/LICENSE.md"
+                      },
+                      {
+                        text: "Svelte Routing",
+                        url: "https://github.com/EmilTholin/svelte-routing/blob/master/LICENSE"
+                      }
+                    ],
+                    platforms: ["Web"],
+                    languages: ["Any"],
+                    tags: {
+                      version: "3.19.1",
+                      latestVersion: "3.19.1",
+                      preview: false,
+                      enabled: true,
+                      type: "frontend"
+                    }
+                  },
                   {
                     name: "Node",
                     displayName: "Node.js/Express",
@@ -213,6 +244,22 @@ const mockVsCodeApi = () => ({
                       preview: false
                     }
                   },
+                  {
+                    name: "Nest",
+                    displayName: "NestJS",
+                    summary: "TypeScript framework",
+                    author: "Various",
+                    order: "1",
+                    licenses:
+                      "[NestJS](https://github.com/nestjs/nest/blob/master/LICENSE)",
+                    platforms: ["Web"],
+                    languages: ["Any"],
+                    tags: {
+                      version: "7.0.7",
+                      latestVersion: "7.0.7",
+                      preview: false
+                    }
+                  },
                   {
                     name: "Flask",
                     displayName: "Flask",
@@ -385,6 +432,62 @@ const mockVsCodeApi = () => ({
                     templateType: "Page",
                     rightClickEnabled: true,
                     requiredVisualStudioWorkloads: []
+                  },
+                  {
+                    templateId: "wts.Page.React.Form",
+                    name: "Form",
+                    defaultName: "Form",
+                    description: "A form with validated fields that posts its data to the back-end.",
+                    richDescription:
+                      "The form page collects data from the user in validated fields and posts it to an API endpoint, which validates it again before accepting it. This pattern is frequently used for contact, sign up and feedback pages.",
+                    author: "Microsoft",
+                    version: "1.0.0",
+                    icon: "",
+                    displayOrder: 1,
+                    isHidden: false,
+                    isGroupExclusiveSelection: false,
+                    genGroup: 0,
+                    multipleInstance: true,
+                    itemNameEditable: true,
+                    licenses: [
+                      {
+                        text: "Bootstrap",
+                        url:
+                          "https://github.com/twbs/bootstrap/blob/master/LICENSE"
+                      }
+                    ],
+                    dependencies: [],
+                    templateType: "Page",
+                    rightClickEnabled: true,
+                    requiredVisualStudioWorkloads: []
+                  },
+                  {
+                    templateId: "wts.Page.React.Dashboard",
+                    name: "Dashboard",
+                    defaultName: "Dashboard",
+                    description: "Summary cards and charts with data aggregated by the back-end.",
+                    richDescription:
+                      "The dashboard page shows summary cards and bar charts with figures that the back-end aggregates from the sample orders. This pattern is frequently used for reporting and admin pages.",
+                    author: "Microsoft",
+                    version: "1.0.0",
+                    icon: "",
+                    displayOrder: 1,
+                    isHidden: false,
+                    isGroupExclusiveSelection: false,
+                    genGroup: 0,
+                    multipleInstance: true,
+                    itemNameEditable: true,
+                    licenses: [
+                      {
+                        text: "Bootstrap",
+                        url:
+                          "https://github.com/twbs/bootstrap/blob/master/LICENSE"
+                      }
+                    ],
+                    dependencies: [],
+                    templateType: "Page",
+                    rightClickEnabled: true,
+                    requiredVisualStudioWorkloads: []
                   }
                 ]
               }
@@ -504,6 +607,33 @@ const mockVsCodeApi = () => ({
             },
             "*"
           );
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.GEN_PROGRESS,
+              payload: {
+                percentage: 100,
+                items: [
+                  { id: "project:wts.Proj.ReactDefault", name: "ReactDefault", kind: "project", state: "done", elapsedMs: 1200 },
+                  { id: "page:Blank", name: "Blank", kind: "page", state: "done", elapsedMs: 300 },
+                  { id: "composition:2", name: "AddNavigate", kind: "composition", state: "done", elapsedMs: 100 }
+                ],
+                log: ["Generating ReactDefault", "Generating Blank", "Generating AddNavigate"]
+              }
+            },
+            "*"
+          );
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.POST_GEN_TASKS,
+              payload: {
+                tasks: [
+                  { id: "gitInit", state: "done", output: ["> git init", "Initialized empty Git repository"] },
+                  { id: "installDependencies", state: "failed", output: ["> npm install"], error: "npm install failed with exit code 1" }
+                ]
+              }
+            },
+            "*"
+          );
           window.postMessage(
             {
               command: EXTENSION_COMMANDS.GEN_STATUS,
@@ -530,6 +660,24 @@ const mockVsCodeApi = () => ({
             "*"
           );
           break;
+        case EXTENSION_COMMANDS.GET_POST_GEN_OPTIONS:
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.GET_POST_GEN_OPTIONS,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : "",
+                options: {
+                  installDependencies: true,
+                  createVirtualEnv: false,
+                  gitInit: true,
+                  openReadme: false,
+                  openProject: "none"
+                }
+              }
+            },
+            "*"
+          );
+          break;
         case EXTENSION_COMMANDS.GET_OUTPUT_PATH:
           // produces a mock login response from VSCode in development
           window.postMessage(
@@ -602,6 +750,88 @@ const mockVsCodeApi = () => ({
             },
             "*"
           );
+          break;
+        case EXTENSION_COMMANDS.GET_EXISTING_PROJECT:
+          // the development wizard always starts a new project
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.GET_EXISTING_PROJECT,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : ""
+              }
+            },
+            "*"
+          );
+          break;
+        case EXTENSION_COMMANDS.EXPORT_RECIPE:
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.EXPORT_RECIPE,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : "",
+                filePath: "/home/user/myApp.recipe.json"
+              }
+            },
+            "*"
+          );
+          break;
+        case EXTENSION_COMMANDS.IMPORT_RECIPE:
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.IMPORT_RECIPE,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : "",
+                recipe: {
+                  recipeVersion: 1,
+                  wizardVersion: "1.0.0",
+                  templatesVersion: "1.0.0",
+                  projectType: "FullStackWebApp",
+                  frontendFramework: { identity: "React", templateName: "React" },
+                  backendFramework: { identity: "Node", templateName: "Node.js/Express" },
+                  pages: [
+                    { name: "Home", identity: "wts.Page.React.Blank", templateName: "Blank" },
+                    { name: "Orders", identity: "wts.Page.React.Grid", templateName: "Grid" }
+                  ],
+                  services: {}
+                },
+                issues: []
+              }
+            },
+            "*"
+          );
+          break;
+        case EXTENSION_COMMANDS.GET_GENERATION_PREVIEW:
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.GET_GENERATION_PREVIEW,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : "",
+                manifest: {
+                  projectPath: "/generic_output_path/myApp",
+                  files: [
+                    { path: "README.md", size: 1024, templates: ["wts.Proj.Default"] },
+                    { path: "src/App.jsx", size: 2048, templates: ["wts.Proj.React", "wts.Page.React.Grid"] },
+                    { path: "src/components/Grid/index.jsx", size: 512, templates: ["wts.Page.React.Grid"] }
+                  ]
+                }
+              }
+            },
+            "*"
+          );
+          break;
+        case EXTENSION_COMMANDS.GET_GENERATION_PREVIEW_FILE:
+          window.postMessage(
+            {
+              command: EXTENSION_COMMANDS.GET_GENERATION_PREVIEW_FILE,
+              payload: {
+                scope:message.payload && message.payload.scope ? message.payload.scope : "",
+                content: `// ${message.payload.filePath}`,
+                isBinary: false,
+                isTruncated: false
+              }
+            },
+            "*"
+          );
       }
     }
   }
@@ -0,0 +1,35 @@
+import addToProject from "./addToProjectReducer";
+import {
+  setExistingProjectAction,
+  selectAddToProjectServicesAction
+} from "../actions/wizardInfoActions/addToProjectActions";
+
+const project = {
+  projectName: "MyApp",
+  path: "/projects",
+  projectType: "FullStackWebApp",
+  frontendFramework: "React",
+  backendFramework: "Node",
+  pages: [{ name: "Orders", identity: "wts.Page.React.Grid" }],
+  services: []
+};
+
+describe("addToProject reducer", () => {
+  it("starts without an existing project", () => {
+    expect(addToProject(undefined, {} as any)).toEqual({
+      existingProject: null,
+      services: []
+    });
+  });
+
+  it("clears the selected services when the existing project changes", () => {
+    const cosmos = { name: "Cosmos", identity: "wts.Feature.Azure.Cosmos.Mongo" };
+    const state = addToProject(undefined, selectAddToProjectServicesAction([cosmos]));
+
+    expect(state.services).toEqual([cosmos]);
+    expect(addToProject(state, setExistingProjectAction(project))).toEqual({
+      existingProject: project,
+      services: []
+    });
+  });
+});
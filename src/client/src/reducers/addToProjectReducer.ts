@@ -0,0 +1,39 @@
+import { WIZARD_INFO_TYPEKEYS } from "../actions/wizardInfoActions/typeKeys";
+import WizardInfoType from "../actions/wizardInfoActions/wizardInfoActionType";
+import { IExistingProject } from "../types/existingProject";
+import { ITemplateInfo } from "../types/templateInfo";
+
+/* State Shape
+{
+    addToProject: {
+        existingProject: IExistingProject | null,
+        services: ITemplateInfo[]
+    }
+}
+*/
+
+export interface IAddToProjectState {
+  existingProject: IExistingProject | null;
+  services: ITemplateInfo[];
+}
+
+const initialState: IAddToProjectState = {
+  existingProject: null,
+  services: []
+};
+
+const addToProject = (
+  state: IAddToProjectState = initialState,
+  action: WizardInfoType
+) => {
+  switch (action.type) {
+    case WIZARD_INFO_TYPEKEYS.SET_EXISTING_PROJECT:
+      return { existingProject: action.payload, services: [] };
+    case WIZARD_INFO_TYPEKEYS.SELECT_ADD_TO_PROJECT_SERVICES:
+      return { ...state, services: action.payload };
+    default:
+      return state;
+  }
+};
+
+export default addToProject;
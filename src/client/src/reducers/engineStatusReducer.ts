@@ -0,0 +1,25 @@
+import { WIZARD_INFO_TYPEKEYS } from "../actions/wizardInfoActions/typeKeys";
+import WizardInfoType from "../actions/wizardInfoActions/wizardInfoActionType";
+import { EngineStatus } from "../types/engineStatus";
+
+/* State Shape
+{
+    engineStatus: "connected" | "reconnecting" | "failed"
+}
+*/
+
+const initialState: EngineStatus = "connected";
+
+const engineStatus = (
+  state: EngineStatus = initialState,
+  action: WizardInfoType
+) => {
+  switch (action.type) {
+    case WIZARD_INFO_TYPEKEYS.UPDATE_ENGINE_STATUS:
+      return action.payload;
+    default:
+      return state;
+  }
+};
+
+export default engineStatus;
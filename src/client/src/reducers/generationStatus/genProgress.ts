@@ -0,0 +1,49 @@
+import { WIZARD_INFO_TYPEKEYS } from "../../actions/wizardInfoActions/typeKeys";
+import WizardInfoType from "../../actions/wizardInfoActions/wizardInfoActionType";
+
+export type GenerationItemKind = "project" | "page" | "feature" | "composition";
+export type GenerationItemState = "pending" | "generating" | "done" | "failed";
+
+export interface IGenerationItemProgress {
+  id: string;
+  name: string;
+  kind: GenerationItemKind;
+  state: GenerationItemState;
+  elapsedMs: number;
+}
+
+/* State Shape
+{
+    genProgress: {
+        percentage: number,
+        items: IGenerationItemProgress[],
+        log: string[]
+    }
+}
+*/
+
+export interface IGenerationProgress {
+  percentage: number;
+  items: IGenerationItemProgress[];
+  log: string[];
+}
+
+const initialState: IGenerationProgress = {
+  percentage: 0,
+  items: [],
+  log: []
+};
+
+const genProgress = (
+  state: IGenerationProgress = initialState,
+  action: WizardInfoType
+) => {
+  switch (action.type) {
+    case WIZARD_INFO_TYPEKEYS.UPDATE_TEMPLATE_GENERATION_PROGRESS:
+      return action.payload;
+    default:
+      return state;
+  }
+};
+
+export { genProgress };
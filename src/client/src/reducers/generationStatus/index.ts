@@ -2,8 +2,12 @@ import { combineReducers } from "redux";
 
 import { statusMessage } from "./statusMessage";
 import { genStatus } from "./genStatus";
+import { genProgress } from "./genProgress";
+import { postGenTasks } from "./postGenTasks";
 
 export default combineReducers({
   statusMessage,
-  genStatus
+  genStatus,
+  genProgress,
+  postGenTasks
 });
@@ -0,0 +1,23 @@
+import { WIZARD_INFO_TYPEKEYS } from "../../actions/wizardInfoActions/typeKeys";
+import WizardInfoType from "../../actions/wizardInfoActions/wizardInfoActionType";
+import { IPostGenerationTask } from "../../types/postGeneration";
+
+/* State Shape
+{
+    postGenTasks: IPostGenerationTask[]
+}
+*/
+
+const postGenTasks = (
+  state: IPostGenerationTask[] = [],
+  action: WizardInfoType
+) => {
+  switch (action.type) {
+    case WIZARD_INFO_TYPEKEYS.UPDATE_POST_GENERATION_TASKS:
+      return action.payload;
+    default:
+      return state;
+  }
+};
+
+export { postGenTasks };
@@ -8,6 +8,8 @@ import wizardRoutes from "./wizardRoutes";
 import vscodeApi from "./vscodeApiReducer";
 import selection from "./wizardSelectionReducers";
 import versions from "./versionsReducer";
+import engineStatus from "./engineStatusReducer";
+import addToProject from "./addToProjectReducer";
 import RootAction from "../actions/ActionType";
 import { WIZARD_INFO_TYPEKEYS } from "../actions/wizardInfoActions/typeKeys";
 
@@ -20,7 +22,9 @@ const appReducer = combineReducers({
   wizardRoutes,
   generationStatus,
   versions,
-  dependencyInfo
+  dependencyInfo,
+  engineStatus,
+  addToProject
 });
 
 export type AppState = ReturnType<typeof appReducer>;
@@ -36,8 +40,10 @@ const rootReducer = (state: AppState | undefined, action: RootAction) => {
      * See: https://redux.js.org/recipes/structuring-reducers/initializing-state
      */
     passedState = {
+      addToProject: state!.addToProject,
       azureProfileData: state!.azureProfileData,
       dependencyInfo: undefined,
+      engineStatus: state!.engineStatus,
       generationStatus: undefined,
       modals: undefined,
       selection: {
@@ -2,6 +2,7 @@ import { combineReducers } from "redux";
 
 import backendFramework from "./selectBackendFrameworkReducer";
 import frontendFramework from "./selectFrontendFrameworkReducer";
+import language from "./selectLanguageReducer";
 import pages from "./selectPagesReducer";
 import appType from "./selectWebAppReducer";
 import projectNameObject from "./updateProjectName";
@@ -9,17 +10,20 @@ import validations from "./setValidations";
 import outputPathObject from "./updateOutputPath";
 import services from "./services";
 import isValidatingName from "./validatingNameReducer";
+import postGenerationOptions from "./postGenerationOptionsReducer";
 
 const selectionStateReducer = combineReducers({
   appType,
   frontendFramework,
   backendFramework,
+  language,
   pages,
   services,
   outputPathObject,
   isValidatingName,
   projectNameObject,
-  validations
+  validations,
+  postGenerationOptions
 });
 
 export default selectionStateReducer;
@@ -0,0 +1,24 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "../../actions/wizardSelectionActions/typeKeys";
+import WizardSelectionActionType from "../../actions/wizardSelectionActions/wizardSelectionActionType";
+import { IPostGenerationOptions } from "../../types/postGeneration";
+
+/* State Shape
+{
+    postGenerationOptions: IPostGenerationOptions | null
+}
+*/
+
+// Null until the defaults are read from the settings of the extension
+const postGenerationOptions = (
+  state: IPostGenerationOptions | null = null,
+  action: WizardSelectionActionType
+) => {
+  switch (action.type) {
+    case WIZARD_SELECTION_TYPEKEYS.UPDATE_POST_GENERATION_OPTIONS:
+      return action.payload;
+    default:
+      return state;
+  }
+};
+
+export default postGenerationOptions;
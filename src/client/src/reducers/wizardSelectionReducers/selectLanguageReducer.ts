@@ -0,0 +1,23 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "../../actions/wizardSelectionActions/typeKeys";
+import WizardSelectionActionType from "../../actions/wizardSelectionActions/wizardSelectionActionType";
+import { LANGUAGES } from "../../utils/constants";
+
+/* State Shape
+{
+    language: "JavaScript"
+}
+*/
+
+const language = (
+  state: string = LANGUAGES.JAVASCRIPT,
+  action: WizardSelectionActionType
+) => {
+  switch (action.type) {
+    case WIZARD_SELECTION_TYPEKEYS.SELECT_LANGUAGE:
+      return action.payload;
+    default:
+      return state;
+  }
+};
+
+export default language;
@@ -0,0 +1,26 @@
+import { WIZARD_SELECTION_TYPEKEYS } from "../../../actions/wizardSelectionActions/typeKeys";
+import WizardSelectionActionType from "../../../actions/wizardSelectionActions/wizardSelectionActionType";
+
+/**
+ * Whether each feature added by a checkbox of the services list is selected,
+ * by template identity. Features never toggled are not selected.
+ */
+export interface IFeatureToggles {
+  [identity: string]: boolean;
+}
+
+const initialState: IFeatureToggles = {};
+
+const featureToggles = (
+  state: IFeatureToggles = initialState,
+  action: WizardSelectionActionType
+) => {
+  switch (action.type) {
+    case WIZARD_SELECTION_TYPEKEYS.SELECT_FEATURE_TOGGLE:
+      return { ...state, [action.payload.identity]: action.payload.selected };
+    default:
+      return state;
+  }
+};
+
+export default featureToggles;
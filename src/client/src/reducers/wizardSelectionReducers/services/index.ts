@@ -2,11 +2,13 @@ import { combineReducers } from "redux";
 import azureFunctions from "./azureFunctionsReducer";
 import cosmosDB from "./cosmosDbReducer";
 import appService from "./appServiceReducer";
+import featureToggles from "./featureTogglesReducer";
 
 const serviceReducer = combineReducers({
   azureFunctions,
   cosmosDB,
-  appService
+  appService,
+  featureToggles
 });
 
 export type ServiceState = ReturnType<typeof serviceReducer>;
@@ -8,12 +8,18 @@ import {
   WIZARD_CONTENT_INTERNAL_NAMES,
   COSMOS_APIS
 } from "../utils/constants";
+import { getAvailableFeatureToggles } from "../utils/featureToggles";
+import { getHomePage, normalizeRoutePath } from "../utils/validations/routePath/routePath";
+import { getProjectLanguageSelector } from "./languageSelector";
 import { AppState } from "../reducers";
 import { SelectionState } from "../reducers/wizardSelectionReducers";
 
 const DATABASE_INTERNAL_NAME_MAPPING = {
   [COSMOS_APIS.MONGO]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_MONGO,
-  [COSMOS_APIS.SQL]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_SQL
+  [COSMOS_APIS.SQL]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_SQL,
+  [COSMOS_APIS.TABLE]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_TABLE,
+  [COSMOS_APIS.GREMLIN]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_GREMLIN,
+  [COSMOS_APIS.CASSANDRA]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_CASSANDRA
 };
 
 const getWizardSelectionsSelector = (state: AppState): SelectionState =>
@@ -63,6 +69,18 @@ const getServices = (selection: SelectionState): ITemplateInfo[] => {
     }
   }
 
+  if (_.has(services, SERVICE_KEYS.FEATURE_TOGGLES)) {
+    const featureToggles = getAvailableFeatureToggles(
+      selection.frontendFramework.internalName,
+      selection.backendFramework.internalName
+    );
+    for (const { identity, name } of featureToggles) {
+      if (services.featureToggles[identity]) {
+        servicesInfo.push({ name, identity });
+      }
+    }
+  }
+
   return servicesInfo;
 };
 
@@ -70,14 +88,21 @@ const getPages = (selection: SelectionState): ITemplateInfo[] => {
   const { pages } = selection;
   const pagesInfo = [];
   for (const page of pages) {
+    const routePath = page.routePath ? normalizeRoutePath(page.routePath) : "";
     pagesInfo.push({
       name: page.title,
-      identity: page.internalName
+      identity: page.internalName,
+      ...(routePath && page !== getHomePage(pages) ? { routePath } : {})
     });
   }
   return pagesInfo;
 };
 
+const getHomeName = (selection: SelectionState): string | undefined => {
+  const homePage = getHomePage(selection.pages);
+  return homePage ? homePage.title : undefined;
+};
+
 const getProjectTypeSelector = createSelector(
   getWizardSelectionsSelector,
   getProjectType
@@ -98,6 +123,11 @@ const getPagesSelector = createSelector(
   getPages
 );
 
+const getHomeNameSelector = createSelector(
+  getWizardSelectionsSelector,
+  getHomeName
+);
+
 const getServicesSelector = createSelector(
   getWizardSelectionsSelector,
   getServices
@@ -109,7 +139,9 @@ const rootSelector = createSelector(
   getProjectTypeSelector,
   getFrontendFrameworkSelector,
   getBackendFrameworkSelector,
+  getProjectLanguageSelector,
   getPagesSelector,
+  getHomeNameSelector,
   getServicesSelector,
   (
     projectName,
@@ -117,7 +149,9 @@ const rootSelector = createSelector(
     projectType,
     frontendFramework,
     backendFramework,
+    language,
     pages,
+    homeName,
     services
   ) => {
     return {
@@ -126,6 +160,8 @@ const rootSelector = createSelector(
       projectType,
       frontendFramework,
       backendFramework,
+      language,
+      homeName,
       pages,
       services
     };
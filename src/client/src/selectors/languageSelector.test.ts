@@ -0,0 +1,23 @@
+import { getProjectLanguageSelector } from "./languageSelector";
+import { addFrontEndFrameworksOptions, getInitialState } from "../mockData/mockStore";
+import { withLanguageSuffix, withoutLanguageSuffix } from "../utils/languages";
+
+describe("languageSelector", () => {
+  it("generates in the selected language when the frontend framework offers it", () => {
+    const state = addFrontEndFrameworksOptions(getInitialState());
+    state.selection.frontendFramework.internalName = "React";
+    state.selection.language = "TypeScript";
+    expect(getProjectLanguageSelector(state)).toBe("TypeScript");
+
+    state.selection.frontendFramework = { ...state.selection.frontendFramework, internalName: "Angular" };
+    state.selection.language = "JavaScript";
+    expect(getProjectLanguageSelector(state)).toBe("TypeScript");
+  });
+
+  it("adds the TypeScript suffix only for frameworks with a choice of languages", () => {
+    expect(withLanguageSuffix("wts.Page.React.Grid", ["JavaScript", "TypeScript"], "TypeScript")).toBe("wts.Page.React.Grid.TS");
+    expect(withLanguageSuffix("wts.Page.React.Grid.TS", ["JavaScript", "TypeScript"], "JavaScript")).toBe("wts.Page.React.Grid");
+    expect(withLanguageSuffix("wts.Page.Angular.Grid", ["TypeScript"], "TypeScript")).toBe("wts.Page.Angular.Grid");
+    expect(withoutLanguageSuffix("wts.Page.Vue.List.TS")).toBe("wts.Page.Vue.List");
+  });
+});
@@ -0,0 +1,30 @@
+import { createSelector } from "reselect";
+import { AppState } from "../reducers";
+import { IOption } from "../types/option";
+import { getFrameworkLanguages, getProjectLanguage } from "../utils/languages";
+
+const getFrontendOptions = (state: AppState): IOption[] =>
+  state.wizardContent.frontendOptions;
+
+const getSelectedFrontendName = (state: AppState): string =>
+  state.selection.frontendFramework.internalName;
+
+const getSelectedLanguage = (state: AppState): string =>
+  state.selection.language;
+
+const getFrontendLanguages = (frontendOptions: IOption[], frontendName: string): string[] =>
+  getFrameworkLanguages(frontendOptions.find(option => option.internalName === frontendName));
+
+const getFrontendLanguagesSelector = createSelector(
+  getFrontendOptions,
+  getSelectedFrontendName,
+  getFrontendLanguages
+);
+
+const getProjectLanguageSelector = createSelector(
+  getFrontendLanguagesSelector,
+  getSelectedLanguage,
+  getProjectLanguage
+);
+
+export { getFrontendLanguagesSelector, getProjectLanguageSelector, getSelectedLanguage };
@@ -20,6 +20,8 @@ const isAppServiceModalOpen = (modal: ModalType): boolean =>
   modal === MODAL_TYPES.APP_SERVICE_MODAL;
 const isAddPagesModalOpen = (modal: ModalType): boolean =>
   modal === MODAL_TYPES.ADD_PAGES_MODAL;
+const isAddToProjectModalOpen = (modal: ModalType): boolean =>
+  modal === MODAL_TYPES.ADD_TO_PROJECT_MODAL;
 
 const isAzureLoginModalOpenSelector = createSelector(
   getOpenModal,
@@ -61,6 +63,11 @@ const isAddPagesModalOpenSelector = createSelector(
   isAddPagesModalOpen
 );
 
+const isAddToProjectModalOpenSelector = createSelector(
+  getOpenModal,
+  isAddToProjectModalOpen
+);
+
 export {
   isAzureLoginModalOpenSelector,
   isAzureFunctionsModalOpenSelector,
@@ -69,5 +76,6 @@ export {
   isRedirectModalOpenSelector,
   isViewLicensesModalOpenSelector,
   isAppServiceModalOpenSelector,
-  isAddPagesModalOpenSelector
+  isAddPagesModalOpenSelector,
+  isAddToProjectModalOpenSelector
 };
@@ -2,6 +2,8 @@ import { createSelector } from "reselect";
 import { FormattedMessage } from "react-intl";
 
 import { IServiceStatus } from "../reducers/generationStatus/genStatus";
+import { IGenerationItemProgress } from "../reducers/generationStatus/genProgress";
+import { IPostGenerationOptions, IPostGenerationTask } from "../types/postGeneration";
 import { isCosmosResourceCreatedSelector } from "./cosmosServiceSelector";
 import { isAppServiceSelectedSelector } from "./appServiceSelector";
 import { AppState } from "../reducers";
@@ -13,6 +15,21 @@ const getGenerationStatusSelector = (state: AppState) =>
 const getSyncStatusSelector = (state: AppState): string =>
   state.generationStatus.statusMessage;
 
+const getGenerationPercentageSelector = (state: AppState): number =>
+  state.generationStatus.genProgress.percentage;
+
+const getGenerationItemsSelector = (state: AppState): IGenerationItemProgress[] =>
+  state.generationStatus.genProgress.items;
+
+const getGenerationLogSelector = (state: AppState): string[] =>
+  state.generationStatus.genProgress.log;
+
+const getPostGenerationOptionsSelector = (state: AppState): IPostGenerationOptions | null =>
+  state.selection.postGenerationOptions;
+
+const getPostGenerationTasksSelector = (state: AppState): IPostGenerationTask[] =>
+  state.generationStatus.postGenTasks;
+
 const isTemplateGenerated = (progressObject: IServiceStatus): boolean =>
   progressObject.templates.success;
 const isTemplatesFailed = (progressObject: IServiceStatus): boolean =>
@@ -146,6 +163,11 @@ const isServicesDeployedOrFinishedSelector = createSelector(
 
 export {
   getSyncStatusSelector,
+  getGenerationPercentageSelector,
+  getGenerationItemsSelector,
+  getGenerationLogSelector,
+  getPostGenerationOptionsSelector,
+  getPostGenerationTasksSelector,
   isTemplateGeneratedSelector,
   isServicesDeployedOrFinishedSelector,
   isServicesFailureSelector,
@@ -0,0 +1,116 @@
+import { getRecipeSelectionSelector } from "./projectRecipeSelector";
+import { getInitialState } from "../mockData/mockStore";
+
+describe("projectRecipeSelector", () => {
+  it("keeps the pages in order with their names", () => {
+    const state = getInitialState();
+    state.selection.frontendFramework.internalName = "React";
+    state.selection.backendFramework.internalName = "Node";
+    state.selection.pages = [
+      { title: "Orders", internalName: "wts.Page.React.Grid" },
+      { title: "Home", internalName: "wts.Page.React.Blank" }
+    ];
+
+    expect(getRecipeSelectionSelector(state)).toEqual({
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      language: "JavaScript",
+      homeName: "Orders",
+      pages: [
+        { name: "Orders", identity: "wts.Page.React.Grid" },
+        { name: "Home", identity: "wts.Page.React.Blank" }
+      ],
+      services: {
+        cosmosDB: undefined,
+        appService: undefined,
+        features: []
+      }
+    });
+  });
+
+  it("saves the home page, the custom route paths and the toggled features", () => {
+    const state = getInitialState();
+    state.selection.frontendFramework.internalName = "React";
+    state.selection.backendFramework.internalName = "Node";
+    state.selection.pages = [
+      { title: "Orders", internalName: "wts.Page.React.Grid", routePath: "/shop/orders" },
+      { title: "Home", internalName: "wts.Page.React.Blank", isHome: true, routePath: "home" }
+    ];
+    state.selection.services.featureToggles = {
+      "wts.Feature.Docker": true,
+      "wts.Feature.ContinuousIntegration": false,
+      "wts.Feature.Authentication": true
+    };
+
+    const { homeName, pages, services } = getRecipeSelectionSelector(state);
+
+    expect(homeName).toBe("Home");
+    expect(pages).toEqual([
+      { name: "Orders", identity: "wts.Page.React.Grid", routePath: "shop/orders" },
+      { name: "Home", identity: "wts.Page.React.Blank" }
+    ]);
+    expect(services.features).toEqual([
+      { name: "Docker", identity: "wts.Feature.Docker" },
+      { name: "Authentication", identity: "wts.Feature.Authentication" }
+    ]);
+
+    const nestState = {
+      ...state,
+      selection: {
+        ...state.selection,
+        backendFramework: { ...state.selection.backendFramework, internalName: "Nest" }
+      }
+    };
+    expect(getRecipeSelectionSelector(nestState).services.features).toEqual([
+      { name: "Docker", identity: "wts.Feature.Docker" }
+    ]);
+  });
+
+  it("saves the Azure resources without their availability", () => {
+    const state = getInitialState();
+    state.selection.services.cosmosDB.selection = [{
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      accountName: "contoso-db",
+      api: "MongoDB",
+      internalName: "wts.Feature.Azure.Cosmos"
+    }];
+    state.selection.services.appService.selection = {
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      siteName: "contoso-site",
+      internalName: "AppService"
+    };
+
+    const { services } = getRecipeSelectionSelector(state);
+
+    expect(services.cosmosDB).toEqual({
+      identity: "wts.Feature.Azure.Cosmos.Mongo",
+      api: "MongoDB",
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      accountName: "contoso-db"
+    });
+    expect(services.appService).toEqual({
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      siteName: "contoso-site"
+    });
+  });
+
+  it("maps the Graph API to the Gremlin feature", () => {
+    const state = getInitialState();
+    state.selection.services.cosmosDB.selection = [{
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      accountName: "contoso-graph",
+      api: "Graph",
+      internalName: "wts.Feature.Azure.Cosmos"
+    }];
+
+    const { services } = getRecipeSelectionSelector(state);
+
+    expect(services.cosmosDB!.identity).toBe("wts.Feature.Azure.Cosmos.Gremlin");
+  });
+});
@@ -0,0 +1,68 @@
+import { createSelector } from "reselect";
+import { AppState } from "../reducers";
+import { SelectionState } from "../reducers/wizardSelectionReducers";
+import { IRecipeSelection } from "../types/projectRecipe";
+import { COSMOS_APIS, WIZARD_CONTENT_INTERNAL_NAMES } from "../utils/constants";
+import { getAvailableFeatureToggles } from "../utils/featureToggles";
+import { getHomePage, normalizeRoutePath } from "../utils/validations/routePath/routePath";
+
+const DATABASE_INTERNAL_NAME_MAPPING = {
+  [COSMOS_APIS.MONGO]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_MONGO,
+  [COSMOS_APIS.SQL]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_SQL,
+  [COSMOS_APIS.TABLE]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_TABLE,
+  [COSMOS_APIS.GREMLIN]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_GREMLIN,
+  [COSMOS_APIS.CASSANDRA]: WIZARD_CONTENT_INTERNAL_NAMES.COSMOS_DB_CASSANDRA
+};
+
+const getWizardSelectionsSelector = (state: AppState): SelectionState =>
+  state.selection;
+
+/**
+ * The part of the wizard selection saved in a recipe. Only the fields needed
+ * to restore the selection are picked, names and paths of the project are
+ * chosen again for every project created from the recipe.
+ */
+const getRecipeSelection = (selection: SelectionState): IRecipeSelection => {
+  const { cosmosDB, appService, featureToggles } = selection.services;
+  const cosmosSelection = cosmosDB.selection[0];
+  const homePage = getHomePage(selection.pages);
+  return {
+    projectType: selection.appType.internalName,
+    frontendFramework: selection.frontendFramework.internalName,
+    backendFramework: selection.backendFramework.internalName,
+    language: selection.language,
+    homeName: homePage ? homePage.title : undefined,
+    pages: selection.pages.map(page => {
+      const routePath = page.routePath ? normalizeRoutePath(page.routePath) : "";
+      return {
+        name: page.title,
+        identity: page.internalName,
+        ...(routePath && page !== homePage ? { routePath } : {})
+      };
+    }),
+    services: {
+      cosmosDB: cosmosSelection && {
+        identity: DATABASE_INTERNAL_NAME_MAPPING[cosmosSelection.api],
+        api: cosmosSelection.api,
+        subscription: cosmosSelection.subscription,
+        resourceGroup: cosmosSelection.resourceGroup,
+        accountName: cosmosSelection.accountName
+      },
+      appService: appService.selection ? {
+        subscription: appService.selection.subscription,
+        resourceGroup: appService.selection.resourceGroup,
+        siteName: appService.selection.siteName
+      } : undefined,
+      features: getAvailableFeatureToggles(selection.frontendFramework.internalName, selection.backendFramework.internalName)
+        .filter(({ identity }) => featureToggles[identity])
+        .map(({ identity, name }) => ({ name, identity }))
+    }
+  };
+};
+
+const getRecipeSelectionSelector = createSelector(
+  getWizardSelectionsSelector,
+  getRecipeSelection
+);
+
+export { getRecipeSelectionSelector };
@@ -1,6 +1,8 @@
 import { createSelector } from "reselect";
 import { AppState } from "../reducers";
 import { ServiceState } from "../reducers/wizardSelectionReducers/services";
+import { IFeatureToggle } from "../types/featureToggle";
+import { getAvailableFeatureToggles } from "../utils/featureToggles";
 import { isAppServiceSelectedSelector } from "./appServiceSelector";
 import { isCosmosResourceCreatedSelector } from "./cosmosServiceSelector";
 
@@ -21,4 +23,17 @@ const hasServicesSelector = createSelector(
   hasServicesSelected
 );
 
-export { getServicesSelector, hasServicesSelector };
+const getSelectedFrontendName = (state: AppState): string =>
+  state.selection.frontendFramework.internalName;
+
+const getSelectedBackendName = (state: AppState): string =>
+  state.selection.backendFramework.internalName;
+
+const getAvailableFeatureTogglesSelector = createSelector(
+  getSelectedFrontendName,
+  getSelectedBackendName,
+  (frontendFramework, backendFramework): IFeatureToggle[] =>
+    getAvailableFeatureToggles(frontendFramework, backendFramework)
+);
+
+export { getServicesSelector, hasServicesSelector, getAvailableFeatureTogglesSelector };
@@ -29,17 +29,17 @@ const isEnableNextPage = (state: AppState): boolean =>{
 
   if (state.wizardRoutes.selected === ROUTES.SELECT_FRAMEWORKS &&
     state.selection.frontendFramework.title !== "" && state.selection.backendFramework.title !== "" &&
-    state.selection.pages.filter(page => !page.isValidTitle).length === 0){
+    state.selection.pages.filter(page => !page.isValidTitle || page.isValidRoutePath === false).length === 0){
     valid = true;
   }
 
   if (state.wizardRoutes.selected === ROUTES.SELECT_PAGES && state.selection.pages.length>0 && 
-    state.selection.pages.filter(page => !page.isValidTitle).length === 0){
+    state.selection.pages.filter(page => !page.isValidTitle || page.isValidRoutePath === false).length === 0){
     valid = true;
   }
 
   if ((state.wizardRoutes.selected === ROUTES.AZURE_LOGIN || state.wizardRoutes.selected === ROUTES.REVIEW_AND_GENERATE)
-    && state.selection.pages.filter(page => !page.isValidTitle).length === 0){
+    && state.selection.pages.filter(page => !page.isValidTitle || page.isValidRoutePath === false).length === 0){
     valid = true;
   }
 
@@ -0,0 +1 @@
+export type EngineStatus = "connected" | "reconnecting" | "failed";
@@ -0,0 +1,26 @@
+import { ITemplateInfo } from "./templateInfo";
+
+export interface IExistingProject {
+  projectName: string;
+  path: string;
+  projectType: string;
+  frontendFramework: string;
+  backendFramework: string;
+  language?: string;
+  pages: ITemplateInfo[];
+  services: ITemplateInfo[];
+}
+
+export type ProjectFileChangeStatus = "added" | "modified" | "conflict";
+
+export interface IDiffLine {
+  type: "unchanged" | "added" | "removed";
+  text: string;
+}
+
+export interface IProjectFileChange {
+  path: string;
+  status: ProjectFileChangeStatus;
+  isBinary: boolean;
+  diff: IDiffLine[];
+}
@@ -0,0 +1,7 @@
+export interface IFeatureToggle {
+  identity: string;
+  name: string;
+  // The frameworks the feature has templates for, all of them when not set
+  frontendFrameworks?: string[];
+  backendFrameworks?: string[];
+}
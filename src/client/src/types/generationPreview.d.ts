@@ -0,0 +1,17 @@
+export interface IManifestFile {
+  path: string;
+  size: number;
+  templates: string[];
+}
+
+export interface IGenerationManifest {
+  projectPath: string;
+  files: IManifestFile[];
+}
+
+export interface IFileTreeFolder {
+  name: string;
+  path: string;
+  folders: IFileTreeFolder[];
+  files: IManifestFile[];
+}
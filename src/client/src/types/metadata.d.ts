@@ -8,5 +8,6 @@ export interface IMetadata {
   licenses: string[];
   selected: boolean;
   author: string;
+  languages?: string[];
   tags: any;
 }
@@ -18,9 +18,11 @@ export interface IOption {
   latestVersionLoaded?: boolean=false;
   checkVersionPackageName?: string="";
   checkVersionPackageSource?: string="";
+  languages?: string[];
   unselectable?: boolean;
   isValidTitle?: boolean;
   author?: string;
   expectedTime?: string | FM.MessageDescriptor;
   expectedPrice?: string | FM.MessageDescriptor;
+  templateSource?: string;
 }
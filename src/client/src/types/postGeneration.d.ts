@@ -0,0 +1,23 @@
+export type OpenProjectTarget = "none" | "currentWindow" | "newWindow";
+
+export interface IPostGenerationOptions {
+  installDependencies: boolean;
+  createVirtualEnv: boolean;
+  gitInit: boolean;
+  openReadme: boolean;
+  openProject: OpenProjectTarget;
+}
+
+export type PostGenerationTaskId =
+  | "gitInit"
+  | "createVirtualEnv"
+  | "installDependencies"
+  | "openReadme"
+  | "openProject";
+
+export interface IPostGenerationTask {
+  id: PostGenerationTaskId;
+  state: "pending" | "running" | "done" | "failed";
+  output: string[];
+  error?: string;
+}
@@ -0,0 +1,63 @@
+export interface IRecipeTemplate {
+  identity: string;
+  templateName: string;
+}
+
+export interface IRecipePage extends IRecipeTemplate {
+  name: string;
+  routePath?: string;
+}
+
+export interface IRecipeFeature extends IRecipeTemplate {
+  name: string;
+}
+
+export interface IRecipeCosmosDB extends IRecipeTemplate {
+  api: string;
+  subscription: string;
+  resourceGroup: string;
+  accountName: string;
+}
+
+export interface IRecipeAppService {
+  subscription: string;
+  resourceGroup: string;
+  siteName: string;
+}
+
+export interface IProjectRecipe {
+  recipeVersion: number;
+  wizardVersion: string;
+  templatesVersion: string;
+  projectType: string;
+  frontendFramework: IRecipeTemplate;
+  backendFramework: IRecipeTemplate;
+  language?: string;
+  homeName?: string;
+  pages: IRecipePage[];
+  services: {
+    cosmosDB?: IRecipeCosmosDB;
+    appService?: IRecipeAppService;
+    features?: IRecipeFeature[];
+  };
+}
+
+export interface IRecipeSelection {
+  projectType: string;
+  frontendFramework: string;
+  backendFramework: string;
+  language: string;
+  homeName?: string;
+  pages: { name: string; identity: string; routePath?: string }[];
+  services: {
+    cosmosDB?: {
+      identity: string;
+      api: string;
+      subscription: string;
+      resourceGroup: string;
+      accountName: string;
+    };
+    appService?: IRecipeAppService;
+    features: { name: string; identity: string }[];
+  };
+}
@@ -14,4 +14,8 @@ export interface ISelected {
   version?: string;
   ref?: any;
   isDirty?: boolean = false;
+  isHome?: boolean;
+  routePath?: string;
+  isValidRoutePath?: boolean;
+  routePathError?: FormattedMessage.MessageDescriptor;
 }
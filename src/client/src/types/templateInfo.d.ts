@@ -1,4 +1,5 @@
 export interface ITemplateInfo {
   name: string;
   identity: string;
+  routePath?: string;
 }
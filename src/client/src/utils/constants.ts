@@ -1,4 +1,5 @@
 import { defineMessages } from "react-intl";
+import { IFeatureToggle } from "../types/featureToggle";
 
 const PAGE_DETAILS = "/PageDetail";
 const SELECT_FRAMEWORKS = "/SelectFrameworks";
@@ -83,12 +84,16 @@ const ROUTES_ARRAY = [
 const SERVICE_KEYS = {
   COSMOS_DB: "cosmosDB",
   AZURE_FUNCTIONS: "azureFunctions",
-  APP_SERVICE: "appService"
+  APP_SERVICE: "appService",
+  FEATURE_TOGGLES: "featureToggles"
 };
 
 const COSMOS_APIS = {
   MONGO: "MongoDB",
-  SQL: "SQL"
+  SQL: "SQL",
+  TABLE: "Table",
+  GREMLIN: "Graph",
+  CASSANDRA: "Cassandra"
 };
 
 enum FRAMEWORK_TYPE {
@@ -96,6 +101,17 @@ enum FRAMEWORK_TYPE {
   BACKEND = "backend"
 }
 
+const LANGUAGES = {
+  JAVASCRIPT: "JavaScript",
+  TYPESCRIPT: "TypeScript"
+};
+
+/**
+ * Appended to the identities of the TypeScript flavour of a template, e.g.
+ * wts.Page.React.Grid.TS for the TypeScript version of wts.Page.React.Grid.
+ */
+const TYPESCRIPT_IDENTITY_SUFFIX = ".TS";
+
 enum KEY_EVENTS {
   ENTER = "Enter",
   SPACE = " ",
@@ -111,16 +127,27 @@ const WIZARD_CONTENT_INTERNAL_NAMES = {
   REACT_CONTENT_GRID: "wts.Page.React.Grid",
   REACT_MASTER_DETAIL: "wts.Page.React.MasterDetail",
   REACT_LIST: "wts.Page.React.List",
+  REACT_FORM: "wts.Page.React.Form",
+  REACT_DASHBOARD: "wts.Page.React.Dashboard",
   ANGULAR_BLANK_PAGE: "wts.Page.Angular.Blank",
   ANGULAR_CONTENT_GRID: "wts.Page.Angular.Grid",
   ANGULAR_MASTER_DETAIL: "wts.Page.Angular.MasterDetail",
   ANGULAR_LIST: "wts.Page.Angular.List",
+  ANGULAR_FORM: "wts.Page.Angular.Form",
+  ANGULAR_DASHBOARD: "wts.Page.Angular.Dashboard",
   COSMOS_DB: "wts.Feature.Azure.Cosmos",
   COSMOS_DB_MONGO: "wts.Feature.Azure.Cosmos.Mongo",
   COSMOS_DB_SQL: "wts.Feature.Azure.Cosmos.SQL",
+  COSMOS_DB_TABLE: "wts.Feature.Azure.Cosmos.Table",
+  COSMOS_DB_GREMLIN: "wts.Feature.Azure.Cosmos.Gremlin",
+  COSMOS_DB_CASSANDRA: "wts.Feature.Azure.Cosmos.Cassandra",
+  DOCKER: "wts.Feature.Docker",
+  CONTINUOUS_INTEGRATION: "wts.Feature.ContinuousIntegration",
+  AUTHENTICATION: "wts.Feature.Authentication",
   FULL_STACK_APP: "FullStackWebApp",
   NODE: "Node",
   MOLECULER: "Moleculer",
+  NEST: "Nest",
   FLASK: "Flask",
   PYTHON: "Python",
   REACT: "React",
@@ -129,9 +156,56 @@ const WIZARD_CONTENT_INTERNAL_NAMES = {
   VUE_BLANK_PAGE: "wts.Page.Vue.Blank",
   VUE_CONTENT_GRID: "wts.Page.Vue.Grid",
   VUE_MASTER_DETAIL: "wts.Page.Vue.MasterDetail",
-  VUE_LIST: "wts.Page.Vue.List"
+  VUE_LIST: "wts.Page.Vue.List",
+  VUE_FORM: "wts.Page.Vue.Form",
+  VUE_DASHBOARD: "wts.Page.Vue.Dashboard",
+  SVELTE: "Svelte",
+  SVELTE_BLANK_PAGE: "wts.Page.Svelte.Blank",
+  SVELTE_CONTENT_GRID: "wts.Page.Svelte.Grid",
+  SVELTE_MASTER_DETAIL: "wts.Page.Svelte.MasterDetail",
+  SVELTE_LIST: "wts.Page.Svelte.List",
+  SVELTE_FORM: "wts.Page.Svelte.Form",
+  SVELTE_DASHBOARD: "wts.Page.Svelte.Dashboard"
 };
 
+const TOGGLE_BACKEND_FRAMEWORKS = [
+  WIZARD_CONTENT_INTERNAL_NAMES.NODE,
+  WIZARD_CONTENT_INTERNAL_NAMES.FLASK,
+  WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER,
+  WIZARD_CONTENT_INTERNAL_NAMES.NEST
+];
+
+/**
+ * The features added to a project by a checkbox of the services list, with the
+ * name they are generated under and the frameworks they have templates for.
+ */
+const FEATURE_TOGGLES: IFeatureToggle[] = [
+  {
+    identity: WIZARD_CONTENT_INTERNAL_NAMES.DOCKER,
+    name: "Docker",
+    backendFrameworks: TOGGLE_BACKEND_FRAMEWORKS
+  },
+  {
+    identity: WIZARD_CONTENT_INTERNAL_NAMES.CONTINUOUS_INTEGRATION,
+    name: "ContinuousIntegration",
+    backendFrameworks: TOGGLE_BACKEND_FRAMEWORKS
+  },
+  {
+    identity: WIZARD_CONTENT_INTERNAL_NAMES.AUTHENTICATION,
+    name: "Authentication",
+    frontendFrameworks: [
+      WIZARD_CONTENT_INTERNAL_NAMES.REACT,
+      WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR,
+      WIZARD_CONTENT_INTERNAL_NAMES.VUE
+    ],
+    backendFrameworks: [
+      WIZARD_CONTENT_INTERNAL_NAMES.NODE,
+      WIZARD_CONTENT_INTERNAL_NAMES.FLASK,
+      WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER
+    ]
+  }
+];
+
 const EXTENSION_MODULES = {
   AZURE: "Azure",
   GENERATE: "GenerateExperience",
@@ -140,7 +214,9 @@ const EXTENSION_MODULES = {
   VSCODEUI: "VSCodeUI",
   DEPENDENCYCHECKER: "DependencyChecker",
   CORETS: "CoreTSModule",
-  DEFAULTS: "Defaults"
+  DEFAULTS: "Defaults",
+  ADD_TO_PROJECT: "AddToProject",
+  RECIPE: "Recipe"
 };
 
 // Define extension commands here that should be received from the extension
@@ -148,6 +224,9 @@ const EXTENSION_COMMANDS = {
   AZURE_LOGIN: "login",
   AZURE_LOGOUT: "logout",
   GENERATE: "generate",
+  CANCEL_GENERATION: "cancel-generation",
+  GET_GENERATION_PREVIEW: "get-generation-preview",
+  GET_GENERATION_PREVIEW_FILE: "get-generation-preview-file",
   GET_OUTPUT_PATH: "get-output-path",
   GET_PROJECT_NAME: "get-project-name",
   GET_USER_STATUS: "get-user-status",
@@ -167,6 +246,11 @@ const EXTENSION_COMMANDS = {
   TRACK_OPEN_COSMOSDB_SERVICE_MODAL_FROM_SERVICES_LIST: "track-open-cosmosdb-service-modal-from-services-list",
   GEN_STATUS_MESSAGE: "update-status-message",
   GEN_STATUS: "update-status",
+  GEN_PROGRESS: "update-generation-progress",
+  GET_POST_GEN_OPTIONS: "get-post-generation-options",
+  POST_GEN_TASKS: "update-post-generation-tasks",
+  RETRY_POST_GEN_TASK: "retry-post-generation-task",
+  ENGINE_STATUS: "update-engine-status",
   OPEN_PROJECT_IN_VSCODE: "open-project-vscode",
   GET_TEMPLATE_INFO: "get-template-info",
   CLOSE_WIZARD: "close-wizard",
@@ -176,7 +260,12 @@ const EXTENSION_COMMANDS = {
   GET_FRAMEWORKS: "get-frameworks",
   GET_LATEST_VERSION:"get-latest-version",
   GET_PAGES: "get-pages",
-  GET_VALIDATIONS: "get-validations"
+  GET_VALIDATIONS: "get-validations",
+  GET_EXISTING_PROJECT: "get-existing-project",
+  GET_ADD_TO_PROJECT_CHANGES: "get-add-to-project-changes",
+  APPLY_ADD_TO_PROJECT_CHANGES: "apply-add-to-project-changes",
+  EXPORT_RECIPE: "export-recipe",
+  IMPORT_RECIPE: "import-recipe"
 };
 
 const TELEMETRY = {
@@ -192,6 +281,7 @@ export {
   ROUTES_ARRAY,
   SERVICE_KEYS,
   WIZARD_CONTENT_INTERNAL_NAMES,
+  FEATURE_TOGGLES,
   INTL_MESSAGES,
   ARIA_LABELS_NAVIGATION,
   COSMOS_APIS,
@@ -201,6 +291,8 @@ export {
   MAX_PAGES_ALLOWED,
   WEB_TEMPLATE_STUDIO_LINKS,
   FRAMEWORK_TYPE,
+  LANGUAGES,
+  TYPESCRIPT_IDENTITY_SUFFIX,
   KEY_EVENTS,
   PAYLOAD_MESSAGES_TEXT,
   BOOTSTRAP_LICENSE,
@@ -2,6 +2,7 @@ import { IVSCodeObject } from "../../reducers/vscodeApiReducer";
 import {
   EXTENSION_COMMANDS, EXTENSION_MODULES, WIZARD_CONTENT_INTERNAL_NAMES, PAYLOAD_MESSAGES_TEXT
 } from "../constants";
+import { IRecipeSelection } from "../../types/projectRecipe";
 
 const postMessageAsync = (command: string, paramsMessage: any, vscode: IVSCodeObject)=>{
 
@@ -73,14 +74,15 @@ const getLatestVersion = (vscode: IVSCodeObject, checkVersionPackageName: string
   });
 }
 
-const getPages = (vscode: IVSCodeObject, frontEndInternalName: string, backEndInternalName: string)=>{
+const getPages = (vscode: IVSCodeObject, frontEndInternalName: string, backEndInternalName: string, language?: string)=>{
   return postMessageAsync( EXTENSION_COMMANDS.GET_PAGES, {
     module: EXTENSION_MODULES.CORETS,
     command: EXTENSION_COMMANDS.GET_PAGES,
     payload: {
       projectType: WIZARD_CONTENT_INTERNAL_NAMES.FULL_STACK_APP,
       frontendFramework: frontEndInternalName,
-      backendFramework: backEndInternalName
+      backendFramework: backEndInternalName,
+      language
     }
   }, vscode);
 }
@@ -188,6 +190,98 @@ const ValidateAppServiceName = (subscription: string, appName: string, vscode: I
   }, vscode);
 }
 
+const getGenerationPreview = (engine: any, vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.GET_GENERATION_PREVIEW, {
+    module: EXTENSION_MODULES.GENERATE,
+    command: EXTENSION_COMMANDS.GET_GENERATION_PREVIEW,
+    track: false,
+    payload: {
+      engine
+    }
+  }, vscode);
+}
+
+const getGenerationPreviewFile = (filePath: string, vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.GET_GENERATION_PREVIEW_FILE, {
+    module: EXTENSION_MODULES.GENERATE,
+    command: EXTENSION_COMMANDS.GET_GENERATION_PREVIEW_FILE,
+    track: false,
+    payload: {
+      filePath
+    }
+  }, vscode);
+}
+
+const getPostGenerationOptions = (vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.GET_POST_GEN_OPTIONS, {
+    module: EXTENSION_MODULES.GENERATE,
+    command: EXTENSION_COMMANDS.GET_POST_GEN_OPTIONS,
+    track: false,
+    payload: {}
+  }, vscode);
+}
+
+const getExistingProject = (vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.GET_EXISTING_PROJECT, {
+    module: EXTENSION_MODULES.ADD_TO_PROJECT,
+    command: EXTENSION_COMMANDS.GET_EXISTING_PROJECT,
+    track: false,
+    payload: {}
+  }, vscode);
+}
+
+const getAddToProjectChanges = (pages: any[], services: any[], vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.GET_ADD_TO_PROJECT_CHANGES, {
+    module: EXTENSION_MODULES.ADD_TO_PROJECT,
+    command: EXTENSION_COMMANDS.GET_ADD_TO_PROJECT_CHANGES,
+    track: false,
+    payload: {
+      pages,
+      services
+    }
+  }, vscode);
+}
+
+const applyAddToProjectChanges = (paths: string[], vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.APPLY_ADD_TO_PROJECT_CHANGES, {
+    module: EXTENSION_MODULES.ADD_TO_PROJECT,
+    command: EXTENSION_COMMANDS.APPLY_ADD_TO_PROJECT_CHANGES,
+    track: true,
+    payload: {
+      paths
+    }
+  }, vscode);
+}
+
+const exportRecipe = (selection: IRecipeSelection, projectName: string, vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.EXPORT_RECIPE, {
+    module: EXTENSION_MODULES.RECIPE,
+    command: EXTENSION_COMMANDS.EXPORT_RECIPE,
+    track: true,
+    payload: {
+      selection,
+      projectName
+    }
+  }, vscode);
+}
+
+const importRecipe = (vscode: IVSCodeObject): Promise<any> => {
+  return postMessageAsync(
+    EXTENSION_COMMANDS.IMPORT_RECIPE, {
+    module: EXTENSION_MODULES.RECIPE,
+    command: EXTENSION_COMMANDS.IMPORT_RECIPE,
+    track: true,
+    payload: {}
+  }, vscode);
+}
+
 export {
   projectPathValidation,
   getValidationsConfig,
@@ -205,5 +299,13 @@ export {
   nameCosmos,
   azureLogin,
   getUserStatus,
-  getTemplateInfo
+  getTemplateInfo,
+  getGenerationPreview,
+  getGenerationPreviewFile,
+  getPostGenerationOptions,
+  getExistingProject,
+  getAddToProjectChanges,
+  applyAddToProjectChanges,
+  exportRecipe,
+  importRecipe
 }
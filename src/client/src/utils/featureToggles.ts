@@ -0,0 +1,16 @@
+import { IFeatureToggle } from "../types/featureToggle";
+import { FEATURE_TOGGLES } from "./constants";
+
+const supports = (frameworks: string[] | undefined, framework: string): boolean =>
+  !frameworks || frameworks.includes(framework);
+
+/**
+ * The feature toggles offered for the selected frameworks. Selected toggles
+ * the frameworks don't support are left out of the generation and recipes.
+ */
+export const getAvailableFeatureToggles = (frontendFramework: string, backendFramework: string): IFeatureToggle[] =>
+  FEATURE_TOGGLES.filter(
+    toggle =>
+      supports(toggle.frontendFrameworks, frontendFramework) &&
+      supports(toggle.backendFrameworks, backendFramework)
+  );
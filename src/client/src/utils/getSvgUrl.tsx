@@ -1,6 +1,7 @@
 import * as React from "react";
 import Loadable from "react-loadable";
 import { WIZARD_CONTENT_INTERNAL_NAMES } from "./constants";
+import { withoutLanguageSuffix } from "./languages";
 
 import warning from "../assets/warning.svg";
 import cancel from "../assets/cancel.svg";
@@ -42,6 +43,22 @@ const List = Loadable({
   loader: () => import(/* webpackChunkName: "List" */  "./svgComponents/List"),
   loading:() => <div/>
 });
+const Form = Loadable({
+  loader: () => import(/* webpackChunkName: "Form" */  "./svgComponents/Form"),
+  loading:() => <div/>
+});
+const Dashboard = Loadable({
+  loader: () => import(/* webpackChunkName: "Dashboard" */  "./svgComponents/Dashboard"),
+  loading:() => <div/>
+});
+const Formscreenshot = Loadable({
+  loader: () => import(/* webpackChunkName: "Formscreenshot" */  "./svgComponents/Formscreenshot"),
+  loading:() => <div/>
+});
+const Dashboardscreenshot = Loadable({
+  loader: () => import(/* webpackChunkName: "Dashboardscreenshot" */  "./svgComponents/Dashboardscreenshot"),
+  loading:() => <div/>
+});
 //icons
 const ReactIcon = Loadable({
   loader: () => import(/* webpackChunkName: "ReactIcon" */  "./svgComponents/ReactIcon"),
@@ -55,6 +72,10 @@ const VueIcon = Loadable({
   loader: () => import(/* webpackChunkName: "VueIcon" */  "./svgComponents/VueIcon"),
   loading:() => <div/>
 });
+const SvelteIcon = Loadable({
+  loader: () => import(/* webpackChunkName: "SvelteIcon" */  "./svgComponents/SvelteIcon"),
+  loading:() => <div/>
+});
 const NodeIcon = Loadable({
   loader: () => import(/* webpackChunkName: "NodeIcon" */  "./svgComponents/NodeIcon"),
   loading:() => <div/>
@@ -67,6 +88,10 @@ const MoleculerIcon = Loadable({
   loader: () => import(/* webpackChunkName: "MoleculerIcon" */  "./svgComponents/MoleculerIcon"),
   loading:() => <div/>
 });
+const NestIcon = Loadable({
+  loader: () => import(/* webpackChunkName: "NestIcon" */  "./svgComponents/NestIcon"),
+  loading:() => <div/>
+});
 const AzureIcon = Loadable({
   loader: () => import(/* webpackChunkName: "AzureIcon" */  "./svgComponents/AzureIcon"),
   loading:() => <div/>
@@ -90,12 +115,18 @@ const SVG_MAPPINGS = {
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE]: (style: string) => (
     <VueIcon style={style}/>
   ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE]: (style: string) => (
+    <SvelteIcon style={style}/>
+  ),
   [WIZARD_CONTENT_INTERNAL_NAMES.NODE]: (style: string) => (
     <NodeIcon style={style}/>
   ),
   [WIZARD_CONTENT_INTERNAL_NAMES.MOLECULER]: (style: string) => (
     <MoleculerIcon style={style}/>
   ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.NEST]: (style: string) => (
+    <NestIcon style={style}/>
+  ),
   [WIZARD_CONTENT_INTERNAL_NAMES.FLASK]: (style: string) => (
     <FlaskIcon style={style}/>
   ),
@@ -149,6 +180,42 @@ const SVG_REACTCOMPONENT_MAPPINGS = {
   ),
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE_LIST]: (style: string) => (
     <List style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_MASTER_DETAIL]: (style: string) => (
+    <MasterDetail style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_BLANK_PAGE]: (style: string) => (
+    <BlankPage style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_CONTENT_GRID]: (style: string) => (
+    <ContentGrid style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_LIST]: (style: string) => (
+    <List style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.REACT_FORM]: (style: string) => (
+    <Form style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR_FORM]: (style: string) => (
+    <Form style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.VUE_FORM]: (style: string) => (
+    <Form style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_FORM]: (style: string) => (
+    <Form style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.REACT_DASHBOARD]: (style: string) => (
+    <Dashboard style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR_DASHBOARD]: (style: string) => (
+    <Dashboard style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.VUE_DASHBOARD]: (style: string) => (
+    <Dashboard style={style} />
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_DASHBOARD]: (style: string) => (
+    <Dashboard style={style} />
   )
 };
 
@@ -162,6 +229,9 @@ const SVG_SCREENSHOT_MAPPINGS = {
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE_MASTER_DETAIL]: (style: string) => (
     <Masterdetailscreenshot style={style}/>
   ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_MASTER_DETAIL]: (style: string) => (
+    <Masterdetailscreenshot style={style}/>
+  ),
   [WIZARD_CONTENT_INTERNAL_NAMES.REACT_CONTENT_GRID]: (style: string) => (
     <Gridscreenshot style={style}/>
   ),
@@ -171,6 +241,9 @@ const SVG_SCREENSHOT_MAPPINGS = {
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE_CONTENT_GRID]: (style: string) => (
     <Gridscreenshot style={style}/>
   ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_CONTENT_GRID]: (style: string) => (
+    <Gridscreenshot style={style}/>
+  ),
   [WIZARD_CONTENT_INTERNAL_NAMES.REACT_LIST]: (style: string) => (
     <Listscreenshot style={style}/>
   ),
@@ -180,6 +253,9 @@ const SVG_SCREENSHOT_MAPPINGS = {
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE_LIST]: (style: string) => (
     <Listscreenshot style={style}/>
   ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_LIST]: (style: string) => (
+    <Listscreenshot style={style}/>
+  ),
   [WIZARD_CONTENT_INTERNAL_NAMES.REACT_BLANK_PAGE]: (style: string) => (
     <Blankscreenshot style={style}/>
   ),
@@ -188,6 +264,33 @@ const SVG_SCREENSHOT_MAPPINGS = {
   ),
   [WIZARD_CONTENT_INTERNAL_NAMES.VUE_BLANK_PAGE]: (style: string) => (
     <Blankscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_BLANK_PAGE]: (style: string) => (
+    <Blankscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.REACT_FORM]: (style: string) => (
+    <Formscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR_FORM]: (style: string) => (
+    <Formscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.VUE_FORM]: (style: string) => (
+    <Formscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_FORM]: (style: string) => (
+    <Formscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.REACT_DASHBOARD]: (style: string) => (
+    <Dashboardscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR_DASHBOARD]: (style: string) => (
+    <Dashboardscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.VUE_DASHBOARD]: (style: string) => (
+    <Dashboardscreenshot style={style}/>
+  ),
+  [WIZARD_CONTENT_INTERNAL_NAMES.SVELTE_DASHBOARD]: (style: string) => (
+    <Dashboardscreenshot style={style}/>
   )
 };
 
@@ -196,14 +299,16 @@ export const withLocalPath = (absolutePath: string): string => {
 };
 
 export const getScreenShot = (internalName: string, style?: string) => {
-  if (SVG_SCREENSHOT_MAPPINGS[internalName] !== undefined) {
-    return SVG_SCREENSHOT_MAPPINGS[internalName](style || "");
+  const identity = internalName && withoutLanguageSuffix(internalName);
+  if (SVG_SCREENSHOT_MAPPINGS[identity] !== undefined) {
+    return SVG_SCREENSHOT_MAPPINGS[identity](style || "");
   }
 };
 
 export const getSvg = (internalName: string, style?: string) => {
-  if (SVG_REACTCOMPONENT_MAPPINGS[internalName]) {
-    return SVG_REACTCOMPONENT_MAPPINGS[internalName](style || "");
+  const identity = internalName && withoutLanguageSuffix(internalName);
+  if (SVG_REACTCOMPONENT_MAPPINGS[identity]) {
+    return SVG_REACTCOMPONENT_MAPPINGS[identity](style || "");
   }
   if (SVG_MAPPINGS[internalName]) {
     return SVG_MAPPINGS[internalName](style || "");
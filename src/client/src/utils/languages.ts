@@ -0,0 +1,32 @@
+import { IOption } from "../types/option";
+import { LANGUAGES, TYPESCRIPT_IDENTITY_SUFFIX } from "./constants";
+
+const ANY_LANGUAGE = "Any";
+
+/**
+ * The languages the templates of a frontend framework are written in, left
+ * empty when they are not tied to one.
+ */
+export const getFrameworkLanguages = (framework?: IOption): string[] =>
+  ((framework && framework.languages) || []).filter(language => language !== ANY_LANGUAGE);
+
+/**
+ * The language a project is generated in: the selected one when the frontend
+ * framework offers it, otherwise the first one its templates are written in.
+ */
+export const getProjectLanguage = (frameworkLanguages: string[], language: string): string | undefined =>
+  frameworkLanguages.includes(language) ? language : frameworkLanguages[0];
+
+export const withoutLanguageSuffix = (identity: string): string =>
+  identity.endsWith(TYPESCRIPT_IDENTITY_SUFFIX)
+    ? identity.slice(0, -TYPESCRIPT_IDENTITY_SUFFIX.length)
+    : identity;
+
+/**
+ * Identity of the template in the selected language. Only frameworks offering
+ * a choice of languages have a TypeScript flavour of their templates.
+ */
+export const withLanguageSuffix = (identity: string, frameworkLanguages: string[], language: string): string =>
+  frameworkLanguages.length > 1 && getProjectLanguage(frameworkLanguages, language) === LANGUAGES.TYPESCRIPT
+    ? `${withoutLanguageSuffix(identity)}${TYPESCRIPT_IDENTITY_SUFFIX}`
+    : withoutLanguageSuffix(identity);
@@ -21,6 +21,7 @@ function getMetadataFromJson(
     .map<IMetadata>(val => ({
       author: val.author,
       displayName: val.displayName,
+      languages: val.languages || [],
       licenses: val.licenses,
       longDescription: val.description,
       name: val.name,
@@ -50,5 +51,6 @@ function getOptionalFromMetadata(items: IMetadata[]): IOption[] {
     latestVersion: val.tags!.latestVersion,
     checkVersionPackageName: val.tags!.checkVersionPackageName,
     checkVersionPackageSource: val.tags!.checkVersionPackageSource,
+    languages: val.languages,
   }));
 }
@@ -0,0 +1,12 @@
+import * as React from "react";
+import { ReactComponent as Dashboard } from "../../assets/dashboard.svg";
+import svgStyles from "../svgStyles.module.css";
+import classnames from "classnames";
+
+interface IProps {
+  style: string;
+}
+
+export default (props: IProps) => {
+  return (<Dashboard className={classnames(props.style, svgStyles.icon)}/>);
+}
\ No newline at end of file
@@ -0,0 +1,11 @@
+import * as React from "react";
+import { ReactComponent as Dashboardscreenshot } from "../../assets/dashboardscreenshot.svg";
+import classnames from "classnames";
+
+interface IProps {
+  style: string;
+}
+
+export default (props: IProps) => {
+  return (<Dashboardscreenshot className={classnames(props.style)}/>);
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import * as React from "react";
+import { ReactComponent as Form } from "../../assets/form.svg";
+import svgStyles from "../svgStyles.module.css";
+import classnames from "classnames";
+
+interface IProps {
+  style: string;
+}
+
+export default (props: IProps) => {
+  return (<Form className={classnames(props.style, svgStyles.icon)}/>);
+}
\ No newline at end of file
@@ -0,0 +1,11 @@
+import * as React from "react";
+import { ReactComponent as NestIcon } from "../../assets/nest.svg";
+import classnames from "classnames";
+
+interface IProps {
+  style: string;
+}
+
+export default (props: IProps) => {
+  return (<NestIcon className={classnames(props.style)}/>);
+}
\ No newline at end of file
@@ -29,5 +29,13 @@ export const validationMessages = defineMessages({
   nameContainLettersNumbersDashes: {
     id: "validations.name.nameContainLettersNumbersDashes",
     defaultMessage: "Name may only contain letters, numbers or dashes"
+  },
+  routePathCharacters: {
+    id: "validations.routePath.routePathCharacters",
+    defaultMessage: "Route may only contain letters, numbers, - . _ ~ and single slashes"
+  },
+  duplicateRoutePath: {
+    id: "validations.routePath.duplicateRoutePath",
+    defaultMessage: "Route has to be unique"
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,49 @@
+import { getDefaultRoutePath, getHomePage, validateRoutePath } from "./routePath";
+import { ISelected } from "../../../types/selected";
+
+const makePage = (title: string, routePath?: string, isHome?: boolean): ISelected => ({
+  title,
+  internalName: `wts.Page.React.${title}`,
+  routePath,
+  isHome
+});
+
+describe("validate route path", () => {
+  it("accepts URL-safe routes and an empty route", () => {
+    const page = makePage("Grid");
+    const pages = [makePage("Blank"), page];
+    expect(validateRoutePath("products/grid-1", page, pages, "React").isValid).toBeTruthy();
+    expect(validateRoutePath("/products", page, pages, "React").isValid).toBeTruthy();
+    expect(validateRoutePath("", page, pages, "React").isValid).toBeTruthy();
+  });
+
+  it("rejects characters that are not URL-safe", () => {
+    const page = makePage("Grid");
+    const pages = [makePage("Blank"), page];
+    expect(validateRoutePath("my grid", page, pages, "React").isValid).toBeFalsy();
+    expect(validateRoutePath("a//b", page, pages, "React").isValid).toBeFalsy();
+    expect(validateRoutePath("a?b", page, pages, "React").isValid).toBeFalsy();
+  });
+
+  it("rejects routes another page ends up on, but not the home page's", () => {
+    const page = makePage("Grid");
+    const pages = [makePage("Blank"), makePage("List"), page];
+    expect(validateRoutePath("list", page, pages, "React").isValid).toBeFalsy();
+    expect(validateRoutePath("blank", page, pages, "React").isValid).toBeTruthy();
+    expect(validateRoutePath("master-detail", page, [makePage("MasterDetail"), makePage("Blank", "", true), page], "Angular").isValid).toBeFalsy();
+  });
+});
+
+describe("home page", () => {
+  it("defaults to the first page", () => {
+    const pages = [makePage("Blank"), makePage("Grid")];
+    expect(getHomePage(pages)).toBe(pages[0]);
+    pages[1].isHome = true;
+    expect(getHomePage(pages)).toBe(pages[1]);
+  });
+
+  it("routes pages by name, in kebab case for Angular", () => {
+    expect(getDefaultRoutePath("React", "MasterDetail")).toBe("MasterDetail");
+    expect(getDefaultRoutePath("Angular", "MasterDetail")).toBe("master-detail");
+  });
+});
@@ -0,0 +1,52 @@
+import { IValidation } from '../validations';
+import { validationMessages } from '../messages';
+import { ISelected } from "../../../types/selected";
+import { WIZARD_CONTENT_INTERNAL_NAMES } from "../../constants";
+
+const ROUTE_PATH_PATTERN = /^[A-Za-z0-9\-._~]+(\/[A-Za-z0-9\-._~]+)*$/;
+
+export const normalizeRoutePath = (routePath: string) => routePath.trim().replace(/^\/+/, "");
+
+/**
+ * The route the templates give a page that is not the home page: its name,
+ * in kebab case for Angular.
+ */
+export const getDefaultRoutePath = (frontendFramework: string, pageTitle: string) =>
+  frontendFramework === WIZARD_CONTENT_INTERNAL_NAMES.ANGULAR
+    ? pageTitle.replace(/([a-z0-9])([A-Z])/g, "$1-$2").replace(/[\s_]+/g, "-").toLowerCase()
+    : pageTitle;
+
+/**
+ * The page marked as home, or the first page when none is.
+ */
+export const getHomePage = (selectedPages: Array<ISelected>) =>
+  selectedPages.find(page => page.isHome === true) || selectedPages[0];
+
+export const getRoutePath = (page: ISelected, frontendFramework: string) =>
+  page.routePath && normalizeRoutePath(page.routePath) !== ""
+    ? normalizeRoutePath(page.routePath)
+    : getDefaultRoutePath(frontendFramework, page.title);
+
+/**
+ * An empty route path keeps the default route. Other pages are compared by
+ * the route they end up on, so a custom route can't take a default one.
+ */
+export const validateRoutePath = (routePath: string,
+  page: ISelected,
+  selectedPages: Array<ISelected>,
+  frontendFramework: string) => {
+
+  let validate: IValidation = {isValid:true, error:validationMessages.default};
+  const normalized = normalizeRoutePath(routePath);
+  const homePage = getHomePage(selectedPages);
+  const effectiveRoute = normalized !== "" ? normalized : getDefaultRoutePath(frontendFramework, page.title);
+
+  if (normalized !== "" && !ROUTE_PATH_PATTERN.test(normalized)) {
+    validate = {isValid:false, error:validationMessages.routePathCharacters};
+  } else if (selectedPages.filter(selPage => selPage !== page && selPage !== homePage &&
+    getRoutePath(selPage, frontendFramework).toLowerCase() === effectiveRoute.toLowerCase()).length > 0) {
+    validate = {isValid:false, error:validationMessages.duplicateRoutePath};
+  }
+
+  return validate;
+};
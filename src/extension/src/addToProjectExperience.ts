@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { WizardServant, IPayloadResponse } from "./wizardServant";
+import { ExtensionCommand, CONSTANTS } from "./constants";
+import { CoreTemplateStudio } from "./coreTemplateStudio";
+import {
+  applyProjectChanges,
+  detectGeneratedProject,
+  IExistingProject,
+  IProjectFileChange,
+  ITemplateItem,
+  planProjectChanges
+} from "./existingProject";
+import { IProjectManifest, readProjectManifest, recordAddedItems } from "./projectManifest";
+import { Logger } from "./utils/logger";
+
+/**
+ * Adds pages and features to a project generated earlier. The project is
+ * generated twice into temporary folders, once with its existing items and once
+ * with the new ones, and the difference is merged into the project files after
+ * the user reviews it.
+ */
+export class AddToProjectExperience extends WizardServant {
+  private existingProject: IExistingProject | undefined;
+  private pendingChanges: IProjectFileChange[] = [];
+  private pendingItems: { pages: ITemplateItem[]; services: ITemplateItem[] } = {
+    pages: [],
+    services: []
+  };
+  clientCommandMap: Map<
+    ExtensionCommand,
+    (message: any) => Promise<IPayloadResponse>
+  > = new Map([
+    [ExtensionCommand.GetExistingProject, this.getExistingProject.bind(this)],
+    [ExtensionCommand.GetAddToProjectChanges, this.getChanges.bind(this)],
+    [ExtensionCommand.ApplyAddToProjectChanges, this.applyChanges.bind(this)]
+  ]);
+
+  constructor(private projectPath?: string) {
+    super();
+  }
+
+  /**
+   * Points the wizard at another project, forgetting the one detected before.
+   */
+  public setProjectPath(projectPath: string): void {
+    this.projectPath = projectPath;
+    this.existingProject = undefined;
+    this.pendingChanges = [];
+    this.pendingItems = { pages: [], services: [] };
+  }
+
+  public static async selectProjectFolder(): Promise<string | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const folders = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: workspaceFolders ? workspaceFolders[0].uri : undefined,
+      openLabel: CONSTANTS.INFO.ADD_TO_PROJECT_OPEN_LABEL
+    });
+    return folders ? folders[0].fsPath : undefined;
+  }
+
+  private async getExistingProject(message: any): Promise<IPayloadResponse> {
+    if (this.projectPath && !this.existingProject) {
+      this.existingProject = await detectGeneratedProject(
+        this.projectPath,
+        CoreTemplateStudio.GetExistingInstance().getTemplateSourcePaths()
+      );
+      if (!this.existingProject) {
+        vscode.window.showErrorMessage(
+          CONSTANTS.ERRORS.PROJECT_NOT_GENERATED_BY_WIZARD(this.projectPath)
+        );
+        this.projectPath = undefined;
+      }
+    }
+    return {
+      payload: { scope: message.payload.scope, project: this.existingProject }
+    };
+  }
+
+  private async getChanges(message: any): Promise<IPayloadResponse> {
+    const existingProject = this.existingProject!;
+    const newPages: ITemplateItem[] = message.payload.pages;
+    const newServices: ITemplateItem[] = message.payload.services;
+    const baselineFolder = await fse.mkdtemp(
+      path.join(os.tmpdir(), CONSTANTS.ADD_TO_PROJECT.TEMP_FOLDER_PREFIX)
+    );
+    const targetFolder = await fse.mkdtemp(
+      path.join(os.tmpdir(), CONSTANTS.ADD_TO_PROJECT.TEMP_FOLDER_PREFIX)
+    );
+
+    try {
+      const manifest = await readProjectManifest(
+        path.join(existingProject.path, existingProject.projectName)
+      );
+      const baselinePath = await AddToProjectExperience.generateProject(
+        existingProject,
+        baselineFolder,
+        manifest
+      );
+      const targetPath = await AddToProjectExperience.generateProject(
+        {
+          ...existingProject,
+          pages: existingProject.pages.concat(newPages),
+          services: existingProject.services.concat(newServices)
+        },
+        targetFolder,
+        manifest
+      );
+      this.pendingChanges = await planProjectChanges(
+        path.join(existingProject.path, existingProject.projectName),
+        baselinePath,
+        targetPath
+      );
+      this.pendingItems = { pages: newPages, services: newServices };
+      return {
+        payload: {
+          scope: message.payload.scope,
+          changes: this.pendingChanges.map(change => ({
+            path: change.path,
+            status: change.status,
+            isBinary: change.isBinary,
+            diff: change.diff
+          }))
+        }
+      };
+    } catch (error) {
+      Logger.appendLog("EXTENSION", "error", `Error adding to project: ${error}`);
+      return { payload: { scope: message.payload.scope, error: error.message } };
+    } finally {
+      await fse.remove(baselineFolder);
+      await fse.remove(targetFolder);
+    }
+  }
+
+  private async applyChanges(message: any): Promise<IPayloadResponse> {
+    const existingProject = this.existingProject!;
+    const projectPath = path.join(existingProject.path, existingProject.projectName);
+    const selectedPaths: string[] = message.payload.paths;
+    const changes = this.pendingChanges.filter(
+      change => selectedPaths.indexOf(change.path) !== -1
+    );
+
+    await applyProjectChanges(projectPath, changes);
+    await recordAddedItems(
+      projectPath,
+      this.pendingItems.pages,
+      this.pendingItems.services,
+      changes.map(change => ({ path: change.path, content: change.templateOutput }))
+    );
+    this.pendingChanges = [];
+    this.pendingItems = { pages: [], services: [] };
+    // Later additions start from the project as it is now
+    this.existingProject = await detectGeneratedProject(
+      projectPath,
+      CoreTemplateStudio.GetExistingInstance().getTemplateSourcePaths()
+    );
+    vscode.window.showInformationMessage(
+      CONSTANTS.INFO.ADD_TO_PROJECT_CHANGES_APPLIED(changes.length, projectPath)
+    );
+    return {
+      payload: {
+        scope: message.payload.scope,
+        appliedPaths: changes.map(change => change.path),
+        project: this.existingProject
+      }
+    };
+  }
+
+  /**
+   * Generates the project again in its language, with the home page and page
+   * routes recorded in its manifest when it has one.
+   */
+  private static async generateProject(
+    project: IExistingProject,
+    outputFolder: string,
+    manifest: IProjectManifest | undefined
+  ): Promise<string> {
+    const recordedPages = manifest ? manifest.pages : [];
+    const pages = project.pages.map(page => {
+      const recordedPage = recordedPages.find(recorded => recorded.name === page.name);
+      return recordedPage && recordedPage.routePath
+        ? { ...page, routePath: recordedPage.routePath }
+        : page;
+    });
+    const result = await CoreTemplateStudio.GetExistingInstance().generate({
+      payload: {
+        projectName: project.projectName,
+        path: outputFolder,
+        projectType: project.projectType,
+        frontendFramework: project.frontendFramework,
+        backendFramework: project.backendFramework,
+        language: project.language,
+        homeName: manifest && manifest.homeName,
+        pages,
+        services: project.services
+      },
+      liveMessageHandler: (): void => undefined
+    });
+    return (result && result.generationPath) || path.join(outputFolder, project.projectName);
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from "fs";
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as archiver from "archiver";
+import { CONSTANTS } from "../../constants";
+import { IGitignore, isGitignored, parseGitignore } from "../../utils/gitignore";
+
+const GITIGNORE_FILE = ".gitignore";
+
+const readGitignore = async (
+  projectPath: string,
+  folder: string
+): Promise<IGitignore | undefined> => {
+  const gitignorePath = path.join(projectPath, folder, GITIGNORE_FILE);
+  return (await fse.pathExists(gitignorePath))
+    ? parseGitignore(await fse.readFile(gitignorePath, "utf8"), folder)
+    : undefined;
+};
+
+/**
+ * Lists the files of the deploy subpath of a project, relative to that
+ * subpath. Files ignored by the .gitignore files of the project are left out,
+ * except for the build output of the frontend, which the generated projects
+ * ignore but the App Service needs.
+ */
+export async function listDeploymentFiles(
+  projectPath: string,
+  deploySubpath: string
+): Promise<string[]> {
+  const subpath = deploySubpath.split(/[\\/]/).filter(segment => segment !== "").join("/");
+  const gitignores: IGitignore[] = [];
+  const segments = subpath === "" ? [] : subpath.split("/");
+  for (let depth = 0; depth <= segments.length; depth++) {
+    const gitignore = await readGitignore(projectPath, segments.slice(0, depth).join("/"));
+    if (gitignore) {
+      gitignores.push(gitignore);
+    }
+  }
+  const buildFolder = [subpath, CONSTANTS.ZIP_DEPLOY.BUILD_FOLDER]
+    .filter(segment => segment !== "")
+    .join("/");
+
+  const files: string[] = [];
+  const walk = async (folder: string, folderGitignores: IGitignore[]): Promise<void> => {
+    const entries = await fse.readdir(path.join(projectPath, folder));
+    for (const entry of entries.sort()) {
+      const relativePath = folder === "" ? entry : `${folder}/${entry}`;
+      const isDirectory = (await fse.stat(path.join(projectPath, relativePath))).isDirectory();
+      const isBuildOutput =
+        relativePath === buildFolder || relativePath.startsWith(`${buildFolder}/`);
+      if (
+        CONSTANTS.ZIP_DEPLOY.ALWAYS_EXCLUDED.indexOf(entry) !== -1 ||
+        (!isBuildOutput && isGitignored(folderGitignores, relativePath, isDirectory))
+      ) {
+        continue;
+      }
+      if (isDirectory) {
+        const gitignore = await readGitignore(projectPath, relativePath);
+        await walk(relativePath, gitignore ? folderGitignores.concat(gitignore) : folderGitignores);
+      } else {
+        files.push(subpath === "" ? relativePath : relativePath.slice(subpath.length + 1));
+      }
+    }
+  };
+  await walk(subpath, gitignores);
+  return files;
+}
+
+/**
+ * Writes the zip that is deployed to the App Service and returns the files it
+ * holds.
+ */
+export async function createDeploymentZip(
+  projectPath: string,
+  deploySubpath: string,
+  zipPath: string
+): Promise<string[]> {
+  const files = await listDeploymentFiles(projectPath, deploySubpath);
+  const sourcePath = path.join(projectPath, deploySubpath);
+  await new Promise<void>((resolve, reject) => {
+    const output = fs.createWriteStream(zipPath);
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    output.on("close", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+    archive.pipe(output);
+    files.forEach(file => archive.file(path.join(sourcePath, file), { name: file }));
+    archive.finalize();
+  });
+  return files;
+}
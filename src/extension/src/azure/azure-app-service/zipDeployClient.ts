@@ -0,0 +1,159 @@
+import * as fse from "fs-extra";
+import * as http from "http";
+import * as https from "https";
+import { URL } from "url";
+import { CONSTANTS } from "../../constants";
+import { DeploymentCancelledError, DeploymentError } from "../../errors";
+import { ICancellationSignal } from "../../deployPipeline";
+
+export interface IHttpResponse {
+  status: number;
+  headers: { [name: string]: string | string[] | undefined };
+  body: string;
+}
+
+/**
+ * HTTP layer of the zip deploy client, replaced in tests by one that talks to
+ * a local fake Kudu server.
+ */
+export interface IHttpClient {
+  request(
+    method: string,
+    url: string,
+    headers: { [name: string]: string },
+    body?: Buffer
+  ): Promise<IHttpResponse>;
+}
+
+/**
+ * Status codes of the Kudu deployments API.
+ */
+export enum KuduDeploymentStatus {
+  Pending = 0,
+  Building = 1,
+  Deploying = 2,
+  Failed = 3,
+  Success = 4
+}
+
+export const nodeHttpClient: IHttpClient = {
+  request(method, url, headers, body): Promise<IHttpResponse> {
+    const target = new URL(url);
+    const transport = target.protocol === "http:" ? http : https;
+    return new Promise((resolve, reject) => {
+      const request = transport.request(
+        {
+          protocol: target.protocol,
+          hostname: target.hostname,
+          port: target.port,
+          path: `${target.pathname}${target.search}`,
+          method,
+          headers: body ? { ...headers, "Content-Length": String(body.length) } : headers
+        },
+        response => {
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () =>
+            resolve({
+              status: response.statusCode || 0,
+              headers: response.headers,
+              body: Buffer.concat(chunks).toString()
+            })
+          );
+          response.on("error", reject);
+        }
+      );
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+};
+
+const delay = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Pushes a zip to the Kudu zip deploy API of an App Service or Function App
+ * and waits for the deployment to finish.
+ */
+export class ZipDeployClient {
+  constructor(
+    private scmUrl: string,
+    private accessToken: string,
+    private httpClient: IHttpClient = nodeHttpClient,
+    private pollInterval: number = CONSTANTS.ZIP_DEPLOY.POLL_INTERVAL
+  ) {}
+
+  public static forApp(appName: string, accessToken: string): ZipDeployClient {
+    return new ZipDeployClient(CONSTANTS.ZIP_DEPLOY.SCM_URL(appName), accessToken);
+  }
+
+  /**
+   * Uploads the zip and polls the deployment until Kudu reports it complete.
+   * onStatus receives the status text of each poll. Cancelling stops waiting
+   * for the deployment, which goes on in the App Service.
+   */
+  public async deploy(
+    zipPath: string,
+    onStatus: (statusText: string) => void = (): void => undefined,
+    cancellation?: ICancellationSignal
+  ): Promise<void> {
+    const uploadUrl = `${this.scmUrl}${CONSTANTS.ZIP_DEPLOY.ZIP_DEPLOY_PATH}`;
+    const response = await this.httpClient.request(
+      "POST",
+      uploadUrl,
+      { ...this.authorizationHeaders(), "Content-Type": "application/zip" },
+      await fse.readFile(zipPath)
+    );
+    if (response.status !== 200 && response.status !== 202) {
+      throw new DeploymentError(
+        CONSTANTS.ERRORS.ZIP_DEPLOY_REQUEST_FAILED(uploadUrl, String(response.status))
+      );
+    }
+    const location = response.headers.location;
+    const statusUrl =
+      typeof location === "string"
+        ? new URL(location, this.scmUrl).toString()
+        : `${this.scmUrl}${CONSTANTS.ZIP_DEPLOY.LATEST_DEPLOYMENT_PATH}`;
+    await this.waitForDeployment(statusUrl, onStatus, cancellation);
+  }
+
+  private async waitForDeployment(
+    statusUrl: string,
+    onStatus: (statusText: string) => void,
+    cancellation?: ICancellationSignal
+  ): Promise<void> {
+    for (let attempt = 0; attempt < CONSTANTS.ZIP_DEPLOY.MAX_POLL_ATTEMPTS; attempt++) {
+      if (cancellation && cancellation.isCancellationRequested) {
+        throw new DeploymentCancelledError(CONSTANTS.ERRORS.DEPLOY_CANCELLED);
+      }
+      const response = await this.httpClient.request("GET", statusUrl, this.authorizationHeaders());
+      // Kudu answers 202 while the deployment is running and 200 once it completed
+      if (response.status === 200 || response.status === 202) {
+        const deployment = JSON.parse(response.body);
+        if (deployment.status_text || deployment.progress) {
+          onStatus(deployment.status_text || deployment.progress);
+        }
+        if (deployment.complete) {
+          if (deployment.status !== KuduDeploymentStatus.Success) {
+            throw new DeploymentError(
+              CONSTANTS.ERRORS.ZIP_DEPLOY_FAILED(deployment.status_text || String(deployment.status))
+            );
+          }
+          return;
+        }
+        // The deployment may not be listed yet right after the upload
+      } else if (response.status !== 404) {
+        throw new DeploymentError(
+          CONSTANTS.ERRORS.ZIP_DEPLOY_REQUEST_FAILED(statusUrl, String(response.status))
+        );
+      }
+      await delay(this.pollInterval);
+    }
+    throw new DeploymentError(CONSTANTS.ERRORS.ZIP_DEPLOY_TIMEOUT);
+  }
+
+  private authorizationHeaders(): { [name: string]: string } {
+    return { Authorization: `Bearer ${this.accessToken}`, Accept: "*/*" };
+  }
+}
@@ -1,5 +1,8 @@
 import { CosmosDBManagementClient } from "azure-arm-cosmosdb";
-import { DatabaseAccount } from "azure-arm-cosmosdb/lib/models";
+import {
+  DatabaseAccount,
+  DatabaseAccountConnectionString
+} from "azure-arm-cosmosdb/lib/models";
 import { ServiceClientCredentials } from "ms-rest";
 import { SubscriptionItem, ResourceGroupItem } from "../azure-auth/azureAuth";
 import * as path from "path";
@@ -87,6 +90,8 @@ interface APIdefinition {
   readonly kind: string;
   readonly defaultExperience: string;
   readonly capabilities: any[];
+  /* Name of the API in the descriptions of the account's connection strings */
+  readonly connectionStringKind: string;
 }
 
 export class CosmosDBDeploy {
@@ -99,7 +104,8 @@ export class CosmosDBDeploy {
       {
         kind: "MongoDB",
         defaultExperience: "Azure Cosmos DB for MongoDB API",
-        capabilities: []
+        capabilities: [],
+        connectionStringKind: "MongoDB"
       }
     ],
     [
@@ -107,7 +113,8 @@ export class CosmosDBDeploy {
       {
         kind: "GlobalDocumentDB",
         defaultExperience: "Gremlin (graph)",
-        capabilities: [{ name: "EnableGremlin" }]
+        capabilities: [{ name: "EnableGremlin" }],
+        connectionStringKind: "Gremlin"
       }
     ],
     [
@@ -115,7 +122,8 @@ export class CosmosDBDeploy {
       {
         kind: "GlobalDocumentDB",
         defaultExperience: "Azure Table",
-        capabilities: [{ name: "EnableTable" }]
+        capabilities: [{ name: "EnableTable" }],
+        connectionStringKind: "Table"
       }
     ],
     [
@@ -123,7 +131,8 @@ export class CosmosDBDeploy {
       {
         kind: "GlobalDocumentDB",
         defaultExperience: "Core (SQL)",
-        capabilities: []
+        capabilities: [],
+        connectionStringKind: "SQL"
       }
     ],
     [
@@ -131,7 +140,8 @@ export class CosmosDBDeploy {
       {
         kind: "GlobalDocumentDB",
         defaultExperience: "Cassandra",
-        capabilities: [{ name: "EnableCassandra" }]
+        capabilities: [{ name: "EnableCassandra" }],
+        connectionStringKind: "Cassandra"
       }
     ]
   ]);
@@ -263,8 +273,9 @@ export class CosmosDBDeploy {
       const connectionString = await this.getConnectionString(
         this.SubscriptionItemCosmosClient,
         resourceGroup,
-        databaseName
-      );      
+        databaseName,
+        experience
+      );
 
     /*
      * Returning a tuple which includes databaseAccount from callback and its connection string
@@ -358,21 +369,27 @@ export class CosmosDBDeploy {
    * This is what the user will use to connect to the database.
    *
    * Overload on getConnectionString; one for providing creating the Cosmos Client
+   *
+   * Accounts can have connection strings for more than one API, the one of the
+   * given API is returned when there is one.
    */
   public async getConnectionString(
     userSubscriptionItem: SubscriptionItem,
     resourceGroup: string,
-    dataBaseName: string
+    dataBaseName: string,
+    api?: API
   ): Promise<string>;
   public async getConnectionString(
     cosmosDBManagementClient: CosmosDBManagementClient,
     resourceGroup: string,
-    dataBaseName: string
+    dataBaseName: string,
+    api?: API
   ): Promise<string>;
   public async getConnectionString(
     cosmosClientOrSubscriptionItem: CosmosDBManagementClient | SubscriptionItem,
     resourceGroup: string,
-    dataBaseName: string
+    dataBaseName: string,
+    api?: API
   ): Promise<string> {
     let cosmosClient: CosmosDBManagementClient;
     if (cosmosClientOrSubscriptionItem instanceof CosmosDBManagementClient) {
@@ -391,7 +408,19 @@ export class CosmosDBDeploy {
       resourceGroup,
       dataBaseName
     );
-    return result!.connectionStrings![0].connectionString!;
+    const connectionStrings = result!.connectionStrings!;
+    if (api === undefined) {
+      return connectionStrings[0].connectionString!;
+    }
+
+    const { connectionStringKind } = this.APIdefinitionMap.get(api)!;
+    const apiConnectionString =
+      connectionStrings.find((item: DatabaseAccountConnectionString) =>
+        (item.description || "").toLowerCase().includes(connectionStringKind.toLowerCase())
+      ) || connectionStrings[0];
+    return api === "Graph" || api === "Cassandra"
+      ? ConnectionString.withApiKind(apiConnectionString.connectionString!, connectionStringKind)
+      : apiConnectionString.connectionString!;
   }
 
   public static updateConnectionStringInEnvFile(
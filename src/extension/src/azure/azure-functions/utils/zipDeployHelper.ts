@@ -1,10 +1,14 @@
 import { ServiceClientCredentials } from "ms-rest";
 import * as path from "path";
-import * as fs from "fs";
-import * as request from "request";
+import { ZipDeployClient } from "../../azure-app-service/zipDeployClient";
 
 export namespace ZipDeployHelper {
-  const FUNCTION_ZIP_DEPLOY_DOMAIN = ".scm.azurewebsites.net/api/zipdeploy";
+  export async function getAccessToken(
+    credentials: ServiceClientCredentials
+  ): Promise<string> {
+    const tokenCache = await (credentials as any).tokenCache;
+    return tokenCache.target._entries[0].accessToken;
+  }
 
   export async function zipDeploy(
     credentials: ServiceClientCredentials,
@@ -12,27 +16,7 @@ export namespace ZipDeployHelper {
     appName: string
   ): Promise<void> {
     const zipPath = path.join(appPath, "tmp", "out.zip");
-
-    const zipRequestUrl = `https://${appName.toLowerCase()}${FUNCTION_ZIP_DEPLOY_DOMAIN}`;
-
-    const tokenCache = await (credentials as any).tokenCache;
-
-    const options = {
-      url: zipRequestUrl,
-      headers: {
-        Authorization: "Bearer " + tokenCache.target._entries[0].accessToken,
-        Accept: "*/*"
-      }
-    };
-
-    await fs.createReadStream(zipPath).pipe(
-      request.post(options, (uploadZipError: any, uploadZipResponse: any) => {
-        if (uploadZipError) {
-          throw uploadZipError;
-        } else {
-          return uploadZipResponse;
-        }
-      })
-    );
+    const client = ZipDeployClient.forApp(appName, await getAccessToken(credentials));
+    await client.deploy(zipPath);
   }
 }
@@ -2,24 +2,76 @@ import { CONSTANTS } from "../../constants";
 const Url = require("url-parse");
 
 export namespace ConnectionString {
+  // Keys are lower cased, values keep their case and any "=" in them
+  function getSettings(connectionString: string): { [key: string]: string } {
+    const settings: { [key: string]: string } = {};
+    connectionString
+      .split(";")
+      .filter(setting => setting.indexOf("=") > 0)
+      .forEach(setting => {
+        const separatorIndex = setting.indexOf("=");
+        settings[setting.substr(0, separatorIndex).trim().toLowerCase()] = setting.substr(separatorIndex + 1);
+      });
+    return settings;
+  }
+
+  // https://<account>.documents.azure.com:443/ to <account>.<api>.cosmos.azure.com
+  function getAccountHost(accountEndpoint: string, api: string): string {
+    const [account, ...domain] = Url(accountEndpoint).hostname.split(".");
+    return [account, api, "cosmos", ...domain.slice(1)].join(".");
+  }
+
+  /*
+   * Turns a Cosmos connection string into the environment variables the
+   * generated back-end reads. Mongo connection strings are URLs, the other
+   * APIs use "<key>=<value>;" pairs and Gremlin and Cassandra tell their
+   * API with the ApiKind key.
+   */
   export function parseConnectionString(connectionString: string): string {
     if (
       connectionString
         .toLowerCase()
-        .startsWith(CONSTANTS.SQL_CONNECTION_STRING_PREFIX)
+        .startsWith(CONSTANTS.MONGO_CONNECTION_STRING_PREFIX)
     ) {
-      const [origin, primaryKey] = connectionString
-        .split(";")
-        .map(str => str.substr(str.indexOf("=") + 1));
-
-      return CONSTANTS.CONNECTION_STRING_SQL(origin, primaryKey);
-    } else {
       const cosmosConnectionString = Url(connectionString);
       return CONSTANTS.CONNECTION_STRING_MONGO(
         cosmosConnectionString.username,
         cosmosConnectionString.password,
-        cosmosConnectionString.origin
+        // Newer url-parse versions give "null" origins for mongodb URLs
+        `${cosmosConnectionString.protocol}//${cosmosConnectionString.host}`
+      );
+    }
+
+    const settings = getSettings(connectionString);
+    const apiKind = (settings.apikind || "").toLowerCase();
+    if (settings.tableendpoint) {
+      return CONSTANTS.CONNECTION_STRING_TABLE(connectionString);
+    } else if (apiKind === CONSTANTS.COSMOS_API_KIND.GREMLIN.toLowerCase()) {
+      return CONSTANTS.CONNECTION_STRING_GREMLIN(
+        `wss://${getAccountHost(settings.accountendpoint, "gremlin")}:443/`,
+        settings.accountkey
+      );
+    } else if (settings.hostname || apiKind === CONSTANTS.COSMOS_API_KIND.CASSANDRA.toLowerCase()) {
+      const contactPoint = settings.hostname || getAccountHost(settings.accountendpoint, "cassandra");
+      return CONSTANTS.CONNECTION_STRING_CASSANDRA(
+        contactPoint,
+        settings.username || contactPoint.split(".")[0],
+        settings.password || settings.accountkey
       );
     }
+    return CONSTANTS.CONNECTION_STRING_SQL(settings.accountendpoint, settings.accountkey);
+  }
+
+  /*
+   * Gremlin and Cassandra accounts can return the connection string of the
+   * SQL endpoint, the ApiKind keeps them apart from SQL accounts.
+   */
+  export function withApiKind(connectionString: string, apiKind: string): string {
+    const settings = getSettings(connectionString);
+    if (!settings.accountendpoint || settings.apikind) {
+      return connectionString;
+    }
+    const separator = connectionString.endsWith(";") ? "" : ";";
+    return `${connectionString}${separator}ApiKind=${apiKind};`;
   }
 }
@@ -2,6 +2,12 @@ import * as fse from "fs-extra";
 import * as path from "path";
 import { CONSTANTS } from "../../constants";
 
+export interface IDeployDefault {
+  subscriptionId: string;
+  appName: string;
+  deploySubpath: string;
+}
+
 export namespace Settings {
   export async function setDeployDefault(id: string, fsPath: string): Promise<void> {
     const dotVSCodeFolder = path.join(
@@ -35,4 +41,52 @@ export namespace Settings {
       CONSTANTS.APP_SERVICE_DEPLOYMENT.DEPLOYMENT_FILE
     );
   }
+
+  /**
+   * Points the deploy job of the CI workflow at the App Service created with
+   * the project. Projects generated without the Continuous Integration feature
+   * have no workflow and are left as they are.
+   */
+  export async function setWorkflowAppService(siteName: string, fsPath: string): Promise<void> {
+    const workflowPath = path.join(fsPath, ...CONSTANTS.APP_SERVICE_DEPLOYMENT.CI_WORKFLOW_PATH);
+    if (!(await fse.pathExists(workflowPath))) {
+      return;
+    }
+    const workflow = await fse.readFile(workflowPath, "utf8");
+    await fse.writeFile(
+      workflowPath,
+      workflow.replace(CONSTANTS.APP_SERVICE_DEPLOYMENT.CI_WORKFLOW_APP_NAME, `$1"${siteName}"`)
+    );
+  }
+
+  /**
+   * Reads the App Service written to the project settings by setDeployDefault.
+   * Returns undefined when the project has no App Service to deploy to.
+   */
+  export async function getDeployDefault(fsPath: string): Promise<IDeployDefault | undefined> {
+    const settingPath = path.join(
+      fsPath,
+      CONSTANTS.APP_SERVICE_DEPLOYMENT.DOT_VSCODE_FOLDER,
+      CONSTANTS.APP_SERVICE_DEPLOYMENT.SETTINGS_FILE_NAME
+    );
+    let settings: any;
+    try {
+      settings = await fse.readJson(settingPath);
+    } catch (error) {
+      return undefined;
+    }
+    const match = /^\/subscriptions\/([^/]+)\/.*\/sites\/([^/]+)$/i.exec(
+      settings[CONSTANTS.APP_SERVICE_DEPLOYMENT.DEFAULT_WEB_APP_SETTING] || ""
+    );
+    if (!match) {
+      return undefined;
+    }
+    return {
+      subscriptionId: match[1],
+      appName: match[2],
+      deploySubpath:
+        settings[CONSTANTS.APP_SERVICE_DEPLOYMENT.DEPLOY_SUBPATH_SETTING] ||
+        CONSTANTS.APP_SERVICE_DEPLOYMENT.SERVER_FOLDER
+    };
+  }
 }
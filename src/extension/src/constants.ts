@@ -159,7 +159,285 @@ export const CONSTANTS = {
     },
     CANNOT_START_GENERATION_ENGINE: localize(
       "error.cannotStartGenerationEngine",
-      "Cannot start generation engine.")
+      "Cannot start generation engine."),
+    GENERATION_CANCELLED: localize(
+      "error.generationCancelled",
+      "Generation was cancelled by the user."
+    ),
+    CLI_COMMAND_TIMEOUT: (command: string, timeout: number): string => {
+      return localize(
+        "error.cliCommandTimeout",
+        "Generation engine did not answer '{0}' within {1} ms",
+        command,
+        timeout
+      );
+    },
+    ENGINE_RESTART_FAILED: (attempts: number): string => {
+      return localize(
+        "error.engineRestartFailed",
+        "Generation engine could not be restarted after {0} attempts",
+        attempts
+      );
+    },
+    ENGINE_NOT_RESPONDING: localize(
+      "error.engineNotResponding",
+      "Generation engine stopped responding and is being restarted"
+    ),
+    TEMPLATE_SOURCE_SYNC_FAILED: (sourcePath: string, message: string): string => {
+      return localize(
+        "error.templateSourceSyncFailed",
+        "Templates from {0} could not be synced and are not available: {1}",
+        sourcePath,
+        message
+      );
+    },
+    PROJECT_NOT_GENERATED_BY_WIZARD: (projectPath: string): string => {
+      return localize(
+        "error.projectNotGeneratedByWizard",
+        "{0} does not look like a project generated by Web Template Studio",
+        projectPath
+      );
+    },
+    NAME_EMPTY: localize(
+      "error.nameEmpty",
+      "Name cannot be empty"
+    ),
+    NAME_NOT_UNIQUE: (name: string): string => {
+      return localize(
+        "error.nameNotUnique",
+        "{0}: name has to be unique",
+        name
+      );
+    },
+    NAME_RESERVED: (name: string): string => {
+      return localize(
+        "error.nameReserved",
+        "{0}: name is reserved",
+        name
+      );
+    },
+    NAME_START_LETTER: (name: string): string => {
+      return localize(
+        "error.nameStartLetter",
+        "{0}: name may only start with letters",
+        name
+      );
+    },
+    NAME_CONTAIN_LETTERS_NUMBERS_DASHES: (name: string): string => {
+      return localize(
+        "error.nameContainLettersNumbersDashes",
+        "{0}: name may only contain letters, numbers or dashes",
+        name
+      );
+    },
+    NAME_DOES_NOT_MATCH: (name: string, pattern: string): string => {
+      return localize(
+        "error.nameDoesNotMatch",
+        "{0}: name does not match {1}",
+        name,
+        pattern
+      );
+    },
+    UNKNOWN_CLI_OPTION: (option: string): string => {
+      return localize(
+        "error.unknownCliOption",
+        "Unknown option {0}",
+        option
+      );
+    },
+    MISSING_CLI_OPTION_VALUE: (option: string): string => {
+      return localize(
+        "error.missingCliOptionValue",
+        "Option {0} needs a value",
+        option
+      );
+    },
+    MISSING_CLI_OPTION: (option: string): string => {
+      return localize(
+        "error.missingCliOption",
+        "Option {0} is required",
+        option
+      );
+    },
+    CLI_SELECTION_WITH_FLAGS: localize(
+      "error.cliSelectionWithFlags",
+      "--selection can't be combined with --frontend, --backend, --language or --page"
+    ),
+    UNKNOWN_FRAMEWORK: (name: string, available: string): string => {
+      return localize(
+        "error.unknownFramework",
+        "Unknown framework {0}. Available frameworks: {1}",
+        name,
+        available
+      );
+    },
+    UNKNOWN_LANGUAGE: (name: string, available: string): string => {
+      return localize(
+        "error.unknownLanguage",
+        "Unknown language {0}. Available languages: {1}",
+        name,
+        available
+      );
+    },
+    UNKNOWN_PAGE_TEMPLATE: (name: string, available: string): string => {
+      return localize(
+        "error.unknownPageTemplate",
+        "Unknown page {0}. Available pages: {1}",
+        name,
+        available
+      );
+    },
+    INVALID_RECIPE: (filePath: string): string => {
+      return localize(
+        "error.invalidRecipe",
+        "{0} is not a Web Template Studio recipe",
+        filePath
+      );
+    },
+    UNSUPPORTED_RECIPE_VERSION: (recipeVersion: number): string => {
+      return localize(
+        "error.unsupportedRecipeVersion",
+        "Recipe version {0} is not supported by this version of Web Template Studio",
+        recipeVersion
+      );
+    },
+    INVALID_PROJECT_MANIFEST: (filePath: string): string => {
+      return localize(
+        "error.invalidProjectManifest",
+        "{0} is not a Web Template Studio project manifest",
+        filePath
+      );
+    },
+    UNSUPPORTED_PROJECT_MANIFEST_VERSION: (manifestVersion: number): string => {
+      return localize(
+        "error.unsupportedProjectManifestVersion",
+        "Project manifest version {0} is not supported by this version of Web Template Studio",
+        manifestVersion
+      );
+    },
+    PROJECT_MANIFEST_MISSING: (projectPath: string): string => {
+      return localize(
+        "error.projectManifestMissing",
+        "{0} has no .wts/manifest.json and can't be upgraded, only projects generated with the manifest record their selections",
+        projectPath
+      );
+    },
+    INVALID_ROUTE_PATH: (routePath: string): string => {
+      return localize(
+        "error.invalidRoutePath",
+        "{0} is not a valid route path, use letters, numbers, - . _ ~ and / between segments",
+        routePath
+      );
+    },
+    DUPLICATE_ROUTE_PATH: (routePath: string): string => {
+      return localize(
+        "error.duplicateRoutePath",
+        "More than one page uses the route path {0}",
+        routePath
+      );
+    },
+    RECIPE_TEMPLATES_MISSING: (templates: string): string => {
+      return localize(
+        "error.recipeTemplatesMissing",
+        "These templates of the recipe are not available and were left out: {0}",
+        templates
+      );
+    },
+    RECIPE_TEMPLATES_RENAMED: (templates: string): string => {
+      return localize(
+        "error.recipeTemplatesRenamed",
+        "These templates of the recipe were renamed and their new version is used: {0}",
+        templates
+      );
+    },
+    GENERATION_FAILED: localize(
+      "error.generationFailed",
+      "The project could not be generated, see the Web Template Studio output for details"
+    ),
+    DEPLOY_NO_PROJECT_OPEN: localize(
+      "error.deployNoProjectOpen",
+      "No Project Opened Up"
+    ),
+    DEPLOY_UNKNOWN_STACK: (projectPath: string): string => {
+      return localize(
+        "error.deployUnknownStack",
+        "{0} has no Node, Moleculer or Flask server folder to deploy",
+        projectPath
+      );
+    },
+    DEPLOY_STEP_NOT_STARTED: (command: string, message: string): string => {
+      return localize(
+        "error.deployStepNotStarted",
+        "Could not run {0}: {1}",
+        command,
+        message
+      );
+    },
+    DEPLOY_STEP_FAILED: (command: string, exitCode: string): string => {
+      return localize(
+        "error.deployStepFailed",
+        "{0} failed with exit code {1}, see the Web Template Studio output for details",
+        command,
+        exitCode
+      );
+    },
+    README_NOT_FOUND: (readmePath: string): string => {
+      return localize(
+        "error.readmeNotFound",
+        "The generated project has no README at {0}",
+        readmePath
+      );
+    },
+    DEPLOY_CANCELLED: localize(
+      "error.deployCancelled",
+      "The deployment was cancelled"
+    ),
+    ZIP_DEPLOY_REQUEST_FAILED: (url: string, status: string): string => {
+      return localize(
+        "error.zipDeployRequestFailed",
+        "The request to {0} failed with status {1}",
+        url,
+        status
+      );
+    },
+    ZIP_DEPLOY_FAILED: (statusText: string): string => {
+      return localize(
+        "error.zipDeployFailed",
+        "The App Service deployment failed: {0}",
+        statusText
+      );
+    },
+    ZIP_DEPLOY_TIMEOUT: localize(
+      "error.zipDeployTimeout",
+      "The App Service deployment did not complete in time"
+    ),
+    DEPLOY_SUBSCRIPTION_NOT_FOUND: (subscriptionId: string): string => {
+      return localize(
+        "error.deploySubscriptionNotFound",
+        "Subscription {0} of the App Service is not available in your Azure account",
+        subscriptionId
+      );
+    },
+    FILE_NOT_IN_GENERATION_PREVIEW: (filePath: string): string => {
+      return localize(
+        "error.fileNotInGenerationPreview",
+        "{0} is not part of the generation preview",
+        filePath
+      );
+    },
+    TEMPLATE_IDENTITY_CONFLICT: (
+      identity: string,
+      sourcePaths: string,
+      usedSourcePath: string
+    ): string => {
+      return localize(
+        "error.templateIdentityConflict",
+        "Template {0} is defined in {1}. The template from {2} is used.",
+        identity,
+        sourcePaths,
+        usedSourcePath
+      );
+    }
   },
   INFO: {
     COSMOS_ACCOUNT_DEPLOYED: (accountName: string): string => {
@@ -184,7 +462,179 @@ export const CONSTANTS = {
       "info.startingServerMessage",
       "Starting Generation Server"
     ),
-    SYNC_STATUS: localize("info.syncStatus", "Sync Status: ")
+    SYNC_STATUS: localize("info.syncStatus", "Sync Status: "),
+    GENERATED_PROJECT_REMOVED: (projectPath: string): string => {
+      return localize(
+        "info.generatedProjectRemoved",
+        "Removed partially generated project at {0}",
+        projectPath
+      );
+    },
+    ADD_TO_PROJECT_OPEN_LABEL: localize(
+      "info.addToProjectOpenLabel",
+      "Add to Project"
+    ),
+    ADD_TO_PROJECT_CHANGES_APPLIED: (fileCount: number, projectPath: string): string => {
+      return localize(
+        "info.addToProjectChangesApplied",
+        "Updated {0} files in {1}",
+        fileCount,
+        projectPath
+      );
+    },
+    UPGRADE_OPEN_LABEL: localize("info.upgradeOpenLabel", "Upgrade Project"),
+    UPGRADE_LOADING_TEMPLATES: localize(
+      "info.upgradeLoadingTemplates",
+      "Loading the current templates"
+    ),
+    UPGRADE_GENERATING: (projectName: string): string => {
+      return localize(
+        "info.upgradeGenerating",
+        "Generating {0} with the current templates",
+        projectName
+      );
+    },
+    UPGRADE_REVIEW_PLACEHOLDER: localize(
+      "info.upgradeReviewPlaceholder",
+      "Select the changes to apply, conflicts are written with conflict markers"
+    ),
+    UPGRADE_STATUS_CLEAN_UPDATE: localize("info.upgradeStatusCleanUpdate", "Clean update"),
+    UPGRADE_STATUS_USER_MODIFIED: localize(
+      "info.upgradeStatusUserModified",
+      "Merged with your changes"
+    ),
+    UPGRADE_STATUS_CONFLICT: localize("info.upgradeStatusConflict", "Conflict"),
+    UPGRADE_UP_TO_DATE: (templatesVersion: string): string => {
+      return localize(
+        "info.upgradeUpToDate",
+        "The project is up to date with templates version {0}",
+        templatesVersion
+      );
+    },
+    UPGRADE_APPLIED: (fileCount: number, templatesVersion: string): string => {
+      return localize(
+        "info.upgradeApplied",
+        "Updated {0} files to templates version {1}",
+        fileCount,
+        templatesVersion
+      );
+    },
+    RECIPE_SAVE_LABEL: localize("info.recipeSaveLabel", "Export Recipe"),
+    RECIPE_OPEN_LABEL: localize("info.recipeOpenLabel", "Import Recipe"),
+    RECIPE_FILE_FILTER: localize("info.recipeFileFilter", "Web Template Studio recipe"),
+    RECIPE_EXPORTED: (filePath: string): string => {
+      return localize(
+        "info.recipeExported",
+        "Saved the wizard selection to {0}",
+        filePath
+      );
+    },
+    PROJECT_GENERATED: (projectPath: string): string => {
+      return localize(
+        "info.projectGenerated",
+        "Generated the project in {0}",
+        projectPath
+      );
+    },
+    OPEN_PROJECT: localize("info.openProject", "Open Project"),
+    LAUNCHING_WIZARD: localize("info.launchingWizard", "Launching WebTS"),
+    GENERATING_PROJECT: (projectName: string): string => {
+      return localize(
+        "info.generatingProject",
+        "Generating {0}",
+        projectName
+      );
+    },
+    QUICK_PICK_PROJECT_NAME_PROMPT: localize(
+      "info.quickPickProjectNamePrompt",
+      "Name of the project"
+    ),
+    QUICK_PICK_OUTPUT_PATH_PLACEHOLDER: localize(
+      "info.quickPickOutputPathPlaceholder",
+      "Folder the project is created in"
+    ),
+    QUICK_PICK_BROWSE: localize("info.quickPickBrowse", "Browse..."),
+    QUICK_PICK_FRONTEND_PLACEHOLDER: localize(
+      "info.quickPickFrontendPlaceholder",
+      "Frontend framework"
+    ),
+    QUICK_PICK_BACKEND_PLACEHOLDER: localize(
+      "info.quickPickBackendPlaceholder",
+      "Backend framework"
+    ),
+    QUICK_PICK_LANGUAGE_PLACEHOLDER: localize(
+      "info.quickPickLanguagePlaceholder",
+      "Language of the frontend"
+    ),
+    QUICK_PICK_PAGES_PLACEHOLDER: localize(
+      "info.quickPickPagesPlaceholder",
+      "Pages of the project"
+    ),
+    QUICK_PICK_PAGE_NAME_PROMPT: (templateName: string): string => {
+      return localize(
+        "info.quickPickPageNamePrompt",
+        "Name of the {0} page",
+        templateName
+      );
+    },
+    DEPLOY_PREPARING: localize(
+      "info.deployPreparing",
+      "Preparing for Deployment"
+    ),
+    DEPLOY_FOLDER_PLACEHOLDER: localize(
+      "info.deployFolderPlaceholder",
+      "Folder of the project to deploy"
+    ),
+    DEPLOY_STACK_DETECTED: (stack: string, projectPath: string): string => {
+      return localize(
+        "info.deployStackDetected",
+        "Deploying the {0} project in {1}",
+        stack,
+        projectPath
+      );
+    },
+    DEPLOY_INSTALLING_DEPENDENCIES: localize(
+      "info.deployInstallingDependencies",
+      "Installing Dependencies"
+    ),
+    DEPLOY_BUILDING_PROJECT: localize(
+      "info.deployBuildingProject",
+      "Building Project"
+    ),
+    DEPLOY_INSTALLING_REQUIREMENTS: localize(
+      "info.deployInstallingRequirements",
+      "Installing Python Requirements"
+    ),
+    POST_GENERATION_CREATING_VIRTUAL_ENV: localize(
+      "info.postGenerationCreatingVirtualEnv",
+      "Creating Python Virtual Environment"
+    ),
+    ZIP_DEPLOY_PACKAGING: localize(
+      "info.zipDeployPackaging",
+      "Packaging the project"
+    ),
+    ZIP_DEPLOY_UPLOADING: localize(
+      "info.zipDeployUploading",
+      "Uploading the deployment package"
+    ),
+    ZIP_DEPLOY_COMPLETED: (appName: string): string => {
+      return localize(
+        "info.zipDeployCompleted",
+        "The project has been deployed to {0}",
+        appName
+      );
+    },
+    DEPLOY_BUILD_COMPLETED: localize(
+      "info.deployBuildCompleted",
+      "Build Completed"
+    ),
+    TEMPLATE_SOURCE_SYNCED: (sourcePath: string): string => {
+      return localize(
+        "info.templateSourceSynced",
+        "Successfully synced templates from {0}",
+        sourcePath
+      );
+    }
   },
   CLI: {
     BASE_CLI_TOOL_NAME: "Microsoft.Templates.Cli",
@@ -202,12 +652,34 @@ export const CONSTANTS = {
     GET_PAGES_COMMAND_PREFIX: "getpages",
     GET_FEATURES_COMMAND_PREFIX: "getfeatures",
     GET_PROJECT_TYPES_COMMAND_PREFIX: "getprojecttypes",
-    GENERATE_COMMAND_PREFIX: "generate"
+    GENERATE_COMMAND_PREFIX: "generate",
+    // Commands without side effects, safe to send again after an engine crash
+    REPLAYABLE_COMMAND_PREFIXES: [
+      "sync",
+      "getframeworks",
+      "getpages",
+      "getfeatures",
+      "getprojecttypes"
+    ],
+    DEFAULT_COMMAND_TIMEOUT: 60000,
+    SYNC_COMMAND_TIMEOUT: 300000,
+    GENERATE_COMMAND_TIMEOUT: 600000,
+    PING_INTERVAL: 30000,
+    PING_TIMEOUT: 10000,
+    MAX_RESTART_ATTEMPTS: 5,
+    RESTART_BACKOFF_BASE_DELAY: 1000,
+    // Only stderr lines that report a failure reject the running command, warnings are just logged
+    STDERR_FAILURE_PATTERN: /\b(error|exception|fail(ed|ure)?)\b/i,
+    STDERR_DIAGNOSTIC_PATTERN: /^\s*(warn(ing)?|info|debug|trace)\b/i,
+    FAKE_ENGINE_ENV_VARIABLE: "WTS_FAKE_CORETS",
+    FAKE_ENGINE_SETTING: "wts.useFakeCoreTS"
   },
   API: {
     BASE_APPLICATION_NAME: "CoreTemplateStudio.Api",
     PRODUCTION_PATH_TO_TEMPLATES: "..",
     DEVELOPMENT_PATH_TO_TEMPLATES: "../../../../..",
+    TEMPLATE_SOURCES_SETTING: "wts.templateSources",
+    MERGED_TEMPLATES_FOLDER_PREFIX: "wts-templates-",
     SYNC_LIVE_MESSAGE_TRIGGER_NAME: "syncMessage",
     GEN_LIVE_MESSAGE_TRIGGER_NAME: "genMessage",
     SIGNALR_API_SYNC_METHOD_NAME: "SyncTemplates",
@@ -253,11 +725,104 @@ export const CONSTANTS = {
   CONNECTION_STRING_SQL: (origin: string, primaryKey: string): string => {
     return `COSMOSDB_URI=${origin}\nCOSMOSDB_PRIMARY_KEY=${primaryKey}\n`;
   },
-  SQL_CONNECTION_STRING_PREFIX: "accountendpoint=",
+  CONNECTION_STRING_TABLE: (connectionString: string): string => {
+    return `COSMOSDB_CONNSTR=${connectionString}\n`;
+  },
+  CONNECTION_STRING_GREMLIN: (endpoint: string, primaryKey: string): string => {
+    return `COSMOSDB_GREMLIN_ENDPOINT=${endpoint}\nCOSMOSDB_PRIMARY_KEY=${primaryKey}\n`;
+  },
+  CONNECTION_STRING_CASSANDRA: (
+    contactPoint: string,
+    username: string,
+    password: string
+  ): string => {
+    return `COSMOSDB_CONTACT_POINT=${contactPoint}\nCOSMOSDB_USER=${username}\nCOSMOSDB_PASSWORD=${password}\n`;
+  },
+  MONGO_CONNECTION_STRING_PREFIX: "mongodb://",
+  COSMOS_API_KIND: {
+    GREMLIN: "Gremlin",
+    CASSANDRA: "Cassandra"
+  },
   MAX_PROJECT_NAME_LENGTH: 50,
+  FULL_STACK_PROJECT_TYPE: "FullStackWebApp",
+  FRONTEND_FRAMEWORKS: {
+    REACT: "React",
+    VUE: "Vue",
+    ANGULAR: "Angular",
+    SVELTE: "Svelte"
+  },
+  BACKEND_FRAMEWORKS: {
+    NODE: "Node",
+    FLASK: "Flask",
+    MOLECULER: "Moleculer",
+    NEST: "Nest"
+  },
+  LANGUAGES: {
+    ANY: "Any",
+    JAVASCRIPT: "JavaScript",
+    TYPESCRIPT: "TypeScript"
+  },
   START_PORT: 9502,
   VSCODE_COMMAND: {
-    OPEN_FOLDER: "vscode.openFolder"
+    OPEN_FOLDER: "vscode.openFolder",
+    DIFF: "vscode.diff",
+    MARKDOWN_PREVIEW: "markdown.showPreview"
+  },
+  ADD_TO_PROJECT: {
+    TEMP_FOLDER_PREFIX: "wts-add-to-project-"
+  },
+  RECIPE: {
+    VERSION: 1,
+    FILE_EXTENSION: "json",
+    DEFAULT_FILE_NAME: (projectName: string): string =>
+      `${projectName || "wts"}.recipe.json`
+  },
+  PROJECT_MANIFEST: {
+    VERSION: 1,
+    FOLDER: ".wts",
+    FILE_NAME: "manifest.json",
+    ORIGINAL_OUTPUT_FOLDER: "original",
+    GITIGNORE_FILE: ".gitignore",
+    HASH_ALGORITHM: "sha256"
+  },
+  PROJECT_UPGRADE: {
+    TEMP_FOLDER_PREFIX: "wts-upgrade-",
+    REVIEW_FOLDER: "review"
+  },
+  HEADLESS: {
+    DEFAULT_PROJECT_NAME: "myApp",
+    COSMOS_SERVICE_NAME: "Cosmos",
+    EXIT_CODE_FAILED: 1,
+    EXIT_CODE_INVALID_INPUT: 2
+  },
+  DEPLOY: {
+    REQUIREMENTS_FILE: "requirements.txt",
+    PACKAGE_JSON_FILE: "package.json",
+    MOLECULER_DEPENDENCY: "moleculer",
+    APP_SERVICE_DEPLOY_COMMAND: "appService.Deploy"
+  },
+  ZIP_DEPLOY: {
+    SCM_URL: (appName: string): string =>
+      `https://${appName.toLowerCase()}.scm.azurewebsites.net`,
+    ZIP_DEPLOY_PATH: "/api/zipdeploy?isAsync=true",
+    LATEST_DEPLOYMENT_PATH: "/api/deployments/latest",
+    POLL_INTERVAL: 2000,
+    MAX_POLL_ATTEMPTS: 450,
+    BUILD_FOLDER: "build",
+    ALWAYS_EXCLUDED: [".git", "node_modules"],
+    TEMP_FOLDER_PREFIX: "wts-zip-deploy-",
+    ZIP_FILE_NAME: "deploy.zip"
+  },
+  POST_GENERATION: {
+    SETTINGS_SECTION: "wts.postGeneration",
+    VIRTUAL_ENV_FOLDER: ".venv",
+    README_FILE: "README.md",
+    INITIAL_COMMIT_MESSAGE: "Initial commit",
+    MAX_OUTPUT_LINES: 200
+  },
+  GENERATION_PREVIEW: {
+    TEMP_FOLDER_PREFIX: "wts-preview-",
+    MAX_FILE_PREVIEW_SIZE: 262144
   },
   DEPENDENCY_CHECKER: {
     NODE: "node",
@@ -304,6 +869,8 @@ export const CONSTANTS = {
     SERVER_FOLDER: "server",
     DOT_VSCODE_FOLDER: ".vscode",
     SETTINGS_FILE_NAME: "settings.json",
+    DEFAULT_WEB_APP_SETTING: "appService.defaultWebAppToDeploy",
+    DEPLOY_SUBPATH_SETTING: "appService.deploySubpath",
     SETTINGS_FILE: (id: string, subpath: string): string => {
       return `{
     "appService.defaultWebAppToDeploy": "${id}",
@@ -312,7 +879,9 @@ export const CONSTANTS = {
     },
     DEPLOYMENT_FILE_NAME: ".deployment",
     DEPLOYMENT_FILE: `[config] 
-SCM_DO_BUILD_DURING_DEPLOYMENT=true`
+SCM_DO_BUILD_DURING_DEPLOYMENT=true`,
+    CI_WORKFLOW_PATH: [".github", "workflows", "ci.yml"],
+    CI_WORKFLOW_APP_NAME: /^(\s*AZURE_WEBAPP_NAME:\s*)""/m
   },
   TELEMETRY: {
     LAUNCH_WIZARD_STARTED_POINT: "Launch wizard"
@@ -333,6 +902,10 @@ export enum ExtensionCommand {
   NameCosmos = "name-cosmos",
   NameAppService = "name-app-service",
   Generate = "generate",
+  CancelGeneration = "cancel-generation",
+  GetGenerationPreview = "get-generation-preview",
+  GetGenerationPreviewFile = "get-generation-preview-file",
+  UpdateEngineStatus = "update-engine-status",
   GetOutputPath = "get-output-path",
   GetProjectName = "get-project-name",
   GetUserStatus = "get-user-status",
@@ -348,13 +921,22 @@ export enum ExtensionCommand {
   ProjectPathValidation = "project-path-validation",
   UpdateGenStatusMessage = "update-status-message",
   UpdateGenStatus = "update-status",
+  UpdateGenProgress = "update-generation-progress",
+  GetPostGenerationOptions = "get-post-generation-options",
+  UpdatePostGenerationTasks = "update-post-generation-tasks",
+  RetryPostGenerationTask = "retry-post-generation-task",
   OpenProjectVSCode = "open-project-vscode",
   GetTemplateInfo = "get-template-info",
   CloseWizard = "close-wizard",
   GetPort = "get-port",
   GetVersions = "get-versions",
   ResetPages = "reset-pages",
-  CheckDependency = "check-dependency"
+  CheckDependency = "check-dependency",
+  GetExistingProject = "get-existing-project",
+  GetAddToProjectChanges = "get-add-to-project-changes",
+  ApplyAddToProjectChanges = "apply-add-to-project-changes",
+  ExportRecipe = "export-recipe",
+  ImportRecipe = "import-recipe"
 }
 export enum ExtensionModule {
   Azure = "Azure",
@@ -365,7 +947,9 @@ export enum ExtensionModule {
   Logger = "Logger",
   DependencyChecker = "DependencyChecker",
   CoreTSModule = "CoreTSModule",
-  Defaults = "Defaults"
+  Defaults = "Defaults",
+  AddToProject = "AddToProject",
+  Recipe = "Recipe"
 }
 
 export enum TelemetryEventName {
@@ -456,5 +1040,6 @@ export enum OS {
 export const BackendFrameworkLinuxVersion: { [s: string]: string } = {
   Node: "node|10.14",
   Flask: "python|3.7",
-  Moleculer: "node|10.14"
+  Moleculer: "node|10.14",
+  Nest: "node|10.14"
 };
@@ -23,6 +23,8 @@ import { Defaults } from "./utils/defaults";
 import { Telemetry } from "./client-modules/telemetry";
 import { getExtensionName, getExtensionVersionNumber } from "./utils/packageInfo";
 import { ISyncReturnType } from "./types/syncReturnType";
+import { AddToProjectExperience } from "./addToProjectExperience";
+import { RecipeExperience } from "./recipeExperience";
 
 export class Controller {
   /**
@@ -41,6 +43,8 @@ export class Controller {
   private CoreTSModule: CoreTSModule;
   private Telemetry: Telemetry;
   private Defaults: Defaults;
+  private AddToProject: AddToProjectExperience;
+  private Recipe: RecipeExperience;
   private SyncCompleted = false;
 
   /**
@@ -57,7 +61,9 @@ export class Controller {
       [ExtensionModule.Logger, Controller.Logger],
       [ExtensionModule.DependencyChecker, this.DependencyChecker],
       [ExtensionModule.CoreTSModule, this.CoreTSModule],
-      [ExtensionModule.Defaults, this.Defaults]
+      [ExtensionModule.Defaults, this.Defaults],
+      [ExtensionModule.AddToProject, this.AddToProject],
+      [ExtensionModule.Recipe, this.Recipe]
     ]);
   }
 
@@ -90,21 +96,30 @@ export class Controller {
   /**
    * Provides access to the Controller. Maintains Singleton Pattern. Function will bring up ReactPanel to View if Controller instance exists, otherwise will instantiate a new Controller.
    * @param message The payload received from the wizard client. Message payload must include field 'module'
+   * @param existingProjectPath Project to add pages and features to; restarts an open wizard
    * @returns Singleton Controller type
    */
   public static getInstance(
-    context: vscode.ExtensionContext
+    context: vscode.ExtensionContext,
+    existingProjectPath?: string
   ): Controller {
+    if (this._instance && existingProjectPath && ReactPanel.currentPanel) {
+      ReactPanel.currentPanel.dispose();
+    }
     if (this._instance) {
+      if (existingProjectPath) {
+        this._instance.AddToProject.setProjectPath(existingProjectPath);
+      }
       this._instance.showReactPanel();
     } else {
-      this._instance = new Controller(context);
+      this._instance = new Controller(context, existingProjectPath);
     }
     return this._instance;
   }
 
   private constructor(
-    private context: vscode.ExtensionContext
+    private context: vscode.ExtensionContext,
+    existingProjectPath?: string
   ) {
     Controller.TelemetryService = new TelemetryService(
       this.context
@@ -120,12 +135,14 @@ export class Controller {
     this.CoreTSModule = new CoreTSModule();
     this.Telemetry = new Telemetry(Controller.TelemetryService);
     this.Defaults = new Defaults();
+    this.AddToProject = new AddToProjectExperience(existingProjectPath);
+    this.Recipe = new RecipeExperience();
     Logger.initializeOutputChannel(getExtensionName(this.context));
     this.defineExtensionModule();
     vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: "Launching WebTS"
+        title: CONSTANTS.INFO.LAUNCHING_WIZARD
       },
       async (progress: vscode.Progress<IVSCodeProgressType>) => {
         const launchExperience = new LaunchExperience(progress);
@@ -163,6 +180,16 @@ export class Controller {
         this.routingMessageReceieverDelegate
       );
       GenerationExperience.setReactPanel(Controller.reactPanelContext);
+      const removeEngineStatusListener = CoreTemplateStudio.GetExistingInstance().onEngineStatusChange(
+        status =>
+          Controller.reactPanelContext.postMessageWebview({
+            command: ExtensionCommand.UpdateEngineStatus,
+            payload: { status }
+          })
+      );
+      Controller.reactPanelContext.addDisposable({
+        dispose: removeEngineStatusListener
+      });
 
       Controller.getTemplateInfoAndStore(
         context,
@@ -174,7 +201,40 @@ export class Controller {
     }
   }
 
-  private static getTemplateInfoAndStore(
+  /**
+   * Syncs the templates without showing the wizard, for the commands that work
+   * through Quick Picks. Returns false when the engine could not be synced.
+   */
+  public static async syncTemplates(
+    context: vscode.ExtensionContext,
+    telemetryService: ITelemetryService,
+    title: string
+  ): Promise<boolean> {
+    const syncObject = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title
+      },
+      (progress: vscode.Progress<IVSCodeProgressType>) =>
+        telemetryService.callWithTelemetryAndCatchHandleErrors(
+          TelemetryEventName.SyncEngine,
+          async function(this: IActionContext) {
+            return await new LaunchExperience(progress)
+              .launchApiSyncModule(context)
+              .catch(error => {
+                CoreTemplateStudio.DestroyInstance();
+                throw error;
+              });
+          }
+        )
+    );
+    if (syncObject) {
+      Controller.getTemplateInfoAndStore(context, syncObject);
+    }
+    return !!syncObject;
+  }
+
+  public static getTemplateInfoAndStore(
     ctx: vscode.ExtensionContext,
     syncObject: ISyncReturnType
   ): void {
@@ -0,0 +1,215 @@
+import { ChildProcess } from "child_process";
+import { CONSTANTS } from "./constants";
+import { EngineProcessExitedError } from "./errors";
+
+export type CliLogHandler = (
+  level: "info" | "warn" | "error",
+  message: string
+) => void;
+
+export interface ICliRequest {
+  command: string;
+  resultType: string;
+  progressType?: string;
+  onProgress?: (content: any) => void;
+  timeout?: number;
+}
+
+interface IPendingCliRequest extends ICliRequest {
+  requestId: number;
+  resolve: (content: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timer;
+  timedOut: boolean;
+}
+
+/**
+ * Request/response channel over the line-delimited JSON protocol of the CoreTS CLI.
+ * Several commands can be written before the first one is answered, each with its
+ * own timeout. The CLI runs them one at a time and its replies carry no request id,
+ * so replies are matched strictly in order to the oldest pending request. A request
+ * that timed out stays in the queue until its late reply arrives, so that reply
+ * can't resolve the request after it.
+ */
+export class CoreTSCliChannel {
+  private pendingRequests: Map<number, IPendingCliRequest> = new Map();
+  private nextRequestId = 1;
+  private buffer = "";
+
+  constructor(
+    private processCli: ChildProcess,
+    private log: CliLogHandler
+  ) {
+    this.processCli.stdout.on("data", this.handleStdout);
+    this.processCli.stderr.on("data", this.handleStderr);
+    this.processCli.on("exit", this.handleExit);
+  }
+
+  public send(request: ICliRequest): Promise<any> {
+    const requestId = this.nextRequestId++;
+    const timeout =
+      request.timeout !== undefined
+        ? request.timeout
+        : CONSTANTS.CLI.DEFAULT_COMMAND_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.timeOut(
+          requestId,
+          new Error(CONSTANTS.ERRORS.CLI_COMMAND_TIMEOUT(request.command, timeout))
+        );
+      }, timeout);
+
+      this.pendingRequests.set(requestId, {
+        ...request,
+        requestId,
+        resolve,
+        reject,
+        timer,
+        timedOut: false
+      });
+      this.processCli.stdin.write(`${request.command}\n`);
+    });
+  }
+
+  /**
+   * The requests still waiting for their reply, not counting the ones that timed out.
+   */
+  public get pendingCount(): number {
+    return Array.from(this.pendingRequests.values()).filter(
+      request => !request.timedOut
+    ).length;
+  }
+
+  public rejectAll(reason: string | Error): void {
+    Array.from(this.pendingRequests.keys()).forEach(requestId =>
+      this.settle(
+        requestId,
+        reason instanceof Error ? reason : new Error(reason)
+      )
+    );
+  }
+
+  public dispose(): void {
+    this.processCli.stdout.removeListener("data", this.handleStdout);
+    this.processCli.stderr.removeListener("data", this.handleStderr);
+    this.processCli.removeListener("exit", this.handleExit);
+  }
+
+  private handleStdout = (chunk: any): void => {
+    this.buffer += chunk.toString();
+    const lines = this.buffer.split("\n");
+    this.buffer = lines.pop() || "";
+    lines.forEach(line => this.handleLine(line));
+  };
+
+  private handleStderr = (data: any): void => {
+    data
+      .toString()
+      .split("\n")
+      .forEach((line: string) => this.handleStderrLine(line));
+  };
+
+  // The CLI runs commands one at a time, so a failure belongs to the oldest request
+  private handleStderrLine(line: string): void {
+    if (line.trim() === "") {
+      return;
+    }
+    const isFailure =
+      !CONSTANTS.CLI.STDERR_DIAGNOSTIC_PATTERN.test(line) &&
+      CONSTANTS.CLI.STDERR_FAILURE_PATTERN.test(line);
+    this.log(isFailure ? "error" : "warn", line);
+
+    const oldestRequest = this.pendingRequests.values().next().value;
+    if (isFailure && oldestRequest) {
+      this.settle(oldestRequest.requestId, new Error(line));
+    }
+  }
+
+  private handleExit = (code: number | null): void => {
+    this.rejectAll(
+      new EngineProcessExitedError(`process exited with code ${code}`)
+    );
+  };
+
+  private handleLine(line: string): void {
+    if (line.trim() === "") {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      message = undefined;
+    }
+    if (!message || typeof message.messageType !== "string") {
+      this.log("warn", `Ignoring malformed CLI output: ${line}`);
+      return;
+    }
+
+    const messageType: string = message.messageType;
+    const request = this.findRequest(messageType);
+    if (!request) {
+      this.log("warn", `Ignoring unexpected CLI message: ${line}`);
+      return;
+    }
+
+    if (request.timedOut) {
+      if (messageType === request.resultType) {
+        this.settle(request.requestId);
+      }
+      this.log("warn", `Ignoring CLI reply to a command that timed out: ${line}`);
+    } else if (messageType === request.progressType) {
+      if (request.onProgress) {
+        request.onProgress(message.content);
+      }
+    } else {
+      this.settle(request.requestId, undefined, message.content);
+    }
+  }
+
+  /**
+   * The oldest request, when the message is a reply to it. Timed out requests the
+   * message doesn't answer are dropped first: the CLI has moved on to the next
+   * command, so their reply is never coming.
+   */
+  private findRequest(messageType: string): IPendingCliRequest | undefined {
+    let request = this.pendingRequests.values().next().value as IPendingCliRequest | undefined;
+    while (request && request.timedOut && !this.expects(request, messageType)) {
+      this.settle(request.requestId);
+      request = this.pendingRequests.values().next().value;
+    }
+    return request && this.expects(request, messageType) ? request : undefined;
+  }
+
+  private expects(request: IPendingCliRequest, messageType: string): boolean {
+    return messageType === request.resultType || messageType === request.progressType;
+  }
+
+  // Rejects the request but keeps it in the queue to catch its late reply
+  private timeOut(requestId: number, error: Error): void {
+    const request = this.pendingRequests.get(requestId);
+    if (request && !request.timedOut) {
+      request.timedOut = true;
+      request.reject(error);
+    }
+  }
+
+  private settle(requestId: number, error?: Error, content?: any): void {
+    const request = this.pendingRequests.get(requestId);
+    if (!request) {
+      return;
+    }
+    clearTimeout(request.timer);
+    this.pendingRequests.delete(requestId);
+    if (request.timedOut) {
+      return;
+    }
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(content);
+    }
+  }
+}
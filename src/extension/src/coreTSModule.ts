@@ -48,7 +48,8 @@ export class CoreTSModule extends WizardServant {
     const result = await CoreTemplateStudio.GetExistingInstance().getPages(
       message.payload.projectType,
       message.payload.frontendFramework,
-      message.payload.backendFramework
+      message.payload.backendFramework,
+      message.payload.language
     );
     return {
       payload: {
@@ -0,0 +1,240 @@
+import { ChildProcess, spawn } from "child_process";
+import { CONSTANTS } from "./constants";
+import { CoreTSCliChannel, CliLogHandler, ICliRequest } from "./coreTSCliChannel";
+import { EngineProcessExitedError } from "./errors";
+
+export type EngineStatus = "connected" | "reconnecting" | "failed";
+export type EngineStatusListener = (status: EngineStatus) => void;
+
+/**
+ * Keeps a CoreTS CLI process alive. Crashes are detected from the process exit
+ * and hangs from a periodic ping sent while the engine is idle. The process is
+ * then restarted with exponential backoff and synced against the templates of
+ * the last successful sync. A sync or query interrupted by a crash is replayed
+ * once; a generation is failed instead, as it may have written part of the project.
+ */
+export class CoreTSSupervisor {
+  private processCli: ChildProcess | undefined;
+  private cliChannel: CoreTSCliChannel | undefined;
+  private lastSyncRequest: ICliRequest | undefined;
+  private restarting: Promise<void> | undefined;
+  private processGeneration = 0;
+  private pingTimer: NodeJS.Timer | undefined;
+  private statusListeners: EngineStatusListener[] = [];
+  private stopped = false;
+
+  constructor(
+    private spawnProcess: () => ChildProcess,
+    private log: CliLogHandler,
+    private pingInterval: number = CONSTANTS.CLI.PING_INTERVAL,
+    private restartBaseDelay: number = CONSTANTS.CLI.RESTART_BACKOFF_BASE_DELAY
+  ) {}
+
+  public start(): void {
+    this.stopped = false;
+    this.startProcess();
+    this.pingTimer = setInterval(this.ping, this.pingInterval);
+    if (this.pingTimer.unref) {
+      this.pingTimer.unref();
+    }
+  }
+
+  public async send(request: ICliRequest): Promise<any> {
+    if (this.restarting) {
+      await this.restarting;
+    }
+    const sentToGeneration = this.processGeneration;
+    try {
+      return await this.sendToChannel(request);
+    } catch (error) {
+      if (
+        !(error instanceof EngineProcessExitedError) ||
+        this.stopped ||
+        !this.isReplayable(request)
+      ) {
+        throw error;
+      }
+      this.log("warn", `Replaying '${request.command}' after engine restart`);
+      if (this.restarting || this.processGeneration === sentToGeneration) {
+        await this.restart();
+      }
+      return this.sendToChannel(request);
+    }
+  }
+
+  public onStatusChange(listener: EngineStatusListener): () => void {
+    this.statusListeners.push(listener);
+    return (): void => {
+      this.statusListeners = this.statusListeners.filter(
+        registered => registered !== listener
+      );
+    };
+  }
+
+  /**
+   * Replaces the engine process. Requests still pending on the old process are
+   * rejected with the given reason; without a reason they are treated as
+   * interrupted by a crash and replayed by send.
+   */
+  public restart(reason?: string): Promise<void> {
+    if (!this.restarting) {
+      this.restarting = this.restartWithBackoff(reason).then(
+        () => {
+          this.restarting = undefined;
+        },
+        error => {
+          this.restarting = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.restarting;
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = undefined;
+    }
+    this.stopProcess(
+      new Error(CONSTANTS.ERRORS.CANNOT_START_GENERATION_ENGINE)
+    );
+  }
+
+  private isReplayable(request: ICliRequest): boolean {
+    const commandName = request.command.split(" ")[0];
+    return CONSTANTS.CLI.REPLAYABLE_COMMAND_PREFIXES.includes(commandName);
+  }
+
+  private async sendToChannel(request: ICliRequest): Promise<any> {
+    if (!this.cliChannel) {
+      throw new Error(CONSTANTS.ERRORS.CANNOT_START_GENERATION_ENGINE);
+    }
+    const result = await this.cliChannel.send(request);
+    if (request.resultType === CONSTANTS.CLI.SYNC_COMPLETE_STATE) {
+      this.lastSyncRequest = request;
+    }
+    return result;
+  }
+
+  private async restartWithBackoff(reason?: string): Promise<void> {
+    if (!reason) {
+      this.notifyStatus("reconnecting");
+    }
+    this.stopProcess(
+      reason ? new Error(reason) : new EngineProcessExitedError("restarting")
+    );
+
+    for (
+      let attempt = 1;
+      attempt <= CONSTANTS.CLI.MAX_RESTART_ATTEMPTS && !this.stopped;
+      attempt++
+    ) {
+      if (attempt > 1) {
+        await this.delay(this.restartBaseDelay * Math.pow(2, attempt - 2));
+      }
+      try {
+        this.startProcess();
+        if (this.lastSyncRequest) {
+          await this.sendToChannel({
+            ...this.lastSyncRequest,
+            onProgress: undefined
+          });
+        }
+        if (!reason) {
+          this.notifyStatus("connected");
+        }
+        return;
+      } catch (error) {
+        this.log(
+          "error",
+          `Engine restart attempt ${attempt} failed: ${error.message}`
+        );
+        this.stopProcess(new EngineProcessExitedError(error.message));
+      }
+    }
+
+    this.notifyStatus("failed");
+    throw new Error(
+      CONSTANTS.ERRORS.ENGINE_RESTART_FAILED(CONSTANTS.CLI.MAX_RESTART_ATTEMPTS)
+    );
+  }
+
+  private startProcess(): void {
+    const processCli = this.spawnProcess();
+    this.processGeneration++;
+    processCli.on("exit", this.handleExit);
+    this.processCli = processCli;
+    this.cliChannel = new CoreTSCliChannel(processCli, this.log);
+  }
+
+  private stopProcess(reason: Error): void {
+    if (this.cliChannel) {
+      this.cliChannel.dispose();
+      this.cliChannel.rejectAll(reason);
+      this.cliChannel = undefined;
+    }
+    if (this.processCli) {
+      this.processCli.removeListener("exit", this.handleExit);
+      this.killProcess(this.processCli);
+      this.processCli = undefined;
+    }
+  }
+
+  private handleExit = (code: number | null): void => {
+    if (this.stopped || this.restarting) {
+      return;
+    }
+    this.log("error", `Engine process exited with code ${code}`);
+    this.restart().catch(() => undefined);
+  };
+
+  private ping = (): void => {
+    const pingedChannel = this.cliChannel;
+    if (
+      this.stopped ||
+      this.restarting ||
+      !pingedChannel ||
+      pingedChannel.pendingCount > 0
+    ) {
+      return;
+    }
+    pingedChannel
+      .send({
+        command: CONSTANTS.CLI.GET_PROJECT_TYPES_COMMAND_PREFIX,
+        resultType: CONSTANTS.CLI.GET_PROJECT_TYPES_COMPLETE_STATE,
+        timeout: CONSTANTS.CLI.PING_TIMEOUT
+      })
+      .catch(error => {
+        if (this.stopped || pingedChannel !== this.cliChannel) {
+          return;
+        }
+        this.log(
+          "error",
+          `${CONSTANTS.ERRORS.ENGINE_NOT_RESPONDING}: ${error.message}`
+        );
+        this.restart().catch(() => undefined);
+      });
+  };
+
+  private notifyStatus(status: EngineStatus): void {
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private delay(milliseconds: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+  }
+
+  private killProcess(processToKill: ChildProcess): void {
+    // The in-process fake engine has no pid and is stopped through kill
+    if (
+      process.platform === CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION &&
+      processToKill.pid
+    ) {
+      spawn("taskkill", ["/pid", `${processToKill.pid}`, "/f", "/t"]);
+    } else {
+      processToKill.kill("SIGKILL");
+    }
+  }
+}
@@ -2,15 +2,32 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
 import * as fs from "fs";
+import * as fse from "fs-extra";
 
 import { ChildProcess, spawn } from "child_process";
 import { CONSTANTS } from "./constants";
 import { ICommandPayload } from "./types/commandPayload";
 import { IGenerationPayloadType } from "./types/generationPayloadType";
-import { EventEmitter } from "events";
 import { IEngineGenerationPayloadType } from "./types/engineGenerationPayloadType";
-
-class CliEventEmitter extends EventEmitter {}
+import { IGenerationProgressType } from "./types/generationProgressType";
+import { applyRoutePaths, validateRoutePaths } from "./utils/routePaths";
+import { matchesLanguage } from "./utils/templateFiles";
+import { CliLogHandler } from "./coreTSCliChannel";
+import { ICliRequest } from "./coreTSCliChannel";
+import { CoreTSSupervisor, EngineStatusListener } from "./coreTSSupervisor";
+import { FakeCoreTSProcess } from "./fakeCoreTS/fakeCoreTSProcess";
+import {
+  findTemplateIdentities,
+  findTemplateIdentityConflicts,
+  ITemplateIdentityConflict,
+  mergeTemplateSources
+} from "./templateSources";
+import {
+  attributeTemplateFiles,
+  createGenerationManifest,
+  IGenerationManifest
+} from "./generationManifest";
+import { GenerationProgressTracker, planGenerationItems } from "./generationProgress";
 
 /**
  * An interface for CoreTS. It should be transparent to the communication
@@ -20,9 +37,13 @@ export class CoreTemplateStudio {
   private static _instance: CoreTemplateStudio | undefined;
   public static _templateConfig: any;
 
-  private _processCli: ChildProcess;
-  private promiseChain: Promise<any>;
-  private cliEvents: CliEventEmitter;
+  private supervisor: CoreTSSupervisor;
+  private templateSources: string[] = [];
+  private templateSourceByIdentity: Map<string, string> = new Map();
+  private syncedTemplatesPath: string | undefined;
+  private mergedTemplatesPath: string | undefined;
+  private statusListeners: EngineStatusListener[] = [];
+  private previewProjectPath: string | undefined;
 
   public static GetExistingInstance(): CoreTemplateStudio {
     if (CoreTemplateStudio._instance) {
@@ -33,7 +54,9 @@ export class CoreTemplateStudio {
   }
 
   public static async GetInstance(
-    context: vscode.ExtensionContext | undefined
+    context: vscode.ExtensionContext | undefined,
+    logHandler: CliLogHandler,
+    useFakeEngine = false
   ): Promise<CoreTemplateStudio> {
     if (CoreTemplateStudio._instance) {
       return Promise.resolve(CoreTemplateStudio._instance);
@@ -68,16 +91,24 @@ export class CoreTemplateStudio {
       platform
     );
 
-    if (os.platform() !== CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION) {
-      // Not unsafe as the parameter comes from trusted source
-      fs.chmodSync(cliPath, 0o755);
+    let spawnProcess: () => ChildProcess;
+    if (useFakeEngine || process.env[CONSTANTS.CLI.FAKE_ENGINE_ENV_VARIABLE]) {
+      spawnProcess = (): ChildProcess =>
+        (new FakeCoreTSProcess(cliWorkingDirectory) as unknown) as ChildProcess;
+    } else {
+      if (os.platform() !== CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION) {
+        // Not unsafe as the parameter comes from trusted source
+        fs.chmodSync(cliPath, 0o755);
+      }
+      spawnProcess = (): ChildProcess =>
+        spawn(cliPath, [], { cwd: cliWorkingDirectory });
     }
 
-    const spawnedProcessCli = spawn(cliPath, [], {
-      cwd: cliWorkingDirectory
-    });
-
-    CoreTemplateStudio._instance = new CoreTemplateStudio(spawnedProcessCli);
+    CoreTemplateStudio._instance = new CoreTemplateStudio(
+      spawnProcess,
+      cliWorkingDirectory,
+      logHandler
+    );
     return CoreTemplateStudio._instance;
   }
 
@@ -88,94 +119,173 @@ export class CoreTemplateStudio {
     }
   }
 
-  private constructor(processCli: ChildProcess) {
-    this._processCli = processCli;
-    this.promiseChain = Promise.resolve(null);
-    this.cliEvents = new CliEventEmitter();
-    this.readStream(this._processCli);
+  private constructor(
+    private spawnProcess: () => ChildProcess,
+    private cliWorkingDirectory: string,
+    private logHandler: CliLogHandler
+  ) {
+    this.supervisor = this.startSupervisor();
   }
 
-  // This function is a listener, in the constructor, it gets attached
-  // then it will always get triggered when a command is write to the cli and there is responses from cli, until the process gets killed
-  public async readStream(process: ChildProcess): Promise<void> {
-    let data = "";
-    process.stdout.on("data", chunk => {
-      data += chunk;
-      const responses = data.toString().split("\n");
-      for (let i = 0; i < responses.length - 1; i++) {
-        const result = JSON.parse(responses[i]);
-        this.cliEvents.emit(result["messageType"], result["content"]);
-      }
-      data = responses[responses.length - 1];
-    });
-
-    process.stderr.on("data", data => {
-      this.cliEvents.emit("eventError", data.toString());
-    });
-    process.on("exit", code =>
-      this.cliEvents.emit("eventError", `process exited with code ${code}`)
+  private startSupervisor(): CoreTSSupervisor {
+    const supervisor = new CoreTSSupervisor(this.spawnProcess, this.logHandler);
+    supervisor.onStatusChange(status =>
+      this.statusListeners.forEach(listener => listener(status))
     );
+    supervisor.start();
+    return supervisor;
   }
 
-  private async awaitCliEvent(
-    eventName: string,
-    command: string
-  ): Promise<any> {
-    this.promiseChain = this.promiseChain.then(() => {
-      this._processCli.stdin.write(command);
-      return new Promise((resolve, reject) => {
-        this.cliEvents
-          .once(eventName, data => {
-            this.cliEvents.removeAllListeners();
-            resolve(data);
-          })
-          .once("eventError", data => {
-            this.cliEvents.removeAllListeners();
-            reject(new Error(data));
-            //Reset promise chain to allow execute next Cli command
-            this.promiseChain = Promise.resolve(null);
-          });
-      });
-    });
-    return this.promiseChain;
+  public onEngineStatusChange(listener: EngineStatusListener): () => void {
+    this.statusListeners.push(listener);
+    return (): void => {
+      this.statusListeners = this.statusListeners.filter(
+        registered => registered !== listener
+      );
+    };
   }
 
   public async sync(payload: ICommandPayload): Promise<any> {
+    this.syncedTemplatesPath = path.resolve(
+      this.cliWorkingDirectory,
+      payload.payload.path
+    );
+    return this.supervisor.send(this.makeSyncRequest(payload));
+  }
+
+  /**
+   * Adds an extra template root from the wts.templateSources setting. The
+   * engine is synced against the built-in templates merged with every extra
+   * root, so the pages and features of the root are generated together with
+   * the compositions of the built-in templates. When the sync fails, the
+   * engine is synced back to the templates it had.
+   */
+  public async addTemplateSource(payload: ICommandPayload): Promise<any> {
+    const sourcePath = path.resolve(payload.payload.path);
+    const previousTemplatesPath = this.mergedTemplatesPath || this.syncedTemplatesPath;
+    const mergedTemplatesPath = await fse.mkdtemp(
+      path.join(os.tmpdir(), CONSTANTS.API.MERGED_TEMPLATES_FOLDER_PREFIX)
+    );
+    let syncResult: any;
+    try {
+      await mergeTemplateSources(
+        this.getTemplateSourcePaths().concat(sourcePath),
+        mergedTemplatesPath
+      );
+      syncResult = await this.supervisor.send(
+        this.makeSyncRequest({ ...payload, payload: { path: mergedTemplatesPath } })
+      );
+    } catch (error) {
+      await fse.remove(mergedTemplatesPath);
+      if (previousTemplatesPath) {
+        await this.supervisor.send(
+          this.makeSyncRequest({ ...payload, payload: { path: previousTemplatesPath } })
+        );
+      }
+      throw error;
+    }
+
+    await this.removeMergedTemplates();
+    this.mergedTemplatesPath = mergedTemplatesPath;
+    this.templateSources.push(sourcePath);
+    await this.mapTemplateSources();
+    return syncResult;
+  }
+
+  /**
+   * Forgets the extra template roots. The engine keeps the templates it has
+   * until it is synced again.
+   */
+  public async removeTemplateSources(): Promise<void> {
+    this.templateSources = [];
+    this.templateSourceByIdentity.clear();
+    await this.removeMergedTemplates();
+  }
+
+  public async findTemplateSourceConflicts(): Promise<ITemplateIdentityConflict[]> {
+    if (!this.syncedTemplatesPath) {
+      return [];
+    }
+    return findTemplateIdentityConflicts(this.getTemplateSourcePaths());
+  }
+
+  private async removeMergedTemplates(): Promise<void> {
+    if (this.mergedTemplatesPath) {
+      await fse.remove(this.mergedTemplatesPath);
+      this.mergedTemplatesPath = undefined;
+    }
+  }
+
+  // The first root defining an identity is the one the engine generates it from
+  private async mapTemplateSources(): Promise<void> {
+    this.templateSourceByIdentity.clear();
+    for (const sourcePath of this.getTemplateSourcePaths()) {
+      for (const identity of await findTemplateIdentities(sourcePath)) {
+        if (!this.templateSourceByIdentity.has(identity)) {
+          this.templateSourceByIdentity.set(identity, sourcePath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Tags the pages and features of the extra template roots with their root.
+   */
+  private tagTemplateSource = (item: any): any => {
+    const sourcePath = this.templateSourceByIdentity.get(item.templateId);
+    return sourcePath && sourcePath !== this.syncedTemplatesPath
+      ? { ...item, templateSource: sourcePath }
+      : item;
+  };
+
+  private makeSyncRequest(payload: ICommandPayload): ICliRequest {
     const syncCommand = `${CONSTANTS.CLI.SYNC_COMMAND_PREFIX} -p ${
       payload.payload.path
-    }\n`;
-    this.cliEvents.on(CONSTANTS.CLI.SYNC_PROGRESS_STATE, data => {
-      payload.liveMessageHandler(data["status"], data["progress"]);
-    });
-    return this.awaitCliEvent(CONSTANTS.CLI.SYNC_COMPLETE_STATE, syncCommand);
+    }`;
+    return {
+      command: syncCommand,
+      resultType: CONSTANTS.CLI.SYNC_COMPLETE_STATE,
+      progressType: CONSTANTS.CLI.SYNC_PROGRESS_STATE,
+      onProgress: (data): void => {
+        payload.liveMessageHandler(data["status"], data["progress"]);
+      },
+      timeout: CONSTANTS.CLI.SYNC_COMMAND_TIMEOUT
+    };
   }
 
   public async getFrameworks(projectType: string): Promise<any> {
     const getFrameworksCommand = `${
       CONSTANTS.CLI.GET_FRAMEWORKS_COMMAND_PREFIX
-    } -p ${projectType}\n`;
-    return this.awaitCliEvent(
-      CONSTANTS.CLI.GET_FRAMEWORKS_COMPLETE_STATE,
-      getFrameworksCommand
-    );
+    } -p ${projectType}`;
+    return this.supervisor.send({
+      command: getFrameworksCommand,
+      resultType: CONSTANTS.CLI.GET_FRAMEWORKS_COMPLETE_STATE
+    });
   }
 
   public getTemplateConfig(): any {
     return CoreTemplateStudio._templateConfig;
   }
 
+  /**
+   * The pages of the frameworks, only those of the language when one is given.
+   */
   public async getPages(
     projectType: string,
     frontendFramework: string,
-    backendFramework: string
+    backendFramework: string,
+    language?: string
   ): Promise<any> {
     const getPagesCommand = `${
       CONSTANTS.CLI.GET_PAGES_COMMAND_PREFIX
-    } -p ${projectType} -f ${frontendFramework} -b ${backendFramework}\n`;
-    return this.awaitCliEvent(
-      CONSTANTS.CLI.GET_PAGES_COMPLETE_STATE,
-      getPagesCommand
-    );
+    } -p ${projectType} -f ${frontendFramework} -b ${backendFramework}`;
+    const pages: any[] = (await this.supervisor.send({
+      command: getPagesCommand,
+      resultType: CONSTANTS.CLI.GET_PAGES_COMPLETE_STATE
+    })).map(this.tagTemplateSource);
+    return language
+      ? pages.filter(page => matchesLanguage(page.tags && page.tags.language, language))
+      : pages;
   }
 
   public async getFeatures(
@@ -186,49 +296,156 @@ export class CoreTemplateStudio {
     // to use this in client
     const getFeaturesCommand = `${
       CONSTANTS.CLI.GET_FEATURES_COMMAND_PREFIX
-    } -p ${projectType} -f ${frontendFramework} -b ${backendFramework}\n`;
-    return this.awaitCliEvent(
-      CONSTANTS.CLI.GET_FEATURES_COMPLETE_STATE,
-      getFeaturesCommand
-    );
+    } -p ${projectType} -f ${frontendFramework} -b ${backendFramework}`;
+    const features: any[] = await this.supervisor.send({
+      command: getFeaturesCommand,
+      resultType: CONSTANTS.CLI.GET_FEATURES_COMPLETE_STATE
+    });
+    return features.map(this.tagTemplateSource);
   }
 
   public async getProjectTypes(): Promise<any> {
     // to use this in client
     const getProjectTypesCommand = `${
       CONSTANTS.CLI.GET_PROJECT_TYPES_COMMAND_PREFIX
-    }\n`;
-    return this.awaitCliEvent(
-      CONSTANTS.CLI.GET_PROJECT_TYPES_COMPLETE_STATE,
-      getProjectTypesCommand
-    );
+    }`;
+    return this.supervisor.send({
+      command: getProjectTypesCommand,
+      resultType: CONSTANTS.CLI.GET_PROJECT_TYPES_COMPLETE_STATE
+    });
   }
 
+  /**
+   * Generates the project with its pages and services, those of the extra
+   * template roots included. Custom page routes are applied to the generated
+   * router and nav bar last. The progress of each item is sent to the
+   * progressHandler of the payload as the engine reports it.
+   */
   public async generate(payload: ICommandPayload): Promise<any> {
     const typedPayload = payload.payload as IGenerationPayloadType;
+    const homeName =
+      typedPayload.homeName ||
+      (typedPayload.pages.length > 0 ? typedPayload.pages[0].name : "");
+    validateRoutePaths(typedPayload.frontendFramework, typedPayload.pages, homeName);
+    const tracker = new GenerationProgressTracker(
+      await planGenerationItems(this.syncedTemplatesPath, typedPayload)
+    );
+    const reportProgress = (progress: IGenerationProgressType): void => {
+      if (payload.progressHandler) {
+        payload.progressHandler(progress);
+      }
+    };
+    const onProgress = (data: any): void => {
+      const progress = tracker.report(`${data}`);
+      payload.liveMessageHandler(`(${progress.percentage}%) ${data}`);
+      reportProgress(progress);
+    };
+
+    let result: any;
+    try {
+      result = await this.sendGenerate({ ...typedPayload, homeName }, onProgress);
+      await applyRoutePaths(
+        (result && result.generationPath) ||
+          path.join(typedPayload.path, typedPayload.projectName),
+        typedPayload.frontendFramework,
+        typedPayload.pages,
+        homeName
+      );
+    } catch (error) {
+      reportProgress(tracker.fail(`${error.message || error}`));
+      throw error;
+    }
+    reportProgress(tracker.complete());
+    return result;
+  }
+
+  /**
+   * Dry run of generate: the project is generated into a temporary folder
+   * instead of the selected location and described by a manifest. The files
+   * stay there for readPreviewFile until the next preview or until stop.
+   */
+  public async generatePreview(
+    payload: ICommandPayload
+  ): Promise<IGenerationManifest> {
+    const typedPayload = payload.payload as IGenerationPayloadType;
+    await this.removePreview();
+    const previewPath = await fse.mkdtemp(
+      path.join(os.tmpdir(), CONSTANTS.GENERATION_PREVIEW.TEMP_FOLDER_PREFIX)
+    );
+    this.previewProjectPath = path.join(previewPath, typedPayload.projectName);
+
+    await this.generate({
+      payload: { ...typedPayload, path: previewPath },
+      liveMessageHandler: payload.liveMessageHandler
+    });
+    return createGenerationManifest(
+      this.previewProjectPath,
+      path.join(typedPayload.path, typedPayload.projectName),
+      await attributeTemplateFiles(this.getTemplateSourcePaths(), typedPayload)
+    );
+  }
+
+  /**
+   * The template roots synced by the engines, built-in templates first.
+   */
+  public getTemplateSourcePaths(): string[] {
+    return (this.syncedTemplatesPath ? [this.syncedTemplatesPath] : []).concat(
+      this.templateSources
+    );
+  }
+
+  public async readPreviewFile(
+    filePath: string
+  ): Promise<{ content?: string; isBinary: boolean; isTruncated: boolean }> {
+    const previewProjectPath = this.previewProjectPath;
+    const absolutePath = previewProjectPath
+      ? path.resolve(previewProjectPath, filePath)
+      : "";
+    if (
+      !previewProjectPath ||
+      !absolutePath.startsWith(previewProjectPath + path.sep) ||
+      !(await fse.pathExists(absolutePath))
+    ) {
+      throw new Error(CONSTANTS.ERRORS.FILE_NOT_IN_GENERATION_PREVIEW(filePath));
+    }
+
+    const content = await fse.readFile(absolutePath);
+    if (content.indexOf(0) !== -1) {
+      return { isBinary: true, isTruncated: false };
+    }
+    const maxSize = CONSTANTS.GENERATION_PREVIEW.MAX_FILE_PREVIEW_SIZE;
+    return {
+      content: content.slice(0, maxSize).toString("utf8"),
+      isBinary: false,
+      isTruncated: content.length > maxSize
+    };
+  }
+
+  private async removePreview(): Promise<void> {
+    if (this.previewProjectPath) {
+      await fse.remove(path.dirname(this.previewProjectPath));
+      this.previewProjectPath = undefined;
+    }
+  }
+
+  private sendGenerate(
+    payload: IGenerationPayloadType,
+    onProgress: (data: any) => void
+  ): Promise<any> {
     const generatePayload = JSON.stringify(
-      this.makeEngineGenerationPayload(typedPayload)
+      this.makeEngineGenerationPayload(payload)
     );
     const generateCommand = `${
       CONSTANTS.CLI.GENERATE_COMMAND_PREFIX
-    } -d ${generatePayload}\n`;
-    const projectItemsToGenerateCount = 4; // Derived from CoreTS logic
-    const itemsToGenerateCount =
-      projectItemsToGenerateCount +
-      typedPayload.pages.length +
-      typedPayload.services.length;
-    let generatedItemsCount = 0;
-
-    this.cliEvents.on(CONSTANTS.CLI.GENERATE_PROGRESS_STATE, data => {
-      generatedItemsCount++;
-      const percentage = (generatedItemsCount / itemsToGenerateCount) * 100;
-      const messageWithProgress = `(${percentage.toFixed(0)}%) ${data}`;
-      payload.liveMessageHandler(messageWithProgress);
+    } -d ${generatePayload}`;
+
+    return this.supervisor.send({
+      command: generateCommand,
+      resultType: CONSTANTS.CLI.GENERATE_COMPLETE_STATE,
+      progressType: CONSTANTS.CLI.GENERATE_PROGRESS_STATE,
+      onProgress,
+      timeout: CONSTANTS.CLI.GENERATE_COMMAND_TIMEOUT
     });
-    return await this.awaitCliEvent(
-      CONSTANTS.CLI.GENERATE_COMPLETE_STATE,
-      generateCommand
-    );
   }
 
   private makeEngineGenerationPayload(
@@ -241,7 +458,9 @@ export class CoreTemplateStudio {
       frontendFramework,
       backendFramework,
       pages,
-      services
+      services,
+      homeName,
+      language
     } = payload;
 
     return {
@@ -250,9 +469,9 @@ export class CoreTemplateStudio {
       projectType: projectType,
       frontendFramework: frontendFramework,
       backendFramework: backendFramework,
-      language: "Any",
+      language: language || CONSTANTS.LANGUAGES.JAVASCRIPT,
       platform: "Web",
-      homeName: "Test",
+      homeName: homeName || (pages.length > 0 ? pages[0].name : ""),
       pages: pages.map((page: any) => ({
         name: page.name,
         templateid: page.identity
@@ -264,19 +483,22 @@ export class CoreTemplateStudio {
     };
   }
 
-  public stop(): void {
-    if (this._processCli) {
-      this.killProcess(this._processCli);
-    }
+  /**
+   * Aborts the command CoreTS is currently running. The CLI cannot stop a
+   * command halfway, so its process is replaced by a new one that is synced
+   * against the same templates.
+   */
+  public async cancel(): Promise<void> {
+    await this.supervisor.restart(CONSTANTS.ERRORS.GENERATION_CANCELLED);
   }
 
-  private killProcess(processToKill: ChildProcess): void {
-    if (process.platform === CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION) {
-      const pid = processToKill.pid;
-      const spawn = require("child_process").spawn;
-      spawn("taskkill", ["/pid", pid, "/f", "/t"]);
-    } else {
-      processToKill.kill("SIGKILL");
-    }
+  public stop(): void {
+    this.supervisor.stop();
+    this.removeTemplateSources().catch(error =>
+      this.logHandler("warn", `Could not remove the merged templates: ${error.message}`)
+    );
+    this.removePreview().catch(error =>
+      this.logHandler("warn", `Could not remove the generation preview: ${error.message}`)
+    );
   }
 }
@@ -1,90 +1,139 @@
-import { spawn, ChildProcess } from "child_process";
 import * as vscode from "vscode";
-import { IVSCodeProgressType } from "./types/vscodeProgressType";
 import * as os from "os";
+import { IVSCodeProgressType } from "./types/vscodeProgressType";
 import { Logger } from "./utils/logger";
+import { CONSTANTS } from "./constants";
+import { DeploymentCancelledError } from "./errors";
+import {
+  detectDeployStack,
+  getBuildSteps,
+  ICancellationSignal,
+  runBuildStep,
+  zipDeployProject
+} from "./deployPipeline";
+import { IDeployDefault, Settings } from "./azure/utils/settings";
+import { AzureAuth } from "./azure/azure-auth/azureAuth";
+import { ZipDeployHelper } from "./azure/azure-functions/utils/zipDeployHelper";
+import { ZipDeployClient } from "./azure/azure-app-service/zipDeployClient";
 
 export class Deploy {
-  private folderPath: string | undefined;
-  private progressObject!: vscode.Progress<IVSCodeProgressType>;
-
   public static getInstance(): Deploy {
     return new Deploy();
   }
 
   constructor() {
-    const folderPath = Deploy.getCurrentWorkingDirectory();
-    if (!this.checkValidFolderPath(folderPath)) {
-      return;
-    }
-    this.folderPath = folderPath;
     this.prepareForDeployment();
   }
 
-  private checkValidFolderPath(folderPath: string | undefined): boolean {
+  /**
+   * Builds the project with the steps of its stack and, once every step
+   * succeeded, zip deploys it to the App Service created with the project. The
+   * App Service extension deploys projects without one. The output of the
+   * steps goes to the Web Template Studio output channel.
+   */
+  private async prepareForDeployment(): Promise<void> {
+    const folderPath = await Deploy.selectProjectFolder();
     if (!folderPath) {
-      vscode.window.showErrorMessage("No Project Opened Up");
-      return false;
+      return;
+    }
+    const stack = await detectDeployStack(folderPath);
+    if (!stack) {
+      vscode.window.showErrorMessage(CONSTANTS.ERRORS.DEPLOY_UNKNOWN_STACK(folderPath));
+      return;
     }
-    return true;
-  }
 
-  private async prepareForDeployment(): Promise<void> {
-    vscode.window.withProgress(
-      {
-        location: vscode.ProgressLocation.Notification,
-        title: "Preparing for Deployment"
-      },
-      async (progress: vscode.Progress<IVSCodeProgressType>) => {
-        this.progressObject = progress;
-        Logger.appendLog("EXTENSION", "info", "Preparing for Deployment");
-        await this.installDependencies();
-        await this.buildProject();
-        Logger.appendLog("EXTENSION", "info", "Build Completed");
-        vscode.commands.executeCommand("appService.Deploy");
-      }
-    );
-  }
+    const deployDefault = await Settings.getDeployDefault(folderPath);
 
-  private static getCurrentWorkingDirectory(): string | undefined {
-    const folder = vscode.workspace.workspaceFolders
-      ? vscode.workspace.workspaceFolders[0]
-      : undefined;
-    return folder ? folder.uri.fsPath : undefined;
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: CONSTANTS.INFO.DEPLOY_PREPARING,
+          cancellable: true
+        },
+        async (
+          progress: vscode.Progress<IVSCodeProgressType>,
+          token: vscode.CancellationToken
+        ) => {
+          Logger.display();
+          Logger.appendLog("EXTENSION", "info", CONSTANTS.INFO.DEPLOY_STACK_DETECTED(stack, folderPath));
+          for (const step of getBuildSteps(stack, os.platform())) {
+            Logger.appendLog("EXTENSION", "info", step.description);
+            progress.report({ message: step.description });
+            await runBuildStep(
+              step,
+              folderPath,
+              (line, isError) => Logger.appendLog("EXTENSION", isError ? "warn" : "info", line),
+              token
+            );
+          }
+          Logger.appendLog("EXTENSION", "info", CONSTANTS.INFO.DEPLOY_BUILD_COMPLETED);
+          if (deployDefault) {
+            await Deploy.zipDeploy(folderPath, deployDefault, progress, token);
+          }
+        }
+      );
+    } catch (error) {
+      Logger.appendLog("EXTENSION", "error", error.message);
+      if (error instanceof DeploymentCancelledError) {
+        vscode.window.showInformationMessage(error.message);
+      } else {
+        vscode.window.showErrorMessage(error.message);
+      }
+      return;
+    }
+    if (deployDefault) {
+      vscode.window.showInformationMessage(
+        CONSTANTS.INFO.ZIP_DEPLOY_COMPLETED(deployDefault.appName)
+      );
+    } else {
+      vscode.commands.executeCommand(CONSTANTS.DEPLOY.APP_SERVICE_DEPLOY_COMMAND);
+    }
   }
 
-  private async installDependencies(): Promise<void> {
-    const command = os.platform() == "win32" ? "npm.cmd" : "npm";
-    this.ReportProgress("Installing Dependencies");
-    return Deploy.promiseFromChildProcess(
-      spawn(command, ["install"], {
-        cwd: this.folderPath
-      })
+  private static async zipDeploy(
+    folderPath: string,
+    deployDefault: IDeployDefault,
+    progress: vscode.Progress<IVSCodeProgressType>,
+    cancellation: ICancellationSignal
+  ): Promise<void> {
+    await AzureAuth.login();
+    const subscriptionItem = (await AzureAuth.getSubscriptions()).find(
+      subscription => subscription.subscriptionId === deployDefault.subscriptionId
     );
-  }
-
-  private async buildProject(): Promise<void> {
-    const command = os.platform() == "win32" ? "npm.cmd" : "npm";
-    this.ReportProgress("Building Project");
-    return Deploy.promiseFromChildProcess(
-      spawn(command, ["run-script", "build"], {
-        cwd: this.folderPath
-      })
+    if (!subscriptionItem) {
+      throw new Error(CONSTANTS.ERRORS.DEPLOY_SUBSCRIPTION_NOT_FOUND(deployDefault.subscriptionId));
+    }
+    const accessToken = await ZipDeployHelper.getAccessToken(subscriptionItem.session.credentials);
+    await zipDeployProject(
+      folderPath,
+      deployDefault.deploySubpath,
+      ZipDeployClient.forApp(deployDefault.appName, accessToken),
+      message => {
+        Logger.appendLog("EXTENSION", "info", message);
+        progress.report({ message });
+      },
+      cancellation
     );
   }
 
-  private static promiseFromChildProcess(child: ChildProcess): Promise<void> {
-    return new Promise(function(resolve, reject) {
-      child.addListener("error", reject);
-      child.addListener("exit", resolve);
-      child.stderr.on("data", data =>
-        Logger.appendLog("EXTENSION", "error", data.toString())
-      );
+  /**
+   * Deploys the only workspace folder, or the one picked by the user in
+   * multi-root workspaces.
+   */
+  private static async selectProjectFolder(): Promise<string | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      vscode.window.showErrorMessage(CONSTANTS.ERRORS.DEPLOY_NO_PROJECT_OPEN);
+      return undefined;
+    }
+    if (workspaceFolders.length === 1) {
+      return workspaceFolders[0].uri.fsPath;
+    }
+    const folder = await vscode.window.showWorkspaceFolderPick({
+      placeHolder: CONSTANTS.INFO.DEPLOY_FOLDER_PLACEHOLDER,
+      ignoreFocusOut: true
     });
-  }
-
-  private ReportProgress(message: string): void {
-    Logger.appendLog("EXTENSION", "info", message);
-    this.progressObject.report({ message });
+    return folder && folder.uri.fsPath;
   }
 }
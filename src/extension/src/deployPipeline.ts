@@ -0,0 +1,164 @@
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import { CONSTANTS } from "./constants";
+import { DeploymentCancelledError, DeploymentError } from "./errors";
+import { createDeploymentZip } from "./azure/azure-app-service/deploymentPackage";
+import { ZipDeployClient } from "./azure/azure-app-service/zipDeployClient";
+
+export enum DeployStack {
+  Node = "Node",
+  Moleculer = "Moleculer",
+  Flask = "Flask"
+}
+
+export interface IBuildStep {
+  description: string;
+  command: string;
+  args: string[];
+}
+
+/**
+ * The part of vscode.CancellationToken used by the pipeline, so the steps can
+ * run outside of VS Code.
+ */
+export interface ICancellationSignal {
+  isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * Reads the stack of a generated project from its server folder: Flask servers
+ * come with a requirements.txt, Moleculer servers depend on moleculer and any
+ * other server with a package.json is an Express server.
+ */
+export async function detectDeployStack(
+  projectPath: string
+): Promise<DeployStack | undefined> {
+  const serverPath = path.join(projectPath, CONSTANTS.APP_SERVICE_DEPLOYMENT.SERVER_FOLDER);
+  if (await fse.pathExists(path.join(serverPath, CONSTANTS.DEPLOY.REQUIREMENTS_FILE))) {
+    return DeployStack.Flask;
+  }
+  const packageJsonPath = path.join(serverPath, CONSTANTS.DEPLOY.PACKAGE_JSON_FILE);
+  if (!(await fse.pathExists(packageJsonPath))) {
+    return undefined;
+  }
+  const { dependencies = {} } = await fse.readJson(packageJsonPath);
+  return dependencies[CONSTANTS.DEPLOY.MOLECULER_DEPENDENCY]
+    ? DeployStack.Moleculer
+    : DeployStack.Node;
+}
+
+/**
+ * Every stack installs the root dependencies and builds the frontend into the
+ * server folder; Flask projects also install the Python requirements with the
+ * install-requirements script of the project.
+ */
+export function getBuildSteps(stack: DeployStack, platform: string): IBuildStep[] {
+  const npm = platform === CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION ? "npm.cmd" : "npm";
+  const steps: IBuildStep[] = [
+    { description: CONSTANTS.INFO.DEPLOY_INSTALLING_DEPENDENCIES, command: npm, args: ["install"] },
+    { description: CONSTANTS.INFO.DEPLOY_BUILDING_PROJECT, command: npm, args: ["run-script", "build"] }
+  ];
+  if (stack === DeployStack.Flask) {
+    steps.push({
+      description: CONSTANTS.INFO.DEPLOY_INSTALLING_REQUIREMENTS,
+      command: npm,
+      args: ["run-script", "install-requirements"]
+    });
+  }
+  return steps;
+}
+
+/**
+ * Runs a build step in the project folder, passing each line it prints to
+ * onOutput. Rejects when the step can't start, exits with a non-zero code or
+ * is cancelled, in which case the process is killed.
+ */
+export function runBuildStep(
+  step: IBuildStep,
+  projectPath: string,
+  onOutput: (line: string, isError: boolean) => void,
+  cancellation?: ICancellationSignal
+): Promise<void> {
+  const commandLine = [step.command, ...step.args].join(" ");
+  if (cancellation && cancellation.isCancellationRequested) {
+    return Promise.reject(new DeploymentCancelledError(CONSTANTS.ERRORS.DEPLOY_CANCELLED));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(step.command, step.args, { cwd: projectPath });
+    let cancelled = false;
+    const cancellationListener = cancellation && cancellation.onCancellationRequested(() => {
+      cancelled = true;
+      child.kill();
+    });
+    const forwardLines = (isError: boolean) => (data: Buffer): void =>
+      data
+        .toString()
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== "")
+        .forEach(line => onOutput(line, isError));
+    child.stdout.on("data", forwardLines(false));
+    child.stderr.on("data", forwardLines(true));
+
+    let finished = false;
+    const finish = (error?: Error): void => {
+      // A process that fails to start can report both an error and a close
+      if (finished) {
+        return;
+      }
+      finished = true;
+      if (cancellationListener) {
+        cancellationListener.dispose();
+      }
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    child.on("error", error =>
+      finish(new DeploymentError(CONSTANTS.ERRORS.DEPLOY_STEP_NOT_STARTED(commandLine, error.message)))
+    );
+    child.on("close", (exitCode: number | null) => {
+      if (cancelled) {
+        finish(new DeploymentCancelledError(CONSTANTS.ERRORS.DEPLOY_CANCELLED));
+      } else if (exitCode !== 0) {
+        finish(new DeploymentError(CONSTANTS.ERRORS.DEPLOY_STEP_FAILED(commandLine, String(exitCode))));
+      } else {
+        finish();
+      }
+    });
+  });
+}
+
+/**
+ * Packages the deploy subpath of the project into a temporary zip and pushes
+ * it with the zip deploy client. Returns the files that were deployed.
+ */
+export async function zipDeployProject(
+  projectPath: string,
+  deploySubpath: string,
+  client: ZipDeployClient,
+  onStatus: (message: string) => void,
+  cancellation?: ICancellationSignal
+): Promise<string[]> {
+  const tempFolder = await fse.mkdtemp(
+    path.join(os.tmpdir(), CONSTANTS.ZIP_DEPLOY.TEMP_FOLDER_PREFIX)
+  );
+  try {
+    onStatus(CONSTANTS.INFO.ZIP_DEPLOY_PACKAGING);
+    const zipPath = path.join(tempFolder, CONSTANTS.ZIP_DEPLOY.ZIP_FILE_NAME);
+    const files = await createDeploymentZip(projectPath, deploySubpath, zipPath);
+    if (cancellation && cancellation.isCancellationRequested) {
+      throw new DeploymentCancelledError(CONSTANTS.ERRORS.DEPLOY_CANCELLED);
+    }
+    onStatus(CONSTANTS.INFO.ZIP_DEPLOY_UPLOADING);
+    await client.deploy(zipPath, onStatus, cancellation);
+    return files;
+  } finally {
+    await fse.remove(tempFolder);
+  }
+}
@@ -19,6 +19,13 @@ export class DeploymentError extends Error {
   }
 }
 
+export class DeploymentCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentCancelledError";
+  }
+}
+
 export class FileError extends Error {
   constructor(message: string) {
     super(message);
@@ -53,3 +60,10 @@ export class AppServiceError extends Error {
     this.name = "AppServiceError";
   }
 }
+
+export class EngineProcessExitedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EngineProcessExitedError";
+  }
+}
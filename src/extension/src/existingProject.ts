@@ -0,0 +1,349 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import {
+  getParameterReplacements,
+  ITemplateConfig,
+  listTemplateFiles,
+  matchesFramework,
+  POSTACTION_MARKER,
+  readTemplateConfig,
+  replaceParameters,
+  TEMPLATE_CONFIG_FOLDER
+} from "./utils/templateFiles";
+import { diffLines, IDiffLine, mergeThreeWay } from "./utils/textMerge";
+
+export interface ITemplateItem {
+  name: string;
+  identity: string;
+}
+
+export interface IExistingProject {
+  projectName: string;
+  path: string;
+  projectType: string;
+  frontendFramework: string;
+  backendFramework: string;
+  language?: string;
+  pages: ITemplateItem[];
+  services: ITemplateItem[];
+}
+
+export type ProjectFileChangeStatus = "added" | "modified" | "conflict";
+
+export interface IProjectFileChange {
+  path: string;
+  status: ProjectFileChangeStatus;
+  isBinary: boolean;
+  diff: IDiffLine[];
+  newContent: Buffer;
+  templateOutput: Buffer;
+}
+
+interface ITemplate {
+  folder: string;
+  config: ITemplateConfig;
+  files: string[];
+}
+
+const SOURCE_NAME_PARAMETER = "Param_SourceName";
+const FEATURE_COMPOSITION_FILTER = /^\$backendframework == (\S+) & identity == (\S+)$/;
+
+async function readTemplates(templatesRoot: string): Promise<ITemplate[]> {
+  const templates: ITemplate[] = [];
+  const readChildTemplates = async (parentFolder: string): Promise<void> => {
+    if (!(await fse.pathExists(parentFolder))) {
+      return;
+    }
+    for (const entry of await fse.readdir(parentFolder)) {
+      const folder = path.join(parentFolder, entry);
+      if (await fse.pathExists(path.join(folder, TEMPLATE_CONFIG_FOLDER))) {
+        const files = (await listTemplateFiles(folder)).filter(
+          file => file.indexOf(POSTACTION_MARKER) === -1
+        );
+        templates.push({ folder, config: await readTemplateConfig(folder), files });
+      }
+    }
+  };
+
+  for (const templatesFolder of ["Projects", "Pages", "Features"]) {
+    await readChildTemplates(path.join(templatesRoot, templatesFolder));
+  }
+  const compositionRoot = path.join(templatesRoot, "_composition");
+  if (await fse.pathExists(compositionRoot)) {
+    for (const frameworkFolder of await fse.readdir(compositionRoot)) {
+      await readChildTemplates(path.join(compositionRoot, frameworkFolder));
+    }
+  }
+  return templates;
+}
+
+async function allFilesExist(projectPath: string, files: string[]): Promise<boolean> {
+  for (const file of files) {
+    if (!(await fse.pathExists(path.join(projectPath, file)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+const outputFiles = (template: ITemplate, itemName: string, projectName: string): string[] => {
+  const replacements = getParameterReplacements(template.config.sourceName, itemName, projectName);
+  return template.files.map(file => replaceParameters(file, replacements));
+};
+
+/**
+ * Finds the framework whose project templates have all their files in the
+ * project. Templates shared by several frameworks are not conclusive and are
+ * skipped; the framework with the most matching files wins.
+ */
+async function detectFramework(
+  projectPath: string,
+  projectName: string,
+  projectTemplates: ITemplate[],
+  frameworkTag: string
+): Promise<ITemplate | undefined> {
+  let detected: ITemplate | undefined;
+  for (const template of projectTemplates) {
+    const framework = template.config.tags[frameworkTag];
+    if (!framework || framework === "all" || framework.indexOf("|") !== -1) {
+      continue;
+    }
+    const files = outputFiles(template, projectName, projectName);
+    if (
+      files.length > 0 &&
+      (!detected || files.length > detected.files.length) &&
+      (await allFilesExist(projectPath, files))
+    ) {
+      detected = template;
+    }
+  }
+  return detected;
+}
+
+/**
+ * The item names a page template could have been generated with, read from the
+ * folder that holds the first file whose path depends on the item name.
+ */
+async function findCandidateNames(projectPath: string, template: ITemplate): Promise<string[]> {
+  const sourceName = template.config.sourceName;
+  const namedFile = template.files.find(
+    file => file.indexOf(sourceName) !== -1 || file.indexOf(SOURCE_NAME_PARAMETER) !== -1
+  );
+  if (!namedFile) {
+    return [];
+  }
+  const segments = namedFile.split(path.sep);
+  const namedSegmentIndex = segments.findIndex(
+    segment => segment.indexOf(sourceName) !== -1 || segment.indexOf(SOURCE_NAME_PARAMETER) !== -1
+  );
+  const namedSegment = segments[namedSegmentIndex];
+  const nameMatch = /Param_SourceName(_Kebab|_Pascal)?/.exec(namedSegment);
+  const nameToken = nameMatch && namedSegment.indexOf(sourceName) === -1 ? nameMatch[0] : sourceName;
+  const [prefix, suffix] = [
+    namedSegment.slice(0, namedSegment.indexOf(nameToken)),
+    namedSegment.slice(namedSegment.indexOf(nameToken) + nameToken.length)
+  ];
+  const parentFolder = path.join(projectPath, ...segments.slice(0, namedSegmentIndex));
+  if (!(await fse.pathExists(parentFolder))) {
+    return [];
+  }
+  return (await fse.readdir(parentFolder))
+    .filter(
+      entry =>
+        entry.length > prefix.length + suffix.length &&
+        entry.startsWith(prefix) &&
+        entry.endsWith(suffix)
+    )
+    .map(entry => entry.slice(prefix.length, entry.length - suffix.length));
+}
+
+/**
+ * Detects a project generated by the wizard from its files: the frameworks
+ * come from the project templates, the pages from the page templates whose
+ * files exist under some item name and the Cosmos features from the
+ * compositions they add to the backend. Returns undefined when no frontend or
+ * backend framework matches.
+ */
+export async function detectGeneratedProject(
+  projectPath: string,
+  templateSourcePaths: string[]
+): Promise<IExistingProject | undefined> {
+  const projectName = path.basename(projectPath);
+  let templates: ITemplate[] = [];
+  for (const sourcePath of templateSourcePaths) {
+    templates = templates.concat(await readTemplates(path.join(sourcePath, "templates", "Web")));
+  }
+  const templatesOfType = (type: string): ITemplate[] =>
+    templates.filter(template => template.config.tags["wts.type"] === type);
+
+  const projectTemplates = templatesOfType("project");
+  const frontend = await detectFramework(
+    projectPath,
+    projectName,
+    projectTemplates,
+    "wts.frontendframework"
+  );
+  const backend = await detectFramework(
+    projectPath,
+    projectName,
+    projectTemplates,
+    "wts.backendframework"
+  );
+  if (!frontend || !backend) {
+    return undefined;
+  }
+  const frontendFramework = frontend.config.tags["wts.frontendframework"];
+  const backendFramework = backend.config.tags["wts.backendframework"];
+
+  // Files of the project templates, such as the nav bar, and the files the
+  // frontend compositions add under a fixed name, such as the warning message
+  // component, can look like pages
+  const projectFiles = new Set<string>();
+  projectTemplates
+    .filter(
+      template =>
+        matchesFramework(template.config.tags["wts.frontendframework"], frontendFramework) &&
+        matchesFramework(template.config.tags["wts.backendframework"], backendFramework)
+    )
+    .forEach(template =>
+      outputFiles(template, projectName, projectName).forEach(file => projectFiles.add(file))
+    );
+  templatesOfType("composition")
+    .filter(
+      template =>
+        (template.config.tags["wts.compositionFilter"] || "").indexOf(
+          `$frontendframework == ${frontendFramework}`
+        ) !== -1
+    )
+    .forEach(template =>
+      template.files
+        .filter(
+          file => file.indexOf(template.config.sourceName) === -1 && file.indexOf(SOURCE_NAME_PARAMETER) === -1
+        )
+        .forEach(file => projectFiles.add(file))
+    );
+
+  const pagesByName = new Map<string, ITemplate>();
+  for (const template of templatesOfType("page")) {
+    if (!matchesFramework(template.config.tags["wts.frontendframework"], frontendFramework)) {
+      continue;
+    }
+    for (const name of await findCandidateNames(projectPath, template)) {
+      const files = outputFiles(template, name, projectName);
+      const detected = pagesByName.get(name);
+      if (
+        (!detected || detected.files.length < files.length) &&
+        !files.some(file => projectFiles.has(file)) &&
+        (await allFilesExist(projectPath, files))
+      ) {
+        pagesByName.set(name, template);
+      }
+    }
+  }
+
+  const features = templatesOfType("feature");
+  const services: ITemplateItem[] = [];
+  for (const template of templatesOfType("composition")) {
+    const filter = FEATURE_COMPOSITION_FILTER.exec(template.config.tags["wts.compositionFilter"] || "");
+    const feature = filter && features.find(featureTemplate => featureTemplate.config.identity === filter[2]);
+    if (
+      filter &&
+      feature &&
+      filter[1] === backendFramework &&
+      template.files.length > 0 &&
+      !services.some(service => service.identity === feature.config.identity) &&
+      (await allFilesExist(projectPath, outputFiles(template, feature.config.name, projectName)))
+    ) {
+      services.push({ name: feature.config.name, identity: feature.config.identity });
+    }
+  }
+
+  return {
+    projectName,
+    path: path.dirname(projectPath),
+    projectType: frontend.config.tags["wts.projecttype"],
+    frontendFramework,
+    backendFramework,
+    language: frontend.config.tags.language,
+    pages: Array.from(pagesByName.entries()).map(([name, template]) => ({
+      name,
+      identity: template.config.identity
+    })),
+    services
+  };
+}
+
+export const isBinary = (content: Buffer): boolean => content.indexOf(0) !== -1;
+
+export const readIfExists = async (filePath: string): Promise<Buffer | undefined> =>
+  (await fse.pathExists(filePath)) ? fse.readFile(filePath) : undefined;
+
+/**
+ * Compares two generations of the same project, baseline with the existing
+ * items and target with the new items added, and merges the difference into
+ * the files of the project. Files created by the new items are added, files
+ * changed by them are merged with the user's changes and files the user
+ * already has in a different form are reported as conflicts.
+ */
+export async function planProjectChanges(
+  projectPath: string,
+  baselinePath: string,
+  targetPath: string
+): Promise<IProjectFileChange[]> {
+  const changes: IProjectFileChange[] = [];
+  for (const file of await listTemplateFiles(targetPath)) {
+    const target = await fse.readFile(path.join(targetPath, file));
+    const baseline = await readIfExists(path.join(baselinePath, file));
+    const current = await readIfExists(path.join(projectPath, file));
+    if ((baseline && baseline.equals(target)) || (current && current.equals(target))) {
+      continue;
+    }
+
+    const change = {
+      path: file.split(path.sep).join("/"),
+      isBinary: isBinary(target) || (!!current && isBinary(current))
+    };
+    if (!current) {
+      changes.push({
+        ...change,
+        status: baseline ? "conflict" : "added",
+        diff: change.isBinary ? [] : diffLines("", target.toString("utf8")),
+        newContent: target,
+        templateOutput: target
+      });
+    } else if (!baseline || change.isBinary) {
+      changes.push({
+        ...change,
+        status: "conflict",
+        diff: change.isBinary ? [] : diffLines(current.toString("utf8"), target.toString("utf8")),
+        newContent: target,
+        templateOutput: target
+      });
+    } else {
+      const merge = mergeThreeWay(
+        baseline.toString("utf8"),
+        current.toString("utf8"),
+        target.toString("utf8")
+      );
+      if (merge.content !== current.toString("utf8")) {
+        changes.push({
+          ...change,
+          status: merge.hasConflicts ? "conflict" : "modified",
+          diff: diffLines(current.toString("utf8"), merge.content),
+          newContent: Buffer.from(merge.content, "utf8"),
+          templateOutput: target
+        });
+      }
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export async function applyProjectChanges(
+  projectPath: string,
+  changes: IProjectFileChange[]
+): Promise<void> {
+  for (const change of changes) {
+    await fse.outputFile(path.join(projectPath, ...change.path.split("/")), change.newContent);
+  }
+}
@@ -1,6 +1,9 @@
 import * as vscode from "vscode";
 import { Controller } from "./controller";
 import { Deploy } from "./deploy";
+import { AddToProjectExperience } from "./addToProjectExperience";
+import { QuickPickExperience } from "./quickPickExperience";
+import { UpgradeProjectExperience } from "./upgradeProjectExperience";
 
 export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
@@ -10,6 +13,27 @@ export function activate(context: vscode.ExtensionContext): void {
         Controller.getInstance(context);
       }
     ),
+    vscode.commands.registerCommand(
+      "webTemplateStudioExtension.quickPickLaunch",
+      async () => {
+        await new QuickPickExperience(context).launch();
+      }
+    ),
+    vscode.commands.registerCommand(
+      "webTemplateStudioExtension.addToProject",
+      async () => {
+        const projectPath = await AddToProjectExperience.selectProjectFolder();
+        if (projectPath) {
+          Controller.getInstance(context, projectPath);
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "webTemplateStudioExtension.upgradeProject",
+      async () => {
+        await new UpgradeProjectExperience(context).launch();
+      }
+    ),
     vscode.commands.registerCommand(
       "webTemplateStudioExtension.deployApp",
       async () => {
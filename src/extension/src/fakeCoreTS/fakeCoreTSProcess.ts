@@ -0,0 +1,116 @@
+import * as path from "path";
+import { EventEmitter } from "events";
+import { CONSTANTS } from "../constants";
+import { FakeTemplateEngine } from "./fakeTemplateEngine";
+
+/**
+ * In-process stand-in for the Microsoft.Templates.Cli child process. It reads
+ * commands written to stdin and answers on stdout with the same line-delimited
+ * JSON messages, so it can be used wherever the engine binary is spawned.
+ */
+export class FakeCoreTSProcess extends EventEmitter {
+  public stdout = new EventEmitter();
+  public stderr = new EventEmitter();
+  public stdin = {
+    write: (command: string): boolean => {
+      command
+        .split("\n")
+        .filter(line => line.trim() !== "")
+        .forEach(line => setImmediate(() => this.handleCommand(line)));
+      return true;
+    }
+  };
+
+  private engine = new FakeTemplateEngine();
+  private exited = false;
+
+  constructor(private workingDirectory: string) {
+    super();
+  }
+
+  public kill(signal?: string): void {
+    if (!this.exited) {
+      this.exited = true;
+      setImmediate(() => this.emit("exit", null, signal || "SIGTERM"));
+    }
+  }
+
+  private async handleCommand(line: string): Promise<void> {
+    const separatorIndex = line.indexOf(" ");
+    const commandName = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const commandArguments = separatorIndex === -1 ? "" : line.slice(separatorIndex + 1);
+    const options = this.parseOptions(commandArguments);
+
+    try {
+      switch (commandName) {
+        case CONSTANTS.CLI.SYNC_COMMAND_PREFIX:
+          this.reply(
+            CONSTANTS.CLI.SYNC_COMPLETE_STATE,
+            await this.engine.sync(
+              path.resolve(this.workingDirectory, options.p),
+              content => this.reply(CONSTANTS.CLI.SYNC_PROGRESS_STATE, content)
+            )
+          );
+          break;
+        case CONSTANTS.CLI.GET_PROJECT_TYPES_COMMAND_PREFIX:
+          this.reply(
+            CONSTANTS.CLI.GET_PROJECT_TYPES_COMPLETE_STATE,
+            await this.engine.getProjectTypes()
+          );
+          break;
+        case CONSTANTS.CLI.GET_FRAMEWORKS_COMMAND_PREFIX:
+          this.reply(
+            CONSTANTS.CLI.GET_FRAMEWORKS_COMPLETE_STATE,
+            await this.engine.getFrameworks()
+          );
+          break;
+        case CONSTANTS.CLI.GET_PAGES_COMMAND_PREFIX:
+          this.reply(
+            CONSTANTS.CLI.GET_PAGES_COMPLETE_STATE,
+            await this.engine.getPages(options.p, options.f, options.b)
+          );
+          break;
+        case CONSTANTS.CLI.GET_FEATURES_COMMAND_PREFIX:
+          this.reply(
+            CONSTANTS.CLI.GET_FEATURES_COMPLETE_STATE,
+            await this.engine.getFeatures(options.p, options.f, options.b)
+          );
+          break;
+        case CONSTANTS.CLI.GENERATE_COMMAND_PREFIX: {
+          const payload = JSON.parse(commandArguments.replace(/^-d\s+/, ""));
+          payload.genPath = path.resolve(this.workingDirectory, payload.genPath);
+          this.reply(
+            CONSTANTS.CLI.GENERATE_COMPLETE_STATE,
+            await this.engine.generate(payload, content =>
+              this.reply(CONSTANTS.CLI.GENERATE_PROGRESS_STATE, content)
+            )
+          );
+          break;
+        }
+        default:
+          throw new Error(`Unknown command '${commandName}'`);
+      }
+    } catch (error) {
+      if (!this.exited) {
+        this.stderr.emit("data", `Error: ${error.message}\n`);
+      }
+    }
+  }
+
+  private parseOptions(commandArguments: string): { [option: string]: string } {
+    const options: { [option: string]: string } = {};
+    const optionPattern = /-(\w)\s+(.*?)(?=\s+-\w\s|$)/g;
+    let match = optionPattern.exec(commandArguments);
+    while (match) {
+      options[match[1]] = match[2];
+      match = optionPattern.exec(commandArguments);
+    }
+    return options;
+  }
+
+  private reply(messageType: string, content: any): void {
+    if (!this.exited) {
+      this.stdout.emit("data", `${JSON.stringify({ messageType, content })}\n`);
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "../constants";
+import { IEngineGenerationPayloadType } from "../types/engineGenerationPayloadType";
+import {
+  getParameterReplacements,
+  ITemplateConfig,
+  listTemplateFiles,
+  matchesCompositionFilter,
+  matchesFramework,
+  matchesLanguage,
+  readTemplateConfig,
+  replaceParameters,
+  TEMPLATE_CONFIG_FOLDER
+} from "../utils/templateFiles";
+import {
+  getFailedPostactionPath,
+  getPostactionTarget,
+  isGlobalPostaction,
+  isPostaction,
+  mergePostaction
+} from "./postactionMerge";
+
+interface ITemplate {
+  folder: string;
+  config: ITemplateConfig;
+}
+
+interface IGeneratedItem {
+  template: ITemplate;
+  name: string;
+}
+
+interface IPostaction {
+  sourcePath: string;
+  targetPath: string;
+  content: string;
+}
+
+const COMPOSITION_FOLDER = "_composition";
+
+const FAKE_TEMPLATES_VERSION = "0.0.0-local";
+
+const parseLicenses = (licenses: string | undefined): { text: string; url: string }[] => {
+  const parsedLicenses: { text: string; url: string }[] = [];
+  const licensePattern = /\[([^\]]+)\]\(([^)]+)\)/g;
+  let match = licensePattern.exec(licenses || "");
+  while (match) {
+    parsedLicenses.push({ text: match[1], url: match[2] });
+    match = licensePattern.exec(licenses || "");
+  }
+  return parsedLicenses;
+};
+
+/**
+ * Reads the Web templates the way CoreTS does for the commands the wizard uses.
+ * Generation copies the matching project, page and feature folders with their
+ * source name parameters replaced, adds the composition templates whose filter
+ * matches a generated item and merges the postactions last.
+ */
+export class FakeTemplateEngine {
+  private templatesRoot: string | undefined;
+
+  public async sync(
+    templatesPath: string,
+    onProgress: (content: any) => void
+  ): Promise<any> {
+    const templatesRoot = path.join(templatesPath, "templates", "Web");
+    if (!(await fse.pathExists(path.join(templatesRoot, "_catalog")))) {
+      throw new Error(`No template catalog found under ${templatesRoot}`);
+    }
+    onProgress({ status: "Loading templates", progress: 50 });
+    this.templatesRoot = templatesRoot;
+    onProgress({ status: "Templates loaded", progress: 100 });
+
+    return {
+      templatesVersion: FAKE_TEMPLATES_VERSION,
+      itemNameValidationConfig: await fse.readJson(
+        path.join(templatesRoot, "itemNameValidation.config.json")
+      ),
+      projectNameValidationConfig: await fse.readJson(
+        path.join(templatesRoot, "projectNameValidation.config.json")
+      )
+    };
+  }
+
+  public async getProjectTypes(): Promise<any[]> {
+    return fse.readJson(path.join(this.getCatalogPath(), "projectTypes.json"));
+  }
+
+  public async getFrameworks(): Promise<any[]> {
+    const frontendFrameworks = await this.readFrameworks("frontendframeworks", "frontend");
+    const backendFrameworks = await this.readFrameworks("backendframeworks", "backend");
+    return frontendFrameworks.concat(backendFrameworks);
+  }
+
+  public async getPages(
+    projectType: string,
+    frontendFramework: string,
+    backendFramework: string
+  ): Promise<any[]> {
+    const pages = await this.findTemplates(
+      ["Pages"],
+      "page",
+      projectType,
+      frontendFramework,
+      backendFramework
+    );
+    return Promise.all(pages.map(page => this.toTemplateInfo(page)));
+  }
+
+  public async getFeatures(
+    projectType: string,
+    frontendFramework: string,
+    backendFramework: string
+  ): Promise<any[]> {
+    const features = await this.findTemplates(
+      ["Features"],
+      "feature",
+      projectType,
+      frontendFramework,
+      backendFramework
+    );
+    return Promise.all(features.map(feature => this.toTemplateInfo(feature)));
+  }
+
+  public async generate(
+    payload: IEngineGenerationPayloadType,
+    onProgress: (content: any) => void
+  ): Promise<any> {
+    const {
+      projectName,
+      genPath,
+      projectType,
+      frontendFramework,
+      backendFramework
+    } = payload;
+    const language = payload.language || CONSTANTS.LANGUAGES.JAVASCRIPT;
+    const outputPath = path.join(genPath, projectName);
+    const projects = (await this.findTemplates(
+      ["Projects"],
+      "project",
+      projectType,
+      frontendFramework,
+      backendFramework
+    )).filter(project => matchesLanguage(project.config.tags.language, language));
+    const items = await this.findTemplates(
+      ["Pages", "Features"],
+      undefined,
+      projectType,
+      frontendFramework,
+      backendFramework
+    );
+
+    const generatedItems: IGeneratedItem[] = [];
+    const postactions: IPostaction[] = [];
+    for (const project of projects) {
+      onProgress(`Generating ${project.config.name}`);
+      postactions.push(...(await this.copyTemplate(project, projectName, projectName, outputPath)));
+      generatedItems.push({ template: project, name: projectName });
+    }
+    for (const selection of payload.pages.concat(payload.features)) {
+      const template = items.find(item => item.config.identity === selection.templateid);
+      if (!template) {
+        throw new Error(`Template ${selection.templateid} was not found`);
+      }
+      onProgress(`Generating ${selection.name}`);
+      postactions.push(...(await this.copyTemplate(template, selection.name, projectName, outputPath)));
+      generatedItems.push({ template, name: selection.name });
+    }
+    const compositions = (await this.findCompositions(projectType, frontendFramework, backendFramework)).filter(
+      composition => matchesLanguage(composition.config.tags.language, language)
+    );
+    const context = {
+      frontendFramework,
+      backendFramework,
+      homeName: payload.homeName,
+      pageIdentities: payload.pages.map(page => page.templateid),
+      featureIdentities: payload.features.map(feature => feature.templateid)
+    };
+    for (const item of generatedItems) {
+      const matchingCompositions = compositions.filter(candidate =>
+        matchesCompositionFilter(
+          candidate.config.tags["wts.compositionFilter"],
+          { name: item.name, config: item.template.config },
+          context
+        )
+      );
+      for (const composition of matchingCompositions) {
+        postactions.push(...(await this.copyTemplate(composition, item.name, projectName, outputPath)));
+      }
+    }
+    await this.applyPostactions(postactions);
+
+    return { generationPath: outputPath };
+  }
+
+  private getCatalogPath(): string {
+    return path.join(this.getTemplatesRoot(), "_catalog");
+  }
+
+  private getTemplatesRoot(): string {
+    if (!this.templatesRoot) {
+      throw new Error("Templates have not been synced");
+    }
+    return this.templatesRoot;
+  }
+
+  private async readFrameworks(catalogName: string, type: string): Promise<any[]> {
+    const catalogPath = this.getCatalogPath();
+    const frameworks: any[] = await fse.readJson(
+      path.join(catalogPath, `${catalogName}.json`)
+    );
+    return Promise.all(
+      frameworks.map(async framework => {
+        const descriptionPath = path.join(catalogPath, catalogName, `${framework.name}.md`);
+        const description = (await fse.pathExists(descriptionPath))
+          ? await fse.readFile(descriptionPath, "utf8")
+          : "";
+        return {
+          ...framework,
+          description,
+          tags: { ...framework.tags, type }
+        };
+      })
+    );
+  }
+
+  /**
+   * The composition templates of the frameworks, in the order of their
+   * wts.compositionOrder tag.
+   */
+  private async findCompositions(
+    projectType: string,
+    frontendFramework: string,
+    backendFramework: string
+  ): Promise<ITemplate[]> {
+    const compositionRoot = path.join(this.getTemplatesRoot(), COMPOSITION_FOLDER);
+    if (!(await fse.pathExists(compositionRoot))) {
+      return [];
+    }
+    const compositionFolders = (await fse.readdir(compositionRoot)).map(folder =>
+      path.join(COMPOSITION_FOLDER, folder)
+    );
+    const compositions = await this.findTemplates(
+      compositionFolders,
+      "composition",
+      projectType,
+      frontendFramework,
+      backendFramework
+    );
+    const order = (composition: ITemplate): number =>
+      Number(composition.config.tags["wts.compositionOrder"] || 0);
+    return compositions
+      .map((composition, index) => ({ composition, index }))
+      .sort((a, b) => order(a.composition) - order(b.composition) || a.index - b.index)
+      .map(({ composition }) => composition);
+  }
+
+  /**
+   * Merges the postactions into the generated files, the global ones last and
+   * only once each. A postaction whose target was not generated is skipped, one
+   * that does not fit its target is left next to it like CoreTS does.
+   */
+  private async applyPostactions(postactions: IPostaction[]): Promise<void> {
+    const globalPostactions = new Set<string>();
+    const ordered = postactions
+      .filter(postaction => !isGlobalPostaction(postaction.sourcePath))
+      .concat(postactions.filter(postaction => isGlobalPostaction(postaction.sourcePath)));
+    for (const postaction of ordered) {
+      if (isGlobalPostaction(postaction.sourcePath)) {
+        if (globalPostactions.has(postaction.sourcePath)) {
+          continue;
+        }
+        globalPostactions.add(postaction.sourcePath);
+      }
+      if (!(await fse.pathExists(postaction.targetPath))) {
+        continue;
+      }
+      const merged = mergePostaction(await fse.readFile(postaction.targetPath, "utf8"), postaction.content);
+      if (merged === undefined) {
+        await fse.writeFile(getFailedPostactionPath(postaction.targetPath), postaction.content);
+      } else {
+        await fse.writeFile(postaction.targetPath, merged);
+      }
+    }
+  }
+
+  private async findTemplates(
+    folders: string[],
+    type: string | undefined,
+    projectType: string,
+    frontendFramework: string,
+    backendFramework: string
+  ): Promise<ITemplate[]> {
+    const templates: ITemplate[] = [];
+    for (const templatesFolder of folders) {
+      const folderPath = path.join(this.getTemplatesRoot(), templatesFolder);
+      for (const templateFolder of await fse.readdir(folderPath)) {
+        const configPath = path.join(
+          folderPath,
+          templateFolder,
+          TEMPLATE_CONFIG_FOLDER,
+          "template.json"
+        );
+        if (!(await fse.pathExists(configPath))) {
+          continue;
+        }
+        const config = await readTemplateConfig(path.join(folderPath, templateFolder));
+        const tags = config.tags;
+        if (
+          (!type || tags["wts.type"] === type) &&
+          matchesFramework(tags["wts.projecttype"], projectType) &&
+          matchesFramework(tags["wts.frontendframework"], frontendFramework) &&
+          matchesFramework(tags["wts.backendframework"], backendFramework)
+        ) {
+          templates.push({ folder: path.join(folderPath, templateFolder), config });
+        }
+      }
+    }
+    return templates;
+  }
+
+  private async toTemplateInfo(template: ITemplate): Promise<any> {
+    const { config } = template;
+    const descriptionPath = path.join(
+      template.folder,
+      TEMPLATE_CONFIG_FOLDER,
+      "description.md"
+    );
+    const richDescription = (await fse.pathExists(descriptionPath))
+      ? await fse.readFile(descriptionPath, "utf8")
+      : config.description;
+
+    return {
+      templateId: config.identity,
+      name: config.name,
+      defaultName: config.name,
+      description: config.description,
+      richDescription,
+      author: config.author,
+      licenses: parseLicenses(config.tags["wts.licenses"]),
+      displayOrder: Number(config.tags["wts.displayOrder"]),
+      tags: config.tags
+    };
+  }
+
+  /**
+   * Copies the files of a template to the project and returns its postactions
+   * for applyPostactions.
+   */
+  private async copyTemplate(
+    template: ITemplate,
+    itemName: string,
+    projectName: string,
+    outputPath: string
+  ): Promise<IPostaction[]> {
+    const replacements = getParameterReplacements(
+      template.config.sourceName,
+      itemName,
+      projectName
+    );
+    const postactions: IPostaction[] = [];
+    const files = await listTemplateFiles(template.folder);
+    for (const relativePath of files) {
+      const targetPath = path.join(outputPath, replaceParameters(relativePath, replacements));
+      const content = await fse.readFile(path.join(template.folder, relativePath));
+      if (isPostaction(path.basename(relativePath))) {
+        postactions.push({
+          sourcePath: targetPath,
+          targetPath: getPostactionTarget(targetPath),
+          content: replaceParameters(content.toString("utf8"), replacements)
+        });
+      } else if (content.indexOf(0) !== -1) {
+        await fse.outputFile(targetPath, content);
+      } else {
+        await fse.outputFile(
+          targetPath,
+          replaceParameters(content.toString("utf8"), replacements)
+        );
+      }
+    }
+    return postactions;
+  }
+}
@@ -0,0 +1,88 @@
+import * as path from "path";
+
+// Marker lines hold nothing else than the marker in the comment syntax of the file
+const BLOCK_START = /^\W*\{\[\{\W*$/;
+const BLOCK_END = /^\W*\}\]\}\W*$/;
+const INSERT_BEFORE = /^\W*\^\^\W*$/;
+
+/**
+ * The file a postaction merges into: App_postaction.jsx into App.jsx, and
+ * constants$wts.Page.React.Grid_gpostaction.js into constants.js.
+ */
+export function getPostactionTarget(relativePath: string): string {
+  return relativePath.replace(/\$[^\\/]*_gpostaction/, "").replace("_postaction", "");
+}
+
+export const isPostaction = (relativePath: string): boolean =>
+  /_g?postaction/.test(relativePath);
+
+/**
+ * Where CoreTS leaves a postaction it could not merge: App_failedpostaction.jsx
+ * next to App.jsx.
+ */
+export function getFailedPostactionPath(targetPath: string): string {
+  const extension = path.extname(targetPath);
+  return `${targetPath.slice(0, targetPath.length - extension.length)}_failedpostaction${extension}`;
+}
+
+export const isGlobalPostaction = (relativePath: string): boolean =>
+  relativePath.indexOf("_gpostaction") !== -1;
+
+const containsBlock = (lines: string[], block: string[]): boolean =>
+  block.length > 0 &&
+  lines.some((_, start) =>
+    block.every((line, offset) => lines[start + offset] !== undefined && lines[start + offset].trim() === line.trim())
+  );
+
+/**
+ * Merges a postaction into the content of its target file like CoreTS does.
+ * The lines of the postaction outside of {[{ }]} blocks are looked up in the
+ * target, in order; a block is inserted after the line found last, or before
+ * the next one when it follows a ^^ line, unless the target already has it.
+ * Returns undefined when a line of the postaction is not in the target.
+ */
+export function mergePostaction(target: string, postaction: string): string | undefined {
+  const lineBreak = target.indexOf("\r\n") !== -1 ? "\r\n" : "\n";
+  const lines = target.split(/\r?\n/);
+  let position = 0;
+  let insertBefore = false;
+  let block: string[] | undefined;
+  let pendingBlock: string[] = [];
+
+  for (const line of postaction.split(/\r?\n/)) {
+    if (block) {
+      if (!BLOCK_END.test(line.trim())) {
+        block.push(line);
+      } else if (containsBlock(lines, block)) {
+        block = undefined;
+      } else if (insertBefore) {
+        pendingBlock = pendingBlock.concat(block);
+        block = undefined;
+      } else {
+        lines.splice(position, 0, ...block);
+        position += block.length;
+        block = undefined;
+      }
+    } else if (BLOCK_START.test(line.trim())) {
+      block = [];
+    } else if (INSERT_BEFORE.test(line.trim())) {
+      insertBefore = true;
+    } else if (line.trim() !== "") {
+      const contextLine = line.trim();
+      let index = position;
+      while (index < lines.length && lines[index].trim() !== contextLine) {
+        index++;
+      }
+      if (index === lines.length) {
+        return undefined;
+      }
+      lines.splice(index, 0, ...pendingBlock);
+      position = index + pendingBlock.length + 1;
+      pendingBlock = [];
+      insertBefore = false;
+    }
+  }
+  const end = lines[lines.length - 1] === "" ? lines.length - 1 : lines.length;
+  lines.splice(end, 0, ...pendingBlock);
+  return lines.join(lineBreak);
+}
@@ -1,25 +1,77 @@
 import * as vscode from "vscode";
+import * as fse from "fs-extra";
+import * as path from "path";
 import { WizardServant, IPayloadResponse } from "./wizardServant";
 import { ExtensionCommand, TelemetryEventName, CONSTANTS } from "./constants";
 import { IActionContext, ITelemetryService } from "./telemetry/telemetryService";
-import { ReactPanel } from "./reactPanel";
 import { AzureServices } from "./azure/azureServices";
 import { CoreTemplateStudio } from "./coreTemplateStudio";
 import { ResourceGroupSelection } from "./azure/azure-resource-group/resourceGroupModule";
 import { Settings } from "./azure/utils/settings";
+import { IGenerationProgressType } from "./types/generationProgressType";
+import { FileError } from "./errors";
+import {
+  DEFAULT_POST_GENERATION_OPTIONS,
+  IPostGenerationOptions,
+  IPostGenerationTaskStatus,
+  PostGenerationTaskRunner
+} from "./postGenerationTasks";
 import { Logger } from "./utils/logger";
+import {
+  createProjectManifest,
+  getResourceGroupId,
+  IManifestAzureResource,
+  recordAzureResources,
+  saveOriginalOutput,
+  writeProjectManifest
+} from "./projectManifest";
+
+/**
+ * Receives the generation status messages, the wizard client unless the
+ * generation was started from the Quick Pick flow.
+ */
+export interface IGenerationStatusTarget {
+  postMessageWebview(message: any): void;
+}
+
+interface IGenerationRun {
+  targetPath: string;
+  existedBeforeGeneration: boolean;
+  templatesGenerated: boolean;
+  cancelled: boolean;
+  postGenerationTasks?: PostGenerationTaskRunner;
+}
 
 export class GenerationExperience extends WizardServant {
-  private static reactPanelContext: ReactPanel;
+  private static reactPanelContext: IGenerationStatusTarget;
   private static Telemetry: ITelemetryService;
+  private static activeGeneration: IGenerationRun | undefined;
+  private static postGenerationTasks: PostGenerationTaskRunner | undefined;
   clientCommandMap: Map<
     ExtensionCommand,
     (message: any) => Promise<IPayloadResponse>
   > = new Map([
     [ExtensionCommand.Generate, this.handleGeneratePayloadFromClient],
+    [ExtensionCommand.CancelGeneration, GenerationExperience.cancelGeneration],
+    [
+      ExtensionCommand.GetGenerationPreview,
+      GenerationExperience.getGenerationPreview
+    ],
+    [
+      ExtensionCommand.GetGenerationPreviewFile,
+      GenerationExperience.getGenerationPreviewFile
+    ],
     [
       ExtensionCommand.OpenProjectVSCode,
       GenerationExperience.openProjectVSCode
+    ],
+    [
+      ExtensionCommand.GetPostGenerationOptions,
+      GenerationExperience.getPostGenerationOptions
+    ],
+    [
+      ExtensionCommand.RetryPostGenerationTask,
+      GenerationExperience.retryPostGenerationTask
     ]
   ]);
   /**
@@ -30,10 +82,27 @@ export class GenerationExperience extends WizardServant {
     GenerationExperience.Telemetry = this.Telemetry;
   }
 
-  public static setReactPanel(reactPanelContext: ReactPanel): void {
+  public static setReactPanel(reactPanelContext: IGenerationStatusTarget): void {
     GenerationExperience.reactPanelContext = reactPanelContext;
   }
 
+  /**
+   * Generates with the status messages sent to the given target instead of the
+   * wizard client, which gets them back once the templates are generated.
+   */
+  public async generateWithStatusTarget(
+    message: any,
+    statusTarget: IGenerationStatusTarget
+  ): Promise<void> {
+    const reactPanelContext = GenerationExperience.reactPanelContext;
+    GenerationExperience.reactPanelContext = statusTarget;
+    try {
+      await this.handleGeneratePayloadFromClient(message);
+    } finally {
+      GenerationExperience.reactPanelContext = reactPanelContext;
+    }
+  }
+
   ////TODO: MAKE GEN CALL CLIENTCOMMANDMAP FUNCTIONS VIA TO WRAP TELEMETRY AUTOMATICALLY
   public async handleGeneratePayloadFromClient(
     message: any
@@ -41,10 +110,31 @@ export class GenerationExperience extends WizardServant {
     GenerationExperience.trackWizardTotalSessionTimeToGenerate();
     const payload = message.payload;
     const enginePayload: any = payload.engine;
+    const targetPath = path.join(enginePayload.path, enginePayload.projectName);
+    const generationRun: IGenerationRun = {
+      targetPath,
+      existedBeforeGeneration: await fse.pathExists(targetPath),
+      templatesGenerated: false,
+      cancelled: false
+    };
+    GenerationExperience.activeGeneration = generationRun;
+
     const apiGenResult = await this.sendTemplateGenInfoToApiAndSendStatusToClient(
       enginePayload
     ).catch(error => {
-      Logger.appendLog("EXTENSION", "error", `Error on generation: ${error}`);
+      if (!generationRun.cancelled) {
+        Logger.appendLog("EXTENSION", "error", `Error on generation: ${error}`);
+      }
+      return;
+    });
+
+    if (generationRun.cancelled) {
+      await GenerationExperience.finishCancelledGeneration(generationRun);
+      return { payload: undefined };
+    }
+
+    if (!apiGenResult) {
+      await GenerationExperience.removeGeneratedProject(generationRun);
       GenerationExperience.reactPanelContext.postMessageWebview({
         command: ExtensionCommand.UpdateGenStatus,
         payload: {
@@ -52,33 +142,33 @@ export class GenerationExperience extends WizardServant {
           cosmos: GenerationExperience.getProgressObject(false)
         }
       });
-      return;
-    });
+      return { payload: undefined };
+    }
+
+    // Written before the templates count as generated, so a Cancel meanwhile
+    // removes the project after the manifest instead of while it is written
+    enginePayload.path = apiGenResult.generationPath;
+    await GenerationExperience.writeProjectManifest(enginePayload);
+    if (generationRun.cancelled) {
+      await GenerationExperience.finishCancelledGeneration(generationRun);
+      return { payload: undefined };
+    }
+    generationRun.templatesGenerated = true;
 
     let progressObject = {
-      templates: GenerationExperience.getProgressObject(
-        apiGenResult !== undefined
-      ),
+      templates: GenerationExperience.getProgressObject(true),
       resourceGroup: {},
       cosmos: {},
       appService: {}
     };
     let connectionString: string;
+    const azureResources: IManifestAzureResource[] = [];
 
-    GenerationExperience.reactPanelContext.postMessageWebview({
-      command: ExtensionCommand.UpdateGenStatus,
-      payload: progressObject
-    });
+    GenerationExperience.postGenerationStatus(generationRun, progressObject);
 
     const serviceQueue: Promise<any>[] = [];
     const resourceGroupQueue: Promise<any>[] = [];
 
-    if (apiGenResult) {
-      enginePayload.path = apiGenResult.generationPath;
-    } else {
-      return { payload: undefined };
-    }
-
     GenerationExperience.reactPanelContext.postMessageWebview({
       command: ExtensionCommand.GetOutputPath,
       payload: { outputPath: enginePayload.path }
@@ -93,26 +183,36 @@ export class GenerationExperience extends WizardServant {
           GenerationExperience.Telemetry.callWithTelemetryAndCatchHandleErrors(
             TelemetryEventName.ResourceGroupDeploy,
             async function(this: IActionContext): Promise<void> {
+              if (generationRun.cancelled) {
+                return;
+              }
               try {
                 await AzureServices.deployResourceGroup(resourceGroupSelection);
+                azureResources.push({
+                  type: "resourceGroup",
+                  id: getResourceGroupId(
+                    resourceGroupSelection.subscriptionItem.subscriptionId,
+                    resourceGroupSelection.resourceGroupName
+                  )
+                });
                 progressObject = {
                   ...progressObject,
                   resourceGroup: GenerationExperience.getProgressObject(true)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
               } catch (error) {                
                 Logger.appendLog("EXTENSION", "error", `Error on Azure Resource Group creation: ${error}`);
                 progressObject = {
                   ...progressObject,
                   resourceGroup: GenerationExperience.getProgressObject(false)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
               }
             }
           )
@@ -136,7 +236,10 @@ export class GenerationExperience extends WizardServant {
     }
 
     // Resource groups should be created before other deploy methods execute
-    Promise.all(resourceGroupQueue).then(() => {
+    const azureDeployments = Promise.all(resourceGroupQueue).then(() => {
+      if (generationRun.cancelled) {
+        return;
+      }
       if (payload.selectedAppService) {
         serviceQueue.push(
           GenerationExperience.Telemetry.callWithTelemetryAndCatchHandleErrors(
@@ -144,26 +247,30 @@ export class GenerationExperience extends WizardServant {
             async function(this: IActionContext): Promise<void> {
               try {
                 const id: string = await AzureServices.deployWebApp(payload);
+                azureResources.push({ type: "appService", id });
                 progressObject = {
                   ...progressObject,
                   appService: GenerationExperience.getProgressObject(true)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
-                Settings.enableScmDoBuildDuringDeploy(enginePayload.path);
-                Settings.setDeployDefault(id, enginePayload.path);
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
+                if (!generationRun.cancelled) {
+                  Settings.enableScmDoBuildDuringDeploy(enginePayload.path);
+                  Settings.setDeployDefault(id, enginePayload.path);
+                  await Settings.setWorkflowAppService(payload.appService.siteName, enginePayload.path);
+                }
               } catch (error) {                
                 Logger.appendLog("EXTENSION", "error", `Error on deploy Azure App Service: ${error}`);
                 progressObject = {
                   ...progressObject,
                   appService: GenerationExperience.getProgressObject(false)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
               }
             }
           )
@@ -185,11 +292,17 @@ export class GenerationExperience extends WizardServant {
                   ...progressObject,
                   cosmos: GenerationExperience.getProgressObject(true)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
                 connectionString = dbObject.connectionString;
+                if (dbObject.databaseAccount.id) {
+                  azureResources.push({ type: "cosmosDB", id: dbObject.databaseAccount.id });
+                }
+                if (generationRun.cancelled) {
+                  return;
+                }
                 AzureServices.promptUserForCosmosReplacement(
                   enginePayload.path,
                   dbObject
@@ -212,10 +325,10 @@ export class GenerationExperience extends WizardServant {
                   ...progressObject,
                   cosmos: GenerationExperience.getProgressObject(false)
                 };
-                GenerationExperience.reactPanelContext.postMessageWebview({
-                  command: ExtensionCommand.UpdateGenStatus,
-                  payload: progressObject
-                });
+                GenerationExperience.postGenerationStatus(
+                  generationRun,
+                  progressObject
+                );
               }
             }
           )
@@ -223,8 +336,17 @@ export class GenerationExperience extends WizardServant {
       }
 
       // kick off both services asynchronously
-      Promise.all(serviceQueue).then(() => {
-        if (payload.selectedAppService && connectionString) {
+      return Promise.all(serviceQueue).then(() => {
+        if (azureResources.length > 0 && !generationRun.cancelled) {
+          recordAzureResources(enginePayload.path, azureResources).catch(error =>
+            Logger.appendLog("EXTENSION", "error", `Error on recording Azure resources: ${error}`)
+          );
+        }
+        if (
+          payload.selectedAppService &&
+          connectionString &&
+          !generationRun.cancelled
+        ) {
           AzureServices.updateAppSettings(
             payload.appService.resourceGroup,
             payload.appService.siteName,
@@ -233,6 +355,13 @@ export class GenerationExperience extends WizardServant {
         }
       });
     });
+
+    GenerationExperience.startPostGenerationTasks(
+      generationRun,
+      enginePayload,
+      payload.postGeneration || GenerationExperience.readPostGenerationOptions(),
+      azureDeployments
+    );
     return { payload: undefined };
   }
 
@@ -242,7 +371,103 @@ export class GenerationExperience extends WizardServant {
     const apiInstance = CoreTemplateStudio.GetExistingInstance();
     return await apiInstance.generate({
       payload: enginePayload,
-      liveMessageHandler: this.handleGenLiveMessage
+      liveMessageHandler: this.handleGenLiveMessage,
+      progressHandler: GenerationExperience.handleGenProgress
+    });
+  }
+
+  /**
+   * Writes .wts/manifest.json and a copy of the original template output into
+   * the generated project. A project whose manifest could not be written is
+   * still usable, so errors are only logged.
+   */
+  private static async writeProjectManifest(enginePayload: any): Promise<void> {
+    try {
+      const { wizardVersion, templatesVersion } = CoreTemplateStudio.GetExistingInstance().getTemplateConfig();
+      const manifest = await createProjectManifest(enginePayload.path, enginePayload, {
+        wizardVersion,
+        templatesVersion
+      });
+      await writeProjectManifest(enginePayload.path, manifest);
+      await saveOriginalOutput(enginePayload.path, enginePayload.path, manifest.files);
+    } catch (error) {
+      Logger.appendLog("EXTENSION", "error", `Error on writing the project manifest: ${error}`);
+    }
+  }
+
+  /**
+   * Stops the active generation: the running CoreTS command is aborted, Azure
+   * deployments that have not started yet are skipped and the files written
+   * under the project folder are removed.
+   */
+  private static async cancelGeneration(): Promise<IPayloadResponse> {
+    const generationRun = GenerationExperience.activeGeneration;
+    if (!generationRun || generationRun.cancelled) {
+      return { payload: undefined };
+    }
+    generationRun.cancelled = true;
+    Logger.appendLog("EXTENSION", "info", CONSTANTS.ERRORS.GENERATION_CANCELLED);
+
+    if (generationRun.templatesGenerated) {
+      if (generationRun.postGenerationTasks) {
+        generationRun.postGenerationTasks.cancel();
+      }
+      await GenerationExperience.finishCancelledGeneration(generationRun);
+    } else {
+      // The pending generate command rejects and handleGeneratePayloadFromClient finishes the cancellation
+      await CoreTemplateStudio.GetExistingInstance().cancel();
+    }
+    return { payload: undefined };
+  }
+
+  private static async finishCancelledGeneration(
+    generationRun: IGenerationRun
+  ): Promise<void> {
+    await GenerationExperience.removeGeneratedProject(generationRun);
+    GenerationExperience.reactPanelContext.postMessageWebview({
+      command: ExtensionCommand.UpdateGenStatus,
+      payload: {
+        templates: GenerationExperience.getProgressObject(false),
+        resourceGroup: GenerationExperience.getProgressObject(false),
+        cosmos: GenerationExperience.getProgressObject(false),
+        appService: GenerationExperience.getProgressObject(false)
+      }
+    });
+  }
+
+  private static async removeGeneratedProject(
+    generationRun: IGenerationRun
+  ): Promise<void> {
+    if (generationRun.existedBeforeGeneration) {
+      return;
+    }
+    try {
+      await fse.remove(generationRun.targetPath);
+      Logger.appendLog(
+        "EXTENSION",
+        "info",
+        CONSTANTS.INFO.GENERATED_PROJECT_REMOVED(generationRun.targetPath)
+      );
+    } catch (error) {
+      Logger.appendLog(
+        "EXTENSION",
+        "error",
+        `Error removing generated project: ${error}`
+      );
+    }
+  }
+
+  private static postGenerationStatus(
+    generationRun: IGenerationRun,
+    progressObject: any
+  ): void {
+    // Once cancelled, the client only receives the final cancelled status
+    if (generationRun.cancelled) {
+      return;
+    }
+    GenerationExperience.reactPanelContext.postMessageWebview({
+      command: ExtensionCommand.UpdateGenStatus,
+      payload: progressObject
     });
   }
 
@@ -255,6 +480,46 @@ export class GenerationExperience extends WizardServant {
     });
   }
 
+  private static handleGenProgress(progress: IGenerationProgressType): void {
+    GenerationExperience.reactPanelContext.postMessageWebview({
+      command: ExtensionCommand.UpdateGenProgress,
+      payload: progress
+    });
+  }
+
+  /**
+   * Dry run of the generation: the engine payload is generated into a temporary
+   * folder and the client receives the resulting file tree without anything
+   * being written to the selected location.
+   */
+  private static async getGenerationPreview(
+    message: any
+  ): Promise<IPayloadResponse> {
+    try {
+      const manifest = await CoreTemplateStudio.GetExistingInstance().generatePreview({
+        payload: message.payload.engine,
+        liveMessageHandler: (): void => undefined
+      });
+      return { payload: { scope: message.payload.scope, manifest } };
+    } catch (error) {
+      Logger.appendLog("EXTENSION", "error", `Error on generation preview: ${error}`);
+      return { payload: { scope: message.payload.scope, error: error.message } };
+    }
+  }
+
+  private static async getGenerationPreviewFile(
+    message: any
+  ): Promise<IPayloadResponse> {
+    try {
+      const file = await CoreTemplateStudio.GetExistingInstance().readPreviewFile(
+        message.payload.filePath
+      );
+      return { payload: { scope: message.payload.scope, ...file } };
+    } catch (error) {
+      return { payload: { scope: message.payload.scope, error: error.message } };
+    }
+  }
+
   private static async openProjectVSCode(
     message: any
   ): Promise<IPayloadResponse> {
@@ -266,6 +531,104 @@ export class GenerationExperience extends WizardServant {
     return { payload: true };
   }
 
+  /**
+   * The post-generation tasks selected in the wts.postGeneration settings,
+   * which the client shows as the defaults of the review page.
+   */
+  public static readPostGenerationOptions(): IPostGenerationOptions {
+    const settings = vscode.workspace.getConfiguration(CONSTANTS.POST_GENERATION.SETTINGS_SECTION);
+    return {
+      installDependencies: settings.get<boolean>(
+        "installDependencies",
+        DEFAULT_POST_GENERATION_OPTIONS.installDependencies
+      ),
+      createVirtualEnv: settings.get<boolean>(
+        "createVirtualEnv",
+        DEFAULT_POST_GENERATION_OPTIONS.createVirtualEnv
+      ),
+      gitInit: settings.get<boolean>("gitInit", DEFAULT_POST_GENERATION_OPTIONS.gitInit),
+      openReadme: settings.get<boolean>("openReadme", DEFAULT_POST_GENERATION_OPTIONS.openReadme),
+      openProject: settings.get("openProject", DEFAULT_POST_GENERATION_OPTIONS.openProject)
+    };
+  }
+
+  private static async getPostGenerationOptions(message: any): Promise<IPayloadResponse> {
+    return {
+      payload: {
+        scope: message.payload.scope,
+        options: GenerationExperience.readPostGenerationOptions()
+      }
+    };
+  }
+
+  /**
+   * Runs the post-generation tasks once the templates are generated. Opening
+   * the project in the current window restarts the extension, so it waits
+   * for the Azure deployments to finish first. A generation cancelled before
+   * gets no tasks, its project folder is already removed.
+   */
+  private static startPostGenerationTasks(
+    generationRun: IGenerationRun,
+    enginePayload: any,
+    options: IPostGenerationOptions,
+    azureDeployments: Promise<any>
+  ): void {
+    if (generationRun.cancelled) {
+      return;
+    }
+    // The tasks outlive the call, so they keep reporting to the current target
+    const statusTarget = GenerationExperience.reactPanelContext;
+    const postTasks = (tasks: IPostGenerationTaskStatus[]): void => {
+      if (!generationRun.cancelled) {
+        statusTarget.postMessageWebview({
+          command: ExtensionCommand.UpdatePostGenerationTasks,
+          payload: { tasks }
+        });
+      }
+    };
+    const runner = new PostGenerationTaskRunner(
+      enginePayload.path,
+      options,
+      enginePayload.backendFramework,
+      {
+        openReadme: GenerationExperience.openReadme,
+        openProject: async (projectPath: string, newWindow: boolean): Promise<void> => {
+          await vscode.commands.executeCommand(
+            CONSTANTS.VSCODE_COMMAND.OPEN_FOLDER,
+            vscode.Uri.file(projectPath),
+            newWindow
+          );
+        }
+      },
+      postTasks
+    );
+    generationRun.postGenerationTasks = runner;
+    GenerationExperience.postGenerationTasks = runner;
+    postTasks(runner.getTasks());
+    runner
+      .runAll(options.openProject === "currentWindow" ? azureDeployments : undefined)
+      .catch(error =>
+        Logger.appendLog("EXTENSION", "error", `Error on post-generation tasks: ${error}`)
+      );
+  }
+
+  private static async openReadme(readmePath: string): Promise<void> {
+    if (!(await fse.pathExists(readmePath))) {
+      throw new FileError(CONSTANTS.ERRORS.README_NOT_FOUND(readmePath));
+    }
+    await vscode.commands.executeCommand(
+      CONSTANTS.VSCODE_COMMAND.MARKDOWN_PREVIEW,
+      vscode.Uri.file(readmePath)
+    );
+  }
+
+  private static async retryPostGenerationTask(message: any): Promise<IPayloadResponse> {
+    if (GenerationExperience.postGenerationTasks) {
+      await GenerationExperience.postGenerationTasks.retry(message.payload.taskId);
+    }
+    return { payload: undefined };
+  }
+
   private static getProgressObject(didSucceed: boolean): any {
     return {
       success: didSucceed,
@@ -0,0 +1,168 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { getPostactionTarget, isPostaction } from "./fakeCoreTS/postactionMerge";
+import { IGenerationPayloadType } from "./types/generationPayloadType";
+import {
+  getParameterReplacements,
+  ICompositionContext,
+  ITemplateConfig,
+  listTemplateFiles,
+  matchesCompositionFilter,
+  matchesFramework,
+  matchesLanguage,
+  readTemplateConfig,
+  replaceParameters,
+  TEMPLATE_CONFIG_FOLDER
+} from "./utils/templateFiles";
+
+export interface IManifestFile {
+  path: string;
+  size: number;
+  templates: string[];
+}
+
+export interface IGenerationManifest {
+  projectPath: string;
+  files: IManifestFile[];
+}
+
+const TEMPLATE_FOLDERS = ["Projects", "Pages", "Features"];
+const COMPOSITION_FOLDER = "_composition";
+
+async function listTemplateFolders(templatesRoot: string): Promise<string[]> {
+  const folders: string[] = [];
+  const addChildTemplates = async (parentFolder: string): Promise<void> => {
+    if (!(await fse.pathExists(parentFolder))) {
+      return;
+    }
+    for (const entry of await fse.readdir(parentFolder)) {
+      const folder = path.join(parentFolder, entry);
+      if (await fse.pathExists(path.join(folder, TEMPLATE_CONFIG_FOLDER))) {
+        folders.push(folder);
+      }
+    }
+  };
+
+  for (const templatesFolder of TEMPLATE_FOLDERS) {
+    await addChildTemplates(path.join(templatesRoot, templatesFolder));
+  }
+  const compositionRoot = path.join(templatesRoot, COMPOSITION_FOLDER);
+  if (await fse.pathExists(compositionRoot)) {
+    for (const frameworkFolder of await fse.readdir(compositionRoot)) {
+      await addChildTemplates(path.join(compositionRoot, frameworkFolder));
+    }
+  }
+  return folders;
+}
+
+interface ITemplateInstance {
+  folder: string;
+  config: ITemplateConfig;
+  name: string;
+}
+
+/**
+ * Maps output paths, relative to the project folder, to the identities of the
+ * templates that create or modify them. Output paths are predicted from the
+ * template files of the project templates of the selected frameworks and
+ * language, the selected pages and services and the compositions whose filter
+ * matches one of them; postaction files count for the file they are merged into.
+ */
+export async function attributeTemplateFiles(
+  templateSourcePaths: string[],
+  payload: IGenerationPayloadType
+): Promise<Map<string, string[]>> {
+  const creators = new Map<string, string[]>();
+  const modifiers = new Map<string, string[]>();
+  const language = payload.language || CONSTANTS.LANGUAGES.JAVASCRIPT;
+  const selectedItems: { name: string; identity: string }[] = payload.pages.concat(
+    payload.services
+  );
+  const context: ICompositionContext = {
+    frontendFramework: payload.frontendFramework,
+    backendFramework: payload.backendFramework,
+    homeName: payload.homeName || (payload.pages.length > 0 ? payload.pages[0].name : ""),
+    pageIdentities: payload.pages.map((page: { identity: string }) => page.identity),
+    featureIdentities: payload.services.map((service: { identity: string }) => service.identity)
+  };
+
+  const generatedItems: ITemplateInstance[] = [];
+  const compositions: { folder: string; config: ITemplateConfig }[] = [];
+  for (const sourcePath of templateSourcePaths) {
+    const templatesRoot = path.join(sourcePath, "templates", "Web");
+    for (const folder of await listTemplateFolders(templatesRoot)) {
+      const config = await readTemplateConfig(folder);
+      const type = config.tags["wts.type"];
+      if (type === "page" || type === "feature") {
+        selectedItems
+          .filter(item => item.identity === config.identity)
+          .forEach(item => generatedItems.push({ folder, config, name: item.name }));
+      } else if (
+        matchesFramework(config.tags["wts.projecttype"], payload.projectType) &&
+        matchesFramework(config.tags["wts.frontendframework"], payload.frontendFramework) &&
+        matchesFramework(config.tags["wts.backendframework"], payload.backendFramework) &&
+        matchesLanguage(config.tags.language, language)
+      ) {
+        if (type === "project") {
+          generatedItems.push({ folder, config, name: payload.projectName });
+        } else if (type === "composition") {
+          compositions.push({ folder, config });
+        }
+      }
+    }
+  }
+
+  // Compositions run once for each generated item their filter matches
+  const instances = generatedItems.concat(
+    ...generatedItems.map(item =>
+      compositions
+        .filter(composition =>
+          matchesCompositionFilter(composition.config.tags["wts.compositionFilter"], item, context)
+        )
+        .map(composition => ({ ...composition, name: item.name }))
+    )
+  );
+  for (const { folder, config, name } of instances) {
+    const replacements = getParameterReplacements(config.sourceName, name, payload.projectName);
+    for (const templateFile of await listTemplateFiles(folder)) {
+      const outputPath = replaceParameters(getPostactionTarget(templateFile), replacements);
+      const attributions = isPostaction(templateFile) ? modifiers : creators;
+      const identities = attributions.get(outputPath) || [];
+      if (identities.indexOf(config.identity) === -1) {
+        attributions.set(outputPath, identities.concat(config.identity));
+      }
+    }
+  }
+
+  modifiers.forEach((identities, outputPath) => {
+    const creatorIdentities = creators.get(outputPath) || [];
+    creators.set(
+      outputPath,
+      creatorIdentities.concat(identities.filter(identity => creatorIdentities.indexOf(identity) === -1))
+    );
+  });
+  return creators;
+}
+
+/**
+ * Lists the files of a generated project with their sizes and the templates
+ * they come from. Paths use forward slashes and are relative to projectPath.
+ */
+export async function createGenerationManifest(
+  generatedProjectPath: string,
+  projectPath: string,
+  attributions: Map<string, string[]>
+): Promise<IGenerationManifest> {
+  const files: IManifestFile[] = [];
+  for (const relativePath of await listTemplateFiles(generatedProjectPath)) {
+    const stats = await fse.stat(path.join(generatedProjectPath, relativePath));
+    files.push({
+      path: relativePath.split(path.sep).join("/"),
+      size: stats.size,
+      templates: attributions.get(relativePath) || []
+    });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { projectPath, files };
+}
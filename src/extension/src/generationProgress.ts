@@ -0,0 +1,172 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { IGenerationPayloadType } from "./types/generationPayloadType";
+import {
+  GenerationItemKind,
+  IGenerationItemProgress,
+  IGenerationProgressType
+} from "./types/generationProgressType";
+import {
+  matchesFramework,
+  matchesLanguage,
+  readTemplateConfig,
+  TEMPLATE_CONFIG_FOLDER
+} from "./utils/templateFiles";
+
+export interface IPlannedGenerationItem {
+  id: string;
+  name: string;
+  kind: GenerationItemKind;
+}
+
+const GENERATING_PREFIX = /^Generating\s+/i;
+
+/**
+ * The project templates the engine generates for the selected frameworks and
+ * language, read from the Projects folder of the built-in templates.
+ */
+async function listProjectTemplates(
+  templatesPath: string,
+  payload: IGenerationPayloadType
+): Promise<IPlannedGenerationItem[]> {
+  const projectsFolder = path.join(templatesPath, "templates", "Web", "Projects");
+  if (!(await fse.pathExists(projectsFolder))) {
+    return [];
+  }
+  const language = payload.language || CONSTANTS.LANGUAGES.JAVASCRIPT;
+  const items: IPlannedGenerationItem[] = [];
+  for (const entry of (await fse.readdir(projectsFolder)).sort()) {
+    const folder = path.join(projectsFolder, entry);
+    if (!(await fse.pathExists(path.join(folder, TEMPLATE_CONFIG_FOLDER)))) {
+      continue;
+    }
+    const config = await readTemplateConfig(folder);
+    if (
+      matchesFramework(config.tags["wts.projecttype"], payload.projectType) &&
+      matchesFramework(config.tags["wts.frontendframework"], payload.frontendFramework) &&
+      matchesFramework(config.tags["wts.backendframework"], payload.backendFramework) &&
+      matchesLanguage(config.tags.language, language)
+    ) {
+      items.push({ id: `project:${config.identity}`, name: config.name, kind: "project" });
+    }
+  }
+  return items;
+}
+
+/**
+ * Lists the items of a generation before it starts: the project templates,
+ * then the selected pages and services in the order the engine generates them.
+ */
+export async function planGenerationItems(
+  templatesPath: string | undefined,
+  payload: IGenerationPayloadType
+): Promise<IPlannedGenerationItem[]> {
+  const projectItems = templatesPath ? await listProjectTemplates(templatesPath, payload) : [];
+  return projectItems
+    .concat(
+      payload.pages.map((page: { name: string }) => ({
+        id: `page:${page.name}`,
+        name: page.name,
+        kind: "page" as GenerationItemKind
+      }))
+    )
+    .concat(
+      payload.services.map((service: { name: string }) => ({
+        id: `feature:${service.name}`,
+        name: service.name,
+        kind: "feature" as GenerationItemKind
+      }))
+    );
+}
+
+/**
+ * Follows the status messages of the engine through the planned items. Each
+ * message starts the item it names and finishes the previous one; messages
+ * that name no planned item are compositions the engine runs on its own and
+ * are added to the items as they come.
+ */
+export class GenerationProgressTracker {
+  private items: IGenerationItemProgress[];
+  private log: string[] = [];
+  private current: IGenerationItemProgress | undefined;
+  private currentStartedAt = 0;
+
+  constructor(plannedItems: IPlannedGenerationItem[], private now: () => number = Date.now) {
+    this.items = plannedItems.map(
+      (item): IGenerationItemProgress => ({ ...item, state: "pending", elapsedMs: 0 })
+    );
+  }
+
+  public report(message: string): IGenerationProgressType {
+    this.finishCurrent("done");
+    const item = this.findPendingItem(message) || this.addComposition(message);
+    item.state = "generating";
+    this.current = item;
+    this.currentStartedAt = this.now();
+    this.log.push(message);
+    return this.getProgress();
+  }
+
+  /**
+   * Marks every item done, including the ones the engine generated without
+   * reporting them.
+   */
+  public complete(): IGenerationProgressType {
+    this.finishCurrent("done");
+    this.items
+      .filter(item => item.state === "pending")
+      .forEach(item => (item.state = "done"));
+    return this.getProgress();
+  }
+
+  public fail(message: string): IGenerationProgressType {
+    this.finishCurrent("failed");
+    this.log.push(message);
+    return this.getProgress();
+  }
+
+  /**
+   * The percentage only counts the planned items: compositions are not known
+   * before the engine reports them, and counting them as they come would move
+   * the percentage backwards.
+   */
+  public getProgress(): IGenerationProgressType {
+    const plannedItems = this.items.filter(item => item.kind !== "composition");
+    const doneCount = plannedItems.filter(item => item.state === "done").length;
+    return {
+      percentage: plannedItems.length > 0 ? Math.round((doneCount / plannedItems.length) * 100) : 0,
+      items: this.items.map(item =>
+        item === this.current ? { ...item, elapsedMs: this.now() - this.currentStartedAt } : { ...item }
+      ),
+      log: this.log.slice()
+    };
+  }
+
+  private finishCurrent(state: "done" | "failed"): void {
+    if (this.current) {
+      this.current.state = state;
+      this.current.elapsedMs = this.now() - this.currentStartedAt;
+      this.current = undefined;
+    }
+  }
+
+  // The longest matching name wins, so a page named OrdersList isn't taken for List
+  private findPendingItem(message: string): IGenerationItemProgress | undefined {
+    return this.items
+      .filter(item => item.state === "pending" && message.indexOf(item.name) !== -1)
+      .sort((a, b) => b.name.length - a.name.length)[0];
+  }
+
+  private addComposition(message: string): IGenerationItemProgress {
+    const item: IGenerationItemProgress = {
+      id: `composition:${this.items.length}`,
+      name: message.replace(GENERATING_PREFIX, ""),
+      kind: "composition",
+      state: "pending",
+      elapsedMs: 0
+    };
+    this.items.push(item);
+    return item;
+  }
+}
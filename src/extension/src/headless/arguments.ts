@@ -0,0 +1,125 @@
+import { CONSTANTS } from "../constants";
+import { ValidationError } from "../errors";
+
+export interface IPageArgument {
+  template: string;
+  name?: string;
+}
+
+export interface IHeadlessArguments {
+  selectionFile?: string;
+  frontend?: string;
+  backend?: string;
+  language?: string;
+  pages: IPageArgument[];
+  projectName?: string;
+  outputPath?: string;
+  templatesPath?: string;
+  verbose: boolean;
+  help: boolean;
+}
+
+export const USAGE = `Usage: wts-generate --out <folder> [options]
+
+Generates a Web Template Studio project without VS Code.
+
+Options:
+  --out <folder>              Folder the project is created in (required)
+  --name <projectName>        Name of the project (default: myApp)
+  --frontend <framework>      Frontend framework, for example React
+  --backend <framework>       Backend framework, for example Node
+  --language <language>       JavaScript or TypeScript (default: JavaScript)
+  --page <template>[:<name>]  Page to add, for example Grid:Orders; repeatable
+  --selection <file>          Recipe file exported by the wizard, instead of
+                              --frontend, --backend and --page
+  --templates <folder>        Folder holding templates/Web
+  --verbose                   Print the engine output
+  --help                      Print this help`;
+
+const VALUE_OPTIONS = [
+  "--out",
+  "--name",
+  "--frontend",
+  "--backend",
+  "--language",
+  "--page",
+  "--selection",
+  "--templates"
+];
+
+const parsePage = (value: string): IPageArgument => {
+  const separator = value.indexOf(":");
+  return separator === -1
+    ? { template: value }
+    : { template: value.slice(0, separator), name: value.slice(separator + 1) };
+};
+
+/**
+ * Parses the command line of the headless generator. Options take their value
+ * as the next argument or after an equals sign.
+ */
+export function parseHeadlessArguments(argv: string[]): IHeadlessArguments {
+  const args: IHeadlessArguments = { pages: [], verbose: false, help: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const [option, inlineValue] = argv[index].startsWith("--") && argv[index].indexOf("=") !== -1
+      ? [argv[index].slice(0, argv[index].indexOf("=")), argv[index].slice(argv[index].indexOf("=") + 1)]
+      : [argv[index], undefined];
+
+    if (option === "--verbose" || option === "--help") {
+      args[option === "--verbose" ? "verbose" : "help"] = true;
+      continue;
+    }
+    if (VALUE_OPTIONS.indexOf(option) === -1) {
+      throw new ValidationError(CONSTANTS.ERRORS.UNKNOWN_CLI_OPTION(option));
+    }
+    const value = inlineValue !== undefined ? inlineValue : argv[++index];
+    if (value === undefined || (inlineValue === undefined && value.startsWith("--"))) {
+      throw new ValidationError(CONSTANTS.ERRORS.MISSING_CLI_OPTION_VALUE(option));
+    }
+
+    switch (option) {
+      case "--out":
+        args.outputPath = value;
+        break;
+      case "--name":
+        args.projectName = value;
+        break;
+      case "--frontend":
+        args.frontend = value;
+        break;
+      case "--backend":
+        args.backend = value;
+        break;
+      case "--language":
+        args.language = value;
+        break;
+      case "--page":
+        args.pages.push(parsePage(value));
+        break;
+      case "--selection":
+        args.selectionFile = value;
+        break;
+      case "--templates":
+        args.templatesPath = value;
+        break;
+    }
+  }
+
+  if (args.help) {
+    return args;
+  }
+  if (!args.outputPath) {
+    throw new ValidationError(CONSTANTS.ERRORS.MISSING_CLI_OPTION("--out"));
+  }
+  if (args.selectionFile && (args.frontend || args.backend || args.language || args.pages.length > 0)) {
+    throw new ValidationError(CONSTANTS.ERRORS.CLI_SELECTION_WITH_FLAGS);
+  }
+  if (!args.selectionFile && !args.frontend) {
+    throw new ValidationError(CONSTANTS.ERRORS.MISSING_CLI_OPTION("--frontend"));
+  }
+  if (!args.selectionFile && !args.backend) {
+    throw new ValidationError(CONSTANTS.ERRORS.MISSING_CLI_OPTION("--backend"));
+  }
+  return args;
+}
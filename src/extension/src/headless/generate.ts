@@ -0,0 +1,238 @@
+#!/usr/bin/env node
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CoreTemplateStudio } from "../coreTemplateStudio";
+import { CONSTANTS } from "../constants";
+import { ValidationError } from "../errors";
+import { IGenerationPayloadType } from "../types/generationPayloadType";
+import {
+  createRecipeCatalog,
+  IRecipeIssue,
+  parseRecipe,
+  validateRecipe
+} from "../projectRecipe";
+import { validateItemNames, validateName } from "../utils/nameValidation";
+import { IHeadlessArguments, parseHeadlessArguments, USAGE } from "./arguments";
+
+export interface IHeadlessOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+type Selection = Pick<
+  IGenerationPayloadType,
+  "projectType" | "frontendFramework" | "backendFramework" | "language" | "homeName" | "pages" | "services"
+>;
+
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const describeIssue = (issue: IRecipeIssue): string =>
+  issue.type === "renamed"
+    ? CONSTANTS.ERRORS.RECIPE_TEMPLATES_RENAMED(
+      `${issue.templateName} (${issue.identity} -> ${issue.newIdentity})`
+    )
+    : CONSTANTS.ERRORS.RECIPE_TEMPLATES_MISSING(`${issue.templateName} (${issue.identity})`);
+
+async function selectionFromRecipe(
+  coreTemplateStudio: CoreTemplateStudio,
+  filePath: string,
+  output: IHeadlessOutput
+): Promise<Selection> {
+  const recipe = parseRecipe(await fse.readFile(filePath, "utf8"), filePath);
+  const validation = await validateRecipe(recipe, createRecipeCatalog(coreTemplateStudio));
+  validation.issues.forEach(issue => output.error(describeIssue(issue)));
+  if (!validation.recipe) {
+    throw new ValidationError(CONSTANTS.ERRORS.INVALID_RECIPE(filePath));
+  }
+
+  const { cosmosDB, features } = validation.recipe.services;
+  return {
+    projectType: validation.recipe.projectType,
+    frontendFramework: validation.recipe.frontendFramework.identity,
+    backendFramework: validation.recipe.backendFramework.identity,
+    language: validation.recipe.language,
+    homeName: validation.recipe.homeName,
+    pages: validation.recipe.pages.map(page =>
+      page.routePath
+        ? { name: page.name, identity: page.identity, routePath: page.routePath }
+        : { name: page.name, identity: page.identity }
+    ),
+    // Only the code of Azure services is generated, their resources are not created
+    services: (cosmosDB ? [{ name: CONSTANTS.HEADLESS.COSMOS_SERVICE_NAME, identity: cosmosDB.identity }] : []).concat(
+      (features || []).map(feature => ({ name: feature.name, identity: feature.identity }))
+    )
+  };
+}
+
+/**
+ * Resolves the frameworks and pages given as options, accepting either the
+ * identity or the display name of a template; pages also match their default
+ * name, which is the item name when the option doesn't set one.
+ */
+async function selectionFromArguments(
+  coreTemplateStudio: CoreTemplateStudio,
+  args: IHeadlessArguments
+): Promise<Selection> {
+  const projectType = CONSTANTS.FULL_STACK_PROJECT_TYPE;
+  const frameworks: any[] = await coreTemplateStudio.getFrameworks(projectType);
+  const findFramework = (type: string, name: string): string => {
+    const ofType = frameworks.filter(framework => framework.tags.type === type);
+    const framework = ofType.find(
+      option => sameName(option.name, name) || sameName(option.displayName, name)
+    );
+    if (!framework) {
+      throw new ValidationError(
+        CONSTANTS.ERRORS.UNKNOWN_FRAMEWORK(name, ofType.map(option => option.name).join(", "))
+      );
+    }
+    return framework.name;
+  };
+  const frontendFramework = findFramework("frontend", args.frontend!);
+  const backendFramework = findFramework("backend", args.backend!);
+  const languages = [CONSTANTS.LANGUAGES.JAVASCRIPT, CONSTANTS.LANGUAGES.TYPESCRIPT];
+  const language = languages.find(option => sameName(option, args.language || CONSTANTS.LANGUAGES.JAVASCRIPT));
+  if (!language) {
+    throw new ValidationError(CONSTANTS.ERRORS.UNKNOWN_LANGUAGE(args.language!, languages.join(", ")));
+  }
+
+  const pageTemplates: any[] = await coreTemplateStudio.getPages(
+    projectType,
+    frontendFramework,
+    backendFramework,
+    language
+  );
+  const pages = args.pages.map(page => {
+    const template = pageTemplates.find(
+      option =>
+        sameName(option.templateId, page.template) ||
+        sameName(option.name, page.template) ||
+        sameName(option.defaultName, page.template)
+    );
+    if (!template) {
+      throw new ValidationError(
+        CONSTANTS.ERRORS.UNKNOWN_PAGE_TEMPLATE(
+          page.template,
+          pageTemplates.map(option => option.name).join(", ")
+        )
+      );
+    }
+    return { name: page.name || template.defaultName, identity: template.templateId };
+  });
+  return { projectType, frontendFramework, backendFramework, language, pages, services: [] };
+}
+
+/**
+ * Checks the project and page names with the validation configs of the synced
+ * templates, the way the wizard does before it enables generation.
+ */
+function validateNames(
+  projectName: string,
+  outputPath: string,
+  pageNames: string[],
+  syncResult: any
+): void {
+  const projectConfig = syncResult.projectNameValidationConfig;
+  const errors = validateItemNames(pageNames, syncResult.itemNameValidationConfig);
+  const projectNameError = validateName(
+    projectName,
+    { ...projectConfig, validateExistingNames: false },
+    () => false
+  );
+  if (projectNameError) {
+    errors.unshift(projectNameError);
+  } else if (
+    projectConfig.validateExistingNames &&
+    fse.pathExistsSync(path.join(outputPath, projectName))
+  ) {
+    errors.unshift(CONSTANTS.ERRORS.PROJECT_PATH_EXISTS(outputPath, projectName));
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join("\n"));
+  }
+}
+
+const defaultTemplatesPath = (): string =>
+  process.env.NODE_ENV === "dev"
+    ? CONSTANTS.API.DEVELOPMENT_PATH_TO_TEMPLATES
+    : CONSTANTS.API.PRODUCTION_PATH_TO_TEMPLATES;
+
+/**
+ * Runs the headless generator and returns its exit code: 0 when the project
+ * was generated, 2 for invalid options or names and 1 for any other failure.
+ */
+export async function runHeadlessGenerator(
+  argv: string[],
+  output: IHeadlessOutput
+): Promise<number> {
+  let args: IHeadlessArguments;
+  try {
+    args = parseHeadlessArguments(argv);
+  } catch (error) {
+    output.error(error.message);
+    output.error(USAGE);
+    return CONSTANTS.HEADLESS.EXIT_CODE_INVALID_INPUT;
+  }
+  if (args.help) {
+    output.log(USAGE);
+    return 0;
+  }
+
+  try {
+    const coreTemplateStudio = await CoreTemplateStudio.GetInstance(
+      undefined,
+      (level, message): void => {
+        if (args.verbose || level === "error") {
+          output.error(`[${level}] ${message}`);
+        }
+      }
+    );
+    const logProgress = (message: string): void => {
+      if (args.verbose) {
+        output.log(message);
+      }
+    };
+    const syncResult = await coreTemplateStudio.sync({
+      payload: {
+        path: args.templatesPath ? path.resolve(args.templatesPath) : defaultTemplatesPath()
+      },
+      liveMessageHandler: logProgress
+    });
+
+    const selection = args.selectionFile
+      ? await selectionFromRecipe(coreTemplateStudio, path.resolve(args.selectionFile), output)
+      : await selectionFromArguments(coreTemplateStudio, args);
+    const projectName = args.projectName || CONSTANTS.HEADLESS.DEFAULT_PROJECT_NAME;
+    const outputPath = path.resolve(args.outputPath!);
+    validateNames(
+      projectName,
+      outputPath,
+      selection.pages.map((page: { name: string }) => page.name),
+      syncResult
+    );
+
+    await fse.ensureDir(outputPath);
+    const result = await coreTemplateStudio.generate({
+      payload: { ...selection, projectName, path: outputPath },
+      liveMessageHandler: logProgress
+    });
+    output.log(
+      CONSTANTS.INFO.PROJECT_GENERATED(
+        (result && result.generationPath) || path.join(outputPath, projectName)
+      )
+    );
+    return 0;
+  } catch (error) {
+    output.error(error.message);
+    return error instanceof ValidationError
+      ? CONSTANTS.HEADLESS.EXIT_CODE_INVALID_INPUT
+      : CONSTANTS.HEADLESS.EXIT_CODE_FAILED;
+  } finally {
+    CoreTemplateStudio.DestroyInstance();
+  }
+}
+
+if (require.main === module) {
+  runHeadlessGenerator(process.argv.slice(2), console).then(exitCode =>
+    process.exit(exitCode)
+  );
+}
@@ -1,9 +1,11 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { CONSTANTS } from "./constants";
 import { CoreTemplateStudio } from "./coreTemplateStudio";
 import { ISyncReturnType } from "./types/syncReturnType";
 import { IVSCodeProgressType } from "./types/vscodeProgressType";
 import { Logger } from "./utils/logger";
+import { ITemplateIdentityConflict } from "./templateSources";
 
 export class LaunchExperience {
   private static _progressObject: vscode.Progress<IVSCodeProgressType>;
@@ -16,8 +18,15 @@ export class LaunchExperience {
     context: vscode.ExtensionContext
   ): Promise<ISyncReturnType> {
 
-    await CoreTemplateStudio.GetInstance(context)
-      .catch((error: Error) => {
+    const useFakeEngine = vscode.workspace
+      .getConfiguration()
+      .get<boolean>(CONSTANTS.CLI.FAKE_ENGINE_SETTING);
+
+    await CoreTemplateStudio.GetInstance(
+      context,
+      (level, message) => Logger.appendLog("CORE", level, message),
+      useFakeEngine
+    ).catch((error: Error) => {
         error.message = CONSTANTS.ERRORS.CANNOT_START_GENERATION_ENGINE.concat(" ", error.message);
         throw error;
     });
@@ -31,7 +40,8 @@ export class LaunchExperience {
       templatesVersion: "",
       errorMessage: "",
       itemNameValidationConfig: {},
-      projectNameValidationConfig: {}
+      projectNameValidationConfig: {},
+      templateSourceConflicts: []
     };
     let syncAttempts = 0;
     while (
@@ -49,7 +59,60 @@ export class LaunchExperience {
       throw new Error(CONSTANTS.ERRORS.TOO_MANY_FAILED_SYNC_REQUESTS(syncObject.errorMessage));
     }
 
-    return { ...syncObject };
+    const templateSourceConflicts = await this.syncTemplateSources();
+    return { ...syncObject, templateSourceConflicts };
+  }
+
+  /**
+   * Syncs the extra template roots listed in the wts.templateSources setting.
+   * A root that fails to sync is skipped so the built-in templates stay usable.
+   */
+  private async syncTemplateSources(): Promise<ITemplateIdentityConflict[]> {
+    const templateSources =
+      vscode.workspace
+        .getConfiguration()
+        .get<string[]>(CONSTANTS.API.TEMPLATE_SOURCES_SETTING) || [];
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const apiInstance = CoreTemplateStudio.GetExistingInstance();
+    await apiInstance.removeTemplateSources();
+
+    for (const templateSource of templateSources) {
+      try {
+        // Relative roots are resolved against the first workspace folder
+        const sourcePath =
+          path.isAbsolute(templateSource) || !workspaceFolders
+            ? templateSource
+            : path.join(workspaceFolders[0].uri.fsPath, templateSource);
+        await apiInstance.addTemplateSource({
+          payload: { path: sourcePath },
+          liveMessageHandler: this.handleSyncLiveData
+        });
+        Logger.appendLog(
+          "EXTENSION",
+          "info",
+          CONSTANTS.INFO.TEMPLATE_SOURCE_SYNCED(templateSource)
+        );
+      } catch (error) {
+        const message = CONSTANTS.ERRORS.TEMPLATE_SOURCE_SYNC_FAILED(
+          templateSource,
+          error.message
+        );
+        Logger.appendLog("EXTENSION", "error", message);
+        vscode.window.showWarningMessage(message);
+      }
+    }
+
+    const conflicts = await apiInstance.findTemplateSourceConflicts();
+    conflicts.forEach(conflict => {
+      const message = CONSTANTS.ERRORS.TEMPLATE_IDENTITY_CONFLICT(
+        conflict.identity,
+        conflict.sources.join(", "),
+        conflict.sources[0]
+      );
+      Logger.appendLog("EXTENSION", "warn", message);
+      vscode.window.showWarningMessage(message);
+    });
+    return conflicts;
   }
 
   private timeout(ms: number): Promise<unknown> {
@@ -83,7 +146,8 @@ export class LaunchExperience {
           templatesVersion: syncResult.templatesVersion,
           errorMessage: "",
           itemNameValidationConfig: syncResult.itemNameValidationConfig,
-          projectNameValidationConfig: syncResult.projectNameValidationConfig
+          projectNameValidationConfig: syncResult.projectNameValidationConfig,
+          templateSourceConflicts: []
         };
       })
       .catch((error: Error) => {
@@ -93,7 +157,8 @@ export class LaunchExperience {
           templatesVersion: "",
           errorMessage: error.message,
           itemNameValidationConfig: {},
-          projectNameValidationConfig: {}
+          projectNameValidationConfig: {},
+          templateSourceConflicts: []
         };
       });
   }
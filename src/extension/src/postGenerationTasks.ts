@@ -0,0 +1,268 @@
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { IBuildStep, ICancellationSignal, runBuildStep } from "./deployPipeline";
+
+export enum PostGenerationTaskId {
+  GitInit = "gitInit",
+  CreateVirtualEnv = "createVirtualEnv",
+  InstallDependencies = "installDependencies",
+  OpenReadme = "openReadme",
+  OpenProject = "openProject"
+}
+
+export type OpenProjectTarget = "none" | "currentWindow" | "newWindow";
+
+export interface IPostGenerationOptions {
+  installDependencies: boolean;
+  createVirtualEnv: boolean;
+  gitInit: boolean;
+  openReadme: boolean;
+  openProject: OpenProjectTarget;
+}
+
+export type PostGenerationTaskState = "pending" | "running" | "done" | "failed";
+
+export interface IPostGenerationTaskStatus {
+  id: PostGenerationTaskId;
+  state: PostGenerationTaskState;
+  output: string[];
+  error?: string;
+}
+
+export interface IPostGenerationStep extends IBuildStep {
+  /** Folder the step runs in, relative to the project */
+  folder?: string;
+}
+
+/**
+ * The tasks that need VS Code, run by the caller of the task runner.
+ */
+export interface IPostGenerationEditorActions {
+  openReadme(readmePath: string): Promise<void>;
+  openProject(projectPath: string, newWindow: boolean): Promise<void>;
+}
+
+export const DEFAULT_POST_GENERATION_OPTIONS: IPostGenerationOptions = {
+  installDependencies: false,
+  createVirtualEnv: false,
+  gitInit: false,
+  openReadme: false,
+  openProject: "none"
+};
+
+/**
+ * The selected tasks in the order they run. The initial commit is made before
+ * anything is installed so it only holds the generated files, and the project
+ * is opened last since opening it in the current window ends the session.
+ */
+export function getPostGenerationTaskIds(
+  options: IPostGenerationOptions,
+  backendFramework: string
+): PostGenerationTaskId[] {
+  const taskIds: PostGenerationTaskId[] = [];
+  if (options.gitInit) {
+    taskIds.push(PostGenerationTaskId.GitInit);
+  }
+  if (options.createVirtualEnv && backendFramework === CONSTANTS.BACKEND_FRAMEWORKS.FLASK) {
+    taskIds.push(PostGenerationTaskId.CreateVirtualEnv);
+  }
+  if (options.installDependencies) {
+    taskIds.push(PostGenerationTaskId.InstallDependencies);
+  }
+  if (options.openReadme) {
+    taskIds.push(PostGenerationTaskId.OpenReadme);
+  }
+  if (options.openProject !== "none") {
+    taskIds.push(PostGenerationTaskId.OpenProject);
+  }
+  return taskIds;
+}
+
+/**
+ * The commands of a task. Every project installs its node modules from the
+ * root package.json, which holds the Node and Moleculer server dependencies
+ * too; Flask projects also install their Python requirements, into the
+ * virtualenv of the server when one is created.
+ */
+export function getPostGenerationSteps(
+  taskId: PostGenerationTaskId,
+  options: IPostGenerationOptions,
+  backendFramework: string,
+  platform: string
+): IPostGenerationStep[] {
+  const isWindows = platform === CONSTANTS.CLI.WINDOWS_PLATFORM_VERSION;
+  const virtualEnvPath = path.join(
+    CONSTANTS.APP_SERVICE_DEPLOYMENT.SERVER_FOLDER,
+    CONSTANTS.POST_GENERATION.VIRTUAL_ENV_FOLDER
+  );
+  const isFlask = backendFramework === CONSTANTS.BACKEND_FRAMEWORKS.FLASK;
+
+  switch (taskId) {
+    case PostGenerationTaskId.GitInit:
+      return [
+        { description: "git init", command: "git", args: ["init"] },
+        { description: "git add", command: "git", args: ["add", "-A"] },
+        {
+          description: "git commit",
+          command: "git",
+          args: ["commit", "-m", CONSTANTS.POST_GENERATION.INITIAL_COMMIT_MESSAGE]
+        }
+      ];
+    case PostGenerationTaskId.CreateVirtualEnv:
+      return [
+        {
+          description: CONSTANTS.INFO.POST_GENERATION_CREATING_VIRTUAL_ENV,
+          command: isWindows ? "py" : CONSTANTS.DEPENDENCY_CHECKER.PYTHON3,
+          args: isWindows ? ["-3", "-m", "venv", virtualEnvPath] : ["-m", "venv", virtualEnvPath]
+        }
+      ];
+    case PostGenerationTaskId.InstallDependencies: {
+      const npm = isWindows ? "npm.cmd" : "npm";
+      const steps: IPostGenerationStep[] = [
+        { description: CONSTANTS.INFO.DEPLOY_INSTALLING_DEPENDENCIES, command: npm, args: ["install"] }
+      ];
+      if (isFlask && options.createVirtualEnv) {
+        steps.push({
+          description: CONSTANTS.INFO.DEPLOY_INSTALLING_REQUIREMENTS,
+          command: isWindows
+            ? path.join(virtualEnvPath, "Scripts", "python.exe")
+            : path.join(virtualEnvPath, "bin", "python"),
+          args: ["-m", "pip", "install", "-r", CONSTANTS.DEPLOY.REQUIREMENTS_FILE],
+          folder: CONSTANTS.APP_SERVICE_DEPLOYMENT.SERVER_FOLDER
+        });
+      } else if (isFlask) {
+        steps.push({
+          description: CONSTANTS.INFO.DEPLOY_INSTALLING_REQUIREMENTS,
+          command: npm,
+          args: ["run-script", "install-requirements"]
+        });
+      }
+      return steps;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Runs the post-generation tasks of a generated project one after the other
+ * and reports the status of all of them after every change. A failed task
+ * does not stop the ones after it and can be run again with retry.
+ */
+export class PostGenerationTaskRunner {
+  private tasks: IPostGenerationTaskStatus[];
+  private cancellationListeners: (() => void)[] = [];
+  private cancellation: ICancellationSignal = {
+    isCancellationRequested: false,
+    onCancellationRequested: (listener: () => void): { dispose(): void } => {
+      this.cancellationListeners.push(listener);
+      return {
+        dispose: (): void => {
+          this.cancellationListeners = this.cancellationListeners.filter(item => item !== listener);
+        }
+      };
+    }
+  };
+
+  constructor(
+    private projectPath: string,
+    private options: IPostGenerationOptions,
+    private backendFramework: string,
+    private editorActions: IPostGenerationEditorActions,
+    private onStatus: (tasks: IPostGenerationTaskStatus[]) => void,
+    private platform: string = process.platform,
+    private runStep: typeof runBuildStep = runBuildStep
+  ) {
+    this.tasks = getPostGenerationTaskIds(options, backendFramework).map(
+      (id): IPostGenerationTaskStatus => ({ id, state: "pending", output: [] })
+    );
+  }
+
+  public getTasks(): IPostGenerationTaskStatus[] {
+    return this.tasks.map(task => ({ ...task, output: task.output.slice() }));
+  }
+
+  /**
+   * Runs the pending tasks. The project is only opened once beforeOpenProject
+   * resolves, so work that has to finish in this window can hold it back.
+   */
+  public async runAll(beforeOpenProject?: Promise<any>): Promise<void> {
+    for (const task of this.tasks) {
+      if (task.state !== "pending") {
+        continue;
+      }
+      if (task.id === PostGenerationTaskId.OpenProject && beforeOpenProject) {
+        await beforeOpenProject;
+      }
+      if (this.cancellation.isCancellationRequested) {
+        return;
+      }
+      await this.runTask(task);
+    }
+  }
+
+  /**
+   * Kills the running command and keeps the pending tasks from starting.
+   */
+  public cancel(): void {
+    this.cancellation.isCancellationRequested = true;
+    this.cancellationListeners.forEach(listener => listener());
+  }
+
+  public async retry(taskId: PostGenerationTaskId): Promise<void> {
+    const task = this.tasks.find(item => item.id === taskId);
+    if (task && task.state === "failed" && !this.cancellation.isCancellationRequested) {
+      await this.runTask(task);
+    }
+  }
+
+  private async runTask(task: IPostGenerationTaskStatus): Promise<void> {
+    task.state = "running";
+    task.output = [];
+    task.error = undefined;
+    this.reportStatus();
+    try {
+      switch (task.id) {
+        case PostGenerationTaskId.OpenReadme:
+          await this.editorActions.openReadme(
+            path.join(this.projectPath, CONSTANTS.POST_GENERATION.README_FILE)
+          );
+          break;
+        case PostGenerationTaskId.OpenProject:
+          await this.editorActions.openProject(
+            this.projectPath,
+            this.options.openProject === "newWindow"
+          );
+          break;
+        default:
+          for (const step of getPostGenerationSteps(task.id, this.options, this.backendFramework, this.platform)) {
+            this.appendOutput(task, `> ${[step.command, ...step.args].join(" ")}`);
+            await this.runStep(
+              step,
+              step.folder ? path.join(this.projectPath, step.folder) : this.projectPath,
+              line => this.appendOutput(task, line),
+              this.cancellation
+            );
+          }
+      }
+      task.state = "done";
+    } catch (error) {
+      task.state = "failed";
+      task.error = error.message;
+    }
+    this.reportStatus();
+  }
+
+  // Only the last lines are kept so a long install doesn't flood the client
+  private appendOutput(task: IPostGenerationTaskStatus, line: string): void {
+    task.output.push(line);
+    if (task.output.length > CONSTANTS.POST_GENERATION.MAX_OUTPUT_LINES) {
+      task.output.shift();
+    }
+    this.reportStatus();
+  }
+
+  private reportStatus(): void {
+    this.onStatus(this.getTasks());
+  }
+}
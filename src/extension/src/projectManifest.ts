@@ -0,0 +1,235 @@
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { isBinary } from "./existingProject";
+import { IGenerationPayloadType } from "./types/generationPayloadType";
+import { listTemplateFiles } from "./utils/templateFiles";
+
+export interface IManifestTemplate {
+  name: string;
+  identity: string;
+}
+
+export interface IManifestPage extends IManifestTemplate {
+  routePath?: string;
+}
+
+export type ManifestAzureResourceType = "resourceGroup" | "appService" | "cosmosDB";
+
+export interface IManifestAzureResource {
+  type: ManifestAzureResourceType;
+  id: string;
+}
+
+export interface IManifestFile {
+  path: string;
+  hash: string;
+}
+
+/**
+ * Records how a project was generated, written to .wts/manifest.json inside
+ * the project.
+ */
+export interface IProjectManifest {
+  manifestVersion: number;
+  wizardVersion: string;
+  templatesVersion: string;
+  projectName: string;
+  projectType: string;
+  frontendFramework: string;
+  backendFramework: string;
+  language?: string;
+  homeName?: string;
+  pages: IManifestPage[];
+  services: IManifestTemplate[];
+  azureResources: IManifestAzureResource[];
+  files: IManifestFile[];
+}
+
+export const getManifestPath = (projectPath: string): string =>
+  path.join(projectPath, CONSTANTS.PROJECT_MANIFEST.FOLDER, CONSTANTS.PROJECT_MANIFEST.FILE_NAME);
+
+export const getOriginalOutputPath = (projectPath: string): string =>
+  path.join(projectPath, CONSTANTS.PROJECT_MANIFEST.FOLDER, CONSTANTS.PROJECT_MANIFEST.ORIGINAL_OUTPUT_FOLDER);
+
+export const getResourceGroupId = (subscriptionId: string, resourceGroupName: string): string =>
+  `/subscriptions/${subscriptionId}/resourceGroups/${resourceGroupName}`;
+
+export const hashContent = (content: Buffer): string =>
+  crypto
+    .createHash(CONSTANTS.PROJECT_MANIFEST.HASH_ALGORITHM)
+    .update(content)
+    .digest("hex");
+
+const toTemplates = (items: any[]): IManifestTemplate[] =>
+  items.map(item => ({ name: item.name, identity: item.identity }));
+
+const toPages = (pages: any[]): IManifestPage[] =>
+  pages.map(page =>
+    page.routePath
+      ? { name: page.name, identity: page.identity, routePath: page.routePath }
+      : { name: page.name, identity: page.identity }
+  );
+
+/**
+ * Creates the manifest of a project that was just generated. Files are hashed
+ * as the templates wrote them, before Azure resources are created and their
+ * settings are added to the project; paths use forward slashes.
+ */
+export async function createProjectManifest(
+  projectPath: string,
+  payload: IGenerationPayloadType,
+  versions: { wizardVersion: string; templatesVersion: string }
+): Promise<IProjectManifest> {
+  const files: IManifestFile[] = [];
+  for (const relativePath of await listTemplateFiles(projectPath)) {
+    const manifestPath = relativePath.split(path.sep).join("/");
+    if (manifestPath.startsWith(`${CONSTANTS.PROJECT_MANIFEST.FOLDER}/`)) {
+      continue;
+    }
+    files.push({
+      path: manifestPath,
+      hash: hashContent(await fse.readFile(path.join(projectPath, relativePath)))
+    });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    manifestVersion: CONSTANTS.PROJECT_MANIFEST.VERSION,
+    wizardVersion: versions.wizardVersion,
+    templatesVersion: versions.templatesVersion,
+    projectName: payload.projectName,
+    projectType: payload.projectType,
+    frontendFramework: payload.frontendFramework,
+    backendFramework: payload.backendFramework,
+    language: payload.language || CONSTANTS.LANGUAGES.JAVASCRIPT,
+    homeName: payload.homeName || (payload.pages.length > 0 ? payload.pages[0].name : undefined),
+    pages: toPages(payload.pages),
+    services: toTemplates(payload.services),
+    azureResources: [],
+    files
+  };
+}
+
+export async function writeProjectManifest(
+  projectPath: string,
+  manifest: IProjectManifest
+): Promise<void> {
+  await fse.outputFile(getManifestPath(projectPath), `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Keeps a copy of the text files generated by the templates next to the
+ * manifest, the base of the three-way merge when the project is upgraded to
+ * newer templates. Binary files are only tracked by their hash. The copy is
+ * left out of the project's repository by a .gitignore in the manifest folder.
+ */
+export async function saveOriginalOutput(
+  projectPath: string,
+  outputPath: string,
+  files: IManifestFile[]
+): Promise<void> {
+  const originalOutputPath = getOriginalOutputPath(projectPath);
+  await fse.remove(originalOutputPath);
+  for (const file of files) {
+    const content = await fse.readFile(path.join(outputPath, ...file.path.split("/")));
+    if (!isBinary(content)) {
+      await fse.outputFile(path.join(originalOutputPath, ...file.path.split("/")), content);
+    }
+  }
+  await fse.outputFile(
+    path.join(projectPath, CONSTANTS.PROJECT_MANIFEST.FOLDER, CONSTANTS.PROJECT_MANIFEST.GITIGNORE_FILE),
+    `${CONSTANTS.PROJECT_MANIFEST.ORIGINAL_OUTPUT_FOLDER}/\n`
+  );
+}
+
+/**
+ * Reads the manifest of a project, undefined for projects generated before
+ * manifests were written. Throws when the file is not a manifest or was
+ * written by a newer wizard.
+ */
+export async function readProjectManifest(
+  projectPath: string
+): Promise<IProjectManifest | undefined> {
+  const manifestPath = getManifestPath(projectPath);
+  if (!(await fse.pathExists(manifestPath))) {
+    return undefined;
+  }
+  let manifest: any;
+  try {
+    manifest = JSON.parse(await fse.readFile(manifestPath, "utf8"));
+  } catch (error) {
+    throw new Error(CONSTANTS.ERRORS.INVALID_PROJECT_MANIFEST(manifestPath));
+  }
+  if (
+    !manifest ||
+    typeof manifest.manifestVersion !== "number" ||
+    !Array.isArray(manifest.pages) ||
+    !Array.isArray(manifest.files)
+  ) {
+    throw new Error(CONSTANTS.ERRORS.INVALID_PROJECT_MANIFEST(manifestPath));
+  }
+  if (manifest.manifestVersion > CONSTANTS.PROJECT_MANIFEST.VERSION) {
+    throw new Error(CONSTANTS.ERRORS.UNSUPPORTED_PROJECT_MANIFEST_VERSION(manifest.manifestVersion));
+  }
+  return {
+    ...manifest,
+    services: manifest.services || [],
+    azureResources: manifest.azureResources || []
+  };
+}
+
+/**
+ * Adds the IDs of the Azure resources created for a project to its manifest.
+ * Only IDs are recorded, keys and connection strings stay out of the file.
+ */
+export async function recordAzureResources(
+  projectPath: string,
+  resources: IManifestAzureResource[]
+): Promise<void> {
+  const manifest = await readProjectManifest(projectPath);
+  if (!manifest) {
+    return;
+  }
+  const azureResources = manifest.azureResources.concat(
+    resources
+      .filter(resource => !manifest.azureResources.some(recorded => recorded.id === resource.id))
+      .map(resource => ({ type: resource.type, id: resource.id }))
+  );
+  await writeProjectManifest(projectPath, { ...manifest, azureResources });
+}
+
+/**
+ * Adds pages and services added to a project to its manifest, with the hashes
+ * of the template output of the files their changes wrote. That output is kept
+ * with the original output, the base of the next upgrade.
+ */
+export async function recordAddedItems(
+  projectPath: string,
+  pages: IManifestPage[],
+  services: IManifestTemplate[],
+  templateOutputs: { path: string; content: Buffer }[]
+): Promise<void> {
+  const manifest = await readProjectManifest(projectPath);
+  if (!manifest) {
+    return;
+  }
+  const isNew = (recorded: IManifestTemplate[]) => (item: IManifestTemplate): boolean =>
+    !recorded.some(recordedItem => recordedItem.name === item.name);
+  const outputPaths = new Set(templateOutputs.map(output => output.path));
+  const files = manifest.files
+    .filter(file => !outputPaths.has(file.path))
+    .concat(templateOutputs.map(output => ({ path: output.path, hash: hashContent(output.content) })))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  await writeProjectManifest(projectPath, {
+    ...manifest,
+    pages: manifest.pages.concat(toPages(pages.filter(isNew(manifest.pages)))),
+    services: manifest.services.concat(toTemplates(services.filter(isNew(manifest.services)))),
+    files
+  });
+  for (const output of templateOutputs.filter(templateOutput => !isBinary(templateOutput.content))) {
+    await fse.outputFile(path.join(getOriginalOutputPath(projectPath), ...output.path.split("/")), output.content);
+  }
+}
@@ -0,0 +1,327 @@
+import { CONSTANTS } from "./constants";
+import { CoreTemplateStudio } from "./coreTemplateStudio";
+
+export interface IRecipeTemplate {
+  identity: string;
+  templateName: string;
+}
+
+export interface IRecipePage extends IRecipeTemplate {
+  name: string;
+  routePath?: string;
+}
+
+/**
+ * A feature added without Azure settings, such as Docker or Continuous
+ * Integration, generated under its name.
+ */
+export interface IRecipeFeature extends IRecipeTemplate {
+  name: string;
+}
+
+export interface IRecipeCosmosDB extends IRecipeTemplate {
+  api: string;
+  subscription: string;
+  resourceGroup: string;
+  accountName: string;
+}
+
+export interface IRecipeAppService {
+  subscription: string;
+  resourceGroup: string;
+  siteName: string;
+}
+
+export interface IProjectRecipe {
+  recipeVersion: number;
+  wizardVersion: string;
+  templatesVersion: string;
+  projectType: string;
+  frontendFramework: IRecipeTemplate;
+  backendFramework: IRecipeTemplate;
+  language?: string;
+  homeName?: string;
+  pages: IRecipePage[];
+  services: {
+    cosmosDB?: IRecipeCosmosDB;
+    appService?: IRecipeAppService;
+    features?: IRecipeFeature[];
+  };
+}
+
+export type RecipeTemplateType = "frontendFramework" | "backendFramework" | "page" | "service";
+
+export interface IRecipeIssue {
+  type: "missing" | "renamed";
+  templateType: RecipeTemplateType;
+  identity: string;
+  templateName: string;
+  newIdentity?: string;
+}
+
+export interface IRecipeValidation {
+  recipe?: IProjectRecipe;
+  issues: IRecipeIssue[];
+}
+
+/**
+ * The templates of the synced catalog a recipe is checked against, pages and
+ * features depend on the frameworks of the recipe.
+ */
+export interface IRecipeCatalog {
+  getFrameworks(projectType: string): Promise<{ frontend: IRecipeTemplate[]; backend: IRecipeTemplate[] }>;
+  getPages(projectType: string, frontendFramework: string, backendFramework: string): Promise<IRecipeTemplate[]>;
+  getFeatures(projectType: string, frontendFramework: string, backendFramework: string): Promise<IRecipeTemplate[]>;
+}
+
+const toTemplates = (items: any[]): IRecipeTemplate[] =>
+  items.map(item => ({ identity: item.templateId, templateName: item.name }));
+
+/**
+ * Reads the templates of the recipe catalog from the engine.
+ */
+export function createRecipeCatalog(coreTemplateStudio: CoreTemplateStudio): IRecipeCatalog {
+  return {
+    async getFrameworks(projectType: string): Promise<{ frontend: IRecipeTemplate[]; backend: IRecipeTemplate[] }> {
+      const frameworks: any[] = await coreTemplateStudio.getFrameworks(projectType);
+      const ofType = (type: string): IRecipeTemplate[] =>
+        frameworks
+          .filter(framework => framework.tags.type === type)
+          .map(framework => ({ identity: framework.name, templateName: framework.displayName }));
+      return { frontend: ofType("frontend"), backend: ofType("backend") };
+    },
+    async getPages(projectType: string, frontendFramework: string, backendFramework: string): Promise<IRecipeTemplate[]> {
+      return toTemplates(await coreTemplateStudio.getPages(projectType, frontendFramework, backendFramework));
+    },
+    async getFeatures(projectType: string, frontendFramework: string, backendFramework: string): Promise<IRecipeTemplate[]> {
+      return toTemplates(await coreTemplateStudio.getFeatures(projectType, frontendFramework, backendFramework));
+    }
+  };
+}
+
+/**
+ * The wizard selection sent by the client, items only carry the identity of
+ * their templates.
+ */
+export interface IRecipeSelection {
+  projectType: string;
+  frontendFramework: string;
+  backendFramework: string;
+  language?: string;
+  homeName?: string;
+  pages: { name: string; identity: string; routePath?: string }[];
+  services: {
+    cosmosDB?: { identity: string; api: string; subscription: string; resourceGroup: string; accountName: string };
+    appService?: IRecipeAppService;
+    features?: { name: string; identity: string }[];
+  };
+}
+
+const templateNameOf = (templates: IRecipeTemplate[], identity: string): string => {
+  const template = templates.find(catalogTemplate => catalogTemplate.identity === identity);
+  return template ? template.templateName : identity;
+};
+
+/**
+ * Creates the recipe of a wizard selection. Only the fields listed here are
+ * copied, so keys and connection strings never end up in the file; template
+ * names are recorded to recognize templates renamed in later catalogs.
+ */
+export async function createRecipe(
+  selection: IRecipeSelection,
+  versions: { wizardVersion: string; templatesVersion: string },
+  catalog: IRecipeCatalog
+): Promise<IProjectRecipe> {
+  const { projectType, frontendFramework, backendFramework } = selection;
+  const frameworks = await catalog.getFrameworks(projectType);
+  const pages = await catalog.getPages(projectType, frontendFramework, backendFramework);
+  const features = await catalog.getFeatures(projectType, frontendFramework, backendFramework);
+  const { cosmosDB, appService, features: selectedFeatures } = selection.services;
+
+  return {
+    recipeVersion: CONSTANTS.RECIPE.VERSION,
+    wizardVersion: versions.wizardVersion,
+    templatesVersion: versions.templatesVersion,
+    projectType,
+    frontendFramework: {
+      identity: frontendFramework,
+      templateName: templateNameOf(frameworks.frontend, frontendFramework)
+    },
+    backendFramework: {
+      identity: backendFramework,
+      templateName: templateNameOf(frameworks.backend, backendFramework)
+    },
+    language: selection.language,
+    homeName: selection.homeName,
+    pages: selection.pages.map(page => ({
+      name: page.name,
+      identity: page.identity,
+      templateName: templateNameOf(pages, page.identity),
+      ...(page.routePath ? { routePath: page.routePath } : {})
+    })),
+    services: {
+      cosmosDB: cosmosDB && {
+        identity: cosmosDB.identity,
+        templateName: templateNameOf(features, cosmosDB.identity),
+        api: cosmosDB.api,
+        subscription: cosmosDB.subscription,
+        resourceGroup: cosmosDB.resourceGroup,
+        accountName: cosmosDB.accountName
+      },
+      appService: appService && {
+        subscription: appService.subscription,
+        resourceGroup: appService.resourceGroup,
+        siteName: appService.siteName
+      },
+      features: (selectedFeatures || []).map(feature => ({
+        name: feature.name,
+        identity: feature.identity,
+        templateName: templateNameOf(features, feature.identity)
+      }))
+    }
+  };
+}
+
+const isTemplate = (value: any): boolean =>
+  !!value && typeof value.identity === "string" && typeof value.templateName === "string";
+
+/**
+ * Parses the content of a recipe file, throwing when it is not a recipe or
+ * was written by a newer wizard.
+ */
+export function parseRecipe(content: string, filePath: string): IProjectRecipe {
+  let recipe: any;
+  try {
+    recipe = JSON.parse(content);
+  } catch (error) {
+    throw new Error(CONSTANTS.ERRORS.INVALID_RECIPE(filePath));
+  }
+  if (
+    !recipe ||
+    typeof recipe.recipeVersion !== "number" ||
+    typeof recipe.projectType !== "string" ||
+    !isTemplate(recipe.frontendFramework) ||
+    !isTemplate(recipe.backendFramework) ||
+    (recipe.language !== undefined && typeof recipe.language !== "string") ||
+    (recipe.homeName !== undefined && typeof recipe.homeName !== "string") ||
+    !Array.isArray(recipe.pages) ||
+    !recipe.pages.every(
+      (page: any) =>
+        isTemplate(page) &&
+        typeof page.name === "string" &&
+        (page.routePath === undefined || typeof page.routePath === "string")
+    ) ||
+    (recipe.services &&
+      recipe.services.features !== undefined &&
+      !(
+        Array.isArray(recipe.services.features) &&
+        recipe.services.features.every((feature: any) => isTemplate(feature) && typeof feature.name === "string")
+      ))
+  ) {
+    throw new Error(CONSTANTS.ERRORS.INVALID_RECIPE(filePath));
+  }
+  if (recipe.recipeVersion > CONSTANTS.RECIPE.VERSION) {
+    throw new Error(CONSTANTS.ERRORS.UNSUPPORTED_RECIPE_VERSION(recipe.recipeVersion));
+  }
+  return { ...recipe, services: recipe.services || {} };
+}
+
+const pickTemplate = (template: IRecipeTemplate): IRecipeTemplate => ({
+  identity: template.identity,
+  templateName: template.templateName
+});
+
+/**
+ * Finds a recipe template in the catalog by identity, or by template name when
+ * the identity is gone, recording an issue for renamed and missing templates.
+ */
+function resolveTemplate<T extends IRecipeTemplate>(
+  template: T,
+  templateType: RecipeTemplateType,
+  catalogTemplates: IRecipeTemplate[],
+  issues: IRecipeIssue[]
+): T | undefined {
+  if (catalogTemplates.some(catalogTemplate => catalogTemplate.identity === template.identity)) {
+    return template;
+  }
+  const sameName = catalogTemplates.filter(
+    catalogTemplate => catalogTemplate.templateName === template.templateName
+  );
+  if (sameName.length === 1) {
+    issues.push({ type: "renamed", templateType, ...pickTemplate(template), newIdentity: sameName[0].identity });
+    return { ...template, identity: sameName[0].identity };
+  }
+  issues.push({ type: "missing", templateType, ...pickTemplate(template) });
+  return undefined;
+}
+
+/**
+ * Checks a recipe against the synced catalog. Renamed templates are replaced
+ * with their new identity and missing pages and services are left out; a
+ * recipe whose frameworks are missing can't be used and is not returned.
+ */
+export async function validateRecipe(
+  recipe: IProjectRecipe,
+  catalog: IRecipeCatalog
+): Promise<IRecipeValidation> {
+  const issues: IRecipeIssue[] = [];
+  const frameworks = await catalog.getFrameworks(recipe.projectType);
+  const frontendFramework = resolveTemplate(
+    recipe.frontendFramework,
+    "frontendFramework",
+    frameworks.frontend,
+    issues
+  );
+  const backendFramework = resolveTemplate(
+    recipe.backendFramework,
+    "backendFramework",
+    frameworks.backend,
+    issues
+  );
+  if (!frontendFramework || !backendFramework) {
+    return { issues };
+  }
+
+  const pages = await catalog.getPages(
+    recipe.projectType,
+    frontendFramework.identity,
+    backendFramework.identity
+  );
+  const features = await catalog.getFeatures(
+    recipe.projectType,
+    frontendFramework.identity,
+    backendFramework.identity
+  );
+  const resolvedPages: IRecipePage[] = [];
+  for (const page of recipe.pages) {
+    const resolvedPage = resolveTemplate(page, "page", pages, issues);
+    if (resolvedPage) {
+      resolvedPages.push(resolvedPage);
+    }
+  }
+  const { cosmosDB, appService } = recipe.services;
+  const resolvedFeatures: IRecipeFeature[] = [];
+  for (const feature of recipe.services.features || []) {
+    const resolvedFeature = resolveTemplate(feature, "service", features, issues);
+    if (resolvedFeature) {
+      resolvedFeatures.push(resolvedFeature);
+    }
+  }
+
+  return {
+    recipe: {
+      ...recipe,
+      frontendFramework,
+      backendFramework,
+      // The first page is the home page when the recipe's home page is gone
+      homeName: resolvedPages.some(page => page.name === recipe.homeName) ? recipe.homeName : undefined,
+      pages: resolvedPages,
+      services: {
+        cosmosDB: cosmosDB && resolveTemplate(cosmosDB, "service", features, issues),
+        appService,
+        features: resolvedFeatures
+      }
+    },
+    issues
+  };
+}
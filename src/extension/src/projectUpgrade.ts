@@ -0,0 +1,186 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { isBinary, readIfExists } from "./existingProject";
+import {
+  createProjectManifest,
+  getOriginalOutputPath,
+  hashContent,
+  IManifestFile,
+  IProjectManifest,
+  saveOriginalOutput,
+  writeProjectManifest
+} from "./projectManifest";
+import { IGenerationPayloadType } from "./types/generationPayloadType";
+import { listTemplateFiles } from "./utils/templateFiles";
+import { mergeThreeWay } from "./utils/textMerge";
+
+/**
+ * cleanUpdate: the user did not change the file, it is replaced by the new
+ * template output.
+ * userModified: the user changed the file and the template changes merged
+ * cleanly with theirs.
+ * conflict: the changes overlap, or can't be merged, and need a manual review.
+ * Files the user deleted are conflicts too, so they are not recreated unless
+ * the user picks them.
+ */
+export type UpgradeFileStatus = "cleanUpdate" | "userModified" | "conflict";
+
+export interface IUpgradeFileChange {
+  path: string;
+  status: UpgradeFileStatus;
+  isBinary: boolean;
+  newContent: Buffer;
+}
+
+/**
+ * The generation payload that recreates a project from its manifest.
+ */
+export function getManifestSelection(
+  manifest: IProjectManifest,
+  outputPath: string
+): IGenerationPayloadType {
+  return {
+    projectName: manifest.projectName,
+    path: outputPath,
+    projectType: manifest.projectType,
+    frontendFramework: manifest.frontendFramework,
+    backendFramework: manifest.backendFramework,
+    language: manifest.language,
+    homeName: manifest.homeName,
+    pages: manifest.pages,
+    services: manifest.services
+  };
+}
+
+/**
+ * The template output a file had when the project was generated: the copy kept
+ * next to the manifest, or the file itself while its hash still matches the
+ * manifest. Undefined for changed files whose original output was not kept.
+ */
+async function readOriginalOutput(
+  projectPath: string,
+  file: string,
+  current: Buffer | undefined,
+  recordedHash: string | undefined
+): Promise<Buffer | undefined> {
+  const original = await readIfExists(path.join(getOriginalOutputPath(projectPath), ...file.split("/")));
+  if (original) {
+    return original;
+  }
+  return current && recordedHash === hashContent(current) ? current : undefined;
+}
+
+/**
+ * Compares the project with the output of the current templates, generated
+ * from the same selection into upgradedPath, with a three-way merge per file
+ * against the original template output. Files the templates did not change
+ * are skipped, and so are files the new templates no longer generate.
+ */
+export async function planProjectUpgrade(
+  projectPath: string,
+  manifest: IProjectManifest,
+  upgradedPath: string
+): Promise<IUpgradeFileChange[]> {
+  const recordedHashes = new Map<string, string>();
+  manifest.files.forEach(file => recordedHashes.set(file.path, file.hash));
+
+  const changes: IUpgradeFileChange[] = [];
+  for (const relativePath of await listTemplateFiles(upgradedPath)) {
+    const file = relativePath.split(path.sep).join("/");
+    if (file.startsWith(`${CONSTANTS.PROJECT_MANIFEST.FOLDER}/`)) {
+      continue;
+    }
+    const updated = await fse.readFile(path.join(upgradedPath, relativePath));
+    const current = await readIfExists(path.join(projectPath, relativePath));
+    const recordedHash = recordedHashes.get(file);
+    const original = await readOriginalOutput(projectPath, file, current, recordedHash);
+    if ((current && current.equals(updated)) || (original && original.equals(updated))) {
+      continue;
+    }
+
+    const change = { path: file, isBinary: isBinary(updated) || (!!current && isBinary(current)) };
+    if (!current) {
+      // A file the templates generated before was deleted by the user
+      changes.push({
+        ...change,
+        status: recordedHash ? "conflict" : "cleanUpdate",
+        newContent: updated
+      });
+    } else if (original && current.equals(original)) {
+      changes.push({ ...change, status: "cleanUpdate", newContent: updated });
+    } else if (!original || change.isBinary) {
+      changes.push({ ...change, status: "conflict", newContent: updated });
+    } else {
+      const merge = mergeThreeWay(
+        original.toString("utf8"),
+        current.toString("utf8"),
+        updated.toString("utf8")
+      );
+      if (merge.content !== current.toString("utf8")) {
+        changes.push({
+          ...change,
+          status: merge.hasConflicts ? "conflict" : "userModified",
+          newContent: Buffer.from(merge.content, "utf8")
+        });
+      }
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Writes the selected changes and moves the manifest and the original output
+ * to the current templates, so the next upgrade merges against them. Files
+ * whose change was not selected keep their previous original output and hash,
+ * so the next upgrade offers the change again. Azure resources stay recorded.
+ */
+export async function applyProjectUpgrade(
+  projectPath: string,
+  manifest: IProjectManifest,
+  upgradedPath: string,
+  versions: { wizardVersion: string; templatesVersion: string },
+  changes: IUpgradeFileChange[]
+): Promise<void> {
+  for (const change of changes) {
+    await fse.outputFile(path.join(projectPath, ...change.path.split("/")), change.newContent);
+  }
+  const upgradedManifest = await createProjectManifest(
+    upgradedPath,
+    getManifestSelection(manifest, path.dirname(projectPath)),
+    versions
+  );
+
+  const recordedHashes = new Map<string, string>();
+  manifest.files.forEach(file => recordedHashes.set(file.path, file.hash));
+  const selectedFiles = new Set(changes.map(change => change.path));
+  const files: IManifestFile[] = [];
+  const upgradedFiles: IManifestFile[] = [];
+  const keptOriginals = new Map<string, Buffer>();
+  for (const file of upgradedManifest.files) {
+    const current = await readIfExists(path.join(projectPath, ...file.path.split("/")));
+    if (selectedFiles.has(file.path) || (current && hashContent(current) === file.hash)) {
+      files.push(file);
+      upgradedFiles.push(file);
+      continue;
+    }
+    const recordedHash = recordedHashes.get(file.path);
+    if (recordedHash) {
+      files.push({ path: file.path, hash: recordedHash });
+      const original = await readIfExists(path.join(getOriginalOutputPath(projectPath), ...file.path.split("/")));
+      if (original) {
+        keptOriginals.set(file.path, original);
+      }
+    }
+  }
+
+  await writeProjectManifest(projectPath, {
+    ...upgradedManifest,
+    azureResources: manifest.azureResources,
+    files
+  });
+  await saveOriginalOutput(projectPath, upgradedPath, upgradedFiles);
+  for (const [file, original] of Array.from(keptOriginals.entries())) {
+    await fse.outputFile(path.join(getOriginalOutputPath(projectPath), ...file.split("/")), original);
+  }
+}
@@ -0,0 +1,260 @@
+import * as vscode from "vscode";
+import { CONSTANTS, ExtensionCommand } from "./constants";
+import { Controller } from "./controller";
+import { CoreTemplateStudio } from "./coreTemplateStudio";
+import { CoreTSModule } from "./coreTSModule";
+import { GenerationExperience } from "./generationExperience";
+import { TelemetryService } from "./telemetry/telemetryService";
+import { IVSCodeProgressType } from "./types/vscodeProgressType";
+import { Defaults } from "./utils/defaults";
+import { INameValidationConfig, validateName } from "./utils/nameValidation";
+import { getFrameworkLanguages } from "./utils/templateFiles";
+import { Validator } from "./utils/validator";
+
+interface ITemplateQuickPickItem extends vscode.QuickPickItem {
+  template: any;
+}
+
+/**
+ * Creates a project through a chain of Quick Picks and input boxes instead of
+ * the wizard webview. The frameworks and pages come from the CoreTSModule, the
+ * names are checked with the validation configs used by the wizard and the
+ * project goes through the same GenerationExperience.
+ */
+export class QuickPickExperience {
+  private coreTSModule = new CoreTSModule();
+  private defaults = new Defaults();
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  public async launch(): Promise<void> {
+    const telemetryService = new TelemetryService(this.context);
+    if (!(await Controller.syncTemplates(this.context, telemetryService, CONSTANTS.INFO.LAUNCHING_WIZARD))) {
+      return;
+    }
+    const templateConfig = CoreTemplateStudio.GetExistingInstance().getTemplateConfig();
+
+    const projectName = await this.askProjectName(templateConfig.projectNameValidationConfig);
+    const outputPath = projectName && (await this.askOutputPath(projectName));
+    if (!projectName || !outputPath) {
+      return;
+    }
+    const projectType = CONSTANTS.FULL_STACK_PROJECT_TYPE;
+    const frameworks: any[] = (await this.coreTSModule.getFrameworks({
+      payload: { projectType }
+    })).payload.frameworks.filter((framework: any) => templateConfig.preview || !framework.tags.preview);
+    const frontendFramework = await this.pickFramework(
+      frameworks.filter(framework => framework.tags.type === "frontend"),
+      CONSTANTS.INFO.QUICK_PICK_FRONTEND_PLACEHOLDER
+    );
+    const backendFramework = frontendFramework && await this.pickFramework(
+      frameworks.filter(framework => framework.tags.type === "backend"),
+      CONSTANTS.INFO.QUICK_PICK_BACKEND_PLACEHOLDER
+    );
+    const language = backendFramework && await this.pickLanguage(
+      frameworks.find(framework => framework.name === frontendFramework)
+    );
+    if (!frontendFramework || !backendFramework || !language) {
+      return;
+    }
+    const pageTemplates: any[] = (await this.coreTSModule.getPages({
+      payload: { projectType, frontendFramework, backendFramework, language }
+    })).payload.pages;
+    const pages = await this.askPages(pageTemplates, templateConfig.itemNameValidationConfig);
+    if (!pages) {
+      return;
+    }
+
+    await this.generate(telemetryService, {
+      projectName,
+      path: outputPath,
+      projectType,
+      frontendFramework,
+      backendFramework,
+      language,
+      pages,
+      services: []
+    });
+  }
+
+  private async askProjectName(
+    validationConfig: INameValidationConfig
+  ): Promise<string | undefined> {
+    const { projectName } = (await this.defaults.getProjectName({ payload: {} })).payload;
+    return vscode.window.showInputBox({
+      prompt: CONSTANTS.INFO.QUICK_PICK_PROJECT_NAME_PROMPT,
+      value: projectName,
+      ignoreFocusOut: true,
+      validateInput: name => {
+        if (name.length > CONSTANTS.MAX_PROJECT_NAME_LENGTH) {
+          return CONSTANTS.ERRORS.PROJECT_NAME_LENGTH_EXCEEDED_MAX;
+        }
+        // Existing projects are reported once the output folder is known
+        return validateName(name, { ...validationConfig, validateExistingNames: false }, () => false);
+      }
+    });
+  }
+
+  /**
+   * Offers the default save location or any other folder, until the project
+   * folder can be created in the selected one.
+   */
+  private async askOutputPath(projectName: string): Promise<string | undefined> {
+    const { outputPath } = (await this.defaults.getOutputPath({ payload: {} })).payload;
+    for (;;) {
+      const selection = await vscode.window.showQuickPick(
+        [{ label: outputPath }, { label: CONSTANTS.INFO.QUICK_PICK_BROWSE }],
+        { placeHolder: CONSTANTS.INFO.QUICK_PICK_OUTPUT_PATH_PLACEHOLDER, ignoreFocusOut: true }
+      );
+      if (!selection) {
+        return undefined;
+      }
+      let selectedPath = selection.label;
+      if (selection.label === CONSTANTS.INFO.QUICK_PICK_BROWSE) {
+        const folders = await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          canSelectMany: false,
+          defaultUri: vscode.Uri.file(outputPath)
+        });
+        if (!folders) {
+          continue;
+        }
+        selectedPath = folders[0].fsPath;
+      }
+
+      const validation = Validator.isValidProjectPath(selectedPath, projectName);
+      if (validation.isValid) {
+        return selectedPath;
+      }
+      vscode.window.showErrorMessage(validation.error);
+    }
+  }
+
+  private async pickFramework(
+    frameworks: any[],
+    placeHolder: string
+  ): Promise<string | undefined> {
+    const selection = await vscode.window.showQuickPick<ITemplateQuickPickItem>(
+      frameworks.map(framework => ({
+        label: framework.displayName,
+        description: framework.tags.version,
+        detail: framework.summary,
+        template: framework
+      })),
+      { placeHolder, ignoreFocusOut: true }
+    );
+    return selection && selection.template.name;
+  }
+
+  /**
+   * Asks for the language only when the frontend framework offers a choice,
+   * otherwise it is the one its templates are written in.
+   */
+  private async pickLanguage(frontendFramework: any): Promise<string | undefined> {
+    const languages = getFrameworkLanguages(frontendFramework);
+    if (languages.length <= 1) {
+      return languages[0] || CONSTANTS.LANGUAGES.JAVASCRIPT;
+    }
+    return vscode.window.showQuickPick(languages, {
+      placeHolder: CONSTANTS.INFO.QUICK_PICK_LANGUAGE_PLACEHOLDER,
+      ignoreFocusOut: true
+    });
+  }
+
+  /**
+   * Picks the page templates and then asks for the name of each page, which
+   * defaults to the default name of its template made unique.
+   */
+  private async askPages(
+    pageTemplates: any[],
+    validationConfig: INameValidationConfig
+  ): Promise<{ name: string; identity: string }[] | undefined> {
+    const selection = await vscode.window.showQuickPick<ITemplateQuickPickItem>(
+      pageTemplates.map(page => ({
+        label: page.name,
+        detail: page.description,
+        template: page
+      })),
+      { placeHolder: CONSTANTS.INFO.QUICK_PICK_PAGES_PLACEHOLDER, canPickMany: true, ignoreFocusOut: true }
+    );
+    if (!selection) {
+      return undefined;
+    }
+
+    const pages: { name: string; identity: string }[] = [];
+    const isExisting = (name: string): boolean =>
+      pages.some(page => page.name.toLowerCase() === name.toLowerCase());
+    for (const { template } of selection) {
+      let defaultName = template.defaultName;
+      for (let count = 1; isExisting(defaultName); count++) {
+        defaultName = `${template.defaultName}${count}`;
+      }
+      const name = await vscode.window.showInputBox({
+        prompt: CONSTANTS.INFO.QUICK_PICK_PAGE_NAME_PROMPT(template.name),
+        value: defaultName,
+        ignoreFocusOut: true,
+        validateInput: value => validateName(value, validationConfig, isExisting)
+      });
+      if (name === undefined) {
+        return undefined;
+      }
+      pages.push({ name, identity: template.templateId });
+    }
+    return pages;
+  }
+
+  private async generate(telemetryService: TelemetryService, engine: any): Promise<void> {
+    const generationExperience = new GenerationExperience(telemetryService);
+    let generatedPath: string | undefined;
+    let succeeded = false;
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: CONSTANTS.INFO.GENERATING_PROJECT(engine.projectName)
+      },
+      (progress: vscode.Progress<IVSCodeProgressType>) =>
+        generationExperience.generateWithStatusTarget(
+          { payload: { engine, selectedCosmos: false, selectedAppService: false } },
+          {
+            postMessageWebview: (message: any): void => {
+              switch (message.command) {
+                case ExtensionCommand.UpdateGenStatusMessage:
+                  progress.report({ message: message.payload.status });
+                  break;
+                case ExtensionCommand.UpdateGenStatus:
+                  succeeded = message.payload.templates.success;
+                  break;
+                case ExtensionCommand.GetOutputPath:
+                  generatedPath = message.payload.outputPath;
+                  break;
+              }
+            }
+          }
+        )
+    );
+
+    if (!succeeded || !generatedPath) {
+      vscode.window.showErrorMessage(CONSTANTS.ERRORS.GENERATION_FAILED);
+      return;
+    }
+    const projectPath = generatedPath;
+    // The post-generation tasks already open the project
+    if (GenerationExperience.readPostGenerationOptions().openProject !== "none") {
+      vscode.window.showInformationMessage(CONSTANTS.INFO.PROJECT_GENERATED(projectPath));
+      return;
+    }
+    const action = await vscode.window.showInformationMessage(
+      CONSTANTS.INFO.PROJECT_GENERATED(projectPath),
+      CONSTANTS.INFO.OPEN_PROJECT
+    );
+    if (action === CONSTANTS.INFO.OPEN_PROJECT) {
+      vscode.commands.executeCommand(
+        CONSTANTS.VSCODE_COMMAND.OPEN_FOLDER,
+        vscode.Uri.file(projectPath),
+        true
+      );
+    }
+  }
+}
@@ -52,6 +52,13 @@ export class ReactPanel {
     this._panel.webview.postMessage(object);
   }
 
+  /**
+   * Disposes the given resource together with the panel
+   */
+  public addDisposable(disposable: vscode.Disposable): void {
+    this._disposables.push(disposable);
+  }
+
   private constructor(
     extensionPath: string,
     column: vscode.ViewColumn
@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { WizardServant, IPayloadResponse } from "./wizardServant";
+import { ExtensionCommand, CONSTANTS } from "./constants";
+import { CoreTemplateStudio } from "./coreTemplateStudio";
+import {
+  createRecipe,
+  createRecipeCatalog,
+  IRecipeIssue,
+  parseRecipe,
+  validateRecipe
+} from "./projectRecipe";
+
+/**
+ * Saves the wizard selection to a recipe file and loads it back, checking the
+ * recipe against the templates synced by the engine.
+ */
+export class RecipeExperience extends WizardServant {
+  clientCommandMap: Map<
+    ExtensionCommand,
+    (message: any) => Promise<IPayloadResponse>
+  > = new Map([
+    [ExtensionCommand.ExportRecipe, this.exportRecipe.bind(this)],
+    [ExtensionCommand.ImportRecipe, this.importRecipe.bind(this)]
+  ]);
+
+  private static defaultFolder(): vscode.Uri {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    return workspaceFolders ? workspaceFolders[0].uri : vscode.Uri.file(os.homedir());
+  }
+
+  private static reportIssues(issues: IRecipeIssue[]): void {
+    const renamed = issues
+      .filter(issue => issue.type === "renamed")
+      .map(issue => `${issue.templateName} (${issue.identity} -> ${issue.newIdentity})`);
+    const missing = issues
+      .filter(issue => issue.type === "missing")
+      .map(issue => `${issue.templateName} (${issue.identity})`);
+    if (renamed.length > 0) {
+      vscode.window.showWarningMessage(CONSTANTS.ERRORS.RECIPE_TEMPLATES_RENAMED(renamed.join(", ")));
+    }
+    if (missing.length > 0) {
+      vscode.window.showWarningMessage(CONSTANTS.ERRORS.RECIPE_TEMPLATES_MISSING(missing.join(", ")));
+    }
+  }
+
+  private async exportRecipe(message: any): Promise<IPayloadResponse> {
+    const { wizardVersion, templatesVersion } = CoreTemplateStudio.GetExistingInstance().getTemplateConfig();
+    const recipe = await createRecipe(
+      message.payload.selection,
+      { wizardVersion, templatesVersion },
+      createRecipeCatalog(CoreTemplateStudio.GetExistingInstance())
+    );
+    const fileUri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(
+          RecipeExperience.defaultFolder().fsPath,
+          CONSTANTS.RECIPE.DEFAULT_FILE_NAME(message.payload.projectName)
+        )
+      ),
+      filters: { [CONSTANTS.INFO.RECIPE_FILE_FILTER]: [CONSTANTS.RECIPE.FILE_EXTENSION] },
+      saveLabel: CONSTANTS.INFO.RECIPE_SAVE_LABEL
+    });
+    if (!fileUri) {
+      return { payload: { scope: message.payload.scope } };
+    }
+
+    await fse.writeFile(fileUri.fsPath, JSON.stringify(recipe, null, 2));
+    vscode.window.showInformationMessage(CONSTANTS.INFO.RECIPE_EXPORTED(fileUri.fsPath));
+    return { payload: { scope: message.payload.scope, filePath: fileUri.fsPath } };
+  }
+
+  private async importRecipe(message: any): Promise<IPayloadResponse> {
+    const files = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      defaultUri: RecipeExperience.defaultFolder(),
+      filters: { [CONSTANTS.INFO.RECIPE_FILE_FILTER]: [CONSTANTS.RECIPE.FILE_EXTENSION] },
+      openLabel: CONSTANTS.INFO.RECIPE_OPEN_LABEL
+    });
+    if (!files) {
+      return { payload: { scope: message.payload.scope } };
+    }
+
+    const filePath = files[0].fsPath;
+    try {
+      const recipe = parseRecipe(await fse.readFile(filePath, "utf8"), filePath);
+      const validation = await validateRecipe(recipe, createRecipeCatalog(CoreTemplateStudio.GetExistingInstance()));
+      RecipeExperience.reportIssues(validation.issues);
+      return {
+        payload: {
+          scope: message.payload.scope,
+          recipe: validation.recipe,
+          issues: validation.issues
+        }
+      };
+    } catch (error) {
+      return { payload: { scope: message.payload.scope, error: error.message } };
+    }
+  }
+}
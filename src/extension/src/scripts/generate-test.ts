@@ -100,7 +100,9 @@ let attemptSync: any = (
     });
 };
 
-CoreTemplateStudio.GetInstance(undefined)
+CoreTemplateStudio.GetInstance(undefined, (level, message) =>
+  console.log(`[${level}] ${message}`)
+)
   .then(res => {
     instance = res;
   })
@@ -0,0 +1,126 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+
+export interface ITemplateIdentityConflict {
+  identity: string;
+  sources: string[];
+}
+
+const TEMPLATE_FOLDERS = ["Projects", "Pages", "Features"];
+
+/**
+ * Lists the identities of the project, page and feature templates under
+ * <sourcePath>/templates/Web, reading their template.json files directly.
+ */
+export async function findTemplateIdentities(sourcePath: string): Promise<string[]> {
+  const identities: string[] = [];
+  for (const templatesFolder of TEMPLATE_FOLDERS) {
+    const folderPath = path.join(sourcePath, "templates", "Web", templatesFolder);
+    if (!(await fse.pathExists(folderPath))) {
+      continue;
+    }
+    for (const templateFolder of await fse.readdir(folderPath)) {
+      const configPath = path.join(
+        folderPath,
+        templateFolder,
+        ".template.config",
+        "template.json"
+      );
+      if (await fse.pathExists(configPath)) {
+        const config = await fse.readJson(configPath);
+        identities.push(config.identity);
+      }
+    }
+  }
+  return identities;
+}
+
+/**
+ * Finds template identities defined by more than one source. Sources are listed
+ * in priority order, the first source defining an identity is the one used.
+ */
+export async function findTemplateIdentityConflicts(
+  sourcePaths: string[]
+): Promise<ITemplateIdentityConflict[]> {
+  const sourcesByIdentity = new Map<string, string[]>();
+  for (const sourcePath of sourcePaths) {
+    for (const identity of await findTemplateIdentities(sourcePath)) {
+      sourcesByIdentity.set(identity, (sourcesByIdentity.get(identity) || []).concat(sourcePath));
+    }
+  }
+  return Array.from(sourcesByIdentity.entries())
+    .filter(([, sources]) => sources.length > 1)
+    .map(([identity, sources]) => ({ identity, sources }));
+}
+
+const isTemplateFolder = (folderPath: string): Promise<boolean> =>
+  fse.pathExists(path.join(folderPath, ".template.config"));
+
+/**
+ * Concatenates the entries of a catalog list in every root, the first root
+ * winning for each name. Undefined when the files do not hold lists.
+ */
+async function mergeCatalogLists(filePaths: string[]): Promise<any[] | undefined> {
+  const lists = await Promise.all(filePaths.map(filePath => fse.readJson(filePath)));
+  if (!lists.every(list => Array.isArray(list))) {
+    return undefined;
+  }
+  const names = new Set<string>();
+  return ([] as any[]).concat(...lists).filter(entry => {
+    if (names.has(entry.name)) {
+      return false;
+    }
+    names.add(entry.name);
+    return true;
+  });
+}
+
+async function linkFolders(folderPaths: string[], targetPath: string): Promise<void> {
+  await fse.ensureDir(targetPath);
+  const sourcesByEntry = new Map<string, string[]>();
+  for (const folderPath of folderPaths) {
+    for (const entry of await fse.readdir(folderPath)) {
+      sourcesByEntry.set(entry, (sourcesByEntry.get(entry) || []).concat(path.join(folderPath, entry)));
+    }
+  }
+
+  for (const [entry, sources] of Array.from(sourcesByEntry.entries())) {
+    const entryPath = path.join(targetPath, entry);
+    const folders: string[] = [];
+    for (const source of sources) {
+      if ((await fse.stat(source)).isDirectory() && !(await isTemplateFolder(source))) {
+        folders.push(source);
+      }
+    }
+    const catalogList =
+      sources.length > 1 && path.extname(entry) === ".json" ? await mergeCatalogLists(sources) : undefined;
+
+    if (folders.length > 1 && folders.length === sources.length) {
+      await linkFolders(folders, entryPath);
+    } else if (catalogList) {
+      await fse.writeJson(entryPath, catalogList, { spaces: 2 });
+    } else if ((await fse.stat(sources[0])).isDirectory()) {
+      await fse.symlink(sources[0], entryPath, "junction");
+    } else {
+      await fse.copy(sources[0], entryPath);
+    }
+  }
+}
+
+/**
+ * Lays the Web templates of several roots over each other under targetPath,
+ * so that one engine loads them together and generates the templates of every
+ * root with the compositions of all of them. Folders are merged and template
+ * folders linked from the first root that has them; files come from the first
+ * root too, except catalog lists whose entries are concatenated.
+ */
+export async function mergeTemplateSources(sourcePaths: string[], targetPath: string): Promise<void> {
+  const webFolders: string[] = [];
+  for (const sourcePath of sourcePaths) {
+    const webFolder = path.join(sourcePath, "templates", "Web");
+    if (await fse.pathExists(webFolder)) {
+      webFolders.push(webFolder);
+    }
+  }
+  await linkFolders(webFolders, path.join(targetPath, "templates", "Web"));
+}
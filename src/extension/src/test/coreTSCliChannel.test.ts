@@ -0,0 +1,225 @@
+import * as assert from "assert";
+import { EventEmitter } from "events";
+import { ChildProcess } from "child_process";
+import { CoreTSCliChannel } from "../coreTSCliChannel";
+
+class FakeCliProcess extends EventEmitter {
+  public stdout = new EventEmitter();
+  public stderr = new EventEmitter();
+  public writtenCommands: string[] = [];
+  public stdin = {
+    write: (command: string): boolean => {
+      this.writtenCommands.push(command);
+      return true;
+    }
+  };
+
+  public reply(message: any): void {
+    this.stdout.emit("data", `${JSON.stringify(message)}\n`);
+  }
+}
+
+const createChannel = (): {
+  fakeProcess: FakeCliProcess;
+  channel: CoreTSCliChannel;
+  logs: string[];
+} => {
+  const fakeProcess = new FakeCliProcess();
+  const logs: string[] = [];
+  const channel = new CoreTSCliChannel(
+    (fakeProcess as unknown) as ChildProcess,
+    (level, message) => logs.push(`${level}: ${message}`)
+  );
+  return { fakeProcess, channel, logs };
+};
+
+const assertRejects = async (
+  promise: Promise<any>,
+  expectedMessage?: RegExp
+): Promise<void> => {
+  try {
+    await promise;
+  } catch (error) {
+    if (expectedMessage) {
+      assert.ok(expectedMessage.test(error.message), error.message);
+    }
+    return;
+  }
+  assert.fail("Expected promise to be rejected");
+};
+
+suite("CoreTSCliChannel Tests", function() {
+  test("writes each command as a single line", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const result = channel.send({
+      command: "getframeworks -p FullStackWebApp",
+      resultType: "getFrameworksResult"
+    });
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: [] });
+
+    assert.deepEqual(await result, []);
+    assert.deepEqual(fakeProcess.writtenCommands, [
+      "getframeworks -p FullStackWebApp\n"
+    ]);
+  });
+
+  test("keeps several commands in flight and resolves them in order", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const pages = channel.send({
+      command: "getpages",
+      resultType: "getPagesResult"
+    });
+    const frameworks = channel.send({
+      command: "getframeworks",
+      resultType: "getFrameworksResult"
+    });
+
+    assert.equal(fakeProcess.writtenCommands.length, 2);
+    fakeProcess.reply({ messageType: "getPagesResult", content: "pages" });
+    assert.equal(await pages, "pages");
+    assert.equal(channel.pendingCount, 1);
+
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: "frameworks" });
+    assert.equal(await frameworks, "frameworks");
+    assert.equal(channel.pendingCount, 0);
+  });
+
+  test("matches replies of the same type to the requests in order", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const first = channel.send({ command: "getpages -f React", resultType: "getPagesResult" });
+    const second = channel.send({ command: "getpages -f Vue", resultType: "getPagesResult" });
+
+    fakeProcess.reply({ messageType: "getPagesResult", content: "react" });
+    fakeProcess.reply({ messageType: "getPagesResult", content: "vue" });
+
+    assert.equal(await first, "react");
+    assert.equal(await second, "vue");
+  });
+
+  test("ignores a reply that isn't for the oldest request", async function() {
+    const { fakeProcess, channel, logs } = createChannel();
+    const pages = channel.send({ command: "getpages", resultType: "getPagesResult" });
+    const frameworks = channel.send({ command: "getframeworks", resultType: "getFrameworksResult" });
+
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: "frameworks" });
+    assert.equal(channel.pendingCount, 2);
+    assert.ok(logs[0].startsWith("warn"));
+
+    fakeProcess.reply({ messageType: "getPagesResult", content: "pages" });
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: "frameworks" });
+    assert.equal(await pages, "pages");
+    assert.equal(await frameworks, "frameworks");
+  });
+
+  test("routes progress messages to the request that expects them", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const progress: any[] = [];
+    const sync = channel.send({
+      command: "sync -p ..",
+      resultType: "syncResult",
+      progressType: "syncProgress",
+      onProgress: content => progress.push(content)
+    });
+
+    fakeProcess.reply({ messageType: "syncProgress", content: { status: "Acquiring", progress: 50 } });
+    fakeProcess.reply({ messageType: "syncResult", content: { templatesVersion: "1.0" } });
+
+    assert.deepEqual(await sync, { templatesVersion: "1.0" });
+    assert.deepEqual(progress, [{ status: "Acquiring", progress: 50 }]);
+  });
+
+  test("handles replies split across chunks", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const result = channel.send({ command: "getprojecttypes", resultType: "getProjectTypesResult" });
+
+    fakeProcess.stdout.emit("data", '{"messageType":"getProjec');
+    fakeProcess.stdout.emit("data", 'tTypesResult","content":["FullStackWebApp"]}\n');
+
+    assert.deepEqual(await result, ["FullStackWebApp"]);
+  });
+
+  test("logs malformed and unexpected lines instead of throwing", async function() {
+    const { fakeProcess, channel, logs } = createChannel();
+    const result = channel.send({ command: "getpages", resultType: "getPagesResult" });
+
+    fakeProcess.stdout.emit("data", "this is not json\n");
+    fakeProcess.stdout.emit("data", "null\n");
+    fakeProcess.reply({ messageType: "getFeaturesResult", content: [] });
+    fakeProcess.reply({ messageType: "getPagesResult", content: "pages" });
+
+    assert.equal(await result, "pages");
+    assert.equal(logs.length, 3);
+    assert.ok(logs.every(log => log.startsWith("warn")));
+  });
+
+  test("rejects a request that exceeds its timeout", async function() {
+    const { channel } = createChannel();
+    await assertRejects(
+      channel.send({ command: "generate", resultType: "generateResult", timeout: 10 })
+    );
+    assert.equal(channel.pendingCount, 0);
+  });
+
+  test("doesn't let a late reply after a timeout resolve the next request", async function() {
+    const { fakeProcess, channel, logs } = createChannel();
+    const first = channel.send({ command: "getpages -f React", resultType: "getPagesResult", timeout: 10 });
+    await assertRejects(first, /getpages -f React/);
+    const second = channel.send({ command: "getpages -f Vue", resultType: "getPagesResult" });
+
+    fakeProcess.reply({ messageType: "getPagesResult", content: "react" });
+    assert.equal(channel.pendingCount, 1);
+    assert.ok(logs.some(log => log.startsWith("warn") && log.includes("react")));
+
+    fakeProcess.reply({ messageType: "getPagesResult", content: "vue" });
+    assert.equal(await second, "vue");
+  });
+
+  test("drops a timed out request once the CLI answers the next one", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const pages = channel.send({ command: "getpages", resultType: "getPagesResult", timeout: 10 });
+    await assertRejects(pages);
+    const frameworks = channel.send({ command: "getframeworks", resultType: "getFrameworksResult" });
+
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: "frameworks" });
+    assert.equal(await frameworks, "frameworks");
+    assert.equal(channel.pendingCount, 0);
+  });
+
+  test("rejects the oldest request when the CLI writes to stderr", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const first = channel.send({ command: "getpages", resultType: "getPagesResult" });
+    const second = channel.send({ command: "getframeworks", resultType: "getFrameworksResult" });
+
+    fakeProcess.stderr.emit("data", "Unhandled exception");
+    await assertRejects(first, /Unhandled exception/);
+
+    fakeProcess.reply({ messageType: "getFrameworksResult", content: "frameworks" });
+    assert.equal(await second, "frameworks");
+  });
+
+  test("only logs stderr lines that don't report a failure", async function() {
+    const { fakeProcess, channel, logs } = createChannel();
+    const result = channel.send({ command: "getpages", resultType: "getPagesResult" });
+
+    fakeProcess.stderr.emit("data", "warn: Template cache is stale\nLoading templates from ..\n");
+    assert.equal(channel.pendingCount, 1);
+    fakeProcess.reply({ messageType: "getPagesResult", content: "pages" });
+
+    assert.equal(await result, "pages");
+    assert.deepEqual(logs, [
+      "warn: warn: Template cache is stale",
+      "warn: Loading templates from .."
+    ]);
+  });
+
+  test("rejects every pending request when the process exits", async function() {
+    const { fakeProcess, channel } = createChannel();
+    const first = channel.send({ command: "getpages", resultType: "getPagesResult" });
+    const second = channel.send({ command: "getframeworks", resultType: "getFrameworksResult" });
+
+    fakeProcess.emit("exit", 1);
+
+    await assertRejects(first, /exited with code 1/);
+    await assertRejects(second, /exited with code 1/);
+  });
+});
@@ -0,0 +1,159 @@
+import * as assert from "assert";
+import { EventEmitter } from "events";
+import { ChildProcess } from "child_process";
+import { CoreTSSupervisor, EngineStatus } from "../coreTSSupervisor";
+import { EngineProcessExitedError } from "../errors";
+
+class FakeCliProcess extends EventEmitter {
+  public stdout = new EventEmitter();
+  public stderr = new EventEmitter();
+  public writtenCommands: string[] = [];
+  public killed = false;
+  public stdin = {
+    write: (command: string): boolean => {
+      this.writtenCommands.push(command);
+      return true;
+    }
+  };
+
+  public kill(): void {
+    this.killed = true;
+  }
+
+  public reply(message: any): void {
+    this.stdout.emit("data", `${JSON.stringify(message)}\n`);
+  }
+}
+
+const createSupervisor = (): {
+  processes: FakeCliProcess[];
+  supervisor: CoreTSSupervisor;
+  statuses: EngineStatus[];
+} => {
+  const processes: FakeCliProcess[] = [];
+  const statuses: EngineStatus[] = [];
+  const supervisor = new CoreTSSupervisor(
+    () => {
+      const fakeProcess = new FakeCliProcess();
+      processes.push(fakeProcess);
+      return (fakeProcess as unknown) as ChildProcess;
+    },
+    () => undefined,
+    60000,
+    1
+  );
+  supervisor.onStatusChange(status => statuses.push(status));
+  supervisor.start();
+  return { processes, supervisor, statuses };
+};
+
+const flushPromises = (): Promise<void> =>
+  new Promise(resolve => setImmediate(resolve));
+
+const syncTemplates = async (
+  supervisor: CoreTSSupervisor,
+  fakeProcess: FakeCliProcess
+): Promise<void> => {
+  const sync = supervisor.send({
+    command: "sync -p ../templates",
+    resultType: "syncResult"
+  });
+  await flushPromises();
+  fakeProcess.reply({ messageType: "syncResult", content: {} });
+  await sync;
+};
+
+suite("CoreTSSupervisor Tests", function() {
+  test("restarts a crashed engine, re-syncs it and replays the request in flight", async function() {
+    const { processes, supervisor, statuses } = createSupervisor();
+    await syncTemplates(supervisor, processes[0]);
+
+    const pages = supervisor.send({
+      command: "getpages -f React",
+      resultType: "getPagesResult"
+    });
+    await flushPromises();
+    processes[0].emit("exit", 1);
+    await flushPromises();
+
+    assert.equal(processes.length, 2);
+    assert.deepEqual(processes[1].writtenCommands, ["sync -p ../templates\n"]);
+    processes[1].reply({ messageType: "syncResult", content: {} });
+    await flushPromises();
+
+    assert.deepEqual(processes[1].writtenCommands, [
+      "sync -p ../templates\n",
+      "getpages -f React\n"
+    ]);
+    processes[1].reply({ messageType: "getPagesResult", content: "pages" });
+    assert.equal(await pages, "pages");
+    assert.deepEqual(statuses, ["reconnecting", "connected"]);
+    supervisor.stop();
+  });
+
+  test("fails a generation interrupted by a crash instead of replaying it", async function() {
+    const { processes, supervisor } = createSupervisor();
+    await syncTemplates(supervisor, processes[0]);
+
+    const generation = supervisor.send({
+      command: "generate -d {}",
+      resultType: "generateResult"
+    });
+    await flushPromises();
+    processes[0].emit("exit", 1);
+
+    try {
+      await generation;
+      assert.fail("Expected generation to be rejected");
+    } catch (error) {
+      assert.ok(error instanceof EngineProcessExitedError, error.message);
+    }
+    await flushPromises();
+    processes[1].reply({ messageType: "syncResult", content: {} });
+    await flushPromises();
+
+    assert.deepEqual(processes[1].writtenCommands, ["sync -p ../templates\n"]);
+    supervisor.stop();
+  });
+
+  test("retries with backoff until the engine comes back", async function() {
+    const { processes, supervisor, statuses } = createSupervisor();
+    await syncTemplates(supervisor, processes[0]);
+
+    processes[0].emit("exit", 1);
+    await flushPromises();
+    processes[1].emit("exit", 1);
+    while (processes.length < 3) {
+      await flushPromises();
+    }
+    await flushPromises();
+    processes[2].reply({ messageType: "syncResult", content: {} });
+    await flushPromises();
+
+    assert.ok(processes[1].killed);
+    assert.deepEqual(statuses, ["reconnecting", "connected"]);
+    supervisor.stop();
+  });
+
+  test("rejects pending requests with the given reason without reporting a reconnect", async function() {
+    const { processes, supervisor, statuses } = createSupervisor();
+    const generation = supervisor.send({
+      command: "generate -d {}",
+      resultType: "generateResult"
+    });
+    await flushPromises();
+
+    await supervisor.restart("cancelled");
+
+    try {
+      await generation;
+      assert.fail("Expected generation to be rejected");
+    } catch (error) {
+      assert.equal(error.message, "cancelled");
+    }
+    assert.ok(processes[0].killed);
+    assert.equal(processes.length, 2);
+    assert.deepEqual(statuses, []);
+    supervisor.stop();
+  });
+});
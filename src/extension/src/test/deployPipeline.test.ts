@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  detectDeployStack,
+  DeployStack,
+  getBuildSteps,
+  ICancellationSignal,
+  runBuildStep
+} from "../deployPipeline";
+import { DeploymentCancelledError, DeploymentError } from "../errors";
+
+const nodeStep = (script: string): { description: string; command: string; args: string[] } => ({
+  description: "script",
+  command: process.execPath,
+  args: ["-e", script]
+});
+
+const createCancellation = (): { signal: ICancellationSignal; cancel: () => void } => {
+  const listeners: (() => void)[] = [];
+  const signal: ICancellationSignal = {
+    isCancellationRequested: false,
+    onCancellationRequested: (listener: () => void): { dispose(): void } => {
+      listeners.push(listener);
+      return { dispose: (): void => undefined };
+    }
+  };
+  return {
+    signal,
+    cancel: (): void => {
+      signal.isCancellationRequested = true;
+      listeners.forEach(listener => listener());
+    }
+  };
+};
+
+const rejectionOf = async (step: Promise<void>): Promise<Error> => {
+  try {
+    await step;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the step to be rejected");
+};
+
+suite("Deploy pipeline Tests", function() {
+  test("detects the stack from the server folder", async function() {
+    const projectPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-deploy-"));
+    try {
+      assert.equal(await detectDeployStack(projectPath), undefined);
+      await fse.outputJson(path.join(projectPath, "server", "package.json"), {
+        dependencies: { express: "4.16.1" }
+      });
+      assert.equal(await detectDeployStack(projectPath), DeployStack.Node);
+      await fse.outputJson(path.join(projectPath, "server", "package.json"), {
+        dependencies: { moleculer: "0.14.3" }
+      });
+      assert.equal(await detectDeployStack(projectPath), DeployStack.Moleculer);
+      await fse.outputFile(path.join(projectPath, "server", "requirements.txt"), "flask\n");
+      assert.equal(await detectDeployStack(projectPath), DeployStack.Flask);
+    } finally {
+      await fse.remove(projectPath);
+    }
+  });
+
+  test("installs the Python requirements of Flask projects only", function() {
+    const args = (stack: DeployStack): string[] =>
+      getBuildSteps(stack, "linux").map(step => step.args.join(" "));
+    assert.deepEqual(args(DeployStack.Node), ["install", "run-script build"]);
+    assert.deepEqual(args(DeployStack.Flask), [
+      "install",
+      "run-script build",
+      "run-script install-requirements"
+    ]);
+    assert.equal(getBuildSteps(DeployStack.Node, "win32")[0].command, "npm.cmd");
+  });
+
+  test("streams the output of a step and rejects on a non-zero exit code", async function() {
+    const lines: string[] = [];
+    await runBuildStep(
+      nodeStep("console.log('one\\ntwo'); console.error('three')"),
+      os.tmpdir(),
+      (line, isError) => lines.push(isError ? `error: ${line}` : line)
+    );
+    assert.deepEqual(lines.sort(), ["error: three", "one", "two"]);
+
+    const error = await rejectionOf(
+      runBuildStep(nodeStep("process.exit(3)"), os.tmpdir(), () => undefined)
+    );
+    assert.ok(error instanceof DeploymentError);
+    assert.ok(/exit code 3/.test(error.message));
+  });
+
+  test("kills a step when the deployment is cancelled", async function() {
+    this.timeout(10000);
+    const { signal, cancel } = createCancellation();
+    const step = runBuildStep(
+      nodeStep("setTimeout(() => undefined, 60000)"),
+      os.tmpdir(),
+      () => undefined,
+      signal
+    );
+    setTimeout(cancel, 100);
+    assert.ok((await rejectionOf(step)) instanceof DeploymentCancelledError);
+    assert.ok(
+      (await rejectionOf(runBuildStep(nodeStep(""), os.tmpdir(), () => undefined, signal))) instanceof
+        DeploymentCancelledError
+    );
+  });
+});
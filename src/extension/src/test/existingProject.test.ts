@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess } from "child_process";
+import { CoreTSCliChannel } from "../coreTSCliChannel";
+import { FakeCoreTSProcess } from "../fakeCoreTS/fakeCoreTSProcess";
+import { detectGeneratedProject, planProjectChanges } from "../existingProject";
+
+// out/test -> repository root, which holds templates/Web
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+const generate = async (
+  genPath: string,
+  pages: { name: string; templateid: string }[]
+): Promise<string> => {
+  const fakeProcess = new FakeCoreTSProcess(repositoryRoot);
+  const channel = new CoreTSCliChannel(
+    (fakeProcess as unknown) as ChildProcess,
+    () => undefined
+  );
+  const payload = {
+    projectName: "MyApp",
+    genPath,
+    projectType: "FullStackWebApp",
+    frontendFramework: "React",
+    backendFramework: "Node",
+    pages,
+    features: []
+  };
+  await channel.send({ command: "sync -p .", resultType: "syncResult" });
+  await channel.send({
+    command: `generate -d ${JSON.stringify(payload)}`,
+    resultType: "generateResult"
+  });
+  return path.join(genPath, "MyApp");
+};
+
+suite("Existing project Tests", function() {
+  let root: string;
+
+  setup(async function() {
+    root = await fse.mkdtemp(path.join(os.tmpdir(), "existing-project-"));
+  });
+
+  teardown(async function() {
+    await fse.remove(root);
+  });
+
+  test("detects the frameworks and pages of a generated project", async function() {
+    const projectPath = await generate(root, [
+      { name: "Orders", templateid: "wts.Page.React.Grid" },
+      { name: "Notes", templateid: "wts.Page.React.Blank" }
+    ]);
+
+    const project = await detectGeneratedProject(projectPath, [repositoryRoot]);
+
+    assert.ok(project);
+    assert.equal(project!.projectName, "MyApp");
+    assert.equal(project!.path, root);
+    assert.equal(project!.frontendFramework, "React");
+    assert.equal(project!.backendFramework, "Node");
+    assert.equal(project!.language, "JavaScript");
+    assert.deepEqual(
+      project!.pages.sort((a, b) => a.name.localeCompare(b.name)),
+      [
+        { name: "Notes", identity: "wts.Page.React.Blank" },
+        { name: "Orders", identity: "wts.Page.React.Grid" }
+      ]
+    );
+  });
+
+  test("does not detect folders that were not generated", async function() {
+    await fse.outputFile(path.join(root, "MyApp", "index.js"), "");
+
+    assert.equal(await detectGeneratedProject(path.join(root, "MyApp"), [repositoryRoot]), undefined);
+  });
+
+  test("adds the files of new pages and keeps the user's changes", async function() {
+    const existingPages = [{ name: "Orders", templateid: "wts.Page.React.Grid" }];
+    const projectPath = await generate(path.join(root, "project"), existingPages);
+    const baselinePath = await generate(path.join(root, "baseline"), existingPages);
+    const targetPath = await generate(
+      path.join(root, "target"),
+      existingPages.concat({ name: "Notes", templateid: "wts.Page.React.Blank" })
+    );
+    const appPath = path.join("src", "App.jsx");
+    const userApp = `// My changes\n${await fse.readFile(path.join(projectPath, appPath), "utf8")}`;
+    await fse.writeFile(path.join(projectPath, appPath), userApp);
+    const targetApp = await fse.readFile(path.join(targetPath, appPath), "utf8");
+
+    const changes = await planProjectChanges(projectPath, baselinePath, targetPath);
+
+    const notes = changes.find(change => change.path === "src/components/Notes/index.jsx");
+    const app = changes.find(change => change.path === "src/App.jsx");
+    assert.equal(notes && notes.status, "added");
+    assert.equal(app && app.status, "modified");
+    assert.ok(targetApp.indexOf('<Route path = "/Notes" component = { Notes } />') !== -1);
+    assert.equal(app && app.newContent.toString("utf8"), `// My changes\n${targetApp}`);
+    assert.ok(changes.every(change => change.path.indexOf("Orders") === -1));
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess } from "child_process";
+import { CoreTSCliChannel } from "../coreTSCliChannel";
+import { FakeCoreTSProcess } from "../fakeCoreTS/fakeCoreTSProcess";
+
+// out/test -> repository root, which holds templates/Web
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+const createSyncedChannel = async (): Promise<CoreTSCliChannel> => {
+  const fakeProcess = new FakeCoreTSProcess(repositoryRoot);
+  const channel = new CoreTSCliChannel(
+    (fakeProcess as unknown) as ChildProcess,
+    () => undefined
+  );
+  await channel.send({
+    command: "sync -p .",
+    resultType: "syncResult",
+    progressType: "syncProgress"
+  });
+  return channel;
+};
+
+suite("FakeCoreTSProcess Tests", function() {
+  test("syncs the repository templates and lists frameworks from the catalog", async function() {
+    const channel = await createSyncedChannel();
+    const frameworks: any[] = await channel.send({
+      command: "getframeworks -p FullStackWebApp",
+      resultType: "getFrameworksResult"
+    });
+
+    const react = frameworks.find(framework => framework.name === "React");
+    const node = frameworks.find(framework => framework.name === "Node");
+    assert.equal(react.tags.type, "frontend");
+    assert.equal(node.tags.type, "backend");
+  });
+
+  test("lists only the pages of the selected frameworks", async function() {
+    const channel = await createSyncedChannel();
+    const pages: any[] = await channel.send({
+      command: "getpages -p FullStackWebApp -f React -b Node",
+      resultType: "getPagesResult"
+    });
+
+    const templateIds = pages.map(page => page.templateId);
+    assert.ok(templateIds.indexOf("wts.Page.React.Grid") !== -1);
+    assert.ok(templateIds.every(templateId => templateId.indexOf("Angular") === -1));
+  });
+
+  test("copies the selected page with its source name replaced", async function() {
+    const channel = await createSyncedChannel();
+    const genPath = await fse.mkdtemp(path.join(os.tmpdir(), "fake-corets-"));
+    const progress: string[] = [];
+    const payload = {
+      projectName: "MyApp",
+      genPath,
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      pages: [{ name: "Orders", templateid: "wts.Page.React.Grid" }],
+      features: []
+    };
+
+    try {
+      await channel.send({
+        command: `generate -d ${JSON.stringify(payload)}`,
+        resultType: "generateResult",
+        progressType: "generateProgress",
+        onProgress: content => progress.push(content)
+      });
+
+      const pageIndex = path.join(genPath, "MyApp", "src", "components", "Orders", "index.jsx");
+      assert.ok((await fse.readFile(pageIndex, "utf8")).indexOf("const Orders = ") !== -1);
+      assert.ok(await fse.pathExists(path.join(genPath, "MyApp", "server")));
+      assert.ok(progress.indexOf("Generating Orders") !== -1);
+    } finally {
+      await fse.remove(genPath);
+    }
+  });
+
+  test("generates the project templates of the payload language", async function() {
+    const channel = await createSyncedChannel();
+    const genPath = await fse.mkdtemp(path.join(os.tmpdir(), "fake-corets-"));
+    const payload = {
+      projectName: "MyApp",
+      genPath,
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      language: "TypeScript",
+      pages: [{ name: "Orders", templateid: "wts.Page.React.Grid.TS" }],
+      features: []
+    };
+
+    try {
+      await channel.send({
+        command: `generate -d ${JSON.stringify(payload)}`,
+        resultType: "generateResult",
+        progressType: "generateProgress"
+      });
+
+      const projectPath = path.join(genPath, "MyApp");
+      assert.ok(await fse.pathExists(path.join(projectPath, "src", "App.tsx")));
+      assert.ok(!(await fse.pathExists(path.join(projectPath, "src", "App.jsx"))));
+      assert.ok(await fse.pathExists(path.join(projectPath, "src", "components", "Orders", "grid.model.ts")));
+      assert.ok(await fse.pathExists(path.join(projectPath, "server")));
+    } finally {
+      await fse.remove(genPath);
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess } from "child_process";
+import { CoreTSCliChannel } from "../coreTSCliChannel";
+import { FakeCoreTSProcess } from "../fakeCoreTS/fakeCoreTSProcess";
+import { attributeTemplateFiles, createGenerationManifest } from "../generationManifest";
+
+// out/test -> repository root, which holds templates/Web
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+suite("Generation manifest Tests", function() {
+  test("lists the generated files with the templates they come from", async function() {
+    const fakeProcess = new FakeCoreTSProcess(repositoryRoot);
+    const channel = new CoreTSCliChannel(
+      (fakeProcess as unknown) as ChildProcess,
+      () => undefined
+    );
+    const genPath = await fse.mkdtemp(path.join(os.tmpdir(), "generation-manifest-"));
+    const payload = {
+      projectName: "MyApp",
+      path: genPath,
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      pages: [{ name: "Orders", identity: "wts.Page.React.Grid" }],
+      services: []
+    };
+
+    try {
+      await channel.send({ command: "sync -p .", resultType: "syncResult" });
+      await channel.send({
+        command: `generate -d ${JSON.stringify({
+          ...payload,
+          genPath,
+          pages: [{ name: "Orders", templateid: "wts.Page.React.Grid" }],
+          features: []
+        })}`,
+        resultType: "generateResult"
+      });
+
+      const manifest = await createGenerationManifest(
+        path.join(genPath, "MyApp"),
+        path.join("target", "MyApp"),
+        await attributeTemplateFiles([repositoryRoot], payload)
+      );
+
+      const pageIndex = manifest.files.find(
+        file => file.path === "src/components/Orders/index.jsx"
+      );
+      assert.equal(manifest.projectPath, path.join("target", "MyApp"));
+      assert.ok(pageIndex && pageIndex.size > 0);
+      assert.deepEqual(pageIndex && pageIndex.templates, ["wts.Page.React.Grid"]);
+      assert.deepEqual(
+        manifest.files.map(file => file.path),
+        manifest.files.map(file => file.path).sort((a, b) => a.localeCompare(b))
+      );
+    } finally {
+      await fse.remove(genPath);
+    }
+  });
+
+  test("credits only the templates and compositions generated for the language and selection", async function() {
+    const attributions = await attributeTemplateFiles([repositoryRoot], {
+      projectName: "MyApp",
+      path: "target",
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      language: "TypeScript",
+      pages: [{ name: "Orders", identity: "wts.Page.React.Grid.TS" }],
+      services: []
+    });
+    const identities = new Set<string>();
+    attributions.forEach(templates => templates.forEach(identity => identities.add(identity)));
+
+    assert.ok(identities.has("wts.Proj.ReactDefault.TS"));
+    assert.ok(!identities.has("wts.Proj.ReactDefault"));
+    assert.ok(identities.has("Page.Node.Grid.AddRoutes"));
+    assert.ok(!identities.has("Page.Node.List.AddRoutes.NoCosmos"));
+    assert.ok(!identities.has("Page.React.AddConstantsGrid"));
+    assert.ok((attributions.get("src/constants.ts") || []).indexOf("Page.React.AddConstantsGrid.TS") !== -1);
+    assert.ok((attributions.get("README.md") || []).every(identity => !/Flask|Docker|Cosmos/.test(identity)));
+  });
+});
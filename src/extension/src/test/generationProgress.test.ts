@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import * as path from "path";
+import { GenerationProgressTracker, planGenerationItems } from "../generationProgress";
+
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+const payload = {
+  projectName: "Contoso",
+  path: "",
+  projectType: "FullStackWebApp",
+  frontendFramework: "React",
+  backendFramework: "Node",
+  language: "TypeScript",
+  pages: [{ name: "List" }, { name: "OrdersList" }],
+  services: [{ name: "AppService" }]
+};
+
+suite("Generation progress Tests", function() {
+  let time: number;
+  const now = (): number => time;
+
+  setup(function() {
+    time = 0;
+  });
+
+  test("plans the project templates, pages and services of the selection", async function() {
+    const items = await planGenerationItems(repositoryRoot, payload);
+    assert.deepEqual(items.map(item => item.id), [
+      "project:wts.Proj.AddPackageJsonDefault",
+      "project:wts.Proj.AddPackageJsonFullStackDefault",
+      "project:wts.Proj.NodeDefault",
+      "project:wts.Proj.ReactDefault.TS",
+      "page:List",
+      "page:OrdersList",
+      "feature:AppService"
+    ]);
+    assert.deepEqual(await planGenerationItems(undefined, { ...payload, services: [] }), [
+      { id: "page:List", name: "List", kind: "page" },
+      { id: "page:OrdersList", name: "OrdersList", kind: "page" }
+    ]);
+  });
+
+  test("follows the engine messages through the planned items", function() {
+    const tracker = new GenerationProgressTracker(
+      [
+        { id: "page:List", name: "List", kind: "page" },
+        { id: "page:OrdersList", name: "OrdersList", kind: "page" }
+      ],
+      now
+    );
+
+    let progress = tracker.report("Generating OrdersList");
+    assert.equal(progress.percentage, 0);
+    time = 1500;
+    progress = tracker.report("Generating AddNavigate");
+    assert.deepEqual(
+      progress.items.map(item => [item.id, item.kind, item.state, item.elapsedMs]),
+      [
+        ["page:List", "page", "pending", 0],
+        ["page:OrdersList", "page", "done", 1500],
+        ["composition:2", "composition", "generating", 0]
+      ]
+    );
+    assert.equal(progress.items[2].name, "AddNavigate");
+    assert.equal(progress.percentage, 50);
+
+    time = 2000;
+    progress = tracker.report("Generating List");
+    assert.equal(progress.items[2].elapsedMs, 500);
+    assert.equal(progress.percentage, 50);
+    assert.deepEqual(progress.log, ["Generating OrdersList", "Generating AddNavigate", "Generating List"]);
+
+    progress = tracker.complete();
+    assert.equal(progress.percentage, 100);
+    assert.ok(progress.items.every(item => item.state === "done"));
+  });
+
+  test("marks the item being generated as failed", function() {
+    const tracker = new GenerationProgressTracker([{ id: "page:List", name: "List", kind: "page" }], now);
+    tracker.report("Generating List");
+    const progress = tracker.fail("Access denied");
+    assert.equal(progress.items[0].state, "failed");
+    assert.equal(progress.percentage, 0);
+    assert.deepEqual(progress.log, ["Generating List", "Access denied"]);
+  });
+});
@@ -0,0 +1,119 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { CONSTANTS } from "../constants";
+import { parseHeadlessArguments } from "../headless/arguments";
+import { runHeadlessGenerator } from "../headless/generate";
+import { validateItemNames, validateName } from "../utils/nameValidation";
+
+// out/test -> repository root, which holds templates/Web
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+const itemNameConfig = {
+  regexs: [
+    { name: "nameStartLetter", pattern: "^[A-Za-z]" },
+    { name: "nameContainLettersNumbersDashes", pattern: "^((?!\\d)[a-zA-Z0-9\\s_-]+)$" }
+  ],
+  reservedNames: ["Shell"],
+  validateEmptyNames: true,
+  validateExistingNames: true
+};
+
+const captureOutput = (): { log: string[]; error: string[]; output: { log(message: string): void; error(message: string): void } } => {
+  const log: string[] = [];
+  const error: string[] = [];
+  return {
+    log,
+    error,
+    output: {
+      log: (message: string): void => {
+        log.push(message);
+      },
+      error: (message: string): void => {
+        error.push(message);
+      }
+    }
+  };
+};
+
+suite("Headless Generator Tests", function() {
+  test("parses frameworks, repeated pages and inline values", function() {
+    const args = parseHeadlessArguments([
+      "--frontend",
+      "React",
+      "--backend=Flask",
+      "--language=TypeScript",
+      "--page",
+      "Grid:Orders",
+      "--page",
+      "List",
+      "--out",
+      "./x"
+    ]);
+    assert.equal(args.frontend, "React");
+    assert.equal(args.backend, "Flask");
+    assert.equal(args.language, "TypeScript");
+    assert.deepEqual(args.pages, [{ template: "Grid", name: "Orders" }, { template: "List" }]);
+    assert.equal(args.outputPath, "./x");
+  });
+
+  test("rejects unknown options, missing values and a selection mixed with flags", function() {
+    assert.throws(() => parseHeadlessArguments(["--out", "x", "--frontend", "React", "--backend", "Node", "--force"]), /--force/);
+    assert.throws(() => parseHeadlessArguments(["--frontend", "React", "--backend", "Node", "--out"]), /--out/);
+    assert.throws(() => parseHeadlessArguments(["--frontend", "React", "--backend", "Node"]), /--out/);
+    assert.throws(() => parseHeadlessArguments(["--out", "x", "--selection", "a.json", "--frontend", "React"]));
+    assert.equal(parseHeadlessArguments(["--help"]).help, true);
+  });
+
+  test("validates names with the rules of the name validation configs", function() {
+    assert.equal(validateName("Orders", itemNameConfig, () => false), undefined);
+    assert.equal(validateName("", itemNameConfig, () => false), CONSTANTS.ERRORS.NAME_EMPTY);
+    assert.equal(validateName("shell", itemNameConfig, () => false), CONSTANTS.ERRORS.NAME_RESERVED("shell"));
+    assert.equal(validateName("1Orders", itemNameConfig, () => false), CONSTANTS.ERRORS.NAME_START_LETTER("1Orders"));
+    assert.equal(
+      validateName("Orders!", itemNameConfig, () => false),
+      CONSTANTS.ERRORS.NAME_CONTAIN_LETTERS_NUMBERS_DASHES("Orders!")
+    );
+    assert.deepEqual(validateItemNames(["Orders", "orders", "Todos"], itemNameConfig), [
+      CONSTANTS.ERRORS.NAME_NOT_UNIQUE("Orders"),
+      CONSTANTS.ERRORS.NAME_NOT_UNIQUE("orders")
+    ]);
+  });
+
+  test("generates the selected pages with the fake engine", async function() {
+    this.timeout(20000);
+    const outputPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-headless-"));
+    const fakeEngine = process.env[CONSTANTS.CLI.FAKE_ENGINE_ENV_VARIABLE];
+    process.env[CONSTANTS.CLI.FAKE_ENGINE_ENV_VARIABLE] = "1";
+    try {
+      const common = ["--frontend", "react", "--backend", "Node", "--templates", repositoryRoot, "--out", outputPath];
+      const { output } = captureOutput();
+      const exitCode = await runHeadlessGenerator([...common, "--name", "Shop", "--page", "Grid:Orders"], output);
+      assert.equal(exitCode, 0);
+      assert.ok(await fse.pathExists(path.join(outputPath, "Shop", "src", "components", "Orders")));
+
+      const duplicate = captureOutput();
+      const invalidExitCode = await runHeadlessGenerator(
+        [...common, "--name", "Shop", "--page", "Grid:Orders", "--page", "List:orders"],
+        duplicate.output
+      );
+      assert.equal(invalidExitCode, CONSTANTS.HEADLESS.EXIT_CODE_INVALID_INPUT);
+      assert.ok(duplicate.error.join("\n").indexOf(CONSTANTS.ERRORS.PROJECT_PATH_EXISTS(outputPath, "Shop")) !== -1);
+      assert.ok(duplicate.error.join("\n").indexOf(CONSTANTS.ERRORS.NAME_NOT_UNIQUE("Orders")) !== -1);
+
+      const unknownPage = captureOutput();
+      assert.equal(
+        await runHeadlessGenerator([...common, "--name", "Other", "--page", "Chart"], unknownPage.output),
+        CONSTANTS.HEADLESS.EXIT_CODE_INVALID_INPUT
+      );
+    } finally {
+      if (fakeEngine === undefined) {
+        delete process.env[CONSTANTS.CLI.FAKE_ENGINE_ENV_VARIABLE];
+      } else {
+        process.env[CONSTANTS.CLI.FAKE_ENGINE_ENV_VARIABLE] = fakeEngine;
+      }
+      await fse.remove(outputPath);
+    }
+  });
+});
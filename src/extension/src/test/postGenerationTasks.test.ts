@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import * as path from "path";
+import { IBuildStep } from "../deployPipeline";
+import { DeploymentError } from "../errors";
+import {
+  getPostGenerationSteps,
+  getPostGenerationTaskIds,
+  IPostGenerationOptions,
+  IPostGenerationTaskStatus,
+  PostGenerationTaskId,
+  PostGenerationTaskRunner
+} from "../postGenerationTasks";
+
+const allTasks: IPostGenerationOptions = {
+  installDependencies: true,
+  createVirtualEnv: true,
+  gitInit: true,
+  openReadme: true,
+  openProject: "newWindow"
+};
+
+suite("Post-generation tasks Tests", function() {
+  test("orders the selected tasks and only creates a virtualenv for Flask", function() {
+    assert.deepEqual(getPostGenerationTaskIds(allTasks, "Flask"), [
+      PostGenerationTaskId.GitInit,
+      PostGenerationTaskId.CreateVirtualEnv,
+      PostGenerationTaskId.InstallDependencies,
+      PostGenerationTaskId.OpenReadme,
+      PostGenerationTaskId.OpenProject
+    ]);
+    assert.deepEqual(
+      getPostGenerationTaskIds({ ...allTasks, gitInit: false, openProject: "none" }, "Node"),
+      [PostGenerationTaskId.InstallDependencies, PostGenerationTaskId.OpenReadme]
+    );
+  });
+
+  test("installs the Python requirements into the virtualenv when there is one", function() {
+    const commandLines = (options: IPostGenerationOptions, backend: string, platform: string): string[] =>
+      getPostGenerationSteps(PostGenerationTaskId.InstallDependencies, options, backend, platform).map(step =>
+        [step.command, ...step.args].join(" ")
+      );
+
+    assert.deepEqual(commandLines(allTasks, "Node", "linux"), ["npm install"]);
+    assert.deepEqual(commandLines(allTasks, "Flask", "linux"), [
+      "npm install",
+      `${path.join("server", ".venv", "bin", "python")} -m pip install -r requirements.txt`
+    ]);
+    assert.deepEqual(commandLines({ ...allTasks, createVirtualEnv: false }, "Flask", "win32"), [
+      "npm.cmd install",
+      "npm.cmd run-script install-requirements"
+    ]);
+  });
+
+  test("runs every task, keeps going after a failure and retries failed tasks", async function() {
+    const ranSteps: string[] = [];
+    let failInstall = true;
+    const runStep = async (
+      step: IBuildStep,
+      cwd: string,
+      onOutput: (line: string, isError: boolean) => void
+    ): Promise<void> => {
+      ranSteps.push(`${step.command} ${step.args[0]}`);
+      onOutput(`ran in ${cwd}`, false);
+      if (step.command === "npm" && failInstall) {
+        throw new DeploymentError("npm install failed");
+      }
+    };
+    const opened: string[] = [];
+    let reported: IPostGenerationTaskStatus[] = [];
+    const runner = new PostGenerationTaskRunner(
+      "/projects/Contoso",
+      { ...allTasks, createVirtualEnv: false },
+      "Node",
+      {
+        openReadme: async (readmePath: string): Promise<void> => {
+          opened.push(readmePath);
+        },
+        openProject: async (projectPath: string, newWindow: boolean): Promise<void> => {
+          opened.push(`${projectPath} ${newWindow}`);
+        }
+      },
+      tasks => (reported = tasks),
+      "linux",
+      runStep
+    );
+
+    await runner.runAll();
+    assert.deepEqual(ranSteps, ["git init", "git add", "git commit", "npm install"]);
+    assert.deepEqual(opened, [path.join("/projects/Contoso", "README.md"), "/projects/Contoso true"]);
+    assert.deepEqual(reported.map(task => [task.id, task.state]), [
+      [PostGenerationTaskId.GitInit, "done"],
+      [PostGenerationTaskId.InstallDependencies, "failed"],
+      [PostGenerationTaskId.OpenReadme, "done"],
+      [PostGenerationTaskId.OpenProject, "done"]
+    ]);
+    assert.equal(reported[1].error, "npm install failed");
+    assert.deepEqual(reported[1].output, ["> npm install", "ran in /projects/Contoso"]);
+
+    failInstall = false;
+    await runner.retry(PostGenerationTaskId.InstallDependencies);
+    await runner.retry(PostGenerationTaskId.GitInit);
+    assert.deepEqual(ranSteps.slice(4), ["npm install"]);
+    assert.equal(reported[1].state, "done");
+    assert.equal(reported[1].error, undefined);
+  });
+});
@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  createProjectManifest,
+  getManifestPath,
+  getOriginalOutputPath,
+  readProjectManifest,
+  recordAddedItems,
+  recordAzureResources,
+  writeProjectManifest
+} from "../projectManifest";
+import { IGenerationPayloadType } from "../types/generationPayloadType";
+
+const payload: IGenerationPayloadType = {
+  projectName: "Contoso",
+  path: "",
+  projectType: "FullStackWebApp",
+  frontendFramework: "React",
+  backendFramework: "Node",
+  pages: [{ name: "Orders", identity: "wts.Page.React.Grid", templateName: "Grid" }],
+  services: [{ name: "Cosmos", identity: "wts.Feature.Azure.Cosmos.Mongo" }]
+};
+
+const versions = { wizardVersion: "0.4.0", templatesVersion: "1.2.0" };
+
+const sha256 = (content: string): string =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+suite("Project manifest Tests", function() {
+  let projectPath: string;
+
+  setup(async function() {
+    projectPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-manifest-test-"));
+    await fse.outputFile(path.join(projectPath, "package.json"), "{}");
+    await fse.outputFile(path.join(projectPath, "src", "components", "Orders", "index.jsx"), "orders");
+  });
+
+  teardown(async function() {
+    await fse.remove(projectPath);
+  });
+
+  test("records the selection, the versions and a hash of each file", async function() {
+    const manifest = await createProjectManifest(projectPath, payload, versions);
+    assert.deepEqual(manifest, {
+      manifestVersion: 1,
+      wizardVersion: "0.4.0",
+      templatesVersion: "1.2.0",
+      projectName: "Contoso",
+      projectType: "FullStackWebApp",
+      frontendFramework: "React",
+      backendFramework: "Node",
+      language: "JavaScript",
+      homeName: "Orders",
+      pages: [{ name: "Orders", identity: "wts.Page.React.Grid" }],
+      services: [{ name: "Cosmos", identity: "wts.Feature.Azure.Cosmos.Mongo" }],
+      azureResources: [],
+      files: [
+        { path: "package.json", hash: sha256("{}") },
+        { path: "src/components/Orders/index.jsx", hash: sha256("orders") }
+      ]
+    });
+  });
+
+  test("leaves the manifest out of the files and records Azure resource IDs", async function() {
+    await writeProjectManifest(projectPath, await createProjectManifest(projectPath, payload, versions));
+    const manifest = await createProjectManifest(projectPath, payload, versions);
+    assert.deepEqual(manifest.files.map(file => file.path), ["package.json", "src/components/Orders/index.jsx"]);
+
+    const appServiceId = "/subscriptions/1/resourceGroups/contoso-rg/providers/Microsoft.Web/sites/contoso";
+    await recordAzureResources(projectPath, [{ type: "appService", id: appServiceId }]);
+    await recordAzureResources(projectPath, [
+      { type: "appService", id: appServiceId },
+      { type: "resourceGroup", id: "/subscriptions/1/resourceGroups/contoso-rg" }
+    ]);
+    const recorded = await readProjectManifest(projectPath);
+    assert.deepEqual(recorded!.azureResources, [
+      { type: "appService", id: appServiceId },
+      { type: "resourceGroup", id: "/subscriptions/1/resourceGroups/contoso-rg" }
+    ]);
+  });
+
+  test("rejects files that are not manifests or come from a newer wizard", async function() {
+    assert.equal(await readProjectManifest(projectPath), undefined);
+
+    await fse.outputFile(getManifestPath(projectPath), "not json");
+    await readProjectManifest(projectPath).then(
+      () => assert.fail("Expected an invalid manifest"),
+      error => assert.ok(/is not a Web Template Studio project manifest/.test(error.message))
+    );
+
+    await fse.outputJson(getManifestPath(projectPath), { manifestVersion: 99, pages: [], files: [] });
+    await readProjectManifest(projectPath).then(
+      () => assert.fail("Expected an unsupported manifest"),
+      error => assert.ok(/version 99 is not supported/.test(error.message))
+    );
+  });
+
+  test("records the items added to the project with the template output of their files", async function() {
+    await writeProjectManifest(projectPath, await createProjectManifest(projectPath, payload, versions));
+    await recordAddedItems(
+      projectPath,
+      [
+        { name: "Orders", identity: "wts.Page.React.Grid" },
+        { name: "Invoices", identity: "wts.Page.React.List", routePath: "/bills" }
+      ],
+      [],
+      [
+        { path: "package.json", content: Buffer.from('{"name":"contoso"}') },
+        { path: "src/components/Invoices/index.jsx", content: Buffer.from("invoices") }
+      ]
+    );
+
+    const manifest = (await readProjectManifest(projectPath))!;
+    assert.deepEqual(manifest.pages, [
+      { name: "Orders", identity: "wts.Page.React.Grid" },
+      { name: "Invoices", identity: "wts.Page.React.List", routePath: "/bills" }
+    ]);
+    assert.deepEqual(manifest.services, payload.services);
+    assert.deepEqual(manifest.files, [
+      { path: "package.json", hash: sha256('{"name":"contoso"}') },
+      { path: "src/components/Invoices/index.jsx", hash: sha256("invoices") },
+      { path: "src/components/Orders/index.jsx", hash: sha256("orders") }
+    ]);
+    const originalPath = path.join(getOriginalOutputPath(projectPath), "src", "components", "Invoices", "index.jsx");
+    assert.equal(await fse.readFile(originalPath, "utf8"), "invoices");
+  });
+});
@@ -0,0 +1,127 @@
+import * as assert from "assert";
+import {
+  createRecipe,
+  IRecipeCatalog,
+  IRecipeSelection,
+  IRecipeTemplate,
+  parseRecipe,
+  validateRecipe
+} from "../projectRecipe";
+
+const catalog = (pages: IRecipeTemplate[]): IRecipeCatalog => ({
+  getFrameworks: async (): Promise<{ frontend: IRecipeTemplate[]; backend: IRecipeTemplate[] }> => ({
+    frontend: [{ identity: "React", templateName: "React" }],
+    backend: [{ identity: "Node", templateName: "Node.js/Express" }]
+  }),
+  getPages: async (): Promise<IRecipeTemplate[]> => pages,
+  getFeatures: async (): Promise<IRecipeTemplate[]> => [
+    { identity: "wts.Feature.Azure.Cosmos.Mongo", templateName: "Cosmos DB (MongoDB API)" },
+    { identity: "wts.Feature.Docker", templateName: "Docker" }
+  ]
+});
+
+const selection: IRecipeSelection = {
+  projectType: "FullStackWebApp",
+  frontendFramework: "React",
+  backendFramework: "Node",
+  homeName: "Home",
+  pages: [
+    { name: "Orders", identity: "wts.Page.React.Grid", routePath: "shop/orders" },
+    { name: "Home", identity: "wts.Page.React.Blank" }
+  ],
+  services: {
+    cosmosDB: {
+      identity: "wts.Feature.Azure.Cosmos.Mongo",
+      api: "MongoDB",
+      subscription: "Contoso",
+      resourceGroup: "contoso-rg",
+      accountName: "contoso-db",
+      connectionString: "mongodb://secret"
+    } as any,
+    features: [{ name: "Docker", identity: "wts.Feature.Docker" }]
+  }
+};
+
+const versions = { wizardVersion: "0.0.1", templatesVersion: "1.0.0" };
+
+suite("Project recipe Tests", function() {
+  test("records the selection with its template names and no secrets", async function() {
+    const recipe = await createRecipe(
+      selection,
+      versions,
+      catalog([
+        { identity: "wts.Page.React.Grid", templateName: "Grid" },
+        { identity: "wts.Page.React.Blank", templateName: "Blank" }
+      ])
+    );
+
+    assert.equal(recipe.backendFramework.templateName, "Node.js/Express");
+    assert.deepEqual(recipe.pages.map(page => page.name), ["Orders", "Home"]);
+    assert.equal(recipe.pages[0].templateName, "Grid");
+    assert.equal(recipe.services.cosmosDB!.templateName, "Cosmos DB (MongoDB API)");
+    assert.equal(recipe.homeName, "Home");
+    assert.deepEqual(recipe.pages.map(page => page.routePath), ["shop/orders", undefined]);
+    assert.deepEqual(recipe.services.features, [
+      { name: "Docker", identity: "wts.Feature.Docker", templateName: "Docker" }
+    ]);
+    assert.equal(JSON.stringify(recipe).indexOf("secret"), -1);
+  });
+
+  test("rejects files that are not recipes or come from a newer wizard", async function() {
+    const recipe = await createRecipe(selection, versions, catalog([]));
+
+    assert.throws(() => parseRecipe("{", "recipe.json"), /not a Web Template Studio recipe/);
+    assert.throws(() => parseRecipe("{}", "recipe.json"), /not a Web Template Studio recipe/);
+    assert.throws(
+      () => parseRecipe(JSON.stringify({ ...recipe, recipeVersion: 99 }), "recipe.json"),
+      /not supported/
+    );
+    assert.deepEqual(
+      parseRecipe(JSON.stringify(recipe), "recipe.json"),
+      JSON.parse(JSON.stringify(recipe))
+    );
+  });
+
+  test("maps renamed templates and leaves out missing ones", async function() {
+    const recipe = await createRecipe(
+      selection,
+      versions,
+      catalog([
+        { identity: "wts.Page.React.Grid", templateName: "Grid" },
+        { identity: "wts.Page.React.Blank", templateName: "Blank" }
+      ])
+    );
+
+    const validation = await validateRecipe(
+      recipe,
+      catalog([{ identity: "wts.Page.React.DataGrid", templateName: "Grid" }])
+    );
+
+    assert.deepEqual(
+      validation.recipe!.pages.map(page => [page.name, page.identity]),
+      [["Orders", "wts.Page.React.DataGrid"]]
+    );
+    assert.deepEqual(
+      validation.issues.map(issue => [issue.type, issue.identity, issue.newIdentity]),
+      [
+        ["renamed", "wts.Page.React.Grid", "wts.Page.React.DataGrid"],
+        ["missing", "wts.Page.React.Blank", undefined]
+      ]
+    );
+    assert.ok(validation.recipe!.services.cosmosDB);
+    assert.deepEqual(validation.recipe!.services.features!.map(feature => feature.identity), ["wts.Feature.Docker"]);
+    assert.equal(validation.recipe!.homeName, undefined);
+  });
+
+  test("does not return a recipe whose frameworks are missing", async function() {
+    const recipe = await createRecipe(selection, versions, catalog([]));
+
+    const validation = await validateRecipe(
+      { ...recipe, frontendFramework: { identity: "Ember", templateName: "Ember" } },
+      catalog([])
+    );
+
+    assert.equal(validation.recipe, undefined);
+    assert.deepEqual(validation.issues.map(issue => issue.templateType), ["frontendFramework"]);
+  });
+});
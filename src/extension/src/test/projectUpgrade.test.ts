@@ -0,0 +1,168 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  createProjectManifest,
+  getOriginalOutputPath,
+  IProjectManifest,
+  readProjectManifest,
+  saveOriginalOutput,
+  writeProjectManifest
+} from "../projectManifest";
+import { applyProjectUpgrade, planProjectUpgrade } from "../projectUpgrade";
+
+const writeFiles = async (folder: string, files: { [file: string]: string }): Promise<void> => {
+  for (const file of Object.keys(files)) {
+    await fse.outputFile(path.join(folder, file), files[file]);
+  }
+};
+
+const originalOutput = {
+  "unchanged.txt": "one\ntwo\nthree\n",
+  "merged.txt": "one\ntwo\nthree\n",
+  "conflict.txt": "one\ntwo\nthree\n",
+  "userOnly.txt": "one\ntwo\nthree\n",
+  "deleted.txt": "one\n"
+};
+
+const upgradedOutput = {
+  "unchanged.txt": "one\ntwo\nthree updated\n",
+  "merged.txt": "one\ntwo\nthree updated\n",
+  "conflict.txt": "one updated\ntwo\nthree\n",
+  "userOnly.txt": "one\ntwo\nthree\n",
+  "deleted.txt": "one updated\n",
+  "added.txt": "new\n"
+};
+
+suite("Project upgrade Tests", function() {
+  let tempFolder: string;
+  let projectPath: string;
+  let upgradedPath: string;
+  let manifest: IProjectManifest;
+
+  setup(async function() {
+    tempFolder = await fse.mkdtemp(path.join(os.tmpdir(), "wts-upgrade-test-"));
+    projectPath = path.join(tempFolder, "project", "Contoso");
+    upgradedPath = path.join(tempFolder, "upgraded", "Contoso");
+    await writeFiles(projectPath, originalOutput);
+    manifest = {
+      ...(await createProjectManifest(
+        projectPath,
+        {
+          projectName: "Contoso",
+          path: path.dirname(projectPath),
+          projectType: "FullStackWebApp",
+          frontendFramework: "React",
+          backendFramework: "Node",
+          pages: [],
+          services: []
+        },
+        { wizardVersion: "0.3.0", templatesVersion: "1.0.0" }
+      )),
+      azureResources: [{ type: "appService", id: "/subscriptions/1/resourceGroups/rg/providers/Microsoft.Web/sites/contoso" }]
+    };
+    await writeProjectManifest(projectPath, manifest);
+    await saveOriginalOutput(projectPath, projectPath, manifest.files);
+
+    await writeFiles(projectPath, {
+      "merged.txt": "one mine\ntwo\nthree\n",
+      "conflict.txt": "one mine\ntwo\nthree\n",
+      "userOnly.txt": "one mine\ntwo\nthree\n"
+    });
+    await fse.remove(path.join(projectPath, "deleted.txt"));
+    await writeFiles(upgradedPath, upgradedOutput);
+  });
+
+  teardown(async function() {
+    await fse.remove(tempFolder);
+  });
+
+  test("merges the new template output with the user's changes", async function() {
+    const changes = await planProjectUpgrade(projectPath, manifest, upgradedPath);
+    assert.deepEqual(
+      changes.map(change => [change.path, change.status]),
+      [
+        ["added.txt", "cleanUpdate"],
+        ["conflict.txt", "conflict"],
+        ["deleted.txt", "conflict"],
+        ["merged.txt", "userModified"],
+        ["unchanged.txt", "cleanUpdate"]
+      ]
+    );
+    const merged = changes.find(change => change.path === "merged.txt")!;
+    assert.equal(merged.newContent.toString(), "one mine\ntwo\nthree updated\n");
+  });
+
+  test("merges against the manifest hashes when the original output was not kept", async function() {
+    await fse.remove(getOriginalOutputPath(projectPath));
+    const changes = await planProjectUpgrade(projectPath, manifest, upgradedPath);
+    assert.deepEqual(
+      changes.map(change => [change.path, change.status]),
+      [
+        ["added.txt", "cleanUpdate"],
+        ["conflict.txt", "conflict"],
+        ["deleted.txt", "conflict"],
+        ["merged.txt", "conflict"],
+        ["unchanged.txt", "cleanUpdate"],
+        ["userOnly.txt", "conflict"]
+      ]
+    );
+  });
+
+  test("applies the selected changes and moves the manifest to the new templates", async function() {
+    const changes = await planProjectUpgrade(projectPath, manifest, upgradedPath);
+    await applyProjectUpgrade(
+      projectPath,
+      manifest,
+      upgradedPath,
+      { wizardVersion: "0.4.0", templatesVersion: "2.0.0" },
+      changes.filter(change => change.status !== "conflict")
+    );
+
+    assert.equal(await fse.readFile(path.join(projectPath, "merged.txt"), "utf8"), "one mine\ntwo\nthree updated\n");
+    assert.equal(await fse.readFile(path.join(projectPath, "conflict.txt"), "utf8"), "one mine\ntwo\nthree\n");
+    const upgradedManifest = (await readProjectManifest(projectPath))!;
+    assert.equal(upgradedManifest.templatesVersion, "2.0.0");
+    assert.deepEqual(upgradedManifest.azureResources, manifest.azureResources);
+    assert.equal(
+      await fse.readFile(path.join(getOriginalOutputPath(projectPath), "merged.txt"), "utf8"),
+      "one\ntwo\nthree updated\n"
+    );
+    assert.equal(
+      await fse.readFile(path.join(getOriginalOutputPath(projectPath), "conflict.txt"), "utf8"),
+      "one\ntwo\nthree\n"
+    );
+    assert.deepEqual(
+      upgradedManifest.files.find(file => file.path === "conflict.txt"),
+      manifest.files.find(file => file.path === "conflict.txt")
+    );
+    assert.deepEqual(
+      (await planProjectUpgrade(projectPath, upgradedManifest, upgradedPath)).map(change => [change.path, change.status]),
+      [["conflict.txt", "conflict"], ["deleted.txt", "conflict"]]
+    );
+    assert.equal(await fse.readFile(path.join(projectPath, ".wts", ".gitignore"), "utf8"), "original/\n");
+  });
+
+  test("recreates a file the user deleted only when its change is picked", async function() {
+    const changes = await planProjectUpgrade(projectPath, manifest, upgradedPath);
+    const versions = { wizardVersion: "0.4.0", templatesVersion: "2.0.0" };
+    await applyProjectUpgrade(
+      projectPath,
+      manifest,
+      upgradedPath,
+      versions,
+      changes.filter(change => change.status !== "conflict")
+    );
+    assert.ok(!(await fse.pathExists(path.join(projectPath, "deleted.txt"))));
+
+    await applyProjectUpgrade(
+      projectPath,
+      manifest,
+      upgradedPath,
+      versions,
+      changes.filter(change => change.path === "deleted.txt")
+    );
+    assert.equal(await fse.readFile(path.join(projectPath, "deleted.txt"), "utf8"), "one updated\n");
+  });
+});
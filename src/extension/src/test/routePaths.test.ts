@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ValidationError } from "../errors";
+import { applyRoutePaths, validateRoutePaths } from "../utils/routePaths";
+
+const pages = [
+  { name: "Blank", routePath: "welcome" },
+  { name: "Grid", routePath: "/products/list" },
+  { name: "List" }
+];
+
+suite("Route paths Tests", function() {
+  let projectPath: string;
+
+  setup(async function() {
+    projectPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-route-paths-test-"));
+  });
+
+  teardown(async function() {
+    await fse.remove(projectPath);
+  });
+
+  test("moves React routes and nav links, leaving the home page at the root", async function() {
+    await fse.outputFile(
+      path.join(projectPath, "src", "App.jsx"),
+      '<Route exact path = "/" component = { Blank } />\n<Route path = "/Grid" component = { Grid } />\n<Route path = "/List" component = { List } />\n'
+    );
+    await fse.outputFile(
+      path.join(projectPath, "src", "components", "NavBar", "index.jsx"),
+      '<Link to="/">Blank</Link>\n<Link to="Grid">Grid</Link>\n<Link to="List">List</Link>\n'
+    );
+    await applyRoutePaths(projectPath, "React", pages, "Blank");
+
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "App.jsx"), "utf8"),
+      '<Route exact path = "/" component = { Blank } />\n<Route path = "/products/list" component = { Grid } />\n<Route path = "/List" component = { List } />\n'
+    );
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "components", "NavBar", "index.jsx"), "utf8"),
+      '<Link to="/">Blank</Link>\n<Link to="/products/list">Grid</Link>\n<Link to="List">List</Link>\n'
+    );
+  });
+
+  test("moves a page to the default route of another page that moves too", async function() {
+    await fse.outputFile(
+      path.join(projectPath, "src", "App.jsx"),
+      '<Route path = "/Grid" component = { Grid } />\n<Route path = "/List" component = { List } />\n'
+    );
+    await applyRoutePaths(
+      projectPath,
+      "React",
+      [{ name: "Blank" }, { name: "Grid", routePath: "List" }, { name: "List", routePath: "items" }],
+      "Blank"
+    );
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "App.jsx"), "utf8"),
+      '<Route path = "/List" component = { Grid } />\n<Route path = "/items" component = { List } />\n'
+    );
+  });
+
+  test("moves Vue, Angular and Svelte routes", async function() {
+    await fse.outputFile(path.join(projectPath, "src", "router", "index.js"), '{ path: "/Blank", component: Blank }\n');
+    await fse.outputFile(path.join(projectPath, "src", "components", "TheNavBar.vue"), '<router-link to="/Blank">Blank</router-link>\n');
+    await applyRoutePaths(projectPath, "Vue", pages, "List");
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "router", "index.js"), "utf8"),
+      '{ path: "/welcome", component: Blank }\n'
+    );
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "components", "TheNavBar.vue"), "utf8"),
+      '<router-link to="/welcome">Blank</router-link>\n'
+    );
+
+    const angularPages = [{ name: "MasterDetail", routePath: "details" }];
+    await fse.outputFile(
+      path.join(projectPath, "src", "app", "app-routing.module.ts"),
+      "{ path: 'master-detail', loadChildren: './master-detail/master-detail.module#MasterDetailModule' }\n"
+    );
+    await fse.outputFile(
+      path.join(projectPath, "src", "app", "app-shell", "nav-bar", "nav-bar.component.html"),
+      '<a routerLink="/master-detail">MasterDetail</a>\n'
+    );
+    await applyRoutePaths(projectPath, "Angular", angularPages, "Blank");
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "app", "app-routing.module.ts"), "utf8"),
+      "{ path: 'details', loadChildren: './master-detail/master-detail.module#MasterDetailModule' }\n"
+    );
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "app", "app-shell", "nav-bar", "nav-bar.component.html"), "utf8"),
+      '<a routerLink="/details">MasterDetail</a>\n'
+    );
+
+    await fse.outputFile(path.join(projectPath, "src", "App.svelte"), '<Route path="/Grid" component={Grid} />\n');
+    await fse.outputFile(
+      path.join(projectPath, "src", "components", "NavBar.svelte"),
+      '<a class="nav-item nav-link active" href="/Grid" use:link>Grid</a>\n'
+    );
+    await applyRoutePaths(projectPath, "Svelte", pages, "Blank");
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "App.svelte"), "utf8"),
+      '<Route path="/products/list" component={Grid} />\n'
+    );
+    assert.equal(
+      await fse.readFile(path.join(projectPath, "src", "components", "NavBar.svelte"), "utf8"),
+      '<a class="nav-item nav-link active" href="/products/list" use:link>Grid</a>\n'
+    );
+  });
+
+  test("rejects route paths that are not URL-safe or used twice", function() {
+    assert.throws(() => validateRoutePaths("React", [{ name: "Grid", routePath: "my grid" }], "Blank"), ValidationError);
+    assert.throws(() => validateRoutePaths("React", [{ name: "Grid", routePath: "a//b" }], "Blank"), ValidationError);
+    assert.throws(
+      () => validateRoutePaths("React", [{ name: "Grid", routePath: "list" }, { name: "List" }], "Blank"),
+      ValidationError
+    );
+    assert.doesNotThrow(() =>
+      validateRoutePaths("React", [{ name: "Blank", routePath: "list" }, { name: "List" }], "Blank")
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { Settings } from "../azure/utils/settings";
+
+const workflowTemplate = path.join(
+  __dirname,
+  "..",
+  "..",
+  "..",
+  "..",
+  "templates",
+  "Web",
+  "Features",
+  "ContinuousIntegration",
+  ".github",
+  "workflows",
+  "ci.yml"
+);
+
+suite("Settings Tests", function() {
+  let projectPath: string;
+
+  setup(async function() {
+    projectPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-settings-test-"));
+  });
+
+  teardown(async function() {
+    await fse.remove(projectPath);
+  });
+
+  test("fills the App Service into the generated CI workflow", async function() {
+    const workflowPath = path.join(projectPath, ".github", "workflows", "ci.yml");
+    await fse.copy(workflowTemplate, workflowPath);
+
+    await Settings.setWorkflowAppService("contoso-app", projectPath);
+
+    const workflow = await fse.readFile(workflowPath, "utf8");
+    assert.ok(workflow.indexOf('  AZURE_WEBAPP_NAME: "contoso-app"\n') !== -1);
+    assert.ok(workflow.indexOf("app-name: ${{ env.AZURE_WEBAPP_NAME }}") !== -1);
+  });
+
+  test("leaves projects without a CI workflow as they are", async function() {
+    await Settings.setWorkflowAppService("contoso-app", projectPath);
+    assert.deepEqual(await fse.readdir(projectPath), []);
+  });
+});
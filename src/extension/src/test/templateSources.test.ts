@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { CoreTemplateStudio } from "../coreTemplateStudio";
+import { findTemplateIdentityConflicts } from "../templateSources";
+
+// out/test -> repository root, which holds templates/Web
+const repositoryRoot = path.join(__dirname, "..", "..", "..", "..");
+
+const writeTemplate = (
+  sourcePath: string,
+  templateFolder: string,
+  identity: string
+): Promise<void> =>
+  fse.outputJson(
+    path.join(
+      sourcePath,
+      "templates",
+      "Web",
+      "Pages",
+      templateFolder,
+      ".template.config",
+      "template.json"
+    ),
+    { identity }
+  );
+
+// A React page of another root, with a composition adding its endpoint to the constants
+const writeOrdersPage = async (sourcePath: string): Promise<void> => {
+  const webFolder = path.join(sourcePath, "templates", "Web");
+  const pageFolder = path.join(webFolder, "Pages", "React.Orders");
+  await fse.outputJson(path.join(pageFolder, ".template.config", "template.json"), {
+    name: "Orders",
+    identity: "contoso.Page.React.Orders",
+    sourceName: "wts.ItemName",
+    tags: {
+      language: "JavaScript",
+      "wts.type": "page",
+      "wts.projecttype": "all",
+      "wts.frontendframework": "React",
+      "wts.backendframework": "all"
+    }
+  });
+  await fse.outputFile(
+    path.join(pageFolder, "src", "components", "wts.ItemName", "index.jsx"),
+    "export default function wts.ItemName() {}\n"
+  );
+  const compositionFolder = path.join(webFolder, "_composition", "ReactJS", "Page.React.AddConstantsOrders");
+  await fse.outputJson(path.join(compositionFolder, ".template.config", "template.json"), {
+    name: "Page.React.AddConstantsOrders",
+    identity: "contoso.Page.React.AddConstantsOrders",
+    sourceName: "wts.ItemName",
+    tags: {
+      language: "JavaScript",
+      "wts.type": "composition",
+      "wts.compositionOrder": "2",
+      "wts.compositionFilter": "$frontendframework == React & identity == contoso.Page.React.Orders"
+    }
+  });
+  await fse.outputFile(
+    path.join(compositionFolder, "src", "constants$contoso.Page.React.Orders_gpostaction.js"),
+    'CONSTANTS.ENDPOINT = {};\n//{[{\nCONSTANTS.ENDPOINT.ORDERS = "/api/orders";\n//}]}\n'
+  );
+};
+
+suite("Template sources Tests", function() {
+  test("generates the pages of an extra root with the built-in compositions", async function() {
+    this.timeout(20000);
+    const root = await fse.mkdtemp(path.join(os.tmpdir(), "template-sources-"));
+    const company = path.join(root, "company");
+    const liveMessageHandler = (): void => undefined;
+
+    try {
+      await writeOrdersPage(company);
+      const coreTemplateStudio = await CoreTemplateStudio.GetInstance(undefined, () => undefined, true);
+      await coreTemplateStudio.sync({ payload: { path: repositoryRoot }, liveMessageHandler });
+      await coreTemplateStudio.addTemplateSource({ payload: { path: company }, liveMessageHandler });
+
+      const pages = await coreTemplateStudio.getPages("FullStackWebApp", "React", "Node");
+      const orders = pages.find((page: any) => page.templateId === "contoso.Page.React.Orders");
+      assert.equal(orders.templateSource, company);
+      assert.equal(pages.find((page: any) => page.templateId === "wts.Page.React.Grid").templateSource, undefined);
+
+      await coreTemplateStudio.generate({
+        payload: {
+          projectName: "Shop",
+          path: root,
+          projectType: "FullStackWebApp",
+          frontendFramework: "React",
+          backendFramework: "Node",
+          pages: [
+            { name: "Grid", identity: "wts.Page.React.Grid" },
+            { name: "Orders", identity: "contoso.Page.React.Orders" }
+          ],
+          services: []
+        },
+        liveMessageHandler
+      });
+
+      const projectPath = path.join(root, "Shop", "src");
+      const app = await fse.readFile(path.join(projectPath, "App.jsx"), "utf8");
+      assert.ok(app.indexOf('import Orders from "./components/Orders";') !== -1, app);
+      assert.ok(app.indexOf('<Route path = "/Orders" component = { Orders } />') !== -1, app);
+      const navBar = await fse.readFile(path.join(projectPath, "components", "NavBar", "index.jsx"), "utf8");
+      assert.ok(navBar.indexOf('to="Orders"') !== -1, navBar);
+      const constants = await fse.readFile(path.join(projectPath, "constants.js"), "utf8");
+      assert.ok(constants.indexOf('CONSTANTS.ENDPOINT.ORDERS = "/api/orders";') !== -1, constants);
+    } finally {
+      CoreTemplateStudio.DestroyInstance();
+      await fse.remove(root);
+    }
+  });
+
+  test("reports identities defined by more than one template root", async function() {
+    const root = await fse.mkdtemp(path.join(os.tmpdir(), "template-sources-"));
+    const builtIn = path.join(root, "builtIn");
+    const company = path.join(root, "company");
+
+    try {
+      await writeTemplate(builtIn, "React.Grid", "wts.Page.React.Grid");
+      await writeTemplate(builtIn, "React.List", "wts.Page.React.List");
+      await writeTemplate(company, "React.Grid", "wts.Page.React.Grid");
+      await writeTemplate(company, "React.Orders", "contoso.Page.React.Orders");
+
+      assert.deepEqual(await findTemplateIdentityConflicts([builtIn, company]), [
+        { identity: "wts.Page.React.Grid", sources: [builtIn, company] }
+      ]);
+    } finally {
+      await fse.remove(root);
+    }
+  });
+});
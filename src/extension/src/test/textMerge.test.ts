@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import { diffLines, mergeThreeWay } from "../utils/textMerge";
+
+suite("Text merge Tests", function() {
+  test("diffs lines as removed, added and unchanged", function() {
+    assert.deepEqual(diffLines("a\nb\nc", "a\nc\nd"), [
+      { type: "unchanged", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "unchanged", text: "c" },
+      { type: "added", text: "d" }
+    ]);
+  });
+
+  test("merges changes made to different lines", function() {
+    const result = mergeThreeWay("a\nb\nc\nd", "a\nB\nc\nd", "a\nb\nc\nd\ne");
+
+    assert.deepEqual(result, { content: "a\nB\nc\nd\ne", hasConflicts: false });
+  });
+
+  test("marks lines changed differently on both sides as conflicts", function() {
+    const result = mergeThreeWay("a\nb\nc", "a\nmine\nc", "a\ntheirs\nc");
+
+    assert.equal(result.hasConflicts, true);
+    assert.equal(
+      result.content,
+      "a\n<<<<<<< current\nmine\n=======\ntheirs\n>>>>>>> template\nc"
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { listDeploymentFiles } from "../azure/azure-app-service/deploymentPackage";
+import { nodeHttpClient, ZipDeployClient } from "../azure/azure-app-service/zipDeployClient";
+import { zipDeployProject } from "../deployPipeline";
+import { DeploymentError } from "../errors";
+import { isGitignored, parseGitignore } from "../utils/gitignore";
+
+interface IFakeKudu {
+  url: string;
+  uploads: { authorization: string; body: Buffer }[];
+  close(): Promise<void>;
+}
+
+/**
+ * Serves the zip deploy and deployments APIs of Kudu, reporting the given
+ * statuses one poll after the other.
+ */
+const startFakeKudu = async (statuses: any[]): Promise<IFakeKudu> => {
+  const uploads: { authorization: string; body: Buffer }[] = [];
+  let poll = 0;
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => {
+      if (request.method === "POST" && request.url === "/api/zipdeploy?isAsync=true") {
+        uploads.push({
+          authorization: request.headers.authorization as string,
+          body: Buffer.concat(chunks)
+        });
+        response.writeHead(202, { Location: "/api/deployments/latest?deployer=Push" });
+        response.end();
+      } else if (request.method === "GET" && request.url === "/api/deployments/latest?deployer=Push") {
+        const status = statuses[Math.min(poll++, statuses.length - 1)];
+        response.writeHead(status.complete ? 200 : 202, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(status));
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+  });
+  await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as { port: number }).port}`,
+    uploads,
+    close: (): Promise<void> => new Promise(resolve => server.close(() => resolve()))
+  };
+};
+
+const createProject = async (): Promise<string> => {
+  const projectPath = await fse.mkdtemp(path.join(os.tmpdir(), "wts-zip-deploy-test-"));
+  await fse.outputFile(path.join(projectPath, ".gitignore"), "/node_modules\n/server/build\n.env\n*.log\n!keep.log\n");
+  await fse.outputFile(path.join(projectPath, "src", "App.js"), "");
+  await fse.outputFile(path.join(projectPath, "server", "server.js"), "");
+  await fse.outputFile(path.join(projectPath, "server", ".env"), "SECRET=1");
+  await fse.outputFile(path.join(projectPath, "server", "debug.log"), "");
+  await fse.outputFile(path.join(projectPath, "server", "keep.log"), "");
+  await fse.outputFile(path.join(projectPath, "server", "build", "index.html"), "");
+  await fse.outputFile(path.join(projectPath, "server", "node_modules", "express", "index.js"), "");
+  await fse.outputFile(path.join(projectPath, "server", "routes", ".gitignore"), "fixtures/\n");
+  await fse.outputFile(path.join(projectPath, "server", "routes", "index.js"), "");
+  await fse.outputFile(path.join(projectPath, "server", "routes", "fixtures", "data.json"), "");
+  return projectPath;
+};
+
+suite("Zip deploy Tests", function() {
+  test("matches paths like git", function() {
+    const gitignores = [parseGitignore("/build\nlogs/\n*.py[co]\ndocs/**/*.md\n!docs/README.md\n")];
+    assert.ok(isGitignored(gitignores, "build", true));
+    assert.ok(!isGitignored(gitignores, "server/build", true));
+    assert.ok(isGitignored(gitignores, "server/logs", true));
+    assert.ok(!isGitignored(gitignores, "server/logs", false));
+    assert.ok(isGitignored(gitignores, "server/app.pyc", false));
+    assert.ok(isGitignored(gitignores, "docs/api/index.md", false));
+    assert.ok(!isGitignored(gitignores, "docs/README.md", false));
+  });
+
+  test("packages the deploy subpath without ignored files but with the build output", async function() {
+    const projectPath = await createProject();
+    try {
+      assert.deepEqual(await listDeploymentFiles(projectPath, "server"), [
+        "build/index.html",
+        "keep.log",
+        "routes/.gitignore",
+        "routes/index.js",
+        "server.js"
+      ]);
+    } finally {
+      await fse.remove(projectPath);
+    }
+  });
+
+  test("uploads the package and polls the deployment until it succeeds", async function() {
+    const kudu = await startFakeKudu([
+      { status: 1, complete: false, "status_text": "Building" },
+      { status: 4, complete: true, "status_text": "Deployed" }
+    ]);
+    const projectPath = await createProject();
+    try {
+      const statuses: string[] = [];
+      const files = await zipDeployProject(
+        projectPath,
+        "server",
+        new ZipDeployClient(kudu.url, "token", nodeHttpClient, 10),
+        status => statuses.push(status)
+      );
+      assert.equal(files.length, 5);
+      assert.equal(kudu.uploads.length, 1);
+      assert.equal(kudu.uploads[0].authorization, "Bearer token");
+      assert.equal(kudu.uploads[0].body.slice(0, 2).toString(), "PK");
+      assert.ok(kudu.uploads[0].body.indexOf("build/index.html") !== -1);
+      assert.ok(kudu.uploads[0].body.indexOf(".env") === -1);
+      assert.deepEqual(statuses.slice(-2), ["Building", "Deployed"]);
+    } finally {
+      await kudu.close();
+      await fse.remove(projectPath);
+    }
+  });
+
+  test("rejects when Kudu reports a failed deployment", async function() {
+    const kudu = await startFakeKudu([{ status: 3, complete: true, "status_text": "npm install failed" }]);
+    const zipFolder = await fse.mkdtemp(path.join(os.tmpdir(), "wts-zip-deploy-test-"));
+    const zipPath = path.join(zipFolder, "deploy.zip");
+    await fse.writeFile(zipPath, "PK");
+    try {
+      await new ZipDeployClient(kudu.url, "token", nodeHttpClient, 10).deploy(zipPath);
+      assert.fail("Expected the deployment to be rejected");
+    } catch (error) {
+      assert.ok(error instanceof DeploymentError);
+      assert.ok(/npm install failed/.test(error.message));
+    } finally {
+      await kudu.close();
+      await fse.remove(zipFolder);
+    }
+  });
+});
@@ -1,8 +1,10 @@
 import { IGenerationPayloadType } from "./generationPayloadType";
+import { IGenerationProgressType } from "./generationProgressType";
 import { ISyncPayloadType } from "./syncPayloadType";
 
 type CommandPayload = IGenerationPayloadType | ISyncPayloadType;
 export interface ICommandPayload {
   payload: CommandPayload;
   liveMessageHandler: (message: string, progress?: number) => any;
+  progressHandler?: (progress: IGenerationProgressType) => void;
 }
@@ -3,12 +3,12 @@ import { IEngineGenerationTemplateType } from "./engineGenerationTemplateType";
 export interface IEngineGenerationPayloadType {
   backendFramework: string;
   frontendFramework: string;
-  pages: IEngineGenerationTemplateType;
+  pages: IEngineGenerationTemplateType[];
   genPath: string;
   projectName: string;
-  language: "Any";
+  language: string;
   platform: "Web";
-  homeName: "Test";
+  homeName: string;
   projectType: string;
-  features: IEngineGenerationTemplateType;
+  features: IEngineGenerationTemplateType[];
 }
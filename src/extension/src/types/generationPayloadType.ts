@@ -1,6 +1,8 @@
 export interface IGenerationPayloadType {
   backendFramework: string;
   frontendFramework: string;
+  homeName?: string;
+  language?: string;
   pages: any;
   path: string;
   projectName: string;
@@ -0,0 +1,17 @@
+export type GenerationItemKind = "project" | "page" | "feature" | "composition";
+
+export type GenerationItemState = "pending" | "generating" | "done" | "failed";
+
+export interface IGenerationItemProgress {
+  id: string;
+  name: string;
+  kind: GenerationItemKind;
+  state: GenerationItemState;
+  elapsedMs: number;
+}
+
+export interface IGenerationProgressType {
+  percentage: number;
+  items: IGenerationItemProgress[];
+  log: string[];
+}
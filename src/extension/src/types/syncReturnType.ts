@@ -1,7 +1,10 @@
+import { ITemplateIdentityConflict } from "../templateSources";
+
 export interface ISyncReturnType {
   successfullySynced: boolean;
   templatesVersion: string;
   errorMessage: string;
   itemNameValidationConfig: any;
   projectNameValidationConfig: any;
+  templateSourceConflicts: ITemplateIdentityConflict[];
 }
@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { CONSTANTS } from "./constants";
+import { Controller } from "./controller";
+import { CoreTemplateStudio } from "./coreTemplateStudio";
+import { IProjectManifest, readProjectManifest } from "./projectManifest";
+import {
+  applyProjectUpgrade,
+  getManifestSelection,
+  IUpgradeFileChange,
+  planProjectUpgrade,
+  UpgradeFileStatus
+} from "./projectUpgrade";
+import { TelemetryService } from "./telemetry/telemetryService";
+import { IVSCodeProgressType } from "./types/vscodeProgressType";
+import { Logger } from "./utils/logger";
+
+interface IUpgradeQuickPickItem extends vscode.QuickPickItem {
+  change: IUpgradeFileChange;
+  reviewPath: string;
+}
+
+const STATUS_ORDER: UpgradeFileStatus[] = ["conflict", "userModified", "cleanUpdate"];
+
+const STATUS_LABELS: { [status in UpgradeFileStatus]: string } = {
+  cleanUpdate: CONSTANTS.INFO.UPGRADE_STATUS_CLEAN_UPDATE,
+  userModified: CONSTANTS.INFO.UPGRADE_STATUS_USER_MODIFIED,
+  conflict: CONSTANTS.INFO.UPGRADE_STATUS_CONFLICT
+};
+
+/**
+ * Upgrades a generated project to the current templates. The selection
+ * recorded in the project manifest is generated again into a temporary folder
+ * and merged into the project files, and the user picks the changes to apply
+ * while each one is shown in a diff editor.
+ */
+export class UpgradeProjectExperience {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  public async launch(): Promise<void> {
+    const projectPath = await UpgradeProjectExperience.selectProjectFolder();
+    if (!projectPath) {
+      return;
+    }
+    let manifest: IProjectManifest | undefined;
+    try {
+      manifest = await readProjectManifest(projectPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(error.message);
+      return;
+    }
+    if (!manifest) {
+      vscode.window.showErrorMessage(CONSTANTS.ERRORS.PROJECT_MANIFEST_MISSING(projectPath));
+      return;
+    }
+    const telemetryService = new TelemetryService(this.context);
+    if (!(await Controller.syncTemplates(this.context, telemetryService, CONSTANTS.INFO.UPGRADE_LOADING_TEMPLATES))) {
+      return;
+    }
+
+    const upgradeFolder = await fse.mkdtemp(
+      path.join(os.tmpdir(), CONSTANTS.PROJECT_UPGRADE.TEMP_FOLDER_PREFIX)
+    );
+    try {
+      const { wizardVersion, templatesVersion } = CoreTemplateStudio.GetExistingInstance().getTemplateConfig();
+      const upgradedPath = await UpgradeProjectExperience.generateProject(manifest, upgradeFolder);
+      const changes = await planProjectUpgrade(projectPath, manifest, upgradedPath);
+      const selectedChanges =
+        changes.length > 0
+          ? await UpgradeProjectExperience.reviewChanges(projectPath, changes, upgradeFolder)
+          : [];
+      if (!selectedChanges) {
+        return;
+      }
+      await applyProjectUpgrade(
+        projectPath,
+        manifest,
+        upgradedPath,
+        { wizardVersion, templatesVersion },
+        selectedChanges
+      );
+      vscode.window.showInformationMessage(
+        changes.length > 0
+          ? CONSTANTS.INFO.UPGRADE_APPLIED(selectedChanges.length, templatesVersion)
+          : CONSTANTS.INFO.UPGRADE_UP_TO_DATE(templatesVersion)
+      );
+    } catch (error) {
+      Logger.appendLog("EXTENSION", "error", `Error upgrading project: ${error}`);
+      vscode.window.showErrorMessage(error.message);
+    } finally {
+      await fse.remove(upgradeFolder);
+    }
+  }
+
+  private static async selectProjectFolder(): Promise<string | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const folders = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      defaultUri: workspaceFolders ? workspaceFolders[0].uri : undefined,
+      openLabel: CONSTANTS.INFO.UPGRADE_OPEN_LABEL
+    });
+    return folders ? folders[0].fsPath : undefined;
+  }
+
+  private static async generateProject(
+    manifest: IProjectManifest,
+    outputFolder: string
+  ): Promise<string> {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: CONSTANTS.INFO.UPGRADE_GENERATING(manifest.projectName)
+      },
+      (progress: vscode.Progress<IVSCodeProgressType>) =>
+        CoreTemplateStudio.GetExistingInstance().generate({
+          payload: getManifestSelection(manifest, outputFolder),
+          liveMessageHandler: (message: string): void => progress.report({ message })
+        })
+    );
+    return (result && result.generationPath) || path.join(outputFolder, manifest.projectName);
+  }
+
+  /**
+   * Lists the changes with the clean updates and merges selected, showing the
+   * active one next to the project file. Resolves with the accepted changes,
+   * or undefined when the review is dismissed.
+   */
+  private static async reviewChanges(
+    projectPath: string,
+    changes: IUpgradeFileChange[],
+    upgradeFolder: string
+  ): Promise<IUpgradeFileChange[] | undefined> {
+    const reviewFolder = path.join(upgradeFolder, CONSTANTS.PROJECT_UPGRADE.REVIEW_FOLDER);
+    const items: IUpgradeQuickPickItem[] = [];
+    for (const status of STATUS_ORDER) {
+      for (const change of changes.filter(fileChange => fileChange.status === status)) {
+        const reviewPath = path.join(reviewFolder, ...change.path.split("/"));
+        await fse.outputFile(reviewPath, change.newContent);
+        items.push({ label: change.path, description: STATUS_LABELS[status], change, reviewPath });
+      }
+    }
+
+    const quickPick = vscode.window.createQuickPick<IUpgradeQuickPickItem>();
+    quickPick.canSelectMany = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.placeholder = CONSTANTS.INFO.UPGRADE_REVIEW_PLACEHOLDER;
+    quickPick.items = items;
+    quickPick.selectedItems = items.filter(item => item.change.status !== "conflict");
+    quickPick.onDidChangeActive(activeItems => {
+      if (activeItems.length > 0) {
+        UpgradeProjectExperience.showChange(projectPath, activeItems[0]);
+      }
+    });
+
+    return new Promise(resolve => {
+      let accepted = false;
+      quickPick.onDidAccept(() => {
+        accepted = true;
+        resolve(quickPick.selectedItems.map(item => item.change));
+        quickPick.dispose();
+      });
+      quickPick.onDidHide(() => {
+        if (!accepted) {
+          resolve(undefined);
+        }
+        quickPick.dispose();
+      });
+      quickPick.show();
+    });
+  }
+
+  private static async showChange(projectPath: string, item: IUpgradeQuickPickItem): Promise<void> {
+    if (item.change.isBinary) {
+      return;
+    }
+    const projectFile = path.join(projectPath, ...item.change.path.split("/"));
+    const options: vscode.TextDocumentShowOptions = { preview: true, preserveFocus: true };
+    if (await fse.pathExists(projectFile)) {
+      vscode.commands.executeCommand(
+        CONSTANTS.VSCODE_COMMAND.DIFF,
+        vscode.Uri.file(projectFile),
+        vscode.Uri.file(item.reviewPath),
+        `${item.change.path} (${item.description})`,
+        options
+      );
+    } else {
+      vscode.window.showTextDocument(vscode.Uri.file(item.reviewPath), options);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+interface IGitignoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export interface IGitignore {
+  /** Folder of the .gitignore file relative to the root, "" for the root */
+  base: string;
+  rules: IGitignoreRule[];
+}
+
+const escapeRegex = (text: string): string => text.replace(/[.+^${}()|\\]/g, "\\$&");
+
+const globToRegex = (glob: string): string => {
+  let regex = "";
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (glob.startsWith("**/", index)) {
+      regex += "(?:.*/)?";
+      index += 2;
+    } else if (glob.startsWith("/**", index) && index + 3 === glob.length) {
+      regex += "(?:/.*)?";
+      index += 2;
+    } else if (glob.startsWith("**", index)) {
+      regex += ".*";
+      index += 1;
+    } else if (char === "*") {
+      regex += "[^/]*";
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", index + 1);
+      if (end === -1) {
+        regex += "\\[";
+      } else {
+        regex += `[${glob.slice(index + 1, end).replace(/^!/, "^")}]`;
+        index = end;
+      }
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  return regex;
+};
+
+/**
+ * Parses the patterns of a .gitignore file. Patterns with a slash before their
+ * last character are relative to the folder of the file, the others match at
+ * any depth.
+ */
+export function parseGitignore(content: string, base = ""): IGitignore {
+  const rules: IGitignoreRule[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    let pattern = line.replace(/(^|[^\\])\s+$/, "$1");
+    if (pattern === "" || pattern.startsWith("#")) {
+      return;
+    }
+    const negated = pattern.startsWith("!");
+    if (negated) {
+      pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) {
+      pattern = pattern.slice(0, -1);
+    }
+    const anchored = pattern.indexOf("/") !== -1;
+    pattern = pattern.replace(/^\//, "").replace(/\\(.)/g, "$1");
+    const body = globToRegex(pattern);
+    rules.push({
+      regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+      negated,
+      directoryOnly
+    });
+  });
+  return { base, rules };
+}
+
+/**
+ * Tells whether a path relative to the root is ignored by the given .gitignore
+ * files, which are applied from the root down so the last matching pattern
+ * wins. Parent folders are not checked, callers skip ignored folders.
+ */
+export function isGitignored(
+  gitignores: IGitignore[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  let ignored = false;
+  gitignores.forEach(({ base, rules }) => {
+    if (base !== "" && !relativePath.startsWith(`${base}/`)) {
+      return;
+    }
+    const pathInBase = base === "" ? relativePath : relativePath.slice(base.length + 1);
+    rules.forEach(rule => {
+      if ((!rule.directoryOnly || isDirectory) && rule.regex.test(pathInBase)) {
+        ignored = !rule.negated;
+      }
+    });
+  });
+  return ignored;
+}
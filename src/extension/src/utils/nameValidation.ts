@@ -0,0 +1,80 @@
+import { CONSTANTS } from "../constants";
+
+export interface INameValidationRegex {
+  name: string;
+  pattern: string;
+}
+
+/**
+ * Shape of itemNameValidation.config.json and
+ * projectNameValidation.config.json, as returned by the engine on sync.
+ */
+export interface INameValidationConfig {
+  regexs: INameValidationRegex[];
+  reservedNames: string[];
+  validateEmptyNames: boolean;
+  validateExistingNames: boolean;
+}
+
+const regexError = (name: string, regex: INameValidationRegex): string => {
+  switch (regex.name) {
+    case "nameStartLetter":
+      return CONSTANTS.ERRORS.NAME_START_LETTER(name);
+    case "nameContainLettersNumbersDashes":
+      return CONSTANTS.ERRORS.NAME_CONTAIN_LETTERS_NUMBERS_DASHES(name);
+    default:
+      return CONSTANTS.ERRORS.NAME_DOES_NOT_MATCH(name, regex.pattern);
+  }
+};
+
+/**
+ * Validates a name with the rules the wizard applies while typing, in the
+ * same order: empty, existing, reserved and then the regexs. Returns the
+ * first failure, or undefined for a valid name. isExisting tells whether an
+ * item or project with that name is already there.
+ */
+export function validateName(
+  name: string,
+  config: INameValidationConfig,
+  isExisting: (name: string) => boolean
+): string | undefined {
+  if (config.validateEmptyNames && name === "") {
+    return CONSTANTS.ERRORS.NAME_EMPTY;
+  }
+  if (config.validateExistingNames && isExisting(name)) {
+    return CONSTANTS.ERRORS.NAME_NOT_UNIQUE(name);
+  }
+  if (
+    config.reservedNames.some(
+      reservedName => reservedName.toLowerCase() === name.toLowerCase()
+    )
+  ) {
+    return CONSTANTS.ERRORS.NAME_RESERVED(name);
+  }
+  const failedRegex = config.regexs.find(
+    regex => name !== "" && !new RegExp(regex.pattern).test(name)
+  );
+  return failedRegex && regexError(name, failedRegex);
+}
+
+/**
+ * Validates the names of the pages of a project, which have to be unique
+ * regardless of case.
+ */
+export function validateItemNames(
+  names: string[],
+  config: INameValidationConfig
+): string[] {
+  const errors: string[] = [];
+  names.forEach(name => {
+    const error = validateName(
+      name,
+      config,
+      () => names.filter(other => other.toLowerCase() === name.toLowerCase()).length > 1
+    );
+    if (error && errors.indexOf(error) === -1) {
+      errors.push(error);
+    }
+  });
+  return errors;
+}
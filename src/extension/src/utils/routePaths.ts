@@ -0,0 +1,151 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "../constants";
+import { ValidationError } from "../errors";
+import { toKebabCase } from "./templateFiles";
+
+interface IRouteReplacement {
+  file: string;
+  generated: string;
+  replacement: string;
+}
+
+export interface IRoutedPage {
+  name: string;
+  routePath?: string;
+}
+
+/**
+ * Segments of letters, numbers and the unreserved URL characters, separated by
+ * single slashes. Paths are relative to the root of the app.
+ */
+const ROUTE_PATH_PATTERN = /^[A-Za-z0-9\-._~]+(\/[A-Za-z0-9\-._~]+)*$/;
+
+export const normalizeRoutePath = (routePath: string): string =>
+  routePath.trim().replace(/^\/+/, "");
+
+export const isValidRoutePath = (routePath: string): boolean =>
+  ROUTE_PATH_PATTERN.test(normalizeRoutePath(routePath));
+
+/**
+ * The route and nav bar link the AddNavigate composition of each frontend
+ * generates for a page that is not the home page, and what they become with a
+ * custom route path. Paths of the files are relative to the project, and list
+ * both the JavaScript and TypeScript files where the two flavours differ.
+ */
+function getRouteReplacements(
+  frontendFramework: string,
+  pageName: string,
+  routePath: string
+): IRouteReplacement[] {
+  switch (frontendFramework) {
+    case CONSTANTS.FRONTEND_FRAMEWORKS.REACT:
+      return [
+        { file: "src/App.jsx", generated: `path = "/${pageName}"`, replacement: `path = "/${routePath}"` },
+        { file: "src/App.tsx", generated: `path = "/${pageName}"`, replacement: `path = "/${routePath}"` },
+        { file: "src/components/NavBar/index.jsx", generated: `to="${pageName}"`, replacement: `to="/${routePath}"` },
+        { file: "src/components/NavBar/index.tsx", generated: `to="${pageName}"`, replacement: `to="/${routePath}"` }
+      ];
+    case CONSTANTS.FRONTEND_FRAMEWORKS.VUE:
+      return [
+        { file: "src/router/index.js", generated: `path: "/${pageName}"`, replacement: `path: "/${routePath}"` },
+        { file: "src/router/index.ts", generated: `path: "/${pageName}"`, replacement: `path: "/${routePath}"` },
+        { file: "src/components/TheNavBar.vue", generated: `to="/${pageName}"`, replacement: `to="/${routePath}"` }
+      ];
+    case CONSTANTS.FRONTEND_FRAMEWORKS.SVELTE:
+      return [
+        { file: "src/App.svelte", generated: `path="/${pageName}"`, replacement: `path="/${routePath}"` },
+        { file: "src/components/NavBar.svelte", generated: `href="/${pageName}"`, replacement: `href="/${routePath}"` }
+      ];
+    case CONSTANTS.FRONTEND_FRAMEWORKS.ANGULAR: {
+      const kebabName = toKebabCase(pageName);
+      return [
+        {
+          file: "src/app/app-routing.module.ts",
+          generated: `path: '${kebabName}'`,
+          replacement: `path: '${routePath}'`
+        },
+        {
+          file: "src/app/app-shell/nav-bar/nav-bar.component.html",
+          generated: `routerLink="/${kebabName}"`,
+          replacement: `routerLink="/${routePath}"`
+        }
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * The route the engine gives a page that is not the home page.
+ */
+export const getDefaultRoutePath = (frontendFramework: string, pageName: string): string =>
+  frontendFramework === CONSTANTS.FRONTEND_FRAMEWORKS.ANGULAR ? toKebabCase(pageName) : pageName;
+
+/**
+ * Checks the custom route paths before the project is generated: each one has
+ * to be URL-safe and no two pages may end up on the same route.
+ */
+export function validateRoutePaths(frontendFramework: string, pages: IRoutedPage[], homeName: string): void {
+  const routes = new Set<string>();
+  for (const page of pages) {
+    if (page.name === homeName) {
+      continue;
+    }
+    if (page.routePath && !isValidRoutePath(page.routePath)) {
+      throw new ValidationError(CONSTANTS.ERRORS.INVALID_ROUTE_PATH(page.routePath));
+    }
+    const routePath = page.routePath
+      ? normalizeRoutePath(page.routePath)
+      : getDefaultRoutePath(frontendFramework, page.name);
+    if (routes.has(routePath.toLowerCase())) {
+      throw new ValidationError(CONSTANTS.ERRORS.DUPLICATE_ROUTE_PATH(routePath));
+    }
+    routes.add(routePath.toLowerCase());
+  }
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Moves the pages with a custom route path to it in the router and nav bar of
+ * a generated project. The engine routes each page by its name and the home
+ * page to the root, which keeps its route. The routes of a file are all
+ * replaced in one pass over its generated content, so a custom path that is
+ * the default route of another page is not moved again.
+ */
+export async function applyRoutePaths(
+  projectPath: string,
+  frontendFramework: string,
+  pages: IRoutedPage[],
+  homeName: string
+): Promise<void> {
+  validateRoutePaths(frontendFramework, pages, homeName);
+  const replacementsByFile = new Map<string, Map<string, string>>();
+  for (const page of pages) {
+    if (!page.routePath || page.name === homeName) {
+      continue;
+    }
+    const routePath = normalizeRoutePath(page.routePath);
+    for (const { file, generated, replacement } of getRouteReplacements(frontendFramework, page.name, routePath)) {
+      const replacements = replacementsByFile.get(file) || new Map<string, string>();
+      replacements.set(generated, replacement);
+      replacementsByFile.set(file, replacements);
+    }
+  }
+
+  for (const [file, replacements] of Array.from(replacementsByFile.entries())) {
+    const filePath = path.join(projectPath, ...file.split("/"));
+    if (await fse.pathExists(filePath)) {
+      const generatedRoutes = new RegExp(
+        Array.from(replacements.keys())
+          .map(escapeRegExp)
+          .join("|"),
+        "g"
+      );
+      const content = await fse.readFile(filePath, "utf8");
+      await fse.writeFile(filePath, content.replace(generatedRoutes, generated => replacements.get(generated)!));
+    }
+  }
+}
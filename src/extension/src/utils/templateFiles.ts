@@ -0,0 +1,155 @@
+import * as fse from "fs-extra";
+import * as path from "path";
+import { CONSTANTS } from "../constants";
+
+export interface ITemplateConfig {
+  name: string;
+  identity: string;
+  groupIdentity?: string;
+  description: string;
+  author: string;
+  sourceName: string;
+  tags: { [tag: string]: string };
+}
+
+export const TEMPLATE_CONFIG_FOLDER = ".template.config";
+export const POSTACTION_MARKER = "_postaction";
+
+export type ParameterReplacements = [string, string][];
+
+export function matchesFramework(allowed: string | undefined, framework: string): boolean {
+  return !allowed || allowed === "all" || allowed.split("|").indexOf(framework) !== -1;
+}
+
+/**
+ * Templates tagged with the Any language are generated for every language,
+ * the others only for their own.
+ */
+export function matchesLanguage(templateLanguage: string | undefined, language: string): boolean {
+  return !templateLanguage || templateLanguage === CONSTANTS.LANGUAGES.ANY || templateLanguage === language;
+}
+
+/**
+ * The languages listed for a framework in the template catalog, left empty
+ * when its templates are not tied to one.
+ */
+export function getFrameworkLanguages(framework: { languages?: string[] }): string[] {
+  return (framework.languages || []).filter(language => language !== CONSTANTS.LANGUAGES.ANY);
+}
+
+export interface ICompositionContext {
+  frontendFramework: string;
+  backendFramework: string;
+  homeName: string;
+  pageIdentities: string[];
+  featureIdentities: string[];
+}
+
+const COMPOSITION_FILTER_TERM = /^(\S+)\s*(==|!=)\s*(\S+)$/;
+
+/**
+ * Evaluates the wts.compositionFilter of a composition for a generated item.
+ * Each term compares a property of the item, of the generation or a $page
+ * or $feature of the selection with a list of values separated by |.
+ */
+export function matchesCompositionFilter(
+  filter: string | undefined,
+  item: { name: string; config: ITemplateConfig },
+  context: ICompositionContext
+): boolean {
+  if (!filter) {
+    return false;
+  }
+  const valuesOf = (property: string): string[] => {
+    switch (property) {
+      case "$frontendframework":
+        return [context.frontendFramework];
+      case "$backendframework":
+        return [context.backendFramework];
+      case "$ishomepage":
+        return [`${item.name === context.homeName}`];
+      case "$page":
+        return context.pageIdentities;
+      case "$feature":
+        return context.featureIdentities;
+      case "identity":
+        return [item.config.identity];
+      case "groupIdentity":
+        return [item.config.groupIdentity || ""];
+      default:
+        return [item.config.tags[property]];
+    }
+  };
+  return filter.split("&").every(term => {
+    const match = COMPOSITION_FILTER_TERM.exec(term.trim());
+    if (!match) {
+      return false;
+    }
+    const [, property, operator, expected] = match;
+    const expectedValues = expected.split("|");
+    const isMatch = valuesOf(property).some(value => expectedValues.indexOf(value) !== -1);
+    return operator === "==" ? isMatch : !isMatch;
+  });
+}
+
+export function readTemplateConfig(templateFolder: string): Promise<ITemplateConfig> {
+  return fse.readJson(path.join(templateFolder, TEMPLATE_CONFIG_FOLDER, "template.json"));
+}
+
+export const toKebabCase = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/[\s_]+/g, "-")
+    .toLowerCase();
+
+const toPascalCase = (name: string): string =>
+  name
+    .split(/[\s_-]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+
+/**
+ * The source name parameters of a template instance, longest first so that
+ * Param_SourceName does not partially replace Param_SourceName_Kebab.
+ */
+export function getParameterReplacements(
+  sourceName: string,
+  itemName: string,
+  projectName: string
+): ParameterReplacements {
+  return [
+    ["Param_SourceName_Kebab", toKebabCase(itemName)],
+    ["Param_SourceName_Pascal", toPascalCase(itemName)],
+    ["Param_SourceName", itemName],
+    ["Param_ProjectName", projectName],
+    ["Param_RootNamespace", projectName],
+    [sourceName, itemName]
+  ];
+}
+
+export function replaceParameters(text: string, replacements: ParameterReplacements): string {
+  return replacements.reduce(
+    (replaced, [parameter, value]) => (parameter ? replaced.split(parameter).join(value) : replaced),
+    text
+  );
+}
+
+/**
+ * Lists the files of a template folder relative to it, leaving out its
+ * .template.config folder.
+ */
+export async function listTemplateFiles(templateFolder: string, relativeFolder = ""): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fse.readdir(path.join(templateFolder, relativeFolder))) {
+    const relativePath = path.join(relativeFolder, entry);
+    if (entry === TEMPLATE_CONFIG_FOLDER) {
+      continue;
+    }
+    if ((await fse.stat(path.join(templateFolder, relativePath))).isDirectory()) {
+      files.push(...(await listTemplateFiles(templateFolder, relativePath)));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,154 @@
+export type DiffLineType = "unchanged" | "added" | "removed";
+
+export interface IDiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface IMergeResult {
+  content: string;
+  hasConflicts: boolean;
+}
+
+// Above this many cells the changed middle of two files is not aligned line by line
+const MAX_DIFF_CELLS = 4000000;
+
+const CONFLICT_MARKERS = {
+  CURRENT: "<<<<<<< current",
+  SEPARATOR: "=======",
+  UPDATED: ">>>>>>> template"
+};
+
+const splitLines = (text: string): string[] => text.split(/\r?\n/);
+
+/**
+ * Maps every line of a to the index of the same line in b, or -1 when the line
+ * was removed, using the longest common subsequence of the two files.
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const matches: number[] = a.map(() => -1);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const rows = endA - start;
+  const columns = endB - start;
+  if (rows === 0 || columns === 0 || rows * columns > MAX_DIFF_CELLS) {
+    return matches;
+  }
+  // lengths[i * (columns + 1) + j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+  const lengths = new Uint32Array((rows + 1) * (columns + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * (columns + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lengths[(i + 1) * (columns + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (columns + 1) + j], lengths[i * (columns + 1) + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (columns + 1) + j] >= lengths[i * (columns + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+export function diffLines(oldText: string, newText: string): IDiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const matches = matchLines(oldLines, newLines);
+  const diff: IDiffLine[] = [];
+  let newIndex = 0;
+  oldLines.forEach((line, oldIndex) => {
+    const match = matches[oldIndex];
+    if (match === -1) {
+      diff.push({ type: "removed", text: line });
+      return;
+    }
+    for (; newIndex < match; newIndex++) {
+      diff.push({ type: "added", text: newLines[newIndex] });
+    }
+    diff.push({ type: "unchanged", text: line });
+    newIndex++;
+  });
+  for (; newIndex < newLines.length; newIndex++) {
+    diff.push({ type: "added", text: newLines[newIndex] });
+  }
+  return diff;
+}
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Line based three-way merge of the changes made from base to current and
+ * from base to updated. Regions changed differently on both sides are kept
+ * between conflict markers, the current lines first. The merged content keeps
+ * the line endings of current.
+ */
+export function mergeThreeWay(base: string, current: string, updated: string): IMergeResult {
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const updatedLines = splitLines(updated);
+  const currentMatches = matchLines(baseLines, currentLines);
+  const updatedMatches = matchLines(baseLines, updatedLines);
+
+  const merged: string[] = [];
+  let hasConflicts = false;
+  let baseStart = 0;
+  let currentStart = 0;
+  let updatedStart = 0;
+  for (let baseIndex = 0; baseIndex <= baseLines.length; baseIndex++) {
+    const isEnd = baseIndex === baseLines.length;
+    // Lines kept on both sides split the files into chunks merged one by one
+    if (!isEnd && (currentMatches[baseIndex] === -1 || updatedMatches[baseIndex] === -1)) {
+      continue;
+    }
+    const currentEnd = isEnd ? currentLines.length : currentMatches[baseIndex];
+    const updatedEnd = isEnd ? updatedLines.length : updatedMatches[baseIndex];
+    const baseChunk = baseLines.slice(baseStart, baseIndex);
+    const currentChunk = currentLines.slice(currentStart, currentEnd);
+    const updatedChunk = updatedLines.slice(updatedStart, updatedEnd);
+
+    if (sameLines(baseChunk, currentChunk) || sameLines(currentChunk, updatedChunk)) {
+      merged.push(...updatedChunk);
+    } else if (sameLines(baseChunk, updatedChunk)) {
+      merged.push(...currentChunk);
+    } else {
+      hasConflicts = true;
+      merged.push(
+        CONFLICT_MARKERS.CURRENT,
+        ...currentChunk,
+        CONFLICT_MARKERS.SEPARATOR,
+        ...updatedChunk,
+        CONFLICT_MARKERS.UPDATED
+      );
+    }
+    if (!isEnd) {
+      merged.push(baseLines[baseIndex]);
+    }
+    baseStart = baseIndex + 1;
+    currentStart = currentEnd + 1;
+    updatedStart = updatedEnd + 1;
+  }
+  const lineEnding = current.indexOf("\r\n") !== -1 ? "\r\n" : "\n";
+  return { content: merged.join(lineEnding), hasConflicts };
+}
@@ -69,7 +69,7 @@ export class Validator extends WizardServant {
     };
   }
 
-  private static isValidProjectPath = (path: string, name: string): any => {
+  public static isValidProjectPath = (path: string, name: string): any => {
     let isValid = true;
     let error = "";
 
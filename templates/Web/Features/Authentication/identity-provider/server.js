@@ -0,0 +1,171 @@
+// A mock OpenID Connect provider to run and test the sign in offline. It signs in any user name
+// without a password, so point the OIDC settings of the app at a real provider before deploying.
+const crypto = require("crypto");
+const http = require("http");
+const querystring = require("querystring");
+const url = require("url");
+const { JWK, JWT } = require("jose");
+
+const PORT = process.env.IDENTITY_PROVIDER_PORT || 3002;
+const ISSUER = process.env.OIDC_ISSUER || `http://localhost:${PORT}`;
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+// A new signing key every start, the apps read it from the JWKS endpoint
+const signingKey = JWK.generateSync("RSA", 2048, { use: "sig", alg: "RS256" });
+const authorizationCodes = new Map();
+
+const discoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+  end_session_endpoint: `${ISSUER}/logout`,
+  response_types_supported: ["code"],
+  grant_types_supported: ["authorization_code"],
+  subject_types_supported: ["public"],
+  scopes_supported: ["openid", "profile", "email"],
+  id_token_signing_alg_values_supported: ["RS256"],
+  code_challenge_methods_supported: ["S256"],
+  token_endpoint_auth_methods_supported: ["none"]
+};
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store"
+  });
+  res.end(JSON.stringify(body));
+}
+
+function redirect(res, location) {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+function escapeHtml(value) {
+  return String(value || "").replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+}
+
+function readForm(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => resolve(querystring.parse(body)));
+    req.on("error", reject);
+  });
+}
+
+function base64Url(buffer) {
+  return buffer
+    .toString("base64")
+    .replace(/=/g, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+function renderLoginForm(res, params) {
+  const hiddenFields = ["client_id", "redirect_uri", "state", "nonce", "scope", "code_challenge"]
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params[name])}">`)
+    .join("\n      ");
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(`<!DOCTYPE html>
+<html>
+  <head><title>Mock identity provider</title></head>
+  <body style="font-family: sans-serif; margin: 3em;">
+    <h1>Mock identity provider</h1>
+    <p>Sign in to <strong>${escapeHtml(params.client_id)}</strong> with any user name.</p>
+    <form method="post" action="/authorize">
+      ${hiddenFields}
+      <label>User name <input name="username" value="user@example.com" autofocus></label>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`);
+}
+
+async function authorize(req, res, query) {
+  if (req.method === "GET") {
+    if (query.response_type !== "code" || !query.client_id || !query.redirect_uri) {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+    return renderLoginForm(res, query);
+  }
+
+  const form = await readForm(req);
+  const code = base64Url(crypto.randomBytes(32));
+  authorizationCodes.set(code, { ...form, createdAt: Date.now() });
+  const separator = form.redirect_uri.indexOf("?") === -1 ? "?" : "&";
+  redirect(res, `${form.redirect_uri}${separator}${querystring.stringify({ code, state: form.state })}`);
+}
+
+async function token(req, res) {
+  const form = await readForm(req);
+  const grant = authorizationCodes.get(form.code);
+  authorizationCodes.delete(form.code);
+
+  if (
+    form.grant_type !== "authorization_code" ||
+    !grant ||
+    grant.client_id !== form.client_id ||
+    grant.redirect_uri !== form.redirect_uri ||
+    Date.now() - grant.createdAt > 60 * 1000
+  ) {
+    return sendJson(res, 400, { error: "invalid_grant" });
+  }
+  if (grant.code_challenge) {
+    const challenge = base64Url(crypto.createHash("sha256").update(form.code_verifier || "").digest());
+    if (challenge !== grant.code_challenge) {
+      return sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+    }
+  }
+
+  const signOptions = {
+    issuer: ISSUER,
+    audience: grant.client_id,
+    subject: grant.username,
+    expiresIn: `${TOKEN_LIFETIME_SECONDS} s`
+  };
+  const profile = { name: grant.username, email: grant.username };
+  sendJson(res, 200, {
+    token_type: "Bearer",
+    expires_in: TOKEN_LIFETIME_SECONDS,
+    scope: grant.scope,
+    access_token: JWT.sign({ ...profile, scope: grant.scope }, signingKey, signOptions),
+    id_token: JWT.sign(profile, signingKey, { ...signOptions, nonce: grant.nonce || undefined })
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  // The apps call the discovery, JWKS and token endpoints from the browser
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const { pathname, query } = url.parse(req.url, true);
+  try {
+    switch (pathname) {
+      case "/.well-known/openid-configuration":
+        return sendJson(res, 200, discoveryDocument);
+      case "/jwks":
+        return sendJson(res, 200, { keys: [signingKey.toJWK()] });
+      case "/authorize":
+        return await authorize(req, res, query);
+      case "/token":
+        return await token(req, res);
+      case "/logout":
+        return query.post_logout_redirect_uri
+          ? redirect(res, query.post_logout_redirect_uri)
+          : sendJson(res, 200, { signedOut: true });
+      default:
+        return sendJson(res, 404, { error: "not_found" });
+    }
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 500, { error: "server_error" });
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock identity provider listening on ${ISSUER}`));
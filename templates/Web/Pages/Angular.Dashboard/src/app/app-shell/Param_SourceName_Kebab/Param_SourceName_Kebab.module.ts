@@ -0,0 +1,17 @@
+﻿import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { DashboardComponent } from './dashboard.component';
+import { Param_SourceName_PascalRoutingModule } from './Param_SourceName_Kebab-routing.module';
+import { BarChartComponent } from './bar-chart/bar-chart.component';
+import { WarningMessageModule } from '../../shared/warning-message/warning-message.module';
+
+@NgModule({
+  declarations: [DashboardComponent, BarChartComponent],
+  imports: [
+    CommonModule,
+    WarningMessageModule,
+    Param_SourceName_PascalRoutingModule
+  ]
+})
+export class Param_SourceName_PascalModule { }
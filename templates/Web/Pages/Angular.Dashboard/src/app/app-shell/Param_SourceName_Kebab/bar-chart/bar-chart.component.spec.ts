@@ -0,0 +1,33 @@
+﻿import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { BarChartComponent } from './bar-chart.component';
+
+describe('BarChartComponent', () => {
+  let component: BarChartComponent;
+  let fixture: ComponentFixture<BarChartComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [BarChartComponent]
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(BarChartComponent);
+    component = fixture.componentInstance;
+    component.heading = 'Orders by status';
+    component.items = [
+      { label: 'New', value: 1 },
+      { label: 'Shipped', value: 2 }
+    ];
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should size the bars relative to the largest value', () => {
+    expect(component.getWidth(component.items[0])).toBe(50);
+    expect(component.getWidth(component.items[1])).toBe(100);
+  });
+});
@@ -0,0 +1,24 @@
+﻿import { Component, Input } from '@angular/core';
+import { IChartItem } from '../dashboard.model';
+
+// A horizontal bar chart made of Bootstrap progress bars, the longest bar is the largest value
+@Component({
+  selector: 'app-bar-chart',
+  templateUrl: './bar-chart.component.html',
+  styleUrls: ['./bar-chart.component.css']
+})
+export class BarChartComponent {
+  @Input() heading: string;
+  @Input() items: IChartItem[] = [];
+  @Input() isCurrency = false;
+
+  constructor() {}
+
+  get maxValue() {
+    return Math.max(0, ...this.items.map(item => item.value));
+  }
+
+  getWidth(item: IChartItem) {
+    return this.maxValue ? (item.value / this.maxValue) * 100 : 0;
+  }
+}
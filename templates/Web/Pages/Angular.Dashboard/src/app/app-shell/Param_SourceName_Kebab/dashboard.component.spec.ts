@@ -0,0 +1,28 @@
+﻿import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { DashboardComponent } from './dashboard.component';
+import { BarChartComponent } from './bar-chart/bar-chart.component';
+import { WarningMessageModule } from '../../shared/warning-message/warning-message.module';
+
+describe('DashboardComponent', () => {
+  let component: DashboardComponent;
+  let fixture: ComponentFixture<DashboardComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [DashboardComponent, BarChartComponent],
+      imports: [WarningMessageModule, HttpClientTestingModule]
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(DashboardComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
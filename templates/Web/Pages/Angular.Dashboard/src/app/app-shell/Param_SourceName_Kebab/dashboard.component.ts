@@ -0,0 +1,32 @@
+﻿import { Component, OnInit } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+
+import { DashboardService } from './dashboard.service';
+import { IDashboard } from './dashboard.model';
+
+@Component({
+  selector: 'app-dashboard',
+  templateUrl: './dashboard.component.html',
+  styleUrls: ['./dashboard.component.css']
+})
+export class DashboardComponent implements OnInit {
+  warningMessageText = '';
+  warningMessageOpen = false;
+  dashboard$: Observable<IDashboard>;
+
+  constructor(private dashboardService: DashboardService) {}
+
+  ngOnInit() {
+    this.dashboard$ = this.dashboardService.getDashboard().pipe(catchError((error) => {
+      this.warningMessageText = `Request to get dashboard data failed: ${error}`;
+      this.warningMessageOpen = true;
+      return of(null);
+    }));
+  }
+
+  handleWarningClose(open: boolean) {
+    this.warningMessageOpen = open;
+    this.warningMessageText = '';
+  }
+}
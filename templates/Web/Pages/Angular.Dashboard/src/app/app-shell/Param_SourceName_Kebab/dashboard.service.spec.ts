@@ -0,0 +1,17 @@
+﻿import { async, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { DashboardService } from './dashboard.service';
+
+describe('DashboardService', () => {
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    }).compileComponents();
+  }));
+
+  it('should be created', () => {
+    const service: DashboardService = TestBed.inject(DashboardService);
+    expect(service).toBeTruthy();
+  });
+});
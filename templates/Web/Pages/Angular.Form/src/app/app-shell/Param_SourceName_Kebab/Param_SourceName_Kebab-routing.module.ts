@@ -0,0 +1,17 @@
+﻿import { NgModule } from '@angular/core';
+import { Routes, RouterModule } from '@angular/router';
+
+import { FormComponent } from './form.component';
+
+const routes: Routes = [
+  {
+    path: '',
+    component: FormComponent
+  }
+];
+
+@NgModule({
+  imports: [RouterModule.forChild(routes)],
+  exports: [RouterModule]
+})
+export class Param_SourceName_PascalRoutingModule { }
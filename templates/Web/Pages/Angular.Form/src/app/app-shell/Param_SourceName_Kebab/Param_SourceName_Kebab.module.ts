@@ -0,0 +1,19 @@
+﻿import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+
+import { FormComponent } from './form.component';
+import { Param_SourceName_PascalRoutingModule } from './Param_SourceName_Kebab-routing.module';
+import { WarningMessageModule } from '../../shared/warning-message/warning-message.module';
+
+@NgModule({
+  declarations: [FormComponent],
+  imports: [
+    CommonModule,
+    FormsModule,
+    ReactiveFormsModule,
+    WarningMessageModule,
+    Param_SourceName_PascalRoutingModule
+  ]
+})
+export class Param_SourceName_PascalModule { }
@@ -0,0 +1,39 @@
+﻿import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { FormComponent } from './form.component';
+import { WarningMessageModule } from '../../shared/warning-message/warning-message.module';
+
+describe('FormComponent', () => {
+  let component: FormComponent;
+  let fixture: ComponentFixture<FormComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      declarations: [FormComponent],
+      imports: [
+        WarningMessageModule,
+        FormsModule,
+        ReactiveFormsModule,
+        HttpClientTestingModule
+      ]
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(FormComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should not submit an empty form', () => {
+    component.onSubmit();
+    expect(component.isSubmitting).toBe(false);
+    expect(component.showErrors('name')).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+﻿import { Component, OnInit } from '@angular/core';
+import { FormControl, FormGroup, Validators } from '@angular/forms';
+
+import { FormService } from './form.service';
+import { IFormErrorResponse, IFormFields } from './form.model';
+
+@Component({
+  selector: 'app-form',
+  templateUrl: './form.component.html',
+  styleUrls: ['./form.component.css']
+})
+export class FormComponent implements OnInit {
+  readonly messageMaxLength = 500;
+  form: FormGroup;
+  submitted = false;
+  isSubmitting = false;
+  submittedName = '';
+  warningMessageText = '';
+  warningMessageOpen = false;
+
+  constructor(private formService: FormService) {}
+
+  ngOnInit() {
+    // The server checks the same rules and responds with 400 and the invalid fields
+    this.form = new FormGroup({
+      name: new FormControl('', Validators.required),
+      email: new FormControl('', [
+        Validators.required,
+        Validators.pattern(/^[^\s@]+@[^\s@]+\.[^\s@]+$/)
+      ]),
+      message: new FormControl('', [
+        Validators.required,
+        Validators.maxLength(this.messageMaxLength)
+      ])
+    });
+  }
+
+  get name() {
+    return this.form.get('name');
+  }
+
+  get email() {
+    return this.form.get('email');
+  }
+
+  get message() {
+    return this.form.get('message');
+  }
+
+  showErrors(field: string) {
+    const control = this.form.get(field);
+    return control.invalid && (control.dirty || this.submitted);
+  }
+
+  onSubmit() {
+    this.submitted = true;
+    if (this.form.invalid) {
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.submittedName = '';
+    this.formService.submitForm(this.form.value).subscribe(
+      (submission: IFormFields) => {
+        this.isSubmitting = false;
+        this.submitted = false;
+        this.submittedName = submission.name;
+        this.form.reset({ name: '', email: '', message: '' });
+      },
+      error => {
+        this.isSubmitting = false;
+        if (error.errors) {
+          this.showServerErrors(error);
+        } else {
+          this.handleError(`Request to send the form failed: ${error}`);
+        }
+      }
+    );
+  }
+
+  handleWarningClose(open: boolean) {
+    this.warningMessageOpen = open;
+    this.warningMessageText = '';
+  }
+
+  private showServerErrors(response: IFormErrorResponse) {
+    Object.keys(response.errors).forEach(field =>
+      this.form.get(field).setErrors({ server: response.errors[field] })
+    );
+  }
+
+  private handleError(warningMessageText: string) {
+    this.warningMessageOpen = true;
+    this.warningMessageText = warningMessageText;
+  }
+}
@@ -0,0 +1,9 @@
+export interface IFormFields {
+  name: string;
+  email: string;
+  message: string;
+}
+
+export interface IFormErrorResponse {
+  errors: Partial<IFormFields>;
+}
@@ -0,0 +1,17 @@
+﻿import { async, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { FormService } from './form.service';
+
+describe('FormService', () => {
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    }).compileComponents();
+  }));
+
+  it('should be created', () => {
+    const service: FormService = TestBed.inject(FormService);
+    expect(service).toBeTruthy();
+  });
+});
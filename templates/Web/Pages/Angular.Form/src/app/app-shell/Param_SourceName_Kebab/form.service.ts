@@ -0,0 +1,53 @@
+﻿import { Injectable } from '@angular/core';
+import {
+  HttpClient,
+  HttpHeaders,
+  HttpErrorResponse
+} from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+
+import { environment } from '../../../environments/environment';
+import { IFormErrorResponse, IFormFields } from './form.model';
+
+@Injectable({providedIn: 'root'})
+export class FormService {
+  private formUrl = environment.endpoint.form;
+
+  constructor(private http: HttpClient) {}
+
+  // see https://angular.io/guide/http#getting-error-details
+  private handleError(error: HttpErrorResponse) {
+    if (error.error instanceof ErrorEvent) {
+      // A client-side or network error occurred. Handle it accordingly.
+      console.error('An error occurred:', error.error.message);
+    } else {
+      // The backend returned an unsuccessful response code.
+      // The response body may contain clues as to what went wrong,
+      console.error(
+        `Backend returned code ${error.status}, ` + `body was: ${error.error}`
+      );
+    }
+    // return an observable with a user-facing error message
+    return throwError('Something bad happened; please try again later.');
+  }
+
+  submitForm(fields: IFormFields): Observable<IFormFields> {
+    const httpOptions = {
+      headers: new HttpHeaders({
+        'Content-Type': 'application/json'
+      })
+    };
+
+    return this.http
+      .post<IFormFields>(this.formUrl, JSON.stringify(fields), httpOptions)
+      .pipe(
+        catchError((error: HttpErrorResponse) =>
+          // The server responds with 400 and the invalid fields when the validation fails
+          error.status === 400
+            ? throwError(error.error as IFormErrorResponse)
+            : this.handleError(error)
+        )
+      );
+  }
+}
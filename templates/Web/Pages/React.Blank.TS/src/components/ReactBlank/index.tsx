@@ -0,0 +1,6 @@
+﻿import React from "react";
+
+const Blank = () => {
+  return <main id="mainContent" />;
+}
+export default Blank;
@@ -0,0 +1,42 @@
+﻿import React from "react";
+import { IChartItem } from "./dashboard.model";
+
+interface IBarChartProps {
+  title: string;
+  items: IChartItem[];
+  formatValue?: (value: number) => string | number;
+}
+
+// A horizontal bar chart made of Bootstrap progress bars, the longest bar is the largest value
+const BarChart = ({ title, items, formatValue = value => value }: IBarChartProps) => {
+  const maxValue = Math.max(0, ...items.map(item => item.value));
+
+  return (
+    <div className="card h-100">
+      <div className="card-body">
+        <h5 className="card-title">{title}</h5>
+        {items.map(item => (
+          <div key={item.label} className="mb-3">
+            <div className="d-flex justify-content-between small">
+              <span>{item.label}</span>
+              <span>{formatValue(item.value)}</span>
+            </div>
+            <div className="progress">
+              <div
+                className="progress-bar"
+                role="progressbar"
+                style={{ width: `${maxValue ? (item.value / maxValue) * 100 : 0}%` }}
+                aria-label={item.label}
+                aria-valuenow={item.value}
+                aria-valuemin={0}
+                aria-valuemax={maxValue}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default BarChart;
\ No newline at end of file
@@ -0,0 +1,15 @@
+export interface IChartItem {
+  label: string;
+  value: number;
+}
+
+export interface IDashboard {
+  summary: {
+    orderCount: number;
+    revenue: number;
+    averageOrderValue: number;
+    customerCount: number;
+  };
+  revenueByCustomer: IChartItem[];
+  ordersByStatus: IChartItem[];
+}
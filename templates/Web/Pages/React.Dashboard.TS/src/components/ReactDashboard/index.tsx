@@ -0,0 +1,91 @@
+﻿import React, { useState } from "react";
+import BarChart from "./BarChart";
+import { IDashboard } from "./dashboard.model";
+import WarningMessage from "../WarningMessage";
+import CONSTANTS from "../../constants";
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString(undefined, { style: "currency", currency: "USD" });
+
+const ReactDashboard = () => {
+  const [dashboard, setDashboard] = useState<IDashboard | null>(null);
+  const [warningMessage, setWarningMessage] = useState({warningMessageOpen: false, warningMessageText: ""});
+  const getDashboard = (): Promise<IDashboard> => {
+    const promiseDashboard = fetch(CONSTANTS.ENDPOINT.DASHBOARD)
+    .then(response => {
+      if (!response.ok) {
+        throw Error(response.statusText);
+      }
+      return response.json();
+    });
+
+    return promiseDashboard;
+  }
+  const handleWarningClose = () => {
+    setWarningMessage({
+      warningMessageOpen: false,
+      warningMessageText: ""
+    });
+  }
+
+  React.useEffect(() => {
+    getDashboard()
+    .then(result => {setDashboard(result)})
+    .catch(error =>
+      setWarningMessage({
+        warningMessageOpen: true,
+        warningMessageText: `${CONSTANTS.ERROR_MESSAGE.DASHBOARD_GET} ${error}`
+      })
+    );
+  }, []);
+
+  const summaryCards = dashboard ? [
+    { title: "Orders", value: dashboard.summary.orderCount },
+    { title: "Revenue", value: formatCurrency(dashboard.summary.revenue) },
+    { title: "Average order", value: formatCurrency(dashboard.summary.averageOrderValue) },
+    { title: "Customers", value: dashboard.summary.customerCount }
+  ] : [];
+
+  return (
+    <main id="mainContent" className="container">
+      <div className="row">
+        <div className="col mt-5 mb-3">
+          <h3>Bootstrap Dashboard Template</h3>
+        </div>
+      </div>
+      <div className="row">
+        {summaryCards.map(card => (
+          <div key={card.title} className="col-sm-6 col-lg-3 mb-4">
+            <div className="card text-center h-100">
+              <div className="card-body">
+                <h6 className="card-subtitle mb-2 text-muted">{card.title}</h6>
+                <p className="card-text h3">{card.value}</p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {dashboard && (
+        <div className="row">
+          <div className="col-lg-6 mb-4">
+            <BarChart
+              title="Revenue by customer"
+              items={dashboard.revenueByCustomer}
+              formatValue={formatCurrency}
+            />
+          </div>
+          <div className="col-lg-6 mb-4">
+            <BarChart title="Orders by status" items={dashboard.ordersByStatus} />
+          </div>
+        </div>
+      )}
+      <WarningMessage
+        open={warningMessage.warningMessageOpen}
+        text={warningMessage.warningMessageText}
+        onWarningClose={handleWarningClose}
+      />
+    </main>
+  );
+}
+
+export default ReactDashboard;
\ No newline at end of file
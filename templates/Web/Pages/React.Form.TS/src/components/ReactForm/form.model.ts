@@ -0,0 +1,7 @@
+export interface IFormFields {
+  name: string;
+  email: string;
+  message: string;
+}
+
+export type IFormErrors = Partial<IFormFields>;
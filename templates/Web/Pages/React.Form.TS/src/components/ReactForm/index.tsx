@@ -0,0 +1,149 @@
+﻿import React, { useState } from "react";
+import classnames from "classnames";
+import { IFormErrors, IFormFields } from "./form.model";
+import WarningMessage from "../WarningMessage";
+import CONSTANTS from "../../constants";
+
+const MESSAGE_MAX_LENGTH = 500;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const emptyFields: IFormFields = { name: "", email: "", message: "" };
+
+// The server checks the same rules and responds with 400 and the invalid fields
+const validate = (fields: IFormFields): IFormErrors => {
+  const errors: IFormErrors = {};
+  if (!fields.name.trim()) {
+    errors.name = CONSTANTS.ERROR_MESSAGE.FORM_NAME_REQUIRED;
+  }
+  if (!EMAIL_PATTERN.test(fields.email.trim())) {
+    errors.email = CONSTANTS.ERROR_MESSAGE.FORM_EMAIL_INVALID;
+  }
+  if (!fields.message.trim()) {
+    errors.message = CONSTANTS.ERROR_MESSAGE.FORM_MESSAGE_REQUIRED;
+  } else if (fields.message.trim().length > MESSAGE_MAX_LENGTH) {
+    errors.message = CONSTANTS.ERROR_MESSAGE.FORM_MESSAGE_TOO_LONG;
+  }
+  return errors;
+};
+
+const ReactForm = () => {
+  const [fields, setFields] = useState(emptyFields);
+  const [errors, setErrors] = useState<IFormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submittedName, setSubmittedName] = useState("");
+  const [warningMessage, setWarningMessage] = useState({warningMessageOpen: false, warningMessageText: ""});
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFields({ ...fields, [name]: value });
+    setErrors({ ...errors, [name]: undefined });
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validationErrors = validate(fields);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmittedName("");
+    fetch(CONSTANTS.ENDPOINT.FORM, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fields)
+    })
+      .then(response => {
+        if (response.status === 400) {
+          return response.json().then((result: { errors: IFormErrors }) => setErrors(result.errors));
+        }
+        if (!response.ok) {
+          throw Error(response.statusText);
+        }
+        return response.json().then((submission: IFormFields) => {
+          setSubmittedName(submission.name);
+          setFields(emptyFields);
+        });
+      })
+      .catch(error =>
+        setWarningMessage({
+          warningMessageOpen: true,
+          warningMessageText: `${CONSTANTS.ERROR_MESSAGE.FORM_POST} ${error}`
+        })
+      )
+      .then(() => setIsSubmitting(false));
+  };
+
+  const handleWarningClose = () => {
+    setWarningMessage({
+      warningMessageOpen: false,
+      warningMessageText: ""
+    });
+  };
+
+  return (
+    <main id="mainContent" className="container">
+      <div className="row justify-content-center">
+        <div className="col-md-8 col-lg-6 mt-5">
+          <h3>Bootstrap Form Template</h3>
+          {submittedName && (
+            <div className="alert alert-success" role="status">
+              Thank you {submittedName}, your message was sent.
+            </div>
+          )}
+          <form onSubmit={handleSubmit} noValidate>
+            <div className="form-group">
+              <label htmlFor="name">Name</label>
+              <input
+                id="name"
+                name="name"
+                type="text"
+                className={classnames("form-control", { "is-invalid": errors.name })}
+                value={fields.name}
+                onChange={handleChange}
+              />
+              <div className="invalid-feedback">{errors.name}</div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="email">Email</label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                className={classnames("form-control", { "is-invalid": errors.email })}
+                value={fields.email}
+                onChange={handleChange}
+              />
+              <div className="invalid-feedback">{errors.email}</div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="message">Message</label>
+              <textarea
+                id="message"
+                name="message"
+                rows={5}
+                className={classnames("form-control", { "is-invalid": errors.message })}
+                value={fields.message}
+                onChange={handleChange}
+              />
+              <div className="invalid-feedback">{errors.message}</div>
+              <small className="form-text text-muted">
+                {fields.message.length}/{MESSAGE_MAX_LENGTH}
+              </small>
+            </div>
+            <button type="submit" className="btn btn-primary" disabled={isSubmitting}>
+              Submit
+            </button>
+          </form>
+        </div>
+      </div>
+      <WarningMessage
+        open={warningMessage.warningMessageOpen}
+        text={warningMessage.warningMessageText}
+        onWarningClose={handleWarningClose}
+      />
+    </main>
+  );
+}
+
+export default ReactForm;
\ No newline at end of file
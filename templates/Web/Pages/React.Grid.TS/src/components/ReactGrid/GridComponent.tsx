@@ -0,0 +1,19 @@
+﻿import React from "react";
+import ImgGreyBox from "../../images/GreyBox.svg";
+import { IGridTextItem } from "./grid.model";
+
+interface IGridComponentProps {
+  gridItem: IGridTextItem;
+}
+
+const GridComponent = ({ gridItem }: IGridComponentProps) => {
+  return (
+    <div className="col-md-4 col-sm-12 p-5">
+      <img src={ImgGreyBox} alt="Default Grey Box" className="mb-3" />
+      <h3>{gridItem.title}</h3>
+      <p>{gridItem.shortDescription}</p>
+    </div>
+  );
+}
+
+export default GridComponent;
\ No newline at end of file
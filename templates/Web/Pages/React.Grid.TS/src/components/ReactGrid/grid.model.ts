@@ -0,0 +1,10 @@
+export interface IGridTextItem {
+  id: number;
+  longDescription: string;
+  orderDate: Date;
+  orderTotal: number;
+  shipTo: string;
+  shortDescription: string;
+  status: boolean;
+  title: string;
+}
@@ -0,0 +1,38 @@
+﻿import React, { useState } from 'react';
+
+interface IListFormProps {
+  addListItem: (textField: string) => void;
+}
+
+const ListForm = (params: IListFormProps) =>{
+  const [textField, setTextField] = useState("");
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTextField(e.target.value);
+  }
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    params.addListItem(textField);
+    setTextField("");
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="input-group my-3">
+      <input
+        type="text"
+        onChange={handleChange}
+        value={textField}
+        name="textField"
+        className="form-control"
+        placeholder="Add text here..."
+        aria-label="Add text here..."
+      />
+      <button type="submit" className="btn btn-primary ml-2">
+        Submit
+      </button>
+    </form>
+  );
+}
+
+export default ListForm;
\ No newline at end of file
@@ -0,0 +1,4 @@
+export interface IListItem {
+  _id: number;
+  text: string;
+}
@@ -0,0 +1,29 @@
+﻿import React from "react";
+import classnames from "classnames";
+import styles from "./masterdetail.module.css";
+import imgGreyAvatar from "../../images/GreyAvatar.svg";
+import { ISampleOrder } from "./master-detail.model";
+
+interface IMasterDetailSideBarTabProps {
+  sampleOrder: ISampleOrder;
+  selectSampleOrder: (sampleOrder: ISampleOrder) => void;
+}
+
+const MasterDetailSideBarTab = ({ sampleOrder, selectSampleOrder }: IMasterDetailSideBarTabProps) => {
+  return (
+    <button
+      onClick={() => selectSampleOrder(sampleOrder)}
+      type="button"
+      className={classnames(
+        "list-group-item",
+        "list-group-item-action",
+        styles.sidebarText
+      )}
+    >
+      <img src={ sampleOrder.imageSrc ? sampleOrder.imageSrc : imgGreyAvatar} alt="Default Grey Avatar" className="mr-3" />
+      {sampleOrder.title}
+    </button>
+  );
+}
+
+export default MasterDetailSideBarTab;
\ No newline at end of file
@@ -0,0 +1,5 @@
+export interface IFormFields {
+  name: string;
+  email: string;
+  message: string;
+}
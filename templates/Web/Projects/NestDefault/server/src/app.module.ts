@@ -0,0 +1,15 @@
+﻿import { Module } from "@nestjs/common";
+import { ServeStaticModule } from "@nestjs/serve-static";
+import { join } from "path";
+import { CONSTANTS } from "./constants";
+
+// The root module of the server, it imports a module for every page with API routes
+@Module({
+  imports: [
+    ServeStaticModule.forRoot({
+      rootPath: join(__dirname, "..", "build"),
+      exclude: [`/${CONSTANTS.API_PREFIX}*`]
+    })
+  ]
+})
+export class AppModule {}
@@ -0,0 +1,4 @@
+﻿export const CONSTANTS = {
+  PORT: process.env.PORT || "3001",
+  API_PREFIX: "api"
+};
@@ -0,0 +1,12 @@
+﻿import { NestFactory } from "@nestjs/core";
+import { AppModule } from "./app.module";
+import { CONSTANTS } from "./constants";
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  // The API routes are served under /api, every other route serves the front-end
+  app.setGlobalPrefix(CONSTANTS.API_PREFIX);
+  await app.listen(CONSTANTS.PORT);
+}
+
+bootstrap();
@@ -0,0 +1,11 @@
+const fs = require("fs");
+const fse = require("fs-extra");
+const childProcess = require("child_process");
+
+if (fs.existsSync("./build")) {
+  fse.removeSync("./build");
+}
+
+childProcess.execSync("webpack --mode production", { stdio: "inherit" });
+
+fse.moveSync("./build", "./server/build", { overwrite: true });
@@ -0,0 +1,61 @@
+﻿const HtmlWebpackPlugin = require("html-webpack-plugin");
+const MiniCssExtractPlugin = require("mini-css-extract-plugin");
+const path = require("path");
+
+module.exports = (env, { mode }) => ({
+  entry: "./src/main.js",
+  output: {
+    path: path.resolve(__dirname, "build"),
+    publicPath: "/",
+    filename: "[name].[contenthash:8].js"
+  },
+  resolve: {
+    alias: {
+      svelte: path.resolve(__dirname, "node_modules", "svelte")
+    },
+    extensions: [".mjs", ".js", ".svelte"],
+    mainFields: ["svelte", "browser", "module", "main"]
+  },
+  module: {
+    rules: [
+      {
+        test: /\.svelte$/,
+        use: {
+          loader: "svelte-loader",
+          options: {
+            dev: mode !== "production",
+            emitCss: true
+          }
+        }
+      },
+      {
+        test: /\.css$/,
+        use: [mode === "production" ? MiniCssExtractPlugin.loader : "style-loader", "css-loader"]
+      },
+      {
+        test: /\.svg$/,
+        loader: "file-loader",
+        options: {
+          name: "static/[name].[hash:8].[ext]"
+        }
+      }
+    ]
+  },
+  plugins: [
+    new HtmlWebpackPlugin({
+      template: "public/index.html",
+      favicon: "public/favicon.ico"
+    }),
+    new MiniCssExtractPlugin({
+      filename: "[name].[contenthash:8].css"
+    })
+  ],
+  devtool: mode === "production" ? false : "source-map",
+  devServer: {
+    proxy: {
+      "/api": "http://localhost:3001"
+    },
+    historyApiFallback: true,
+    port: 3000
+  }
+});
@@ -0,0 +1,9 @@
+﻿declare module "*.vue" {
+  import Vue from "vue";
+  export default Vue;
+}
+
+declare module "*.svg" {
+  const src: string;
+  export default src;
+}
@@ -0,0 +1,13 @@
+﻿import { NgModule } from '@angular/core';
+import { Routes, RouterModule } from '@angular/router';
+//{[{
+import { AuthGuard } from './auth/auth.guard';
+//}]}
+
+const routes: Routes = [
+];
+//{[{
+
+// Every page needs a signed in user, the login routes are declared in the AuthModule
+routes.forEach(route => (route.canActivate = [AuthGuard]));
+//}]}
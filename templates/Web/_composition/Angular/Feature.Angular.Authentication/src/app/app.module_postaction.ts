@@ -0,0 +1,25 @@
+﻿import { ServiceInterceptor } from './service.interceptor';
+//{[{
+import { AuthModule } from './auth/auth.module';
+import { AuthInterceptor } from './auth/auth.interceptor';
+//}]}
+
+@NgModule({
+  declarations: [AppComponent, NavBarComponent, FooterComponent],
+  imports: [
+    BrowserModule,
+    HttpClientModule,
+    //{[{
+    AuthModule,
+    //}]}
+    AppRoutingModule,
+  ],
+  providers: [
+    //{[{
+    {
+      provide: HTTP_INTERCEPTORS,
+      useClass: AuthInterceptor,
+      multi: true
+    },
+    //}]}
+    {
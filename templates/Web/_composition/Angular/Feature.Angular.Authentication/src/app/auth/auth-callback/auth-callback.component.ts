@@ -0,0 +1,26 @@
+﻿import { Component, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+
+import { AuthService } from '../auth.service';
+
+// The identity provider redirects here with the authorization code after the user signs in
+@Component({
+  selector: 'app-auth-callback',
+  template: `
+    <main id="mainContent" class="container py-5">
+      <div *ngIf="error" class="alert alert-danger" role="alert">Sign in failed: {{ error }}</div>
+    </main>
+  `
+})
+export class AuthCallbackComponent implements OnInit {
+  error = '';
+
+  constructor(private authService: AuthService, private router: Router) {}
+
+  ngOnInit() {
+    this.authService
+      .completeSignIn()
+      .then(returnUrl => this.router.navigateByUrl(returnUrl))
+      .catch((error: Error) => (this.error = error.message));
+  }
+}
@@ -0,0 +1,15 @@
+﻿import { Injectable } from '@angular/core';
+import { CanActivate, ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+
+import { AuthService } from './auth.service';
+
+// Lets only signed in users through and sends everyone else to the login page
+@Injectable({ providedIn: 'root' })
+export class AuthGuard implements CanActivate {
+  constructor(private authService: AuthService, private router: Router) {}
+
+  async canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): Promise<boolean | UrlTree> {
+    const user = await this.authService.getUser();
+    return user ? true : this.router.createUrlTree(['/login'], { queryParams: { redirect: state.url } });
+  }
+}
@@ -0,0 +1,23 @@
+﻿import { Injectable } from '@angular/core';
+import { HttpInterceptor, HttpRequest, HttpHandler, HttpEvent } from '@angular/common/http';
+import { from, Observable } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+
+import { AuthService } from './auth.service';
+
+// Adds the access token of the signed in user to the requests to the back-end
+@Injectable({ providedIn: 'root' })
+export class AuthInterceptor implements HttpInterceptor {
+  constructor(private authService: AuthService) {}
+
+  intercept(req: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+    if (!req.url.startsWith('/api')) {
+      return next.handle(req);
+    }
+    return from(this.authService.getUser()).pipe(
+      switchMap(user =>
+        next.handle(user ? req.clone({ setHeaders: { Authorization: `Bearer ${user.access_token}` } }) : req)
+      )
+    );
+  }
+}
@@ -0,0 +1,22 @@
+﻿import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Routes, RouterModule } from '@angular/router';
+
+import { LoginComponent } from './login/login.component';
+import { AuthCallbackComponent } from './auth-callback/auth-callback.component';
+import { LogoutComponent } from './logout/logout.component';
+
+const routes: Routes = [
+  { path: 'login', component: LoginComponent },
+  { path: 'auth-callback', component: AuthCallbackComponent },
+  { path: 'logout', component: LogoutComponent }
+];
+
+@NgModule({
+  declarations: [LoginComponent, AuthCallbackComponent, LogoutComponent],
+  imports: [
+    CommonModule,
+    RouterModule.forChild(routes)
+  ]
+})
+export class AuthModule { }
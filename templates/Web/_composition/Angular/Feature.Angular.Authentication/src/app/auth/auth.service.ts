@@ -0,0 +1,35 @@
+﻿import { Injectable } from '@angular/core';
+import { User, UserManager, WebStorageStateStore } from 'oidc-client';
+
+import { environment } from '../../environments/environment';
+
+@Injectable({ providedIn: 'root' })
+export class AuthService {
+  private userManager = new UserManager({
+    ...environment.oidc,
+    response_type: 'code',
+    redirect_uri: `${window.location.origin}/auth-callback`,
+    post_logout_redirect_uri: `${window.location.origin}/login`,
+    loadUserInfo: false,
+    userStore: new WebStorageStateStore({ store: window.sessionStorage })
+  });
+
+  async getUser(): Promise<User | null> {
+    const user = await this.userManager.getUser();
+    return user && !user.expired ? user : null;
+  }
+
+  signIn(returnUrl: string): Promise<void> {
+    return this.userManager.signinRedirect({ state: returnUrl });
+  }
+
+  // Resolves with the url the user was on before signing in
+  async completeSignIn(): Promise<string> {
+    const user = await this.userManager.signinRedirectCallback();
+    return user.state || '/';
+  }
+
+  signOut(): Promise<void> {
+    return this.userManager.signoutRedirect();
+  }
+}
@@ -0,0 +1,28 @@
+﻿import { async, ComponentFixture, TestBed } from '@angular/core/testing';
+import { RouterTestingModule } from '@angular/router/testing';
+
+import { LoginComponent } from './login.component';
+import { AuthService } from '../auth.service';
+
+describe('LoginComponent', () => {
+  let fixture: ComponentFixture<LoginComponent>;
+  const authService = jasmine.createSpyObj('AuthService', ['signIn']);
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({
+      imports: [RouterTestingModule],
+      declarations: [LoginComponent],
+      providers: [{ provide: AuthService, useValue: authService }]
+    }).compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(LoginComponent);
+    fixture.detectChanges();
+  });
+
+  it('should sign in and come back to the home page', () => {
+    fixture.nativeElement.querySelector('button').click();
+    expect(authService.signIn).toHaveBeenCalledWith('/');
+  });
+});
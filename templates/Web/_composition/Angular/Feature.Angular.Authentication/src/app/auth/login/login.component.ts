@@ -0,0 +1,16 @@
+﻿import { Component } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+
+import { AuthService } from '../auth.service';
+
+@Component({
+  selector: 'app-login',
+  templateUrl: './login.component.html'
+})
+export class LoginComponent {
+  constructor(private authService: AuthService, private route: ActivatedRoute) {}
+
+  signIn() {
+    this.authService.signIn(this.route.snapshot.queryParamMap.get('redirect') || '/');
+  }
+}
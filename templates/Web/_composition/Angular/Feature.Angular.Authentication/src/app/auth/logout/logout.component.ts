@@ -0,0 +1,15 @@
+﻿import { Component, OnInit } from '@angular/core';
+
+import { AuthService } from '../auth.service';
+
+@Component({
+  selector: 'app-logout',
+  template: ''
+})
+export class LogoutComponent implements OnInit {
+  constructor(private authService: AuthService) {}
+
+  ngOnInit() {
+    this.authService.signOut();
+  }
+}
@@ -0,0 +1,10 @@
+﻿export const environment = {
+  production: true,
+  //{[{
+  // TODO Web Template Studio: Set the authority and client id of your OpenID Connect provider.
+  oidc: {
+    authority: 'http://localhost:3002',
+    client_id: 'wts-app',
+    scope: 'openid profile email'
+  },
+  //}]}
@@ -0,0 +1,11 @@
+﻿export const environment = {
+  production: false,
+  //{[{
+  // TODO Web Template Studio: Set the authority and client id of your OpenID Connect provider.
+  // The defaults point to the mock identity provider of the project.
+  oidc: {
+    authority: 'http://localhost:3002',
+    client_id: 'wts-app',
+    scope: 'openid profile email'
+  },
+  //}]}
@@ -0,0 +1,8 @@
+﻿export const environment = {
+  production: true,
+  endpoint: {
+    //{[{
+    dashboard : '/api/dashboard',
+    //}]}
+  }
+};
@@ -0,0 +1,7 @@
+// Runs once against MONGO_INITDB_DATABASE when the database volume is created,
+// adding the user the app signs in with
+db.createUser({
+  user: "wts",
+  pwd: "wts-local-password",
+  roles: [{ role: "readWrite", db: "ListItems" }]
+});
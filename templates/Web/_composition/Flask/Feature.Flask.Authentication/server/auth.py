@@ -0,0 +1,27 @@
+from flask import abort, g, request
+import jwt
+
+from constants import CONSTANTS
+
+jwks_client = jwt.PyJWKClient(CONSTANTS['OIDC']['JWKS_URI'])
+
+
+# Validates the access token the front-end sends in the Authorization header of the API requests and
+# rejects requests without a valid one with a 401. The claims of the token are set on g.user.
+def require_authentication():
+    if not request.path.startswith('/api/'):
+        return
+    auth_type, _, token = request.headers.get('Authorization', '').partition(' ')
+    if auth_type != 'Bearer' or not token:
+        abort(CONSTANTS['HTTP_STATUS']['401_UNAUTHORIZED'])
+    try:
+        signing_key = jwks_client.get_signing_key_from_jwt(token)
+        g.user = jwt.decode(
+            token,
+            signing_key.key,
+            algorithms=['RS256'],
+            audience=CONSTANTS['OIDC']['AUDIENCE'],
+            issuer=CONSTANTS['OIDC']['ISSUER'],
+        )
+    except jwt.PyJWTError:
+        abort(CONSTANTS['HTTP_STATUS']['401_UNAUTHORIZED'])
@@ -0,0 +1,18 @@
+import os
+
+CONSTANTS = {
+    'PORT': os.environ.get('PORT', 3001),
+    //{[{
+    # TODO Web Template Studio: Set the OIDC_* variables to validate the access tokens of your OpenID Connect provider.
+    # The defaults point to the mock identity provider of the project.
+    'OIDC': {
+        'ISSUER': os.environ.get('OIDC_ISSUER', 'http://localhost:3002'),
+        'AUDIENCE': os.environ.get('OIDC_AUDIENCE', 'wts-app'),
+        'JWKS_URI': os.environ.get('OIDC_JWKS_URI', os.environ.get('OIDC_ISSUER', 'http://localhost:3002') + '/jwks'),
+    },
+    //}]}
+    'HTTP_STATUS': {
+        //{[{
+        '401_UNAUTHORIZED': 401,
+        //}]}
+        '404_NOT_FOUND': 404,
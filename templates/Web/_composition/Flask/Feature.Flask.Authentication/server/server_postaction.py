@@ -0,0 +1,23 @@
+from flask import Flask, jsonify, make_response, send_from_directory
+import os
+from os.path import exists, join
+
+//{[{
+from auth import require_authentication
+//}]}
+from constants import CONSTANTS
+
+app = Flask(__name__, static_folder='build')
+//{[{
+app.before_request(require_authentication)
+//}]}
+
+# Error Handler
+//{[{
+@app.errorhandler(401)
+def unauthorized(error):
+    json_response = jsonify({'error': 'Unauthorized'})
+    return make_response(json_response, CONSTANTS['HTTP_STATUS']['401_UNAUTHORIZED'])
+
+//}]}
+@app.errorhandler(404)
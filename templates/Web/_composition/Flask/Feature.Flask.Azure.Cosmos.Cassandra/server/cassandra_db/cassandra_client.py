@@ -0,0 +1,33 @@
+import ssl
+
+from cassandra.auth import PlainTextAuthProvider
+from cassandra.cluster import Cluster
+
+from .settings import contact_point, cosmosDB_user, cosmosDB_password
+
+from constants import CONSTANTS
+
+
+class CassandraObj():
+    def __init__(self):
+        self.cluster = Cluster(
+            [contact_point],
+            port=10350,
+            auth_provider=PlainTextAuthProvider(username=cosmosDB_user, password=cosmosDB_password),
+            ssl_context=ssl.create_default_context(),
+            ssl_options={'server_hostname': contact_point}
+        )
+        self.session = self.cluster.connect()
+
+        self.session.execute(
+            "CREATE KEYSPACE IF NOT EXISTS " + CONSTANTS['COSMOS']['KEYSPACE'] +
+            " WITH replication = {'class': 'SimpleStrategy', 'replication_factor': 1}")
+        self.session.set_keyspace(CONSTANTS['COSMOS']['KEYSPACE'])
+
+        # The time based ids of the rows keep the newest list items first
+        self.session.execute(
+            "CREATE TABLE IF NOT EXISTS " + CONSTANTS['COSMOS']['TABLE'] +
+            " (list text, id timeuuid, text text, PRIMARY KEY (list, id)) WITH CLUSTERING ORDER BY (id DESC)")
+
+    def get_session(self):
+        return self.session
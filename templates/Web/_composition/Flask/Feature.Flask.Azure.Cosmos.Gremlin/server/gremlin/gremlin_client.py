@@ -0,0 +1,19 @@
+from gremlin_python.driver import client, serializer
+
+from .settings import gremlin_endpoint, primary_key
+
+from constants import CONSTANTS
+
+
+class GremlinObj():
+    def __init__(self):
+        self.client = client.Client(
+            gremlin_endpoint, 'g',
+            username='/dbs/' + CONSTANTS['COSMOS']['DATABASE'] + '/colls/' + CONSTANTS['COSMOS']['GRAPH'],
+            password=primary_key,
+            message_serializer=serializer.GraphSONSerializersV2d0()
+        )
+
+    # Runs a Gremlin query, the values are passed as bindings to keep them out of the query text
+    def submit(self, query, bindings):
+        return self.client.submit(query, bindings).all().result()
@@ -0,0 +1,13 @@
+import os
+from os.path import join, dirname, realpath
+from dotenv import load_dotenv
+
+# Create .env file path.
+dotenv_path = join(dirname(dirname(dirname(realpath(__file__)))), '.env')
+
+# Load file from the above created path.
+load_dotenv(dotenv_path)
+
+# Access env file variables.
+gremlin_endpoint = os.getenv('COSMOSDB_GREMLIN_ENDPOINT')
+primary_key = os.getenv('COSMOSDB_PRIMARY_KEY')
\ No newline at end of file
@@ -3,11 +3,11 @@ import sys
 
 from constants import CONSTANTS
 
-from .settings import connection_str, cosmosDB_user, cosmosDB_password
+from .settings import connection_str, connection_options, cosmosDB_user, cosmosDB_password
 
 
 
-client = MongoClient(connection_str + '?ssl=true&replicaSet=globaldb')
+client = MongoClient(connection_str + '?' + connection_options)
 
 db = client[CONSTANTS['COSMOS']['COLLECTION']]
 
@@ -11,4 +11,6 @@ load_dotenv(dotenv_path)
 # Access env file variables.
 connection_str = os.getenv('COSMOSDB_CONNSTR')
 cosmosDB_user = os.getenv('COSMOSDB_USER')
-cosmosDB_password = os.getenv('COSMOSDB_PASSWORD')
\ No newline at end of file
+cosmosDB_password = os.getenv('COSMOSDB_PASSWORD')
+# Cosmos DB requires SSL, another MongoDB can set its own options
+connection_options = os.getenv('COSMOSDB_OPTIONS', 'ssl=true&replicaSet=globaldb')
\ No newline at end of file
@@ -0,0 +1,16 @@
+from azure.cosmosdb.table.tableservice import TableService
+
+from .settings import connection_str
+
+from constants import CONSTANTS
+
+
+class TableObj():
+    def __init__(self):
+        self.table_service = TableService(connection_string=connection_str)
+
+        # Does nothing when the table already exists
+        self.table_service.create_table(CONSTANTS['COSMOS']['TABLE'])
+
+    def get_table_service(self):
+        return self.table_service
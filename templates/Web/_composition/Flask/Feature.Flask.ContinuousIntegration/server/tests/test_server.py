@@ -0,0 +1,12 @@
+from server import app
+
+
+# TODO Web Template Studio: Add tests for your own API routes here.
+def test_serves_the_frontend_for_client_side_routes(tmp_path, monkeypatch):
+    (tmp_path / 'index.html').write_text('<div id="root"></div>')
+    monkeypatch.setattr(app, 'static_folder', str(tmp_path))
+
+    response = app.test_client().get('/some/route')
+
+    assert response.status_code == 200
+    assert b'<div id="root"></div>' in response.data
@@ -0,0 +1,37 @@
+from flask import Flask, jsonify, make_response, send_from_directory
+import os
+from os.path import exists, join
+
+from constants import CONSTANTS
+//{[{
+from sample_data import sample_data
+//}]}
+
+app = Flask(__name__, static_folder='build')
+
+//{[{
+# Dashboard Page Endpoint
+def sum_orders_by(orders, get_label, get_value):
+    totals = {}
+    for order in orders:
+        label = get_label(order)
+        totals[label] = totals.get(label, 0) + get_value(order)
+    chart_data = [{'label': label, 'value': value} for label, value in totals.items()]
+    return sorted(chart_data, key=lambda item: item['value'], reverse=True)
+
+@app.route(CONSTANTS['ENDPOINT']['DASHBOARD'])
+def get_dashboard():
+    orders = sample_data['text_assets']
+    revenue = sum(order['orderTotal'] for order in orders)
+    revenue_by_customer = sum_orders_by(orders, lambda order: order['shipTo'], lambda order: order['orderTotal'])
+    return jsonify({
+        'summary': {
+            'orderCount': len(orders),
+            'revenue': revenue,
+            'averageOrderValue': revenue / len(orders) if orders else 0,
+            'customerCount': len(revenue_by_customer)
+        },
+        'revenueByCustomer': revenue_by_customer,
+        'ordersByStatus': sum_orders_by(orders, lambda order: order['status'], lambda order: 1)
+    })
+//}]}
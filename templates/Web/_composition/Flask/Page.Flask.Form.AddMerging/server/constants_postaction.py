@@ -0,0 +1,16 @@
+import os
+
+CONSTANTS = {
+    'PORT': os.environ.get('PORT', 3001),
+    'HTTP_STATUS': {
+        '404_NOT_FOUND': 404,
+        //{[{
+        '400_BAD_REQUEST': 400,
+        //}]}
+    },
+    'ENDPOINT': {
+        //{[{
+        'FORM': '/api/form',
+        //}]}
+    }
+}
@@ -0,0 +1,39 @@
+from flask import Flask, jsonify, make_response, send_from_directory
+//{[{
+from flask import request
+//}]}
+import os
+//{[{
+import re
+//}]}
+from os.path import exists, join
+
+from constants import CONSTANTS
+
+app = Flask(__name__, static_folder='build')
+
+//{[{
+# Form Page Endpoint
+@app.route(CONSTANTS['ENDPOINT']['FORM'], methods = ['POST'])
+def post_form():
+    data = request.get_json() or {}
+    name = str(data.get('name') or '').strip()
+    email = str(data.get('email') or '').strip()
+    message = str(data.get('message') or '').strip()
+    errors = {}
+
+    if not name:
+        errors['name'] = 'Please enter your name'
+    if not re.match(r'^[^\s@]+@[^\s@]+\.[^\s@]+$', email):
+        errors['email'] = 'Please enter a valid email address'
+    if not message:
+        errors['message'] = 'Please enter a message'
+    elif len(message) > 500:
+        errors['message'] = 'The message must be at most 500 characters long'
+
+    if errors:
+        json_response = jsonify({'errors': errors})
+        return make_response(json_response, CONSTANTS['HTTP_STATUS']['400_BAD_REQUEST'])
+    # TODO Web Template Studio: Save the submission in your database or send it by email
+    return jsonify({'name': name, 'email': email, 'message': message})
+//}]}
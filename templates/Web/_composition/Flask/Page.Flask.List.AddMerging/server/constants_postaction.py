@@ -6,7 +6,7 @@ CONSTANTS = {
         '404_NOT_FOUND': 404,
         //{[{
         '201_CREATED': 201,
-        '500_INTERNAL_SERVER_ERROR': 500
+        '500_INTERNAL_SERVER_ERROR': 500,
         //}]}
     },
     'ENDPOINT': {
@@ -0,0 +1,34 @@
+import uuid
+
+from flask import request
+
+from .cassandra_client import CassandraObj
+
+from constants import CONSTANTS
+
+cassandra_obj = CassandraObj()
+table_name = CONSTANTS['COSMOS']['TABLE']
+partition_key = CONSTANTS['COSMOS']['PARTITION']
+
+def get():
+    rows = cassandra_obj.get_session().execute(
+        "SELECT id, text FROM " + table_name + " WHERE list = %s", [partition_key])
+    return [{'_id': str(row.id), 'text': row.text} for row in rows]
+
+def create():
+    data = request.get_json()
+    list_item = {'id': uuid.uuid1(), 'text': data['text']}
+    cassandra_obj.get_session().execute(
+        "INSERT INTO " + table_name + " (list, id, text) VALUES (%s, %s, %s)",
+        [partition_key, list_item['id'], list_item['text']])
+    return {'_id': str(list_item['id']), 'text': list_item['text']}
+
+def delete(id):
+    item_id = uuid.UUID(id)
+    found = cassandra_obj.get_session().execute(
+        "SELECT id FROM " + table_name + " WHERE list = %s AND id = %s", [partition_key, item_id])
+    if not found.one():
+        raise Exception('Could not find an item with given id')
+    cassandra_obj.get_session().execute(
+        "DELETE FROM " + table_name + " WHERE list = %s AND id = %s", [partition_key, item_id])
+    return {'_id': id, 'text': 'This comment was deleted'}
@@ -0,0 +1,11 @@
+import os
+
+CONSTANTS = {
+    'PORT': os.environ.get('PORT', 3001),
+    //{[{
+    'COSMOS': {
+        'DATABASE': 'List',
+        'GRAPH': 'ListItems',
+        'PARTITION': 'List',
+    },
+    //}]}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import time
+
+from flask import request
+
+from .gremlin_client import GremlinObj
+
+from constants import CONSTANTS
+
+gremlin_obj = GremlinObj()
+partition_key = CONSTANTS['COSMOS']['PARTITION']
+
+def get():
+    return gremlin_obj.submit(
+        "g.V().hasLabel('listItem').has('partitionKey', partitionKey)"
+        ".order().by('createdAt', decr).project('_id', 'text').by(id).by('text')",
+        {'partitionKey': partition_key})
+
+def create():
+    data = request.get_json()
+    list_item = {'text': data['text']}
+    created = gremlin_obj.submit(
+        "g.addV('listItem').property('partitionKey', partitionKey)"
+        ".property('text', text).property('createdAt', createdAt).id()",
+        {'partitionKey': partition_key, 'text': list_item['text'], 'createdAt': int(time.time() * 1000)})
+    return {'_id': created[0], 'text': list_item['text']}
+
+def delete(id):
+    bindings = {'itemId': id, 'partitionKey': partition_key}
+    found = gremlin_obj.submit("g.V(itemId).has('partitionKey', partitionKey).id()", bindings)
+    if not found:
+        raise Exception('Could not find an item with given id')
+    gremlin_obj.submit("g.V(itemId).has('partitionKey', partitionKey).drop()", bindings)
+    return {'_id': id, 'text': 'This comment was deleted'}
@@ -0,0 +1,10 @@
+import os
+
+CONSTANTS = {
+    'PORT': os.environ.get('PORT', 3001),
+    //{[{
+    'COSMOS': {
+        'TABLE': 'ListItems',
+        'PARTITION': 'List',
+    },
+    //}]}
\ No newline at end of file
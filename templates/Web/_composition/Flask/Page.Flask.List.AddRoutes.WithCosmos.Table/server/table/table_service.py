@@ -0,0 +1,28 @@
+import uuid
+
+from flask import request
+
+from .table_client import TableObj
+
+from constants import CONSTANTS
+
+table_obj = TableObj()
+table_name = CONSTANTS['COSMOS']['TABLE']
+partition_key = CONSTANTS['COSMOS']['PARTITION']
+
+def get():
+    entities = table_obj.get_table_service().query_entities(
+        table_name, filter="PartitionKey eq '" + partition_key + "'")
+    newest_first = sorted(entities, key=lambda entity: entity.Timestamp, reverse=True)
+    return [{'_id': entity.RowKey, 'text': entity.text} for entity in newest_first]
+
+def create():
+    data = request.get_json()
+    list_item = {'PartitionKey': partition_key, 'RowKey': uuid.uuid4().hex, 'text': data['text']}
+    table_obj.get_table_service().insert_entity(table_name, list_item)
+    return {'_id': list_item['RowKey'], 'text': list_item['text']}
+
+def delete(id):
+    # Raises an error when there is no entity with the given row key
+    table_obj.get_table_service().delete_entity(table_name, partition_key, id)
+    return {'_id': id, 'text': 'This comment was deleted'}
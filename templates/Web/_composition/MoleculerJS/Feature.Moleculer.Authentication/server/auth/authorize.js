@@ -0,0 +1,42 @@
+"use strict";
+
+const jwt = require("jsonwebtoken");
+const jwksRsa = require("jwks-rsa");
+const { Errors } = require("moleculer-web");
+
+// TODO Web Template Studio: Set the OIDC_* variables to validate the access tokens of your OpenID Connect provider.
+// The defaults point to the mock identity provider of the project.
+const issuer = process.env.OIDC_ISSUER || "http://localhost:3002";
+const audience = process.env.OIDC_AUDIENCE || "wts-app";
+const jwksClient = jwksRsa({
+  cache: true,
+  rateLimit: true,
+  jwksUri: process.env.OIDC_JWKS_URI || `${issuer}/jwks`
+});
+
+function getSigningKey(header, callback) {
+  jwksClient.getSigningKey(header.kid, (error, key) => {
+    callback(error, key && (key.publicKey || key.rsaPublicKey));
+  });
+}
+
+/**
+ * Validates the access token the front-end sends in the Authorization header and rejects
+ * requests without a valid one with a 401. The claims of the token are set on ctx.meta.user.
+ * More info: https://moleculer.services/docs/0.14/moleculer-web.html#Authorization
+ */
+module.exports = function authorize(ctx, route, req) {
+  const [type, token] = (req.headers.authorization || "").split(" ");
+  if (type !== "Bearer" || !token) {
+    return Promise.reject(new Errors.UnAuthorizedError(Errors.ERR_NO_TOKEN));
+  }
+  return new Promise((resolve, reject) => {
+    jwt.verify(token, getSigningKey, { issuer, audience, algorithms: ["RS256"] }, (error, claims) => {
+      if (error) {
+        return reject(new Errors.UnAuthorizedError(Errors.ERR_INVALID_TOKEN));
+      }
+      ctx.meta.user = claims;
+      resolve(claims);
+    });
+  });
+};
@@ -0,0 +1,24 @@
+const ApiGateway = require("moleculer-web");
+const path = require("path");
+//{[{
+const authorize = require("../auth/authorize");
+//}]}
+
+module.exports = {
+  name: "api",
+  mixins: [ApiGateway],
+  //{[{
+
+  /**
+   * Service Methods
+   * More info: https://moleculer.services/docs/0.14/services.html#Methods
+   */
+  methods: {
+    authorize
+  },
+  //}]}
+        path: "/api",
+        //{[{
+        // Calls the authorize method, the API is only open to signed in users
+        authorization: true,
+        //}]}
@@ -0,0 +1,42 @@
+"use strict";
+
+const cassandra = require("cassandra-driver");
+
+module.exports = opt => {
+  return {
+    /**
+     * Connects `pages` service to the listitems table of the list keyspace of the Cosmos Cassandra API.
+     * More info: https://docs.microsoft.com/en-us/azure/cosmos-db/create-cassandra-nodejs
+     */
+    methods: {
+      // Runs a CQL statement, the values are bound to its "?" markers
+      execute(query, params) {
+        return this.cassandraClient.execute(query, params, { prepare: true });
+      }
+    },
+    created() {
+      this.cassandraClient = new cassandra.Client({
+        contactPoints: [process.env.COSMOSDB_CONTACT_POINT],
+        protocolOptions: { port: 10350 },
+        authProvider: new cassandra.auth.PlainTextAuthProvider(
+          process.env.COSMOSDB_USER,
+          process.env.COSMOSDB_PASSWORD
+        ),
+        sslOptions: { servername: process.env.COSMOSDB_CONTACT_POINT }
+      });
+    },
+    // The time based ids of the rows keep the newest list items first
+    async started() {
+      await this.cassandraClient.connect();
+      await this.execute(
+        "CREATE KEYSPACE IF NOT EXISTS list WITH replication = {'class': 'SimpleStrategy', 'replication_factor': 1}"
+      );
+      await this.execute(
+        "CREATE TABLE IF NOT EXISTS list.listitems (list text, id timeuuid, text text, PRIMARY KEY (list, id)) WITH CLUSTERING ORDER BY (id DESC)"
+      );
+    },
+    stopped() {
+      return this.cassandraClient.shutdown();
+    }
+  };
+};
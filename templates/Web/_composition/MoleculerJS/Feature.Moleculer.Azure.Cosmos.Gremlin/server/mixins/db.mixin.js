@@ -0,0 +1,33 @@
+"use strict";
+
+const gremlin = require("gremlin");
+
+module.exports = opt => {
+  return {
+    /**
+     * Connects `pages` service to the ListItems graph of the List database of the Cosmos Gremlin API.
+     * More info: https://docs.microsoft.com/en-us/azure/cosmos-db/create-graph-nodejs
+     */
+    methods: {
+      // Runs a Gremlin query, the values are passed as bindings to keep them out of the query text
+      async submitQuery(query, bindings) {
+        const result = await this.gremlinClient.submit(query, bindings);
+        return result.toArray();
+      }
+    },
+    created() {
+      this.gremlinClient = new gremlin.driver.Client(process.env.COSMOSDB_GREMLIN_ENDPOINT, {
+        authenticator: new gremlin.driver.auth.PlainTextSaslAuthenticator(
+          "/dbs/List/colls/ListItems",
+          process.env.COSMOSDB_PRIMARY_KEY
+        ),
+        traversalsource: "g",
+        rejectUnauthorized: true,
+        mimeType: "application/vnd.gremlin-v2.0+json"
+      });
+    },
+    stopped() {
+      return this.gremlinClient.close();
+    }
+  };
+};
@@ -3,6 +3,9 @@
 const DBService = require("moleculer-db");
 const MongoAdapter = require("moleculer-db-adapter-mongo");
 
+// Cosmos DB requires SSL, another MongoDB can set its own options
+const connectionOptions = process.env.COSMOSDB_OPTIONS || "ssl=true&replicaSet=globaldb";
+
 module.exports = opt => {
   return {
     /**
@@ -12,7 +15,7 @@ module.exports = opt => {
     mixins: [DBService],
     // Setup DB Adapter. More info: https://moleculer.services/docs/0.14/moleculer-db.html#Mongo-Adapter
     adapter: new MongoAdapter(
-      `${process.env.COSMOSDB_CONNSTR}?ssl=true&replicaSet=globaldb`,
+      `${process.env.COSMOSDB_CONNSTR}?${connectionOptions}`,
       {
         auth: {
           user: process.env.COSMOSDB_USER,
@@ -0,0 +1,28 @@
+"use strict";
+
+const azure = require("azure-storage");
+
+module.exports = opt => {
+  return {
+    /**
+     * Connects `pages` service to the ListItems table of the Cosmos Table API.
+     * More info: https://docs.microsoft.com/en-us/azure/cosmos-db/create-table-nodejs
+     */
+    methods: {
+      // The table service takes callbacks, callTableService runs one of its methods and returns a promise of the result
+      callTableService(method, ...args) {
+        return new Promise((resolve, reject) => {
+          this.tableService[method](...args, (error, result) =>
+            error ? reject(error) : resolve(result)
+          );
+        });
+      }
+    },
+    created() {
+      this.tableService = azure.createTableService(process.env.COSMOSDB_CONNSTR);
+    },
+    started() {
+      return this.callTableService("createTableIfNotExists", "ListItems");
+    }
+  };
+};
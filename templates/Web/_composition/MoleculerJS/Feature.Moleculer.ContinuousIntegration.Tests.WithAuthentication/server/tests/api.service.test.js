@@ -0,0 +1,36 @@
+"use strict";
+
+const { ServiceBroker } = require("moleculer");
+const request = require("supertest");
+const ApiService = require("../services/api.service");
+
+// TODO Web Template Studio: Add tests for your own services here.
+describe("api service", () => {
+  const broker = new ServiceBroker({ logger: false });
+  broker.createService({
+    name: "greeter",
+    actions: {
+      hello: {
+        rest: "GET /hello",
+        handler: () => "Hello"
+      }
+    }
+  });
+  // Port 0 listens on any free port so the tests don't clash with a running server
+  const service = broker.createService({
+    ...ApiService,
+    settings: { ...ApiService.settings, port: 0 }
+  });
+
+  beforeAll(async () => {
+    await broker.start();
+    // The gateway adds the routes of new services after a delay, the test needs them right away
+    service.routes.forEach(route => service.regenerateAutoAliases(route));
+  });
+  afterAll(() => broker.stop());
+
+  it("rejects API requests without an access token", async () => {
+    const response = await request(service.server).get("/api/greeter/hello");
+    expect(response.status).toBe(401);
+  });
+});
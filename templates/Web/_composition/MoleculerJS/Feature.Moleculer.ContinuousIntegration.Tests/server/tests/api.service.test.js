@@ -0,0 +1,23 @@
+"use strict";
+
+const { ServiceBroker } = require("moleculer");
+const request = require("supertest");
+const ApiService = require("../services/api.service");
+
+// TODO Web Template Studio: Add tests for your own services here.
+describe("api service", () => {
+  const broker = new ServiceBroker({ logger: false });
+  // Port 0 listens on any free port so the tests don't clash with a running server
+  const service = broker.createService({
+    ...ApiService,
+    settings: { ...ApiService.settings, port: 0 }
+  });
+
+  beforeAll(() => broker.start());
+  afterAll(() => broker.stop());
+
+  it("responds with 404 to unknown API requests", async () => {
+    const response = await request(service.server).post("/api/unknown");
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,38 @@
+  /**
+   * Service Actions
+   * More info: https://moleculer.services/docs/0.14/actions.html
+   */
+  actions: {
+    // Action handlers
+  //{[{
+    dashboard: {
+      rest: "GET /dashboard",
+      handler(ctx) {
+        const sumOrdersBy = (orders, getLabel, getValue) => {
+          const totals = {};
+          orders.forEach(order => {
+            const label = getLabel(order);
+            totals[label] = (totals[label] || 0) + getValue(order);
+          });
+          return Object.keys(totals)
+            .map(label => ({ label, value: totals[label] }))
+            .sort((a, b) => b.value - a.value);
+        };
+
+        const orders = sampleData.textAssets;
+        const revenue = orders.reduce((total, order) => total + order.orderTotal, 0);
+        const revenueByCustomer = sumOrdersBy(orders, order => order.shipTo, order => order.orderTotal);
+        return {
+          summary: {
+            orderCount: orders.length,
+            revenue,
+            averageOrderValue: orders.length > 0 ? revenue / orders.length : 0,
+            customerCount: revenueByCustomer.length
+          },
+          revenueByCustomer,
+          ordersByStatus: sumOrdersBy(orders, order => order.status, () => 1)
+        };
+      }
+    },
+  //}]}
+  },
\ No newline at end of file
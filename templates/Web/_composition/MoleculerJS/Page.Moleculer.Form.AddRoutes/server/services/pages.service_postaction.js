@@ -0,0 +1,37 @@
+  /**
+   * Service Actions
+   * More info: https://moleculer.services/docs/0.14/actions.html
+   */
+  actions: {
+    // Action handlers
+  //{[{
+    form: {
+      rest: "POST /form",
+      handler(ctx) {
+        const name = String(ctx.params.name || "").trim();
+        const email = String(ctx.params.email || "").trim();
+        const message = String(ctx.params.message || "").trim();
+        const errors = {};
+
+        if (!name) {
+          errors.name = "Please enter your name";
+        }
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+          errors.email = "Please enter a valid email address";
+        }
+        if (!message) {
+          errors.message = "Please enter a message";
+        } else if (message.length > 500) {
+          errors.message = "The message must be at most 500 characters long";
+        }
+
+        if (Object.keys(errors).length > 0) {
+          ctx.meta.$statusCode = 400;
+          return { errors };
+        }
+        // TODO Web Template Studio: Save the submission in your database or send it by email
+        return { name, email, message };
+      }
+    },
+  //}]}
+  },
\ No newline at end of file
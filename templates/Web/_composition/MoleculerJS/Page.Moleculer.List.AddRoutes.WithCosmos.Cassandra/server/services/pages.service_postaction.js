@@ -0,0 +1,59 @@
+"use strict";
+//{[{
+const { types } = require("cassandra-driver");
+const DBMixin = require("../mixins/db.mixin");
+//}]}
+module.exports = {
+  mixins: [/*{[{*/DBMixin()/*}]}*/],
+  actions: {
+    // Action handlers
+  //{[{
+    listGet: {
+      rest: "GET /list",
+      async handler(ctx) {
+        // Call the Cassandra client that was connected by `db.mixin.js`
+        const { rows } = await this.execute("SELECT id, text FROM list.listitems WHERE list = ?", ["List"]);
+        return rows.map(row => ({ _id: row.id.toString(), text: row.text }));
+      }
+    },
+    listPost: {
+      rest: "POST /list",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        text: { type: "string" }, // required field
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        const id = types.TimeUuid.now();
+        await this.execute("INSERT INTO list.listitems (list, id, text) VALUES (?, ?, ?)", [
+          "List",
+          id,
+          ctx.params.text
+        ]);
+        return { _id: id.toString(), text: ctx.params.text };
+      }
+    },
+    listDelete: {
+      rest: "DELETE /list/:_id",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        _id: { type: "string" }, // required filed
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        await this.execute("DELETE FROM list.listitems WHERE list = ? AND id = ?", [
+          "List",
+          types.TimeUuid.fromString(ctx.params._id)
+        ]);
+        return { _id: ctx.params._id };
+      }
+    },
+  //}]}
+  },
+};
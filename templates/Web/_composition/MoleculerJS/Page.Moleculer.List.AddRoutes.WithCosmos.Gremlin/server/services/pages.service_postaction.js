@@ -0,0 +1,60 @@
+"use strict";
+//{[{
+const DBMixin = require("../mixins/db.mixin");
+//}]}
+module.exports = {
+  mixins: [/*{[{*/DBMixin()/*}]}*/],
+  actions: {
+    // Action handlers
+  //{[{
+    listGet: {
+      rest: "GET /list",
+      handler(ctx) {
+        // Call the Gremlin client that was connected by `db.mixin.js`
+        return this.submitQuery(
+          "g.V().hasLabel('listItem').has('partitionKey', partitionKey)" +
+            ".order().by('createdAt', decr).project('_id', 'text').by(id).by('text')",
+          { partitionKey: "List" }
+        );
+      }
+    },
+    listPost: {
+      rest: "POST /list",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        text: { type: "string" }, // required field
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        const [_id] = await this.submitQuery(
+          "g.addV('listItem').property('partitionKey', partitionKey)" +
+            ".property('text', text).property('createdAt', createdAt).id()",
+          { partitionKey: "List", text: ctx.params.text, createdAt: Date.now() }
+        );
+        return { _id, text: ctx.params.text };
+      }
+    },
+    listDelete: {
+      rest: "DELETE /list/:_id",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        _id: { type: "string" }, // required filed
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        await this.submitQuery("g.V(itemId).has('partitionKey', partitionKey).drop()", {
+          itemId: ctx.params._id,
+          partitionKey: "List"
+        });
+        return { _id: ctx.params._id };
+      }
+    },
+  //}]}
+  },
+};
@@ -0,0 +1,65 @@
+"use strict";
+//{[{
+const azure = require("azure-storage");
+const crypto = require("crypto");
+const DBMixin = require("../mixins/db.mixin");
+
+const entityGenerator = azure.TableUtilities.entityGenerator;
+//}]}
+module.exports = {
+  mixins: [/*{[{*/DBMixin()/*}]}*/],
+  actions: {
+    // Action handlers
+  //{[{
+    listGet: {
+      rest: "GET /list",
+      async handler(ctx) {
+        // Call the table service that was connected by `db.mixin.js`
+        const query = new azure.TableQuery().where("PartitionKey eq ?", "List");
+        const { entries } = await this.callTableService("queryEntities", "ListItems", query, null);
+        return entries
+          .sort((a, b) => b.Timestamp._ - a.Timestamp._)
+          .map(entity => ({ _id: entity.RowKey._, text: entity.text._ }));
+      }
+    },
+    listPost: {
+      rest: "POST /list",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        text: { type: "string" }, // required field
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        const listItem = {
+          PartitionKey: entityGenerator.String("List"),
+          RowKey: entityGenerator.String(crypto.randomBytes(16).toString("hex")),
+          text: entityGenerator.String(ctx.params.text)
+        };
+        await this.callTableService("insertEntity", "ListItems", listItem);
+        return { _id: listItem.RowKey._, text: listItem.text._ };
+      }
+    },
+    listDelete: {
+      rest: "DELETE /list/:_id",
+      /**
+       * Param validation.
+       * More info: https://moleculer.services/docs/0.14/validating.html
+       */
+      params: {
+        _id: { type: "string" }, // required filed
+        $$strict: true // no additional properties allowed
+      },
+      async handler(ctx) {
+        await this.callTableService("deleteEntity", "ListItems", {
+          PartitionKey: entityGenerator.String("List"),
+          RowKey: entityGenerator.String(ctx.params._id)
+        });
+        return { _id: ctx.params._id };
+      }
+    },
+  //}]}
+  },
+};
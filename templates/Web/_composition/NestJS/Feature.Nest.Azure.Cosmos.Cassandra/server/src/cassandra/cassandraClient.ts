@@ -0,0 +1,33 @@
+﻿import { auth, Client } from "cassandra-driver";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// Connects the back-end to a keyspace of the Cosmos Cassandra API (https://docs.microsoft.com/en-us/azure/cosmos-db/create-cassandra-nodejs)
+export class CassandraClient {
+  private client: Client;
+
+  constructor(private keyspace: string) {
+    this.client = new Client({
+      contactPoints: [process.env.COSMOSDB_CONTACT_POINT],
+      protocolOptions: { port: 10350 },
+      authProvider: new auth.PlainTextAuthProvider(
+        process.env.COSMOSDB_USER,
+        process.env.COSMOSDB_PASSWORD
+      ),
+      sslOptions: { servername: process.env.COSMOSDB_CONTACT_POINT }
+    });
+  }
+
+  async connect() {
+    await this.client.connect();
+    await this.execute(
+      `CREATE KEYSPACE IF NOT EXISTS ${this.keyspace} WITH replication = {'class': 'SimpleStrategy', 'replication_factor': 1}`
+    );
+  }
+
+  // Runs a CQL statement, the values are bound to its "?" markers
+  execute(query: string, params?: any[]) {
+    return this.client.execute(query, params, { prepare: true });
+  }
+}
@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { MongoModule } from "./mongo/mongo.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    MongoModule,
+//}]}
@@ -0,0 +1,22 @@
+﻿import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// Cosmos DB requires SSL, another MongoDB can set its own options
+const connectionOptions = process.env.COSMOSDB_OPTIONS || "ssl=true&replicaSet=globaldb";
+
+// Connects the back end to the Cosmos Mongo Database (https://docs.microsoft.com/en-us/azure/cosmos-db/mongodb-mongoose)
+@Module({
+  imports: [
+    MongooseModule.forRoot(`${process.env.COSMOSDB_CONNSTR}?${connectionOptions}`, {
+      auth: {
+        user: process.env.COSMOSDB_USER,
+        password: process.env.COSMOSDB_PASSWORD
+      },
+      useNewUrlParser: true
+    })
+  ]
+})
+export class MongoModule {}
@@ -0,0 +1,30 @@
+﻿import { Container, CosmosClient, Database } from "@azure/cosmos";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// Connects the back-end to the Cosmos Core SQL Database (https://docs.microsoft.com/en-us/azure/cosmos-db/create-sql-api-nodejs)
+export class SQLClient {
+  public database: Database;
+  public container: Container;
+  private client: CosmosClient;
+
+  constructor(private databaseId: string, private containerId: string) {
+    this.client = new CosmosClient({
+      endpoint: process.env.COSMOSDB_URI,
+      key: process.env.COSMOSDB_PRIMARY_KEY
+    });
+  }
+
+  async connect() {
+    const dbResponse = await this.client.databases.createIfNotExists({
+      id: this.databaseId
+    });
+    this.database = dbResponse.database;
+
+    const containerResponse = await this.database.containers.createIfNotExists({
+      id: this.containerId
+    });
+    this.container = containerResponse.container;
+  }
+}
@@ -0,0 +1,21 @@
+﻿import { createTableService, TableService } from "azure-storage";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// Connects the back-end to a table of the Cosmos Table API (https://docs.microsoft.com/en-us/azure/cosmos-db/create-table-nodejs)
+export class TableClient {
+  public tableService: TableService;
+
+  constructor(public tableName: string) {
+    this.tableService = createTableService(process.env.COSMOSDB_CONNSTR);
+  }
+
+  connect() {
+    return new Promise((resolve, reject) => {
+      this.tableService.createTableIfNotExists(this.tableName, (error, result) =>
+        error ? reject(error) : resolve(result)
+      );
+    });
+  }
+}
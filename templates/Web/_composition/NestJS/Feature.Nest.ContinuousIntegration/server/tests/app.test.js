@@ -0,0 +1,24 @@
+const request = require("supertest");
+const { NestFactory } = require("@nestjs/core");
+const { AppModule } = require("../dist/app.module");
+const { CONSTANTS } = require("../dist/constants");
+
+// TODO Web Template Studio: Add tests for your own API routes here.
+describe("app", () => {
+  let app;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    app.setGlobalPrefix(CONSTANTS.API_PREFIX);
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("responds with 404 to unknown API requests", async () => {
+    const response = await request(app.getHttpServer()).post("/api/unknown");
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,6 @@
+﻿const sampleData: { [key: string]: any } = {};
+
+// This class holds sample data used by some generated pages to show how they can be used.
+// TODO Web Template Studio: Delete this file once your app is using real data.
+
+export default sampleData;
@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { DashboardModule } from "./dashboard/dashboard.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    DashboardModule,
+//}]}
@@ -0,0 +1,12 @@
+﻿import { Controller, Get } from "@nestjs/common";
+import { DashboardService } from "./dashboard.service";
+
+@Controller("dashboard")
+export class DashboardController {
+  constructor(private readonly dashboardService: DashboardService) {}
+
+  @Get()
+  get() {
+    return this.dashboardService.getDashboard();
+  }
+}
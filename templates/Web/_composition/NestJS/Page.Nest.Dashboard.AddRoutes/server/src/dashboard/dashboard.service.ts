@@ -0,0 +1,42 @@
+﻿import { Injectable } from "@nestjs/common";
+import sampleData from "../data/sampleData";
+
+export interface IChartItem {
+  label: string;
+  value: number;
+}
+
+@Injectable()
+export class DashboardService {
+  // Aggregates the sample orders into the summary cards and charts of the page
+  getDashboard() {
+    const orders: any[] = sampleData.textAssets;
+    const revenue = orders.reduce((total, order) => total + order.orderTotal, 0);
+    const revenueByCustomer = this.sumOrdersBy(orders, order => order.shipTo, order => order.orderTotal);
+    return {
+      summary: {
+        orderCount: orders.length,
+        revenue,
+        averageOrderValue: orders.length > 0 ? revenue / orders.length : 0,
+        customerCount: revenueByCustomer.length
+      },
+      revenueByCustomer,
+      ordersByStatus: this.sumOrdersBy(orders, order => order.status, () => 1)
+    };
+  }
+
+  private sumOrdersBy(
+    orders: any[],
+    getLabel: (order: any) => string,
+    getValue: (order: any) => number
+  ): IChartItem[] {
+    const totals: { [label: string]: number } = {};
+    orders.forEach(order => {
+      const label = getLabel(order);
+      totals[label] = (totals[label] || 0) + getValue(order);
+    });
+    return Object.keys(totals)
+      .map(label => ({ label, value: totals[label] }))
+      .sort((a, b) => b.value - a.value);
+  }
+}
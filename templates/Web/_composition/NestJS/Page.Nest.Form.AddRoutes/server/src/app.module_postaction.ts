@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { FormModule } from "./form/form.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    FormModule,
+//}]}
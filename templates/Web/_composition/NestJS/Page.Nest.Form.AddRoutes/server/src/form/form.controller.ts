@@ -0,0 +1,13 @@
+﻿import { Body, Controller, HttpCode, Post } from "@nestjs/common";
+import { FormService, IFormSubmission } from "./form.service";
+
+@Controller("form")
+export class FormController {
+  constructor(private readonly formService: FormService) {}
+
+  @Post()
+  @HttpCode(200)
+  submit(@Body() submission: IFormSubmission) {
+    return this.formService.submit(submission);
+  }
+}
@@ -0,0 +1,9 @@
+﻿import { Module } from "@nestjs/common";
+import { FormController } from "./form.controller";
+import { FormService } from "./form.service";
+
+@Module({
+  controllers: [FormController],
+  providers: [FormService]
+})
+export class FormModule {}
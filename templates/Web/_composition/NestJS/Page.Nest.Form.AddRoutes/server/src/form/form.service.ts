@@ -0,0 +1,36 @@
+﻿import { BadRequestException, Injectable } from "@nestjs/common";
+
+export interface IFormSubmission {
+  name: string;
+  email: string;
+  message: string;
+}
+
+@Injectable()
+export class FormService {
+  // Responds with 400 and an error message for every invalid field
+  submit(submission: IFormSubmission): IFormSubmission {
+    const name = String(submission.name || "").trim();
+    const email = String(submission.email || "").trim();
+    const message = String(submission.message || "").trim();
+    const errors: { [field: string]: string } = {};
+
+    if (!name) {
+      errors.name = "Please enter your name";
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.email = "Please enter a valid email address";
+    }
+    if (!message) {
+      errors.message = "Please enter a message";
+    } else if (message.length > 500) {
+      errors.message = "The message must be at most 500 characters long";
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new BadRequestException({ errors });
+    }
+    // TODO Web Template Studio: Save the submission in your database or send it by email
+    return { name, email, message };
+  }
+}
@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { GridModule } from "./grid/grid.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    GridModule,
+//}]}
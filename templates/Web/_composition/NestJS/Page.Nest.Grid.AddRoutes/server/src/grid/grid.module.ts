@@ -0,0 +1,7 @@
+﻿import { Module } from "@nestjs/common";
+import { GridController } from "./grid.controller";
+
+@Module({
+  controllers: [GridController]
+})
+export class GridModule {}
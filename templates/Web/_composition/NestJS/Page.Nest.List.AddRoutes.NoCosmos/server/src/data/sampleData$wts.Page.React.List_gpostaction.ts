@@ -0,0 +1,24 @@
+﻿//{[{
+const shortLoremIpsum = `Lorem id sint aliqua tempor tempor sit. Ad dolor dolor ut nulla mollit dolore non eiusmod Lorem tempor nisi cillum.`;
+//}]}
+const sampleData: { [key: string]: any } = {};
+
+// This class holds sample data used by some generated pages to show how they can be used.
+// TODO Web Template Studio: Delete this file once your app is using real data.
+//{[{
+// TODO Web Template Studio: If you use a database replace this ID with the ID created by the database
+sampleData.listID = 3;
+
+sampleData.listTextAssets = [
+  {
+    text: shortLoremIpsum,
+    _id: 1
+  },
+  {
+    text: shortLoremIpsum,
+    _id: 2
+  }
+];
+//}]}
+
+export default sampleData;
@@ -0,0 +1,30 @@
+﻿import { Injectable, NotFoundException } from "@nestjs/common";
+import sampleData from "../data/sampleData";
+
+@Injectable()
+export class ListService {
+  getAll() {
+    return sampleData.listTextAssets;
+  }
+
+  create(text: string) {
+    const listItem = {
+      text,
+      _id: sampleData.listID
+    };
+    sampleData.listTextAssets.unshift(listItem);
+    sampleData.listID++;
+    return listItem;
+  }
+
+  remove(_id: string) {
+    const index = sampleData.listTextAssets.findIndex(
+      listItem => listItem._id === Number(_id)
+    );
+    if (index === -1) {
+      throw new NotFoundException(`Could not find item with id: ${_id}`);
+    }
+    sampleData.listTextAssets.splice(index, 1);
+    return { _id: Number(_id), text: "This commented was deleted" };
+  }
+}
@@ -0,0 +1,48 @@
+﻿import { Injectable, OnModuleInit } from "@nestjs/common";
+import { types } from "cassandra-driver";
+import { CassandraClient } from "../cassandra/cassandraClient";
+
+const PARTITION = "List";
+
+@Injectable()
+export class ListService implements OnModuleInit {
+  private cassandraClient = new CassandraClient("list");
+
+  // The time based ids of the rows keep the newest list items first
+  async onModuleInit() {
+    await this.cassandraClient.connect();
+    await this.cassandraClient.execute(
+      "CREATE TABLE IF NOT EXISTS list.listitems (list text, id timeuuid, text text, PRIMARY KEY (list, id)) WITH CLUSTERING ORDER BY (id DESC)"
+    );
+  }
+
+  // Find all rows of the List partition in the Cosmos listitems table
+  async getAll() {
+    const { rows } = await this.cassandraClient.execute("SELECT id, text FROM list.listitems WHERE list = ?", [
+      PARTITION
+    ]);
+    return rows.map(row => ({ _id: row.id.toString(), text: row.text }));
+  }
+
+  // Insert a new row in the List partition of the Cosmos listitems table
+  async create(text: string) {
+    // TODO Web Template Studio: The Cosmos Cassandra keyspace is set up to hold a table called listitems with
+    // the following columns. Define your own tables and columns to store rows here.
+    const id = types.TimeUuid.now();
+    await this.cassandraClient.execute("INSERT INTO list.listitems (list, id, text) VALUES (?, ?, ?)", [
+      PARTITION,
+      id,
+      text
+    ]);
+    return { _id: id.toString(), text };
+  }
+
+  // Remove a row from the List partition of the Cosmos listitems table
+  async remove(_id: string) {
+    await this.cassandraClient.execute("DELETE FROM list.listitems WHERE list = ? AND id = ?", [
+      PARTITION,
+      types.TimeUuid.fromString(_id)
+    ]);
+    return { _id };
+  }
+}
@@ -0,0 +1,39 @@
+﻿import { Injectable } from "@nestjs/common";
+import { GremlinClient } from "../gremlin/gremlinClient";
+
+const PARTITION = "List";
+
+@Injectable()
+export class ListService {
+  private gremlinClient = new GremlinClient("List", "ListItems");
+
+  // Find all listItem vertices of the Cosmos ListItems graph, newest first
+  getAll() {
+    return this.gremlinClient.submit(
+      "g.V().hasLabel('listItem').has('partitionKey', partitionKey)" +
+        ".order().by('createdAt', decr).project('_id', 'text').by(id).by('text')",
+      { partitionKey: PARTITION }
+    );
+  }
+
+  // Add a new listItem vertex to the Cosmos ListItems graph
+  async create(text: string) {
+    // TODO Web Template Studio: The Cosmos graph is set up to hold listItem vertices with the following properties.
+    // Define your own vertices and edges to add to the graph here.
+    const [_id] = await this.gremlinClient.submit(
+      "g.addV('listItem').property('partitionKey', partitionKey)" +
+        ".property('text', text).property('createdAt', createdAt).id()",
+      { partitionKey: PARTITION, text, createdAt: Date.now() }
+    );
+    return { _id, text };
+  }
+
+  // Remove a listItem vertex from the Cosmos ListItems graph
+  async remove(_id: string) {
+    await this.gremlinClient.submit("g.V(itemId).has('partitionKey', partitionKey).drop()", {
+      itemId: _id,
+      partitionKey: PARTITION
+    });
+    return { _id };
+  }
+}
@@ -0,0 +1,12 @@
+﻿import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ListController } from "./list.controller";
+import { ListService } from "./list.service";
+import { ListItemSchema, LIST_ITEM_MODEL } from "./listItem.schema";
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: LIST_ITEM_MODEL, schema: ListItemSchema }])],
+  controllers: [ListController],
+  providers: [ListService]
+})
+export class ListModule {}
@@ -0,0 +1,28 @@
+﻿import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { IListItem, LIST_ITEM_MODEL } from "./listItem.schema";
+
+@Injectable()
+export class ListService {
+  constructor(@InjectModel(LIST_ITEM_MODEL) private readonly listItemModel: Model<IListItem>) {}
+
+  // Find all list items from the nearest instance of Cosmos MongoDB
+  getAll() {
+    return this.listItemModel
+      .find({})
+      .sort({ _id: -1 })
+      .read("nearest")
+      .exec();
+  }
+
+  // Post a new listItem to the ListItem collection in Cosmos MongoDB
+  create(text: string) {
+    return new this.listItemModel({ text }).save();
+  }
+
+  // Remove a listItem from the ListItem collection in Cosmos MongoDB
+  remove(_id: string) {
+    return this.listItemModel.findByIdAndDelete(_id).exec();
+  }
+}
@@ -0,0 +1,13 @@
+﻿import { Document, Schema } from "mongoose";
+
+export const LIST_ITEM_MODEL = "ListItems";
+
+// TODO Web Template Studio: The Cosmos Mongo Database is set up to hold a collection called ListItems which contains documents
+// with the following schema. Define your own schema for the Cosmos MongoDB using mongoose (https://mongoosejs.com/docs/index.html).
+export const ListItemSchema = new Schema({
+  text: String
+});
+
+export interface IListItem extends Document {
+  text: string;
+}
@@ -0,0 +1,38 @@
+﻿import { Injectable, OnModuleInit } from "@nestjs/common";
+import { SQLClient } from "../sql/sqlClient";
+
+@Injectable()
+export class ListService implements OnModuleInit {
+  private sqlClient = new SQLClient("List", "ListItems");
+
+  onModuleInit() {
+    return this.sqlClient.connect();
+  }
+
+  // Find all items from the ListItem container in Cosmos Core SQL List database
+  async getAll() {
+    const querySpec = {
+      query: "SELECT r.id as _id, r.text FROM root r ORDER BY r._ts DESC",
+      parameters: []
+    };
+    const { resources } = await this.sqlClient.container.items.query(querySpec).fetchAll();
+    return resources;
+  }
+
+  // Post a new item to the ListItem container in Cosmos Core SQL List database
+  async create(text: string) {
+    // TODO Web Template Studio: The Cosmos Core SQL Database is set up to hold a container called ListItems which contains documents
+    // with the following schema. Define your own schema to add documents to the container here.
+    const listItem = {
+      text
+    };
+    const { resource } = await this.sqlClient.container.items.create(listItem);
+    return { _id: resource.id, text: listItem.text };
+  }
+
+  // Remove an item from the ListItem container in Cosmos Core SQL List database
+  async remove(_id: string) {
+    await this.sqlClient.container.item(_id, undefined).delete();
+    return { _id };
+  }
+}
@@ -0,0 +1,61 @@
+﻿import { Injectable, OnModuleInit } from "@nestjs/common";
+import { TableQuery, TableUtilities } from "azure-storage";
+import { randomBytes } from "crypto";
+import { TableClient } from "../table/tableClient";
+
+const PARTITION = "List";
+const entityGenerator = TableUtilities.entityGenerator;
+
+@Injectable()
+export class ListService implements OnModuleInit {
+  private tableClient = new TableClient("ListItems");
+
+  onModuleInit() {
+    return this.tableClient.connect();
+  }
+
+  // Find all entities of the List partition in the Cosmos ListItems table, newest first
+  getAll() {
+    const query = new TableQuery().where("PartitionKey eq ?", PARTITION);
+    return new Promise((resolve, reject) => {
+      this.tableClient.tableService.queryEntities<any>(this.tableClient.tableName, query, null, (error, result) =>
+        error
+          ? reject(error)
+          : resolve(
+              result.entries
+                .sort((a, b) => b.Timestamp._ - a.Timestamp._)
+                .map(entity => ({ _id: entity.RowKey._, text: entity.text._ }))
+            )
+      );
+    });
+  }
+
+  // Insert a new entity in the List partition of the Cosmos ListItems table
+  create(text: string) {
+    // TODO Web Template Studio: The Cosmos Table is set up to hold entities with the following properties.
+    // Define your own properties to add entities to the table here.
+    const listItem = {
+      PartitionKey: entityGenerator.String(PARTITION),
+      RowKey: entityGenerator.String(randomBytes(16).toString("hex")),
+      text: entityGenerator.String(text)
+    };
+    return new Promise((resolve, reject) => {
+      this.tableClient.tableService.insertEntity(this.tableClient.tableName, listItem, error =>
+        error ? reject(error) : resolve({ _id: listItem.RowKey._, text })
+      );
+    });
+  }
+
+  // Remove an entity from the List partition of the Cosmos ListItems table
+  remove(_id: string) {
+    const entityDescriptor = {
+      PartitionKey: entityGenerator.String(PARTITION),
+      RowKey: entityGenerator.String(_id)
+    };
+    return new Promise((resolve, reject) => {
+      this.tableClient.tableService.deleteEntity(this.tableClient.tableName, entityDescriptor, error =>
+        error ? reject(error) : resolve({ _id })
+      );
+    });
+  }
+}
@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { ListModule } from "./list/list.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    ListModule,
+//}]}
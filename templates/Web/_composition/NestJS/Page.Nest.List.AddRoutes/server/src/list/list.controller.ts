@@ -0,0 +1,23 @@
+﻿import { Body, Controller, Delete, Get, Param, Post } from "@nestjs/common";
+import { ListService } from "./list.service";
+
+// The list items are stored by the ListService, which keeps them in memory or in Cosmos DB
+@Controller("list")
+export class ListController {
+  constructor(private readonly listService: ListService) {}
+
+  @Get()
+  getAll() {
+    return this.listService.getAll();
+  }
+
+  @Post()
+  create(@Body("text") text: string) {
+    return this.listService.create(text);
+  }
+
+  @Delete(":_id")
+  remove(@Param("_id") _id: string) {
+    return this.listService.remove(_id);
+  }
+}
@@ -0,0 +1,10 @@
+﻿import { Module } from "@nestjs/common";
+//{[{
+import { MasterDetailModule } from "./masterDetail/masterDetail.module";
+//}]}
+
+@Module({
+  imports: [
+//{[{
+    MasterDetailModule,
+//}]}
@@ -0,0 +1,10 @@
+﻿import { Controller, Get } from "@nestjs/common";
+import sampleData from "../data/sampleData";
+
+@Controller("masterdetail")
+export class MasterDetailController {
+  @Get()
+  getAll() {
+    return sampleData.textAssets;
+  }
+}
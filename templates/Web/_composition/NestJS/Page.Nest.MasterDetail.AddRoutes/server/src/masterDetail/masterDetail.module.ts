@@ -0,0 +1,7 @@
+﻿import { Module } from "@nestjs/common";
+import { MasterDetailController } from "./masterDetail.controller";
+
+@Module({
+  controllers: [MasterDetailController]
+})
+export class MasterDetailModule {}
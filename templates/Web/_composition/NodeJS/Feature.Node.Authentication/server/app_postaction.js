@@ -0,0 +1,9 @@
+﻿const indexRouter = require("./routes/index");
+//{[{
+const requireAuthentication = require("./auth/requireAuthentication");
+//}]}
+app.use(express.static(path.resolve(__dirname, "build")));
+//{[{
+app.use("/api", requireAuthentication);
+//}]}
+app.use("/api", indexRouter);
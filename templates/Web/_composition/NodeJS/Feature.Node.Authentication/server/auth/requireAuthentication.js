@@ -0,0 +1,18 @@
+﻿const jwt = require("express-jwt");
+const jwksRsa = require("jwks-rsa");
+const CONSTANTS = require("../constants");
+
+// Validates the access token the front-end sends in the Authorization header and rejects
+// requests without a valid one with a 401. The claims of the token are set on req.user.
+const requireAuthentication = jwt({
+  secret: jwksRsa.expressJwtSecret({
+    cache: true,
+    rateLimit: true,
+    jwksUri: CONSTANTS.OIDC.JWKS_URI
+  }),
+  issuer: CONSTANTS.OIDC.ISSUER,
+  audience: CONSTANTS.OIDC.AUDIENCE,
+  algorithms: ["RS256"]
+});
+
+module.exports = requireAuthentication;
@@ -0,0 +1,11 @@
+﻿const CONSTANTS = {};
+CONSTANTS.PORT = process.env.PORT || "3001";
+//{[{
+
+// TODO Web Template Studio: Set the OIDC_* variables to validate the access tokens of your OpenID Connect provider.
+// The defaults point to the mock identity provider of the project.
+CONSTANTS.OIDC = {};
+CONSTANTS.OIDC.ISSUER = process.env.OIDC_ISSUER || "http://localhost:3002";
+CONSTANTS.OIDC.AUDIENCE = process.env.OIDC_AUDIENCE || "wts-app";
+CONSTANTS.OIDC.JWKS_URI = process.env.OIDC_JWKS_URI || `${CONSTANTS.OIDC.ISSUER}/jwks`;
+//}]}
@@ -0,0 +1,31 @@
+﻿const cassandra = require("cassandra-driver");
+require("dotenv").config();
+
+// Connects the back-end to a keyspace of the Cosmos Cassandra API (https://docs.microsoft.com/en-us/azure/cosmos-db/create-cassandra-nodejs)
+module.exports = class CassandraClient {
+  constructor(keyspace) {
+    this.client = new cassandra.Client({
+      contactPoints: [process.env.COSMOSDB_CONTACT_POINT],
+      protocolOptions: { port: 10350 },
+      authProvider: new cassandra.auth.PlainTextAuthProvider(
+        process.env.COSMOSDB_USER,
+        process.env.COSMOSDB_PASSWORD
+      ),
+      sslOptions: { servername: process.env.COSMOSDB_CONTACT_POINT }
+    });
+
+    this.keyspace = keyspace;
+  }
+
+  async connect() {
+    await this.client.connect();
+    await this.execute(
+      `CREATE KEYSPACE IF NOT EXISTS ${this.keyspace} WITH replication = {'class': 'SimpleStrategy', 'replication_factor': 1}`
+    );
+  }
+
+  // Runs a CQL statement, the values are bound to its "?" markers
+  execute(query, params) {
+    return this.client.execute(query, params, { prepare: true });
+  }
+};
@@ -0,0 +1,25 @@
+﻿const gremlin = require("gremlin");
+require("dotenv").config();
+
+// Connects the back-end to a graph of the Cosmos Gremlin API (https://docs.microsoft.com/en-us/azure/cosmos-db/create-graph-nodejs)
+module.exports = class GremlinClient {
+  constructor(databaseId, graphId) {
+    const authenticator = new gremlin.driver.auth.PlainTextSaslAuthenticator(
+      `/dbs/${databaseId}/colls/${graphId}`,
+      process.env.COSMOSDB_PRIMARY_KEY
+    );
+
+    this.client = new gremlin.driver.Client(process.env.COSMOSDB_GREMLIN_ENDPOINT, {
+      authenticator,
+      traversalsource: "g",
+      rejectUnauthorized: true,
+      mimeType: "application/vnd.gremlin-v2.0+json"
+    });
+  }
+
+  // Runs a Gremlin query, the values are passed as bindings to keep them out of the query text
+  async submit(query, bindings) {
+    const result = await this.client.submit(query, bindings);
+    return result.toArray();
+  }
+};
@@ -3,10 +3,13 @@ require("dotenv").config();
 
 mongoose.Promise = global.Promise;
 
+// Cosmos DB requires SSL, another MongoDB can set its own options
+const connectionOptions = process.env.COSMOSDB_OPTIONS || "ssl=true&replicaSet=globaldb";
+
 // Connects the back end to the Cosmos Mongo Database (https://docs.microsoft.com/en-us/azure/cosmos-db/mongodb-mongoose)
 function connect() {
   mongoose
-    .connect(`${process.env.COSMOSDB_CONNSTR}?ssl=true&replicaSet=globaldb`, {
+    .connect(`${process.env.COSMOSDB_CONNSTR}?${connectionOptions}`, {
       auth: {
         user: process.env.COSMOSDB_USER,
         password: process.env.COSMOSDB_PASSWORD
@@ -0,0 +1,23 @@
+﻿const azure = require("azure-storage");
+require("dotenv").config();
+
+// Connects the back-end to a table of the Cosmos Table API (https://docs.microsoft.com/en-us/azure/cosmos-db/create-table-nodejs)
+module.exports = class TableClient {
+  constructor(tableName) {
+    this.tableService = azure.createTableService(process.env.COSMOSDB_CONNSTR);
+    this.tableName = tableName;
+  }
+
+  connect() {
+    return this.call("createTableIfNotExists", this.tableName);
+  }
+
+  // The table service takes callbacks, call runs one of its methods and returns a promise of the result
+  call(method, ...args) {
+    return new Promise((resolve, reject) => {
+      this.tableService[method](...args, (error, result) =>
+        error ? reject(error) : resolve(result)
+      );
+    });
+  }
+};
@@ -0,0 +1,10 @@
+const request = require("supertest");
+const app = require("../app");
+
+// TODO Web Template Studio: Add tests for your own API routes here.
+describe("app", () => {
+  it("rejects API requests without an access token", async () => {
+    const response = await request(app).post("/api/unknown");
+    expect(response.status).toBe(401);
+  });
+});
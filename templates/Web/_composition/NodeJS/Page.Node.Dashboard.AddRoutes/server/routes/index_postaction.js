@@ -0,0 +1,40 @@
+﻿//{[{
+const CONSTANTS = require("../constants");
+//}]}
+const express = require("express");
+//{[{
+const sampleData = require("../sampleData");
+//}]}
+
+const router = express.Router();
+//{[{
+// Dashboard Page Endpoint
+const sumOrdersBy = (orders, getLabel, getValue) => {
+  const totals = {};
+  orders.forEach(order => {
+    const label = getLabel(order);
+    totals[label] = (totals[label] || 0) + getValue(order);
+  });
+  return Object.keys(totals)
+    .map(label => ({ label, value: totals[label] }))
+    .sort((a, b) => b.value - a.value);
+};
+
+router.get(CONSTANTS.ENDPOINT.DASHBOARD, (req, res) => {
+  const orders = sampleData.textAssets;
+  const revenue = orders.reduce((total, order) => total + order.orderTotal, 0);
+  const revenueByCustomer = sumOrdersBy(orders, order => order.shipTo, order => order.orderTotal);
+  res.json({
+    summary: {
+      orderCount: orders.length,
+      revenue,
+      averageOrderValue: orders.length > 0 ? revenue / orders.length : 0,
+      customerCount: revenueByCustomer.length
+    },
+    revenueByCustomer,
+    ordersByStatus: sumOrdersBy(orders, order => order.status, () => 1)
+  });
+});
+//}]}
+
+module.exports = router;
@@ -0,0 +1,10 @@
+﻿const CONSTANTS = {};
+//{[{
+CONSTANTS.ENDPOINT = {};
+//}]}
+CONSTANTS.PORT = process.env.PORT || "3001";
+//{[{
+CONSTANTS.ENDPOINT.FORM = "/form";
+//}]}
+
+module.exports = CONSTANTS;
@@ -0,0 +1,35 @@
+﻿//{[{
+const CONSTANTS = require("../constants");
+//}]}
+const express = require("express");
+
+const router = express.Router();
+//{[{
+// Form Page Endpoint
+router.post(CONSTANTS.ENDPOINT.FORM, (req, res) => {
+  const name = String(req.body.name || "").trim();
+  const email = String(req.body.email || "").trim();
+  const message = String(req.body.message || "").trim();
+  const errors = {};
+
+  if (!name) {
+    errors.name = "Please enter your name";
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.email = "Please enter a valid email address";
+  }
+  if (!message) {
+    errors.message = "Please enter a message";
+  } else if (message.length > 500) {
+    errors.message = "The message must be at most 500 characters long";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return res.status(400).json({ errors });
+  }
+  // TODO Web Template Studio: Save the submission in your database or send it by email
+  res.json({ name, email, message });
+});
+//}]}
+
+module.exports = router;
@@ -0,0 +1,67 @@
+﻿const { types } = require("cassandra-driver");
+const CassandraClient = require("./cassandraClient");
+const CONSTANTS = require("../constants");
+
+const TABLE = `${CONSTANTS.COSMOS.KEYSPACE}.${CONSTANTS.COSMOS.TABLE}`;
+
+module.exports = class CassandraController {
+  constructor() {
+    this.cassandraClient = new CassandraClient(CONSTANTS.COSMOS.KEYSPACE);
+
+    // The time based ids of the rows keep the newest list items first
+    this.cassandraClient
+      .connect()
+      .then(() =>
+        this.cassandraClient.execute(
+          `CREATE TABLE IF NOT EXISTS ${TABLE} (list text, id timeuuid, text text, PRIMARY KEY (list, id)) WITH CLUSTERING ORDER BY (id DESC)`
+        )
+      );
+  }
+
+  // Find all rows of the List partition in the Cosmos listitems table
+  async get(req, res, next) {
+    try {
+      const { rows } = await this.cassandraClient.execute(
+        `SELECT id, text FROM ${TABLE} WHERE list = ?`,
+        [CONSTANTS.COSMOS.PARTITION]
+      );
+
+      res.json(rows.map(row => ({ _id: row.id.toString(), text: row.text })));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Insert a new row in the List partition of the Cosmos listitems table
+  async create(req, res, next) {
+    // TODO Web Template Studio: The Cosmos Cassandra keyspace is set up to hold a table called listitems with
+    // the following columns. Define your own tables and columns to store rows here.
+    const listItem = {
+      id: types.TimeUuid.now(),
+      text: req.body.text
+    };
+    try {
+      await this.cassandraClient.execute(
+        `INSERT INTO ${TABLE} (list, id, text) VALUES (?, ?, ?)`,
+        [CONSTANTS.COSMOS.PARTITION, listItem.id, listItem.text]
+      );
+      res.json({ _id: listItem.id.toString(), text: listItem.text });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a row from the List partition of the Cosmos listitems table
+  async destroy(req, res, next) {
+    const { _id } = req.params;
+    try {
+      await this.cassandraClient.execute(
+        `DELETE FROM ${TABLE} WHERE list = ? AND id = ?`,
+        [CONSTANTS.COSMOS.PARTITION, types.TimeUuid.fromString(_id)]
+      );
+      res.json({ _id });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
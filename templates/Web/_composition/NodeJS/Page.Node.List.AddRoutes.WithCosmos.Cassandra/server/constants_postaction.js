@@ -0,0 +1,12 @@
+﻿const CONSTANTS = {};
+//{[{
+CONSTANTS.COSMOS = {};
+//}]}
+CONSTANTS.PORT = process.env.PORT || "3001";
+//^^
+//{[{
+CONSTANTS.COSMOS.KEYSPACE = "list";
+CONSTANTS.COSMOS.TABLE = "listitems";
+CONSTANTS.COSMOS.PARTITION = "List";
+//}]}
+module.exports = CONSTANTS;
@@ -0,0 +1,27 @@
+﻿//{[{
+const CONSTANTS = require("../constants");
+//}]}
+const express = require("express");
+//{[{
+const CassandraController = require("../cassandra/cassandraController");
+//}]}
+const router = express.Router();
+
+//{[{
+//List Items
+const cassandraController = new CassandraController();
+
+router.get(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  cassandraController.get(req, res, next);
+});
+
+router.post(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  cassandraController.create(req, res, next);
+});
+
+router.delete(CONSTANTS.ENDPOINT.LIST + "/:_id", function(req, res, next) {
+  cassandraController.destroy(req, res, next);
+});
+//}]}
+
+module.exports = router;
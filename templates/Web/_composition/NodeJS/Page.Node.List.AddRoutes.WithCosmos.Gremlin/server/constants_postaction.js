@@ -0,0 +1,12 @@
+﻿const CONSTANTS = {};
+//{[{
+CONSTANTS.COSMOS = {};
+//}]}
+CONSTANTS.PORT = process.env.PORT || "3001";
+//^^
+//{[{
+CONSTANTS.COSMOS.DATABASE = "List";
+CONSTANTS.COSMOS.GRAPH = "ListItems";
+CONSTANTS.COSMOS.PARTITION = "List";
+//}]}
+module.exports = CONSTANTS;
@@ -0,0 +1,64 @@
+﻿const GremlinClient = require("./gremlinClient");
+const CONSTANTS = require("../constants");
+
+const LIST_ITEM_LABEL = "listItem";
+
+module.exports = class GremlinController {
+  constructor() {
+    this.gremlinClient = new GremlinClient(
+      CONSTANTS.COSMOS.DATABASE,
+      CONSTANTS.COSMOS.GRAPH
+    );
+  }
+
+  // Find all listItem vertices of the Cosmos ListItems graph, newest first
+  async get(req, res, next) {
+    try {
+      const listItems = await this.gremlinClient.submit(
+        "g.V().hasLabel(vertexLabel).has('partitionKey', partitionKey)" +
+          ".order().by('createdAt', decr).project('_id', 'text').by(id).by('text')",
+        { vertexLabel: LIST_ITEM_LABEL, partitionKey: CONSTANTS.COSMOS.PARTITION }
+      );
+
+      res.json(listItems);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add a new listItem vertex to the Cosmos ListItems graph
+  async create(req, res, next) {
+    // TODO Web Template Studio: The Cosmos graph is set up to hold listItem vertices with the following properties.
+    // Define your own vertices and edges to add to the graph here.
+    const { text } = req.body;
+    try {
+      const [_id] = await this.gremlinClient.submit(
+        "g.addV(vertexLabel).property('partitionKey', partitionKey)" +
+          ".property('text', text).property('createdAt', createdAt).id()",
+        {
+          vertexLabel: LIST_ITEM_LABEL,
+          partitionKey: CONSTANTS.COSMOS.PARTITION,
+          text,
+          createdAt: Date.now()
+        }
+      );
+      res.json({ _id, text });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove a listItem vertex from the Cosmos ListItems graph
+  async destroy(req, res, next) {
+    const { _id } = req.params;
+    try {
+      await this.gremlinClient.submit(
+        "g.V(itemId).has('partitionKey', partitionKey).drop()",
+        { itemId: _id, partitionKey: CONSTANTS.COSMOS.PARTITION }
+      );
+      res.json({ _id });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
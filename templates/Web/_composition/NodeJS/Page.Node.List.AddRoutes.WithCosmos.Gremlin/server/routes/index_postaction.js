@@ -0,0 +1,27 @@
+﻿//{[{
+const CONSTANTS = require("../constants");
+//}]}
+const express = require("express");
+//{[{
+const GremlinController = require("../gremlin/gremlinController");
+//}]}
+const router = express.Router();
+
+//{[{
+//List Items
+const gremlinController = new GremlinController();
+
+router.get(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  gremlinController.get(req, res, next);
+});
+
+router.post(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  gremlinController.create(req, res, next);
+});
+
+router.delete(CONSTANTS.ENDPOINT.LIST + "/:_id", function(req, res, next) {
+  gremlinController.destroy(req, res, next);
+});
+//}]}
+
+module.exports = router;
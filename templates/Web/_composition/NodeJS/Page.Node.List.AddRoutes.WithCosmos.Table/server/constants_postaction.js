@@ -0,0 +1,11 @@
+﻿const CONSTANTS = {};
+//{[{
+CONSTANTS.COSMOS = {};
+//}]}
+CONSTANTS.PORT = process.env.PORT || "3001";
+//^^
+//{[{
+CONSTANTS.COSMOS.TABLE = "ListItems";
+CONSTANTS.COSMOS.PARTITION = "List";
+//}]}
+module.exports = CONSTANTS;
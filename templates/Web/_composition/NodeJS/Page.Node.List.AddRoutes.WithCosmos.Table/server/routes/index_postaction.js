@@ -0,0 +1,27 @@
+﻿//{[{
+const CONSTANTS = require("../constants");
+//}]}
+const express = require("express");
+//{[{
+const TableController = require("../table/tableController");
+//}]}
+const router = express.Router();
+
+//{[{
+//List Items
+const tableController = new TableController();
+
+router.get(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  tableController.get(req, res, next);
+});
+
+router.post(CONSTANTS.ENDPOINT.LIST, function(req, res, next) {
+  tableController.create(req, res, next);
+});
+
+router.delete(CONSTANTS.ENDPOINT.LIST + "/:_id", function(req, res, next) {
+  tableController.destroy(req, res, next);
+});
+//}]}
+
+module.exports = router;
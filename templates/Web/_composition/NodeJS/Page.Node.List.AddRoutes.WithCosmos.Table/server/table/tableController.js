@@ -0,0 +1,70 @@
+﻿const azure = require("azure-storage");
+const crypto = require("crypto");
+const TableClient = require("./tableClient");
+const CONSTANTS = require("../constants");
+
+const entityGenerator = azure.TableUtilities.entityGenerator;
+
+module.exports = class TableController {
+  constructor() {
+    this.tableClient = new TableClient(CONSTANTS.COSMOS.TABLE);
+
+    this.tableClient.connect();
+  }
+
+  // Find all entities of the List partition in the Cosmos ListItems table, newest first
+  async get(req, res, next) {
+    const query = new azure.TableQuery().where(
+      "PartitionKey eq ?",
+      CONSTANTS.COSMOS.PARTITION
+    );
+
+    try {
+      const { entries } = await this.tableClient.call(
+        "queryEntities",
+        CONSTANTS.COSMOS.TABLE,
+        query,
+        null
+      );
+
+      res.json(
+        entries
+          .sort((a, b) => b.Timestamp._ - a.Timestamp._)
+          .map(entity => ({ _id: entity.RowKey._, text: entity.text._ }))
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Insert a new entity in the List partition of the Cosmos ListItems table
+  async create(req, res, next) {
+    // TODO Web Template Studio: The Cosmos Table is set up to hold entities with the following properties.
+    // Define your own properties to add entities to the table here.
+    const listItem = {
+      PartitionKey: entityGenerator.String(CONSTANTS.COSMOS.PARTITION),
+      RowKey: entityGenerator.String(crypto.randomBytes(16).toString("hex")),
+      text: entityGenerator.String(req.body.text)
+    };
+    try {
+      await this.tableClient.call("insertEntity", CONSTANTS.COSMOS.TABLE, listItem);
+      res.json({ _id: listItem.RowKey._, text: listItem.text._ });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove an entity from the List partition of the Cosmos ListItems table
+  async destroy(req, res, next) {
+    const { _id } = req.params;
+    try {
+      await this.tableClient.call("deleteEntity", CONSTANTS.COSMOS.TABLE, {
+        PartitionKey: entityGenerator.String(CONSTANTS.COSMOS.PARTITION),
+        RowKey: entityGenerator.String(_id)
+      });
+      res.json({ _id });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
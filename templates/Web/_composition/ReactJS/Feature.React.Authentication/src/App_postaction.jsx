@@ -0,0 +1,25 @@
+﻿import React from "react";
+import { Switch, Route } from "react-router-dom";
+import "./App.css";
+import NavBar from "./components/NavBar";
+import Footer from "./components/Footer";
+//{[{
+import AuthGuard from "./components/AuthGuard";
+//}]}
+//TODO Web Template Studio: Add routes for your new pages here.
+const App = () => {
+    return (
+      <React.Fragment>
+        <NavBar />
+        //{[{
+        <AuthGuard>
+        //}]}
+        <Switch>
+        </Switch>
+        //{[{
+        </AuthGuard>
+        //}]}
+        <Footer />
+      </React.Fragment>
+    );
+}
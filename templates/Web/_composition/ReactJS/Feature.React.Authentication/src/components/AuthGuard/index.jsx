@@ -0,0 +1,34 @@
+﻿import React, { useEffect, useState } from "react";
+import { Redirect, Route, Switch } from "react-router-dom";
+import Login from "../Login";
+import AuthCallback from "../AuthCallback";
+import { getUser } from "../../authService";
+
+const SignedIn = ({ children, location }) => {
+  const [isSignedIn, setIsSignedIn] = useState(null);
+
+  useEffect(() => {
+    getUser().then(user => setIsSignedIn(user !== null));
+  }, [location.pathname]);
+
+  if (isSignedIn === null) {
+    return null;
+  }
+  if (!isSignedIn) {
+    return <Redirect to={{ pathname: "/login", state: { from: location.pathname } }} />;
+  }
+  return children;
+}
+
+// Renders the routes it wraps for signed in users and sends everyone else to the login page
+const AuthGuard = ({ children }) => {
+  return (
+    <Switch>
+      <Route path="/login" component={Login} />
+      <Route path="/auth-callback" component={AuthCallback} />
+      <Route render={({ location }) => <SignedIn location={location}>{children}</SignedIn>} />
+    </Switch>
+  );
+}
+
+export default AuthGuard;
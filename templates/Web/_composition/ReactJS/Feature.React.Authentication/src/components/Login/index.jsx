@@ -0,0 +1,21 @@
+﻿import React from "react";
+import { signIn } from "../../authService";
+
+const Login = ({ location }) => {
+  const returnPath = (location.state && location.state.from) || "/";
+  return (
+    <main id="mainContent">
+      <div className="container text-center">
+        <div className="row justify-content-center py-5">
+          <h1>Sign in</h1>
+        </div>
+        <p>Sign in with your account to continue.</p>
+        <button type="button" className="btn btn-primary" onClick={() => signIn(returnPath)}>
+          Sign in
+        </button>
+      </div>
+    </main>
+  );
+}
+
+export default Login;
@@ -0,0 +1,14 @@
+﻿import React from "react";
+import { Link } from "react-router-dom";
+import styles from "./navbar.module.css";
+//{[{
+import { signOut } from "../../authService";
+//}]}
+        <div className="navbar-nav">
+        </div>
+        //{[{
+        <button type="button" className="btn btn-link" onClick={signOut}>
+          Sign out
+        </button>
+        //}]}
+      </nav>
@@ -0,0 +1,15 @@
+﻿const CONSTANTS = {};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.DASHBOARD_GET = "Request to get dashboard data failed:";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.DASHBOARD = "/api/dashboard";
+//}]}
+
+export default CONSTANTS;
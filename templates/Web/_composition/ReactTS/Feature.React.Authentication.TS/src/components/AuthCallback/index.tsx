@@ -0,0 +1,26 @@
+﻿import React, { useEffect, useState } from "react";
+import { Redirect } from "react-router-dom";
+import { completeSignIn } from "../../authService";
+
+// The identity provider redirects here with the authorization code after the user signs in
+const AuthCallback = () => {
+  const [returnPath, setReturnPath] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    completeSignIn()
+      .then(setReturnPath)
+      .catch((signInError: Error) => setError(signInError.message));
+  }, []);
+
+  if (error) {
+    return (
+      <main id="mainContent" className="container py-5">
+        <div className="alert alert-danger" role="alert">Sign in failed: {error}</div>
+      </main>
+    );
+  }
+  return returnPath ? <Redirect to={returnPath} /> : null;
+}
+
+export default AuthCallback;
@@ -0,0 +1,42 @@
+﻿import React, { useEffect, useState } from "react";
+import { Redirect, Route, RouteComponentProps, Switch } from "react-router-dom";
+import Login from "../Login";
+import AuthCallback from "../AuthCallback";
+import { getUser } from "../../authService";
+
+interface IAuthGuardProps {
+  children: React.ReactNode;
+}
+
+interface ISignedInProps extends IAuthGuardProps {
+  location: RouteComponentProps["location"];
+}
+
+const SignedIn = ({ children, location }: ISignedInProps) => {
+  const [isSignedIn, setIsSignedIn] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    getUser().then(user => setIsSignedIn(user !== null));
+  }, [location.pathname]);
+
+  if (isSignedIn === null) {
+    return null;
+  }
+  if (!isSignedIn) {
+    return <Redirect to={{ pathname: "/login", state: { from: location.pathname } }} />;
+  }
+  return <React.Fragment>{children}</React.Fragment>;
+}
+
+// Renders the routes it wraps for signed in users and sends everyone else to the login page
+const AuthGuard = ({ children }: IAuthGuardProps) => {
+  return (
+    <Switch>
+      <Route path="/login" component={Login} />
+      <Route path="/auth-callback" component={AuthCallback} />
+      <Route render={({ location }) => <SignedIn location={location}>{children}</SignedIn>} />
+    </Switch>
+  );
+}
+
+export default AuthGuard;
@@ -0,0 +1,27 @@
+﻿import React from "react";
+import { RouteComponentProps } from "react-router-dom";
+import { signIn } from "../../authService";
+
+interface ILoginLocationState {
+  from?: string;
+}
+
+const Login = ({ location }: RouteComponentProps) => {
+  const state = location.state as ILoginLocationState | undefined;
+  const returnPath = (state && state.from) || "/";
+  return (
+    <main id="mainContent">
+      <div className="container text-center">
+        <div className="row justify-content-center py-5">
+          <h1>Sign in</h1>
+        </div>
+        <p>Sign in with your account to continue.</p>
+        <button type="button" className="btn btn-primary" onClick={() => signIn(returnPath)}>
+          Sign in
+        </button>
+      </div>
+    </main>
+  );
+}
+
+export default Login;
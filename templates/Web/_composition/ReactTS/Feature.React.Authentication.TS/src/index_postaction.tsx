@@ -0,0 +1,12 @@
+﻿import React from "react";
+import ReactDOM from "react-dom";
+import App from "./App";
+import { BrowserRouter } from "react-router-dom";
+import registerServiceWorker from "./registerServiceWorker";
+import "bootstrap/dist/css/bootstrap.min.css";
+//{[{
+import { addTokenToApiRequests } from "./authService";
+
+addTokenToApiRequests();
+//}]}
+ReactDOM.render(
@@ -0,0 +1,18 @@
+﻿const CONSTANTS = {} as {
+  ERROR_MESSAGE: { [key: string]: string };
+  ENDPOINT: { [key: string]: string };
+};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.DASHBOARD_GET = "Request to get dashboard data failed:";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.DASHBOARD = "/api/dashboard";
+//}]}
+
+export default CONSTANTS;
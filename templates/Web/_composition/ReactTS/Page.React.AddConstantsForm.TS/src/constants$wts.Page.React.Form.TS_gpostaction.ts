@@ -0,0 +1,22 @@
+﻿const CONSTANTS = {} as {
+  ERROR_MESSAGE: { [key: string]: string };
+  ENDPOINT: { [key: string]: string };
+};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.FORM_POST = "Request to send the form failed:";
+CONSTANTS.ERROR_MESSAGE.FORM_NAME_REQUIRED = "Please enter your name";
+CONSTANTS.ERROR_MESSAGE.FORM_EMAIL_INVALID = "Please enter a valid email address";
+CONSTANTS.ERROR_MESSAGE.FORM_MESSAGE_REQUIRED = "Please enter a message";
+CONSTANTS.ERROR_MESSAGE.FORM_MESSAGE_TOO_LONG = "The message must be at most 500 characters long";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.FORM = "/api/form";
+//}]}
+
+export default CONSTANTS;
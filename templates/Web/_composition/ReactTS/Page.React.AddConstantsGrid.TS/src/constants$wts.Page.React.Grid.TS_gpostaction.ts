@@ -0,0 +1,18 @@
+﻿const CONSTANTS = {} as {
+  ERROR_MESSAGE: { [key: string]: string };
+  ENDPOINT: { [key: string]: string };
+};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.GRID_GET = "Request to get grid text failed:";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.GRID = "/api/grid";
+//}]}
+
+export default CONSTANTS;
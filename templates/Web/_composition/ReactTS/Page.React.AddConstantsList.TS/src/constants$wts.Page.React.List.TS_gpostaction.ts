@@ -0,0 +1,21 @@
+﻿const CONSTANTS = {} as {
+  ERROR_MESSAGE: { [key: string]: string };
+  ENDPOINT: { [key: string]: string };
+};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.LIST_DELETE = "Request to delete list item failed:";
+CONSTANTS.ERROR_MESSAGE.LIST_ADD = "Request to add list item failed:";
+CONSTANTS.ERROR_MESSAGE.LIST_GET = "Request to get list items failed:";
+CONSTANTS.ERROR_MESSAGE.LIST_EMPTY_MESSAGE = "Please enter a valid message";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.LIST = "/api/list";
+//}]}
+
+export default CONSTANTS;
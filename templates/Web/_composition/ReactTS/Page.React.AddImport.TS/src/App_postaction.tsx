@@ -0,0 +1,11 @@
+﻿import React from "react";
+import { Switch, Route } from "react-router-dom";
+import "./App.css";
+import NavBar from "./components/NavBar";
+import Footer from "./components/Footer";
+//^^
+//{[{
+import wts.ItemName from "./components/wts.ItemName";
+//}]}
+//TODO Web Template Studio: Add routes for your new pages here.
+const App = () => {
@@ -0,0 +1,14 @@
+﻿const App = () => {
+    return (
+      <React.Fragment>
+        <NavBar />
+        <Switch>
+        //^^
+        //{[{
+          <Route path = "/wts.ItemName" component = { wts.ItemName } />
+        //}]}
+        </Switch>
+        <Footer />
+      </React.Fragment>
+    );
+}
\ No newline at end of file
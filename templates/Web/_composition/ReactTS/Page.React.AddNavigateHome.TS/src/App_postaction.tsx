@@ -0,0 +1,14 @@
+﻿const App = () => {
+    return (
+      <React.Fragment>
+        <NavBar />
+        <Switch>
+        //^^
+        //{[{
+          <Route exact path = "/" component = { wts.ItemName } />
+        //}]}
+        </Switch>
+        <Footer />
+      </React.Fragment>
+    );
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+﻿<div className="navbar-nav">
+//^^
+//{[{
+  <Link className="nav-item nav-link active" to="/">
+    wts.ItemName
+  </Link>
+//}]}      
+</div>
@@ -0,0 +1,39 @@
+﻿import React from "react";
+import classnames from "classnames";
+import styles from "./warningmessage.module.css";
+
+interface IWarningMessageProps {
+  open: boolean;
+  text: string;
+  onWarningClose: () => void;
+}
+
+// A pop up message used to warn users about failed API calls to the back end
+const WarningMessage = ({ open, text, onWarningClose }: IWarningMessageProps) => {
+  return (
+    <React.Fragment>
+      {open && (
+        <div
+          className={classnames(
+            "alert",
+            "alert-warning",
+            "ml-3",
+            styles.warningPosition
+          )}
+          role="alert"
+        >
+          {text}
+          <button
+            onClick={onWarningClose}
+            className="close ml-2"
+            aria-label="Close"
+          >
+            <span aria-hidden="true">&times;</span>
+          </button>
+        </div>
+      )}
+    </React.Fragment>
+  );
+}
+
+export default WarningMessage;
\ No newline at end of file
@@ -0,0 +1,7 @@
+﻿const CONSTANTS = {};
+
+CONSTANTS.ERROR_MESSAGE = {};
+
+CONSTANTS.ENDPOINT = {};
+
+export default CONSTANTS;
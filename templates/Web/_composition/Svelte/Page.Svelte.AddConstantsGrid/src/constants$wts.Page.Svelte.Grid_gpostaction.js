@@ -0,0 +1,15 @@
+﻿const CONSTANTS = {};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.GRID_GET = "Request to get grid text failed:";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.GRID = "/api/grid";
+//}]}
+
+export default CONSTANTS;
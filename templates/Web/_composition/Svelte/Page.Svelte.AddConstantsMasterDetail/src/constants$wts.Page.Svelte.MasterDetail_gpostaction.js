@@ -0,0 +1,16 @@
+﻿const CONSTANTS = {};
+
+CONSTANTS.ERROR_MESSAGE = {};
+//^^
+//{[{
+CONSTANTS.ERROR_MESSAGE.MASTERDETAIL_GET =
+  "Request to get master detail text failed:";
+//}]}
+
+CONSTANTS.ENDPOINT = {};
+//^^
+//{[{
+CONSTANTS.ENDPOINT.MASTERDETAIL = "/api/masterdetail";
+//}]}
+
+export default CONSTANTS;
@@ -0,0 +1,14 @@
+﻿import App from "@/App.vue";
+import BootstrapVue from "bootstrap-vue";
+import router from "@/router";
+import Vue from "vue";
+//{[{
+import { addTokenToApiRequests, authGuard } from "@/authService";
+//}]}
+Vue.config.productionTip = false;
+Vue.use(BootstrapVue);
+//{[{
+
+addTokenToApiRequests();
+router.beforeEach(authGuard);
+//}]}
@@ -0,0 +1,54 @@
+﻿import { User, UserManager, WebStorageStateStore } from "oidc-client";
+import { NavigationGuard } from "vue-router";
+
+// TODO Web Template Studio: Set the VUE_APP_OIDC_* variables in a .env file to sign in with your
+// OpenID Connect provider. The defaults point to the mock identity provider of the project.
+const userManager = new UserManager({
+  authority: process.env.VUE_APP_OIDC_AUTHORITY || "http://localhost:3002",
+  client_id: process.env.VUE_APP_OIDC_CLIENT_ID || "wts-app",
+  scope: process.env.VUE_APP_OIDC_SCOPE || "openid profile email",
+  response_type: "code",
+  redirect_uri: `${window.location.origin}/auth-callback`,
+  post_logout_redirect_uri: `${window.location.origin}/login`,
+  loadUserInfo: false,
+  userStore: new WebStorageStateStore({ store: window.sessionStorage })
+});
+
+export const getUser = async (): Promise<User | null> => {
+  const user = await userManager.getUser();
+  return user && !user.expired ? user : null;
+};
+
+export const signIn = (returnPath: string = "/") => userManager.signinRedirect({ state: returnPath });
+
+// Resolves with the path the user was on before signing in
+export const completeSignIn = async (): Promise<string> => {
+  const user = await userManager.signinRedirectCallback();
+  return user.state || "/";
+};
+
+export const signOut = () => userManager.signoutRedirect();
+
+// Adds the access token of the signed in user to the requests to the back-end
+export const addTokenToApiRequests = () => {
+  const fetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo, init: RequestInit = {}) => {
+    const url = typeof input === "string" ? input : input.url;
+    const user = url.startsWith("/api") ? await getUser() : null;
+    if (!user) {
+      return fetch(input, init);
+    }
+    const headers = new Headers(init.headers || (typeof input === "string" ? {} : input.headers));
+    headers.set("Authorization", `Bearer ${user.access_token}`);
+    return fetch(input, { ...init, headers });
+  };
+};
+
+// Lets only signed in users through to the routes that are not public
+export const authGuard: NavigationGuard = async (to, from, next) => {
+  if (to.matched.some(route => route.meta.public)) {
+    return next();
+  }
+  const user = await getUser();
+  return user ? next() : next({ path: "/login", query: { redirect: to.fullPath } });
+};
@@ -0,0 +1,18 @@
+﻿import Vue from "vue";
+import VueRouter from "vue-router";
+//{[{
+import Login from "@/views/Login.vue";
+import AuthCallback from "@/views/AuthCallback.vue";
+import { signOut } from "@/authService";
+//}]}
+Vue.use(VueRouter);
+export default new VueRouter({
+  mode: "history",
+  routes: [
+    //{[{
+    { path: "/login", component: Login, meta: { public: true } },
+    { path: "/auth-callback", component: AuthCallback, meta: { public: true } },
+    { path: "/logout", beforeEnter: () => signOut() },
+    //}]}
+  ]
+});
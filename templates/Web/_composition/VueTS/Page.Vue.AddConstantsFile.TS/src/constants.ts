@@ -0,0 +1,10 @@
+﻿const CONSTANTS = {} as {
+  ERROR_MESSAGE: { [key: string]: string };
+  ENDPOINT: { [key: string]: string };
+};
+
+CONSTANTS.ERROR_MESSAGE = {};
+
+CONSTANTS.ENDPOINT = {};
+
+export default CONSTANTS;
@@ -0,0 +1,7 @@
+﻿import Vue from "vue";
+import VueRouter from "vue-router";
+//^^
+//{[{
+import wts.ItemName from "@/views/wts.ItemName.vue";
+//}]}
+Vue.use(VueRouter);
@@ -0,0 +1,8 @@
+﻿export default new VueRouter({
+  mode: "history",
+  routes: [
+    //{[{
+    { path: "/wts.ItemName", component: wts.ItemName },
+    //}]}
+  ]
+});
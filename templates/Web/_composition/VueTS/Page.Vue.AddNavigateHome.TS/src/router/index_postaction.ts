@@ -0,0 +1,8 @@
+﻿export default new VueRouter({
+  mode: "history",
+  routes: [
+    //{[{
+    { path: "/", component: wts.ItemName },
+    //}]}
+  ]
+});